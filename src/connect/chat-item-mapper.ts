@@ -1,17 +1,31 @@
 /**
  * @llm-note
- *   Dependencies: imports from [src/connect/types] | imported by [src/connect/handlers.ts]
- *   Data flow: pure function — maps server event → ChatItem mutations on the chatItems array | agent_image payloads already present in the transcript are skipped (reconnect re-delivery must not duplicate images)
- *   State/Effects: mutates chatItems array in-place (push via addItem, update existing entries)
- *   Integration: called by handlers.ts for stream event types (tool_call, llm_call, etc.)
+ *   Dependencies: imports from [src/connect/types] | imported by [src/connect/remote-agent.ts, src/host/host-session.ts]
+ *   Data flow: pure function — maps server event → ChatItem mutations on the chatItems array (or through addItem/removeItem for a caller whose array is immutable, passing a getter) | agent_image payloads already present in the transcript are skipped (reconnect re-delivery must not duplicate images)
+ *   State/Effects: never mutates an item — new items and updates to existing ones (same id, changed fields only) both go through addItem, which merges into a fresh object; removals go through removeItem | reads chatItems to find what an event updates
+ *   Integration: called by RemoteAgent._handleMessage and HostSession.emit for stream event types (tool_call, llm_call, etc.) | addItem/removeItem are the caller's hooks for change notifications
  */
 import { ChatItem, ChatItemType } from './types';
 
+/**
+ * Apply one server event to a transcript
+ *
+ * @param chatItems - The transcript, or a getter for callers that replace the array on every change
+ * @param addItem - Add an item, or merge fields into the item with the same id
+ * @param removeItem - Drop an item (default: splice it out of chatItems)
+ */
 export function mapEventToChatItem(
-  chatItems: ChatItem[],
+  chatItems: ChatItem[] | (() => ChatItem[]),
   event: Record<string, unknown>,
   addItem: (item: Partial<ChatItem> & { type: ChatItemType }) => void,
+  removeItem: (id: string) => void = id => {
+    const list = typeof chatItems === 'function' ? chatItems() : chatItems;
+    const index = list.findIndex(item => item.id === id);
+    if (index !== -1) list.splice(index, 1);
+  },
 ): void {
+  // Read through items() so a step sees what the previous addItem/removeItem did
+  const items = (): ChatItem[] => (typeof chatItems === 'function' ? chatItems() : chatItems);
   switch (event.type as string) {
     case 'tool_call': {
       const toolId = (event.tool_id || event.id) as string;
@@ -27,15 +41,17 @@ export function mapEventToChatItem(
 
     case 'tool_result': {
       const toolId = (event.tool_id || event.id) as string;
-      const existing = chatItems.find(
+      const existing = items().find(
         (e): e is ChatItem & { type: 'tool_call' } => e.type === 'tool_call' && e.id === toolId
       );
       if (existing) {
-        existing.status = event.status === 'error' ? 'error' : 'done';
-        existing.result = event.result as string;
-        if (typeof event.timing_ms === 'number') {
-          existing.timing_ms = event.timing_ms;
-        }
+        addItem({
+          type: 'tool_call',
+          id: toolId,
+          status: event.status === 'error' ? 'error' : 'done',
+          result: event.result as string,
+          ...(typeof event.timing_ms === 'number' && { timing_ms: event.timing_ms }),
+        });
       }
       break;
     }
@@ -52,21 +68,25 @@ export function mapEventToChatItem(
 
     case 'llm_result': {
       const llmId = event.id as string;
-      const existingThinking = chatItems.find(
+      const existingThinking = items().find(
         (e): e is ChatItem & { type: 'thinking' } => e.type === 'thinking' && e.id === llmId
       );
       if (existingThinking) {
-        existingThinking.status = event.status === 'error' ? 'error' : 'done';
-        if (typeof event.duration_ms === 'number') existingThinking.duration_ms = event.duration_ms;
-        if (event.model) existingThinking.model = event.model as string;
-        if (event.usage) {
-          existingThinking.usage = event.usage as {
-            input_tokens?: number; output_tokens?: number;
-            prompt_tokens?: number; completion_tokens?: number;
-            total_tokens?: number; cost?: number;
-          };
-        }
-        if (typeof event.context_percent === 'number') existingThinking.context_percent = event.context_percent;
+        addItem({
+          type: 'thinking',
+          id: llmId,
+          status: event.status === 'error' ? 'error' : 'done',
+          ...(typeof event.duration_ms === 'number' && { duration_ms: event.duration_ms }),
+          ...(event.model ? { model: event.model as string } : {}),
+          ...(event.usage ? {
+            usage: event.usage as {
+              input_tokens?: number; output_tokens?: number;
+              prompt_tokens?: number; completion_tokens?: number;
+              total_tokens?: number; cost?: number;
+            },
+          } : {}),
+          ...(typeof event.context_percent === 'number' && { context_percent: event.context_percent }),
+        });
       }
       break;
     }
@@ -100,21 +120,21 @@ export function mapEventToChatItem(
       // an unchanged page must show up at the turn that asked for it, not be
       // swallowed because the bytes match an old bubble. Same keep-last
       // semantics as oo-chat's dedupeUI on the replay path.
-      const prevIndex = chatItems.findIndex(
+      const prevIndex = items().findIndex(
         (it) => it.type === 'agent' && it.images?.includes(imageData)
       );
       if (prevIndex !== -1) {
-        const prev = chatItems[prevIndex] as ChatItem & { type: 'agent' };
-        prev.images = prev.images!.filter((img) => img !== imageData);
-        if (!prev.content && prev.images.length === 0) {
-          chatItems.splice(prevIndex, 1);
+        const prev = items()[prevIndex] as ChatItem & { type: 'agent' };
+        const images = prev.images!.filter((img) => img !== imageData);
+        if (!prev.content && images.length === 0) {
+          removeItem(prev.id);
+        } else {
+          addItem({ type: 'agent', id: prev.id, images });
         }
       }
-      const lastItem = chatItems[chatItems.length - 1];
+      const lastItem = items()[items().length - 1];
       if (lastItem?.type === 'agent') {
-        const lastAgent = lastItem as ChatItem & { type: 'agent' };
-        if (!lastAgent.images) lastAgent.images = [];
-        lastAgent.images.push(imageData);
+        addItem({ type: 'agent', id: lastItem.id, images: [...(lastItem.images || []), imageData] });
       } else {
         addItem({
           type: 'agent',
@@ -132,13 +152,17 @@ export function mapEventToChatItem(
       if (status === 'analyzing') {
         addItem({ type: 'intent', id: intentId, status: 'analyzing' });
       } else if (status === 'understood') {
-        const existing = chatItems.find(
+        const existing = items().find(
           (e): e is ChatItem & { type: 'intent' } => e.type === 'intent' && e.id === intentId
         );
         if (existing) {
-          existing.status = 'understood';
-          existing.ack = event.ack as string | undefined;
-          existing.is_build = event.is_build as boolean | undefined;
+          addItem({
+            type: 'intent',
+            id: intentId,
+            status: 'understood',
+            ack: event.ack as string | undefined,
+            is_build: event.is_build as boolean | undefined,
+          });
         }
       }
       break;
@@ -156,15 +180,19 @@ export function mapEventToChatItem(
           eval_path: event.eval_path as string | undefined,
         });
       } else if (evalStatus === 'done') {
-        const existing = chatItems.find(
+        const existing = items().find(
           (e): e is ChatItem & { type: 'eval' } => e.type === 'eval' && e.id === evalId
         );
         if (existing) {
-          existing.status = 'done';
-          existing.passed = event.passed as boolean | undefined;
-          existing.summary = event.summary as string | undefined;
-          existing.expected = event.expected as string | undefined;
-          existing.eval_path = event.eval_path as string | undefined;
+          addItem({
+            type: 'eval',
+            id: evalId,
+            status: 'done',
+            passed: event.passed as boolean | undefined,
+            summary: event.summary as string | undefined,
+            expected: event.expected as string | undefined,
+            eval_path: event.eval_path as string | undefined,
+          });
         }
       }
       break;
@@ -181,15 +209,19 @@ export function mapEventToChatItem(
           context_percent: event.context_percent as number | undefined,
         });
       } else {
-        const existing = chatItems.find(
+        const existing = items().find(
           (e): e is ChatItem & { type: 'compact' } => e.type === 'compact' && e.id === compactId
         );
         if (existing) {
-          existing.status = compactStatus;
-          existing.context_before = event.context_before as number | undefined;
-          existing.context_after = event.context_after as number | undefined;
-          existing.message = event.message as string | undefined;
-          existing.error = event.error as string | undefined;
+          addItem({
+            type: 'compact',
+            id: compactId,
+            status: compactStatus,
+            context_before: event.context_before as number | undefined,
+            context_after: event.context_after as number | undefined,
+            message: event.message as string | undefined,
+            error: event.error as string | undefined,
+          });
         }
       }
       break;
@@ -206,6 +238,16 @@ export function mapEventToChatItem(
       break;
     }
 
+    case 'CANCELLED': {
+      // Whatever was still running when the run was cancelled will never finish
+      for (const item of items()) {
+        if ((item.type === 'tool_call' || item.type === 'thinking') && item.status === 'running') {
+          addItem({ type: item.type, id: item.id, status: 'stopped' });
+        }
+      }
+      break;
+    }
+
     case 'files_received': {
       addItem({
         type: 'files_received',
@@ -0,0 +1,175 @@
+/**
+ * @llm-note
+ *   Dependencies: imports from [src/connect/types, src/connect/endpoint] | imported by [src/connect/remote-agent.ts] | tested by [tests/conversations.test.ts]
+ *   Data flow: RemoteAgent keeps the open conversation in its own _chatItems/_currentSession and copies it in with sync() before switching, listing or saving → the others wait here → serialize()/restore() move the whole set through ConnectOptions.storage | host SESSIONS summaries → adoptHostSessions() → conversations with only a session_id until opened
+ *   State/Effects: in-memory Map of conversations (insertion order = creation order) + the session_ids of deleted ones, so a later fetch does not bring them back
+ *   Integration: exposes ConversationStore, StoredConversation, HostSessionSummary | list() is what RemoteAgent.listConversations() returns
+ *   Errors: restore() ignores malformed data (returns false) | get() returns undefined for an unknown id; RemoteAgent turns that into an Error
+ */
+import { ApprovalMode, ChatItem, Conversation, SessionState } from './types';
+import { generateUUID } from './endpoint';
+
+/** A conversation with its transcript, as held in memory and saved to storage */
+export interface StoredConversation {
+  id: string;
+  /** Set by rename; otherwise the title is derived from the first prompt */
+  title?: string;
+  /** The host's title for a session fetched from it and not opened yet */
+  hostTitle?: string;
+  createdAt: number;
+  updatedAt: number;
+  session: SessionState | null;
+  chatItems: ChatItem[];
+}
+
+/** One entry of the host's SESSIONS reply */
+export interface HostSessionSummary {
+  session_id: string;
+  status?: string;
+  title?: string;
+  mode?: ApprovalMode;
+  turn?: number;
+  updated_at?: number;
+}
+
+const TITLE_LENGTH = 60;
+
+function titleOf(conversation: StoredConversation): string {
+  if (conversation.title) return conversation.title;
+  const firstPrompt = conversation.chatItems.find(item => item.type === 'user');
+  const text = firstPrompt && 'content' in firstPrompt ? firstPrompt.content.trim() : conversation.hostTitle || '';
+  if (!text) return 'New conversation';
+  return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 1)}…` : text;
+}
+
+export class ConversationStore {
+  currentId: string;
+
+  private conversations = new Map<string, StoredConversation>();
+  /** session_ids of deleted conversations */
+  private deleted = new Set<string>();
+
+  constructor() {
+    this.currentId = this.create().id;
+  }
+
+  get current(): StoredConversation {
+    return this.conversations.get(this.currentId)!;
+  }
+
+  get(id: string): StoredConversation | undefined {
+    return this.conversations.get(id);
+  }
+
+  /** The conversation whose session has this id */
+  bySession(sessionId: string): StoredConversation | undefined {
+    for (const conversation of this.conversations.values()) {
+      if (conversation.session?.session_id === sessionId) return conversation;
+    }
+    return undefined;
+  }
+
+  create(title?: string): StoredConversation {
+    const now = Date.now();
+    const conversation: StoredConversation = {
+      id: generateUUID(), createdAt: now, updatedAt: now, session: null, chatItems: [],
+      ...(title && { title }),
+    };
+    this.conversations.set(conversation.id, conversation);
+    return conversation;
+  }
+
+  /** Copy the open conversation's live state in */
+  sync(session: SessionState | null, chatItems: ChatItem[]): void {
+    const current = this.current;
+    current.session = session ? { ...session } : null;
+    current.chatItems = chatItems.filter(item => item.id !== '__optimistic__');
+  }
+
+  remove(id: string): void {
+    const sessionId = this.conversations.get(id)?.session?.session_id;
+    if (sessionId) this.deleted.add(sessionId);
+    this.conversations.delete(id);
+  }
+
+  /** Most recently updated first */
+  list(): Conversation[] {
+    return [...this.conversations.values()]
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(conversation => ({
+        id: conversation.id,
+        title: titleOf(conversation),
+        ...(conversation.session?.session_id && { sessionId: conversation.session.session_id }),
+        mode: conversation.session?.mode || 'safe',
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt,
+      }));
+  }
+
+  /** Add the host's sessions this client does not have yet (and did not delete) */
+  adoptHostSessions(sessions: HostSessionSummary[]): void {
+    for (const summary of sessions) {
+      if (!summary.session_id || this.deleted.has(summary.session_id) || this.bySession(summary.session_id)) continue;
+      const id = generateUUID();
+      const updatedAt = typeof summary.updated_at === 'number' ? summary.updated_at : Date.now();
+      this.conversations.set(id, {
+        id,
+        createdAt: updatedAt,
+        updatedAt,
+        hostTitle: summary.title,
+        session: { session_id: summary.session_id, ...(summary.mode && { mode: summary.mode }) },
+        chatItems: [],
+      });
+    }
+  }
+
+  /** Everything worth saving, or null when there is nothing (one empty conversation) */
+  serialize(): string | null {
+    const conversations = [...this.conversations.values()];
+    const empty = conversations.length === 1 && !conversations[0].session && !conversations[0].title &&
+      conversations[0].chatItems.length === 0 && this.deleted.size === 0;
+    if (empty) return null;
+    return JSON.stringify({ current: this.currentId, conversations, deleted: [...this.deleted] });
+  }
+
+  /**
+   * Bring back what serialize() saved. The saved open conversation becomes the
+   * open one; `live` (items and session added before the load finished) goes on
+   * top of it, unless `keepCurrent` is false (reset() ran meanwhile).
+   *
+   * @returns false when there was nothing usable to restore
+   */
+  restore(stored: string | null, keepCurrent: boolean): boolean {
+    let saved: { current?: string; conversations?: StoredConversation[]; deleted?: string[]; session?: SessionState; chat_items?: ChatItem[] };
+    try {
+      saved = stored ? JSON.parse(stored) : null;
+    } catch {
+      return false;
+    }
+    if (!saved) return false;
+    // A single transcript saved before conversations existed
+    if (!saved.conversations && (saved.session || saved.chat_items)) {
+      const now = Date.now();
+      saved = {
+        conversations: [{ id: generateUUID(), createdAt: now, updatedAt: now, session: saved.session || null, chatItems: saved.chat_items || [] }],
+      };
+      saved.current = saved.conversations![0].id;
+    }
+
+    const live = this.current;
+    for (const conversation of saved.conversations || []) {
+      if (!this.conversations.has(conversation.id)) this.conversations.set(conversation.id, conversation);
+    }
+    for (const sessionId of saved.deleted || []) this.deleted.add(sessionId);
+
+    const savedCurrent = saved.current ? this.conversations.get(saved.current) : undefined;
+    if (keepCurrent && savedCurrent && savedCurrent !== live) {
+      savedCurrent.chatItems = [...savedCurrent.chatItems, ...live.chatItems];
+      if (live.session) savedCurrent.session = live.session;
+      savedCurrent.updatedAt = Math.max(savedCurrent.updatedAt, live.chatItems.length ? live.updatedAt : 0);
+      this.conversations.delete(live.id);
+      this.currentId = savedCurrent.id;
+    }
+    return true;
+  }
+}
@@ -1,9 +1,9 @@
 /**
  * @llm-note
- *   Dependencies: imports from [src/connect/types] | imported by [src/connect/remote-agent.ts, src/connect/handlers.ts, src/connect/index.ts]
+ *   Dependencies: imports from [src/connect/types] | imported by [src/connect/remote-agent.ts, src/connect/handlers.ts, src/connect/index.ts, src/host/host-session.ts, src/host/serve.ts, src/host/relay.ts]
  *   Data flow: resolveEndpoint fetches agent endpoints from relay → verifies identity → returns {httpUrl, wsUrl} | fetchAgentInfo reads the relay record (endpoints, last_seen, published profile) and merges a successful direct /info probe over it
  *   State/Effects: HTTP fetch requests to relay/agent endpoints (timeout-bounded) | no persistent state
- *   Integration: exposes resolveEndpoint(), fetchAgentInfo(), getWebSocketCtor(), generateUUID(), normalizeRelayUrl(), DEFAULT_RELAY
+ *   Integration: exposes resolveEndpoint(), fetchAgentInfo(), getWebSocketCtor(), generateUUID(), normalizeRelayUrl(), relayHttpUrl(), DEFAULT_RELAY
  */
 import { AgentInfo, ResolvedEndpoint, WebSocketCtor } from './types';
 
@@ -40,6 +40,13 @@ export function normalizeRelayUrl(relayUrl: string): string {
   return normalized;
 }
 
+/**
+ * HTTP base of a relay, for its /api routes (wss:// → https://, ws:// → http:// so local relays work)
+ */
+export function relayHttpUrl(relayUrl: string): string {
+  return normalizeRelayUrl(relayUrl).replace(/^ws(s?):\/\//, 'http$1://');
+}
+
 function sortByProximity(endpoints: string[]): string[] {
   return [...endpoints].sort((a, b) => {
     const getPriority = (url: string): number => {
@@ -158,13 +165,12 @@ export async function resolveEndpoint(
   relayUrl: string,
   timeoutMs = 3000
 ): Promise<ResolvedEndpoint | null> {
-  const normalizedRelay = normalizeRelayUrl(relayUrl);
-  const httpsRelay = normalizedRelay.replace(/^wss?:\/\//, 'https://');
+  const httpRelay = relayHttpUrl(relayUrl);
 
   // Outer lookup — on any fetch failure (DNS/TLS/timeout/CORS) resolve to
   // null so RemoteAgent falls back to the relay /ws/input path. Swallowing
   // here is the contract, not hiding a bug.
-  const agentInfo = await fetch(`${httpsRelay}/api/agents/${agentAddress}`, {
+  const agentInfo = await fetch(`${httpRelay}/api/agents/${agentAddress}`, {
     signal: AbortSignal.timeout(timeoutMs),
   })
     .then(r => r.ok ? r.json() as Promise<{ endpoints?: string[] }> : null)
@@ -214,10 +220,10 @@ export async function fetchAgentInfo(
   agentAddress: string,
   relayUrl = DEFAULT_RELAY,
 ): Promise<AgentInfo> {
-  const httpsRelay = normalizeRelayUrl(relayUrl).replace(/^wss?:\/\//, 'https://');
+  const httpRelay = relayHttpUrl(relayUrl);
 
   // Outer lookup — fetch failures surface as "offline" rather than crashing.
-  const relayData = await fetch(`${httpsRelay}/api/agents/${agentAddress}`, {
+  const relayData = await fetch(`${httpRelay}/api/agents/${agentAddress}`, {
     signal: AbortSignal.timeout(5000),
   })
     .then(r => r.ok ? r.json() as Promise<{
@@ -1,16 +1,18 @@
 /**
  * @llm-note
- *   Dependencies: imports from [src/connect/types, src/connect/remote-agent, src/connect/endpoint] | imported by [src/index.ts, src/react/]
+ *   Dependencies: imports from [src/connect/types, src/connect/remote-agent, src/connect/endpoint, src/connect/storage, src/connect/relay-pool] | imported by [src/index.ts, src/react/]
  *   Data flow: connect(agentAddress, options?) → new RemoteAgent(agentAddress, options)
  *   State/Effects: pure factory, no state
- *   Integration: barrel for connect subsystem — re-exports types, RemoteAgent, fetchAgentInfo
+ *   Integration: barrel for connect subsystem — re-exports types, RemoteAgent, fetchAgentInfo, storage adapters, RelayPool
  */
 import { ConnectOptions } from './types';
 import { RemoteAgent } from './remote-agent';
 
 export * from './types';
 export { fetchAgentInfo } from './endpoint';
+export { fileStorage, indexedDBStorage, memoryStorage, defaultStorage } from './storage';
 export { RemoteAgent } from './remote-agent';
+export { RelayPool, type RelayPoolOptions } from './relay-pool';
 
 /**
  * Connect to a remote agent.
@@ -0,0 +1,67 @@
+/**
+ * @llm-note
+ *   Dependencies: imports from [src/connect/types] | imported by [src/connect/remote-agent.ts] | tested by [tests/outbox.test.ts]
+ *   Data flow: RemoteAgent queues a frame → add() appends and persists the list as JSON under one key → RemoteAgent sends entries[0] when its turn comes → remove(id) once the host answered it
+ *   State/Effects: entries is the in-memory copy, updated synchronously | writes to the StorageAdapter are chained so they land in call order
+ *   Integration: exposes Outbox | one per RemoteAgent with ConnectOptions.outbox, keyed connectonion_outbox_<address>
+ *   Errors: add() rejects when the entry could not be persisted | a failed remove() is dropped (the entry is already out of memory; a stale copy is resent with the same id and the host ignores it)
+ */
+import { OutboxEntry, StorageAdapter } from './types';
+
+/**
+ * Frames waiting to be sent, persisted so they survive a reload or restart
+ */
+export class Outbox {
+  entries: OutboxEntry[] = [];
+  /** Settles once the entries stored by an earlier run are loaded */
+  readonly ready: Promise<void>;
+
+  private writes: Promise<void>;
+
+  constructor(private storage: StorageAdapter, private key: string) {
+    this.ready = Promise.resolve()
+      .then(() => storage.getItem(key))
+      .then(stored => {
+        const saved = stored ? JSON.parse(stored) as OutboxEntry[] : [];
+        this.entries = [...saved.filter(entry => !this.has(entry.id)), ...this.entries];
+      })
+      .catch(() => undefined);
+    this.writes = this.ready;
+  }
+
+  /** Session of the oldest entry, for an agent that has none yet */
+  get sessionId(): string | undefined {
+    return this.entries.find(entry => entry.session_id)?.session_id;
+  }
+
+  has(id: string): boolean {
+    return this.entries.some(entry => entry.id === id);
+  }
+
+  async add(entry: OutboxEntry): Promise<void> {
+    await this.ready;
+    if (!this.has(entry.id)) this.entries.push(entry);
+    await this.save();
+  }
+
+  remove(id: string): void {
+    if (!this.has(id)) return;
+    this.entries = this.entries.filter(entry => entry.id !== id);
+    this.save().catch(() => undefined);
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.save().catch(() => undefined);
+  }
+
+  private save(): Promise<void> {
+    const write = this.writes.then(async () => {
+      if (this.entries.length) await this.storage.setItem(this.key, JSON.stringify(this.entries));
+      else await this.storage.removeItem(this.key);
+    });
+    // One failed write must not block the ones after it
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+}
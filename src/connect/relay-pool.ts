@@ -0,0 +1,290 @@
+/**
+ * @purpose Share one relay WebSocket between many RemoteAgents: each agent gets a channel that looks like its own socket
+ *
+ * @graph One socket, many agents
+ *
+ *   RemoteAgent A ── channel a ─┐                         ┌─▶ agent 0xA (client_id 1)
+ *   RemoteAgent B ── channel b ─┼── WS <relay>/ws/input ──┼─▶ agent 0xB (client_id 2)
+ *   checkSessionStatus ─ c ─────┘   {..., to, channel}    └─▶ agent 0xC (client_id 3)
+ *
+ *   open ──▶ CHANNELS {payload: {timestamp}, from, signature} (signed with the pool's keys)
+ *     ├─ CHANNELS_READY ──▶ every waiting channel gets onopen
+ *     ├─ ERROR or any other frame (the relay refused channels) ──▶ shared socket closed;
+ *     │    each waiting channel, and every later socket(), gets a WebSocket of its own
+ *     └─ the socket failing or closing, or no answer in handshakeTimeoutMs ──▶ shared socket
+ *          closed; only the waiting channels get a WebSocket of their own, and the next
+ *          socket() tries CHANNELS again
+ *   client → relay: every frame carries its channel id; the relay binds a channel
+ *     to the first `to` it names, like it binds a whole socket without channels
+ *   relay → client: replies carry the channel back ──▶ that channel's onmessage
+ *   CLOSE_CHANNEL {channel} ──▶ the agent sees CLIENT_DISCONNECTED for that channel only
+ *   CHANNEL_CLOSED {channel} (agent left or dropped the client) ──▶ that channel's onclose
+ *   PING from the relay ──▶ PONG, once for everyone; 60s of silence closes the socket
+ *     and every channel gets onclose
+ *
+ * @llm-note
+ *   Dependencies: imports from [src/connect/types, src/connect/endpoint, src/connect/auth, src/address] | imported by [src/connect/remote-agent.ts, src/connect/index.ts] | tested by [tests/relay-pool.test.ts]
+ *   Data flow: RemoteAgent (ConnectOptions.pool, relay route) → pool.socket() → PooledSocket.send() adds `channel` → shared socket | shared socket frame → channels.get(frame.channel) → onmessage without `channel`
+ *   State/Effects: opens the shared socket with the first channel and closes it when the last one closes (reference counted) | one 10s interval checks the shared socket for 60s of silence | mode goes from 'unknown' to 'channels', or to 'sockets' for good once the relay answers CHANNELS with anything but CHANNELS_READY (a handshake that times out or drops changes nothing) | RelayPool.shared() keeps one pool per relay URL for `pool: true`
+ *   Integration: exposes RelayPool, RelayPoolOptions | a channel is a WebSocketLike, so RemoteAgent's connect, reconnect, SESSION_STATUS and LIST_SESSIONS paths use it unchanged | channels are a protocol extension (CHANNELS, `channel`, CLOSE_CHANNEL, CHANNEL_CLOSED) that serveRelay speaks; other relays get one socket per agent | each agent still signs its own CONNECT
+ *   Errors: send() on a channel that is not open throws | a failed or lost shared socket fires onerror (before open) and onclose on every channel; the next socket() opens a new one
+ */
+import * as address from '../address';
+import { WebSocketCtor, WebSocketLike } from './types';
+import { generateUUID, getWebSocketCtor, normalizeRelayUrl } from './endpoint';
+import { ensureKeys, signPayload } from './auth';
+
+export interface RelayPoolOptions {
+  /** Relay to multiplex over (default: wss://oo.openonion.ai) */
+  relayUrl?: string;
+  /** WebSocket implementation (default: the global WebSocket, else the ws package) */
+  wsCtor?: WebSocketCtor;
+  /** Keys that sign the CHANNELS handshake (default: the saved keys, else new ones, as connect() does) */
+  keys?: address.AddressData;
+  /** How long the relay has to answer CHANNELS before the waiting agents get sockets of their own (default: 5000) */
+  handshakeTimeoutMs?: number;
+}
+
+/** Shared socket silence after which every channel is considered lost */
+const SILENCE_MS = 60000;
+const HANDSHAKE_TIMEOUT_MS = 5000;
+const sharedPools = new Map<string, RelayPool>();
+
+/**
+ * One channel of the shared socket, handed to RemoteAgent in place of a WebSocket
+ */
+class PooledSocket implements WebSocketLike {
+  onopen: ((ev?: unknown) => unknown) | null = null;
+  onmessage: ((ev: { data: unknown }) => unknown) | null = null;
+  onerror: ((ev: unknown) => unknown) | null = null;
+  onclose: ((ev: unknown) => unknown) | null = null;
+  opened = false;
+  /** The socket of its own this channel got when the CHANNELS handshake did not succeed */
+  direct: WebSocketLike | null = null;
+
+  constructor(private pool: RelayPool, readonly id: string) {}
+
+  send(data: unknown): void {
+    if (this.direct) this.direct.send(data);
+    else this.pool._send(this, data);
+  }
+
+  close(): void {
+    if (this.direct) this.direct.close();
+    else this.pool._release(this);
+  }
+}
+
+/**
+ * Multiplex many agent connections over one relay WebSocket
+ *
+ * @example
+ * ```typescript
+ * const pool = new RelayPool();
+ * const agents = addresses.map(address => connect(address, { pool }));
+ * ```
+ */
+export class RelayPool {
+  readonly relayUrl: string;
+
+  private WS: WebSocketCtor;
+  private keys: address.AddressData | undefined;
+  private handshakeTimeoutMs: number;
+  private ws: WebSocketLike | null = null;
+  private ready = false;
+  private _mode: 'unknown' | 'channels' | 'sockets' = 'unknown';
+  private channels = new Map<string, PooledSocket>();
+  private lastActivityTime = 0;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private handshakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: RelayPoolOptions = {}) {
+    this.relayUrl = normalizeRelayUrl(options.relayUrl || 'wss://oo.openonion.ai');
+    this.WS = options.wsCtor || getWebSocketCtor();
+    this.keys = options.keys;
+    this.handshakeTimeoutMs = options.handshakeTimeoutMs ?? HANDSHAKE_TIMEOUT_MS;
+  }
+
+  /** The pool every `connect(address, { pool: true })` for this relay shares */
+  static shared(relayUrl = 'wss://oo.openonion.ai', wsCtor?: WebSocketCtor): RelayPool {
+    const key = normalizeRelayUrl(relayUrl);
+    let pool = sharedPools.get(key);
+    if (!pool) {
+      pool = new RelayPool({ relayUrl: key, wsCtor });
+      sharedPools.set(key, pool);
+    }
+    return pool;
+  }
+
+  /** Open channels (the shared socket is open while this is above 0) */
+  get size(): number {
+    return this.channels.size;
+  }
+
+  get connected(): boolean {
+    return this.ready;
+  }
+
+  /**
+   * 'channels' once the relay accepted CHANNELS, 'sockets' once it refused
+   * them (every agent then has a socket of its own), else 'unknown'
+   */
+  get mode(): 'unknown' | 'channels' | 'sockets' {
+    return this._mode;
+  }
+
+  /** Open a channel; it fires onopen once the relay has accepted the shared socket's CHANNELS */
+  socket(): WebSocketLike {
+    if (this._mode === 'sockets') return new this.WS(`${this.relayUrl}/ws/input`);
+    const channel = new PooledSocket(this, generateUUID());
+    this.channels.set(channel.id, channel);
+    if (this.ready) setTimeout(() => this.open(channel), 0);
+    else this.connect();
+    return channel;
+  }
+
+  /** Close the shared socket and every channel on it */
+  close(): void {
+    this.lose({});
+  }
+
+  /** @internal */
+  _send(channel: PooledSocket, data: unknown): void {
+    if (!this.ready || !channel.opened || this.channels.get(channel.id) !== channel) {
+      throw new Error('WebSocket is not open');
+    }
+    const frame = JSON.parse(typeof data === 'string' ? data : String(data));
+    this.ws!.send(JSON.stringify({ ...frame, channel: channel.id }));
+  }
+
+  /** @internal */
+  _release(channel: PooledSocket): void {
+    if (this.channels.get(channel.id) !== channel) return;
+    this.channels.delete(channel.id);
+    if (this.ready && channel.opened) this.ws!.send(JSON.stringify({ type: 'CLOSE_CHANNEL', channel: channel.id }));
+    if (this.channels.size === 0) this.closeSocket();
+  }
+
+  private connect(): void {
+    if (this.ws) return;
+    const ws = new this.WS(`${this.relayUrl}/ws/input`);
+    this.ws = ws;
+    ws.onopen = () => {
+      this.lastActivityTime = Date.now();
+      this.keys = ensureKeys(this.keys);
+      ws.send(JSON.stringify({ type: 'CHANNELS', ...signPayload(this.keys, { timestamp: Math.floor(Date.now() / 1000) }) }));
+      this.handshakeTimer = setTimeout(() => this.fallBack(false), this.handshakeTimeoutMs);
+    };
+    ws.onmessage = (evt: { data: unknown }) => this.handleMessage(evt);
+    // A handshake that drops may be the network rather than the relay: the waiting channels
+    // are served by sockets of their own, and the next socket() asks for channels again
+    ws.onerror = (ev: unknown) => (this.handshakeTimer ? this.fallBack(false) : this.lose(ev));
+    ws.onclose = (ev: unknown) => (this.handshakeTimer ? this.fallBack(false) : this.lose(ev));
+  }
+
+  private open(channel: PooledSocket): void {
+    if (channel.opened || this.channels.get(channel.id) !== channel) return;
+    channel.opened = true;
+    channel.onopen?.({});
+  }
+
+  private handleMessage(evt: { data: unknown }): void {
+    this.lastActivityTime = Date.now();
+    let frame: Record<string, unknown>;
+    try {
+      frame = JSON.parse(typeof evt.data === 'string' ? evt.data : String(evt.data));
+    } catch {
+      return;
+    }
+    const { channel: id, ...rest } = frame;
+    if (!this.ready) {
+      if (rest.type === 'PING') this.ws?.send(JSON.stringify({ type: 'PONG' }));
+      else if (rest.type === 'CHANNELS_READY') this.accept();
+      else this.fallBack(true);
+      return;
+    }
+    if (typeof id !== 'string') {
+      // Relay-level frames: one PONG answers for every channel
+      if (rest.type === 'PING') this.ws?.send(JSON.stringify({ type: 'PONG' }));
+      return;
+    }
+    const channel = this.channels.get(id);
+    if (!channel) return;
+    if (rest.type === 'CHANNEL_CLOSED') {
+      this.channels.delete(id);
+      if (this.channels.size === 0) this.closeSocket();
+      channel.onclose?.({});
+      return;
+    }
+    channel.onmessage?.({ data: JSON.stringify(rest) });
+  }
+
+  /** The relay speaks channels: open every channel waiting for it */
+  private accept(): void {
+    this.clearHandshakeTimer();
+    this.ready = true;
+    this._mode = 'channels';
+    this.startPingMonitor();
+    for (const channel of [...this.channels.values()]) this.open(channel);
+  }
+
+  /**
+   * Give every waiting channel a socket of its own
+   *
+   * @param refused - The relay answered CHANNELS with something else: later socket() calls skip channels too
+   */
+  private fallBack(refused: boolean): void {
+    if (refused) this._mode = 'sockets';
+    const channels = [...this.channels.values()];
+    this.channels.clear();
+    this.closeSocket();
+    for (const channel of channels) {
+      const ws = new this.WS(`${this.relayUrl}/ws/input`);
+      channel.direct = ws;
+      ws.onopen = (ev?: unknown) => channel.onopen?.(ev);
+      ws.onmessage = (ev: { data: unknown }) => channel.onmessage?.(ev);
+      ws.onerror = (ev: unknown) => channel.onerror?.(ev);
+      ws.onclose = (ev: unknown) => channel.onclose?.(ev);
+    }
+  }
+
+  /** The shared socket failed or went silent: every channel on it is gone */
+  private lose(ev: unknown): void {
+    const channels = [...this.channels.values()];
+    this.channels.clear();
+    this.closeSocket();
+    for (const channel of channels) {
+      if (!channel.opened) channel.onerror?.(ev);
+      channel.onclose?.(ev);
+    }
+  }
+
+  private closeSocket(): void {
+    this.clearHandshakeTimer();
+    this.stopPingMonitor();
+    if (this.ws) {
+      this.ws.onopen = null;
+      this.ws.onerror = null;
+      this.ws.onclose = null;
+      this.ws.onmessage = null;
+      this.ws.close();
+      this.ws = null;
+    }
+    this.ready = false;
+  }
+
+  private startPingMonitor(): void {
+    this.stopPingMonitor();
+    this.pingTimer = setInterval(() => {
+      if (Date.now() - this.lastActivityTime > SILENCE_MS) this.lose({});
+    }, 10000);
+  }
+
+  private stopPingMonitor(): void {
+    if (this.pingTimer) { clearInterval(this.pingTimer); this.pingTimer = null; }
+  }
+
+  private clearHandshakeTimer(): void {
+    if (this.handshakeTimer) { clearTimeout(this.handshakeTimer); this.handshakeTimer = null; }
+  }
+}
@@ -1,9 +1,9 @@
 /**
  * @llm-note
- *   Dependencies: imports from [src/connect/types, src/connect/endpoint, src/connect/auth, src/connect/chat-item-mapper, src/address]
+ *   Dependencies: imports from [src/connect/types, src/connect/endpoint, src/connect/auth, src/connect/chat-item-mapper, src/connect/conversations, src/connect/outbox, src/connect/relay-pool, src/connect/storage, src/address]
  *   Data flow: ensureConnected() opens persistent WS + INIT auth → input() sends INPUT on existing WS → handleMessage() dispatches events → resolves on OUTPUT | input() has no wall-clock deadline (ask_user runs pend on the human); the 60s-silence ping monitor detects dead connections
- *   State/Effects: owns persistent WebSocket + mutable _chatItems + _currentSession
- *   Integration: public API consumed by connect() factory and React useAgentForHuman hook
+ *   State/Effects: owns persistent WebSocket + _chatItems (a new array on every change, never mutated, so `ui` can be compared by reference) + _currentSession (the open conversation; the others wait in a ConversationStore) | with ConnectOptions.storage, saves every conversation (connectonion_chat_<address>) on each flush and restores them at construction | with ConnectOptions.outbox, persists unanswered INPUTs and offline answers through a StorageAdapter
+ *   Integration: public API consumed by connect() factory and React useAgentForHuman hook | listConversations()/createConversation()/switchConversation()/renameConversation()/deleteConversation()/fetchConversations() manage several sessions with one address | on()/once()/off() typed events (RemoteAgentEvents): chat item events fire from _addChatItem/_removeChatItem/_mergeServerChatItems, state events from _notify() just before onMessage
  *
  * Connect process (first input() on a fresh agent):
  *
@@ -33,21 +33,62 @@
  *   answer to "who are you" — every skill, not the public subset /info returns)
  *   and DASHBOARD_SNAPSHOT. Both land on the agent as `profile` / `dashboardHtml`.
  *
+ *   Cancel: cancel()/stop() → CANCEL {input_id} to the host, and locally at once:
+ *   input() resolves {cancelled: true}, running thinking/tool_call items → 'stopped',
+ *   status 'idle'. The host answers CANCELLED (matched by input_id, so a late
+ *   one cannot settle the next input()).
+ *
+ *   Conversations: switchConversation(id) copies ui + session into the store,
+ *   closes the socket and loads the other conversation; the next CONNECT resumes
+ *   its session_id. fetchConversations() sends a signed LIST_SESSIONS and adds
+ *   the host's SESSIONS this client lacks (session_id only; the history comes
+ *   with the CONNECTED once opened). Refused while a run is in progress.
+ *
+ *   Storage (opt-in): the constructor starts loading the saved conversations;
+ *   _doConnect waits for it, so the CONNECT resumes the saved session_id and
+ *   turn, and a host that moved on answers server_newer + chat_items, merged by
+ *   _mergeServerChatItems like any other reconnect.
+ *
+ *   Outbox (opt-in): every INPUT is stored before it is sent and dropped once the
+ *   host answers it (OUTPUT/ERROR/CANCELLED). A connect failure or a drop leaves
+ *   it stored and input() resolves {queued: true}; answers given while offline
+ *   are stored too. After each CONNECTED, _flushOutbox sends the entries in
+ *   order — answers at once, INPUTs one run at a time — with their original
+ *   input_id, so the host answers a repeat from its record instead of running
+ *   it again.
+ *
+ *   Pool (opt-in, ConnectOptions.pool): on the relay route every socket this
+ *   class opens (_openSocket) is a channel of the RelayPool's shared socket
+ *   instead; the pool watches that socket for silence, so the per-agent
+ *   ping monitor stays off. On a relay without channels the pool hands out
+ *   plain sockets, and those are watched as usual.
+ *
  *   Failure paths: ws error/close or 60s ping silence → _handleConnectionLoss →
  *   rejects pending connect/input; ERROR frame → _error set, input() rejected.
+ *   With autoReconnect the loss instead goes to _scheduleReconnect: state
+ *   'reconnecting', jittered exponential backoff, CONNECT with the session_id on
+ *   each attempt, and _resumeAfterReconnect settles the still-pending input()
+ *   from the CONNECTED status. Only maxAttempts failures reject it.
  *   reconnect(sessionId) is the same shape but sends CONNECT with the stored
  *   session and a 60s timer — connection establishment is the only bounded wait.
  */
 import * as address from '../address';
 import {
-  AgentInfo, AgentStatus, ApprovalMode, ChatItem, ChatItemType, ConnectionState,
-  ConnectOptions, RemoteSessionStatus, ResolvedEndpoint, Response, SessionState, WebSocketCtor, WebSocketLike,
+  AgentInfo, AgentStatus, ApprovalMode, ChatItem, ChatItemType, ConnectionState, Conversation,
+  ConnectOptions, OutboxEntry, ReconnectOptions, StorageAdapter, RemoteAgentEventName, RemoteAgentEvents, RemoteSessionStatus, ResolvedEndpoint, Response, SessionState, WebSocketCtor, WebSocketLike,
 } from './types';
 import {
   AgentInfoSource, getWebSocketCtor, generateUUID, normalizeRelayUrl, resolveEndpoint, toAgentInfo,
 } from './endpoint';
 import { ensureKeys, signPayload } from './auth';
 import { mapEventToChatItem } from './chat-item-mapper';
+import { ConversationStore, HostSessionSummary } from './conversations';
+import { Outbox } from './outbox';
+import { RelayPool } from './relay-pool';
+import { defaultStorage } from './storage';
+
+/** Answers the outbox keeps while offline (a signed ONBOARD_SUBMIT would expire) */
+const QUEUED_ANSWERS = new Set(['ASK_USER_RESPONSE', 'APPROVAL_RESPONSE', 'PLAN_REVIEW_RESPONSE', 'ULW_RESPONSE']);
 
 export class RemoteAgent {
   readonly address: string;
@@ -58,6 +99,8 @@ export class RemoteAgent {
   _resolvedEndpoint?: ResolvedEndpoint;
   _endpointResolutionAttempted = false;
   _WS: WebSocketCtor;
+  /** Shared relay socket (ConnectOptions.pool); relay connections become channels of it */
+  _pool: RelayPool | null = null;
 
   // Public reactive state
   _status: AgentStatus = 'idle';
@@ -107,15 +150,89 @@ export class RemoteAgent {
   // attempt settles so a failed connect can be retried.
   private _connecting: Promise<void> | null = null;
 
+  // Auto-reconnect (opt-in via ConnectOptions.autoReconnect). _reconnecting spans
+  // the whole episode, from the first loss to success or giving up, so a socket's
+  // error+close pair or a failed attempt's own close never restarts the count.
+  private _reconnectOptions: Required<ReconnectOptions> | null = null;
+  private _reconnecting = false;
+  private _reconnectAttempt = 0;
+  private _reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  // The INPUT awaiting its OUTPUT, sent again if the host never got it before a drop
+  private _pendingInput: Record<string, unknown> | null = null;
+  // The last CONNECTED frame; its status decides how a reconnect settles the pending input
+  private _lastConnected: Record<string, unknown> | null = null;
+  // Bumped by cancel(), so an input() still waiting on the connection does not send
+  private _cancels = 0;
+
+  // Opt-in (ConnectOptions.outbox): INPUTs stay here until the host answers them, and
+  // answers given while offline until they are sent. Flushed in order after CONNECTED.
+  private _outbox: Outbox | null = null;
+  // input() calls whose INPUT waits behind older outbox entries, by input_id
+  private _outboxWaiters = new Map<string, { resolve: (value: Response) => void; reject: (reason?: unknown) => void }>();
+
+  // Every conversation with this agent. The open one lives in _chatItems and
+  // _currentSession like it always has, and is copied in (sync) before switching,
+  // listing or saving; the others wait in the store.
+  private _conversations = new ConversationStore();
+  private _sessionsRequest: {
+    resolves: Array<(sessions: HostSessionSummary[]) => void>;
+    timer: ReturnType<typeof setTimeout>;
+  } | null = null;
+
+  // Opt-in (ConnectOptions.storage): the conversations are saved under
+  // connectonion_chat_<address> on every flush and restored at construction.
+  // Nothing is saved until the restore settles, so an early input() cannot
+  // overwrite the saved transcripts.
+  private _storage: StorageAdapter | null = null;
+  private _restored: Promise<void> = Promise.resolve();
+  private _restoring = false;
+  // Last state written, to skip writes when a frame changed nothing
+  private _saved: string | null = null;
+  // Bumped by reset(), so a restore still loading does not bring back what was reset
+  private _resets = 0;
+
   _onMessage: (() => void) | null = null;
   set onMessage(fn: (() => void) | null) { this._onMessage = fn; }
 
+  // Typed listeners (on/off/once). Chat item events fire as items change; state
+  // events fire from _notify(), diffed against what was last emitted, so a value
+  // that flips and flips back inside one frame is not reported.
+  private _listeners = new Map<RemoteAgentEventName, Array<{ handler: (payload: never) => void; once: boolean }>>();
+  private _emitted: {
+    status: AgentStatus;
+    connectionState: ConnectionState;
+    error: Error | null;
+    profile: AgentInfo | null;
+    dashboardHtml: string | null;
+  } = { status: 'idle', connectionState: 'disconnected', error: null, profile: null, dashboardHtml: null };
+
   constructor(agentAddress: string, options: ConnectOptions = {}) {
     this.address = agentAddress;
     this._relayUrl = normalizeRelayUrl(options.relayUrl || 'wss://oo.openonion.ai');
     this._directUrl = options.directUrl?.replace(/\/$/, '');
     this._WS = options.wsCtor || getWebSocketCtor();
+    if (options.pool) {
+      this._pool = options.pool === true ? RelayPool.shared(this._relayUrl, options.wsCtor) : options.pool;
+      this._relayUrl = this._pool.relayUrl;
+    }
     if (options.keys) this._keys = options.keys;
+    if (options.autoReconnect) {
+      const custom: ReconnectOptions = options.autoReconnect === true ? {} : options.autoReconnect;
+      this._reconnectOptions = {
+        maxAttempts: custom.maxAttempts ?? 5,
+        initialDelayMs: custom.initialDelayMs ?? 1000,
+        maxDelayMs: custom.maxDelayMs ?? 30000,
+      };
+    }
+    if (options.storage) {
+      this._storage = options.storage === true ? defaultStorage() : options.storage;
+      this._restoring = true;
+      this._restored = this._restore();
+    }
+    if (options.outbox) {
+      const storage = options.outbox === true ? this._storage || defaultStorage() : options.outbox;
+      this._outbox = new Outbox(storage, `connectonion_outbox_${agentAddress}`);
+    }
   }
 
   // --- Public getters ---
@@ -129,6 +246,40 @@ export class RemoteAgent {
   get error(): Error | null { return this._error || null; }
   get dashboardHtml(): string | null { return this._dashboardHtml; }
   get profile(): AgentInfo | null { return this._profile; }
+  /** Id of the open conversation (see listConversations()) */
+  get conversationId(): string { return this._conversations.currentId; }
+  /** Frames waiting to be sent (empty without ConnectOptions.outbox) */
+  get outbox(): readonly OutboxEntry[] { return this._outbox?.entries || []; }
+
+  // --- Events ---
+
+  /**
+   * Subscribe to an event
+   *
+   * @returns A function that unsubscribes the handler
+   *
+   * @example
+   * ```typescript
+   * agent.on('chatItemAdded', item => render(item));
+   * agent.on('approvalNeeded', item => showApproval(item.tool, item.arguments));
+   * ```
+   */
+  on<K extends RemoteAgentEventName>(event: K, handler: (payload: RemoteAgentEvents[K]) => void): () => void {
+    return this._subscribe(event, handler, false);
+  }
+
+  /** Subscribe to the next occurrence of an event only */
+  once<K extends RemoteAgentEventName>(event: K, handler: (payload: RemoteAgentEvents[K]) => void): () => void {
+    return this._subscribe(event, handler, true);
+  }
+
+  /** Remove a handler added with on() or once() */
+  off<K extends RemoteAgentEventName>(event: K, handler: (payload: RemoteAgentEvents[K]) => void): void {
+    const listeners = this._listeners.get(event);
+    if (!listeners) return;
+    const index = listeners.findIndex(listener => listener.handler === handler);
+    if (index !== -1) listeners.splice(index, 1);
+  }
 
   // --- Public API ---
 
@@ -147,13 +298,14 @@ export class RemoteAgent {
       // only observe state through onMessage, so without this an eager connect
       // fails completely silently — no error, no state change, nothing to retry on.
       this._error = err instanceof Error ? err : new Error(String(err));
-      this._onMessage?.();
+      this._notify();
       throw err;
     }
   }
 
   async input(prompt: string, options?: { images?: string[]; files?: import('./types').FileAttachment[] }): Promise<Response> {
-    this._addChatItem({ type: 'user', content: prompt, images: options?.images, files: options?.files });
+    const inputId = generateUUID();
+    this._addChatItem({ type: 'user', id: inputId, content: prompt, images: options?.images, files: options?.files });
 
     const isInterjection = this._status === 'working' && this._inputResolve !== null;
 
@@ -162,8 +314,13 @@ export class RemoteAgent {
       this._status = 'working';
     }
     this._error = null;
-    this._onMessage?.();
+    this._notify();
 
+    const msg: Record<string, unknown> = { type: 'INPUT', input_id: inputId, prompt };
+    if (options?.images?.length) msg.images = options.images;
+    if (options?.files?.length) msg.files = options.files.map(f => ({ name: f.name, data: f.dataUrl }));
+
+    const cancels = this._cancels;
     try {
       await this._ensureConnected();
     } catch (err) {
@@ -173,19 +330,47 @@ export class RemoteAgent {
       this._error = err instanceof Error ? err : new Error(String(err));
       this._clearPlaceholder();
       this._status = 'idle';
-      this._onMessage?.();
+      if (this._outbox && !isInterjection) {
+        // Not lost: it is sent, in order, once a later connect succeeds
+        try {
+          await this._outbox.add({ id: inputId, frame: msg, session_id: this._currentSession?.session_id });
+        } catch (storeErr) {
+          this._notify();
+          throw storeErr;
+        }
+        this._addChatItem({ type: 'user', id: inputId, queued: true });
+        this._notify();
+        return { text: '', done: true, queued: true };
+      }
+      this._notify();
       throw err;
     }
 
-    const inputId = generateUUID();
-    const isDirect = this._isDirect();
-
-    const msg: Record<string, unknown> = { type: 'INPUT', input_id: inputId, prompt };
-    if (options?.images?.length) msg.images = options.images;
-    if (options?.files?.length) msg.files = options.files.map(f => ({ name: f.name, data: f.dataUrl }));
-    if (!isDirect) msg.to = this.address;
+    // cancel() while the connection was still opening: never send the prompt
+    if (this._cancels !== cancels) return { text: '', done: true, cancelled: true };
+
+    if (this._outbox && !isInterjection) {
+      // Persisted before it is sent, so a crash mid-run resends it (same input_id)
+      // rather than losing it. Older entries go first; this one waits its turn.
+      try {
+        await this._outbox.add({ id: inputId, frame: msg, session_id: this._currentSession?.session_id });
+      } catch (err) {
+        // Not stored means not sent: restore the status machine like a failed connect
+        this._error = err instanceof Error ? err : new Error(String(err));
+        this._clearPlaceholder();
+        this._status = 'idle';
+        this._notify();
+        throw err;
+      }
+      return new Promise<Response>((resolve, reject) => {
+        this._outboxWaiters.set(inputId, { resolve, reject });
+        this._flushOutbox();
+      });
+    }
 
+    if (!this._isDirect()) msg.to = this.address;
     this._ws!.send(JSON.stringify(msg));
+    if (!isInterjection) this._pendingInput = msg;
 
     if (isInterjection) {
       return new Promise<Response>((resolve, reject) => {
@@ -211,19 +396,20 @@ export class RemoteAgent {
 
     if (!this._currentSession) this._currentSession = { session_id: sid };
     this._status = 'working';
-    this._onMessage?.();
+    this._notify();
 
     // Force new connection for reconnect
+    this._cancelAutoReconnect();
     this._closeWs();
 
     this._keys = ensureKeys(this._keys);
     await this._resolveEndpointOnce();
 
     const { wsUrl, isDirect } = this._resolveWsUrl();
-    const ws = new this._WS(wsUrl);
+    const ws = this._openSocket(wsUrl);
     this._ws = ws;
     this._connectionState = 'reconnecting';
-    this._onMessage?.();
+    this._notify();
 
     return new Promise<Response>((resolve, reject) => {
       this._inputResolve = resolve;
@@ -232,7 +418,7 @@ export class RemoteAgent {
         this._settleInput();
         this._status = 'idle';
         this._connectionState = 'disconnected';
-        this._onMessage?.();
+        this._notify();
         reject(new Error('Reconnect timed out'));
       }, 60000);
 
@@ -257,20 +443,54 @@ export class RemoteAgent {
     });
   }
 
+  /**
+   * Stop the agent's current run. Sends CANCEL to the host, resolves the pending
+   * input() with `{ text: '', done: true, cancelled: true }`, marks running
+   * thinking/tool_call items 'stopped' and returns to idle — at once, without
+   * waiting for the host's CANCELLED. A no-op when nothing is running.
+   */
+  cancel(): void {
+    if (!this._inputResolve && this._status === 'idle') return;
+    this._cancels++;
+    if (this._ws && this._authenticated) {
+      const msg: Record<string, unknown> = { type: 'CANCEL' };
+      if (this._pendingInput?.input_id) msg.input_id = this._pendingInput.input_id;
+      if (!this._isDirect()) msg.to = this.address;
+      this._ws.send(JSON.stringify(msg));
+    }
+    this._stopRun();
+    this._flushOutbox();
+    this._notify();
+  }
+
+  /** Same as cancel() */
+  stop(): void {
+    this.cancel();
+  }
+
   send(message: Record<string, unknown>): void {
-    if (!this._ws) throw new Error('No active connection');
-    this._ws.send(JSON.stringify(message));
+    if (this._ws) {
+      this._ws.send(JSON.stringify(message));
+    } else if (this._outbox && QUEUED_ANSWERS.has(String(message.type))) {
+      const id = generateUUID();
+      this._outbox.add({ id, frame: { ...message, input_id: id }, session_id: this._currentSession?.session_id })
+        .catch((err) => {
+          this._error = err instanceof Error ? err : new Error(String(err));
+          this._notify();
+        });
+    } else {
+      throw new Error('No active connection');
+    }
     if (message.type === 'ASK_USER_RESPONSE') {
       for (let i = this._chatItems.length - 1; i >= 0; i--) {
         const item = this._chatItems[i];
         if (item.type === 'ask_user' && !item.answered) {
-          item.answered = true;
-          item.answer = String(message.answer || '');
+          this._addChatItem({ type: 'ask_user', id: item.id, answered: true, answer: String(message.answer || '') });
           break;
         }
       }
       this._status = 'working';
-      this._onMessage?.();
+      this._notify();
     } else if (
       message.type === 'APPROVAL_RESPONSE' ||
       message.type === 'PLAN_REVIEW_RESPONSE' ||
@@ -278,7 +498,7 @@ export class RemoteAgent {
       message.type === 'ONBOARD_SUBMIT'
     ) {
       this._status = 'working';
-      this._onMessage?.();
+      this._notify();
     }
   }
 
@@ -300,18 +520,106 @@ export class RemoteAgent {
   }
 
   reset(): void {
+    this._cancelAutoReconnect();
     this._closeWs();
     this._currentSession = null;
+    const hadItems = this._chatItems.length > 0;
     this._chatItems = [];
     this._status = 'idle';
     this._connectionState = 'disconnected';
     this._error = null;
     this._settleInput();
     this._settleSessionStatusWaiters('not_found');
+    this._outbox?.clear();
+    this._outboxWaiters.clear();
+    this._resets++;
+    this._conversations.current.title = undefined;
+    this._save();
+    if (hadItems) this._emit('chatItemsReset', this._chatItems);
+    this._emitStateChanges();
+  }
+
+  /**
+   * Close the socket but keep the transcript and session, unlike reset(). The
+   * next connect() or input() opens a new socket and resumes the session. A
+   * pending input() rejects, or resolves as queued when the outbox holds it.
+   */
+  disconnect(): void {
+    this._cancelAutoReconnect();
+    this._closeWs();
+    if (this._inputReject) {
+      this._status = 'idle';
+      this._failInput(new Error('Disconnected'));
+    }
+    this._notify();
   }
 
   resetConversation(): void { this.reset(); }
 
+  // --- Conversations ---
+
+  /** Conversations with this agent, most recently updated first */
+  listConversations(): Conversation[] {
+    this._conversations.sync(this._currentSession, this._chatItems);
+    return this._conversations.list();
+  }
+
+  /**
+   * Start an empty conversation and open it. The one that was open keeps its
+   * transcript and session; switch back to it with switchConversation().
+   */
+  createConversation(title?: string): Conversation {
+    this._assertIdle('start a conversation');
+    const conversation = this._conversations.create(title?.trim() || undefined);
+    this._openConversation(conversation.id);
+    return this.listConversations().find(item => item.id === conversation.id)!;
+  }
+
+  /**
+   * Open another conversation: `ui`, `currentSession` and `mode` become its own.
+   * The socket is closed; the next input() or connect() resumes that
+   * conversation's session, and the host sends any history this client lacks.
+   */
+  switchConversation(id: string): void {
+    this._findConversation(id);
+    if (id === this._conversations.currentId) return;
+    this._assertIdle('switch conversations');
+    this._openConversation(id);
+  }
+
+  /** Set a conversation's title; an empty title goes back to the first prompt */
+  renameConversation(id: string, title: string): void {
+    this._findConversation(id).title = title.trim() || undefined;
+    this._notify();
+  }
+
+  /**
+   * Forget a conversation on this client. Deleting the open one opens the most
+   * recent other conversation, or a new one. fetchConversations() does not bring
+   * it back.
+   */
+  deleteConversation(id: string): void {
+    this._findConversation(id);
+    if (id === this._conversations.currentId) {
+      this._assertIdle('delete the open conversation');
+      const next = this.listConversations().find(item => item.id !== id);
+      this._openConversation(next ? next.id : this._conversations.create().id);
+    }
+    this._conversations.remove(id);
+    this._notify();
+  }
+
+  /**
+   * Ask the host for this client's sessions and add the ones missing here.
+   * A host that does not answer LIST_SESSIONS within 5s leaves the list as is.
+   */
+  async fetchConversations(): Promise<Conversation[]> {
+    const sessions = await this._requestSessions();
+    this._conversations.adoptHostSessions(sessions);
+    this._notify();
+    return this.listConversations();
+  }
+
   signOnboard(options: { inviteCode?: string; payment?: number }): Record<string, unknown> {
     const payload: Record<string, unknown> = { timestamp: Math.floor(Date.now() / 1000) };
     if (options.inviteCode) payload.invite_code = options.inviteCode;
@@ -319,7 +627,9 @@ export class RemoteAgent {
     return { type: 'ONBOARD_SUBMIT', ...signPayload(this._keys, payload) };
   }
 
+  /** Status of a session on the host; takes a session_id or a conversation id */
   async checkSessionStatus(sessionId: string): Promise<RemoteSessionStatus> {
+    sessionId = this._sessionIdOf(sessionId);
     // If we have a live WS, send SESSION_STATUS over it (no new connection needed)
     if (this._ws && this._authenticated) {
       return new Promise((resolve) => {
@@ -349,7 +659,7 @@ export class RemoteAgent {
     const { wsUrl, isDirect } = this._resolveWsUrl();
 
     return new Promise((resolve) => {
-      const ws = new this._WS(wsUrl);
+      const ws = this._openSocket(wsUrl);
       const timeout = setTimeout(() => { ws.close(); resolve('not_found'); }, 5000);
       ws.onopen = () => {
         ws.send(JSON.stringify({
@@ -370,8 +680,9 @@ export class RemoteAgent {
     });
   }
 
+  /** Status of a session over HTTP; takes a session_id or a conversation id (default: the open one) */
   async checkSession(sessionId?: string): Promise<'running' | 'done' | 'not_found'> {
-    const sid = sessionId || this._currentSession?.session_id;
+    const sid = sessionId ? this._sessionIdOf(sessionId) : this._currentSession?.session_id;
     if (!sid) return 'not_found';
     await this._resolveEndpointOnce();
     const httpUrl = this._directUrl || this._resolvedEndpoint?.httpUrl;
@@ -390,18 +701,34 @@ export class RemoteAgent {
   // --- Internal helpers (used by useAgentForHuman) ---
 
   _addChatItem(event: Partial<ChatItem> & { type: ChatItemType }): void {
+    this._conversations.current.updatedAt = Date.now();
     const id = (event as { id?: string }).id || generateUUID();
     const existingIdx = this._chatItems.findIndex(item => item.id === id);
     if (existingIdx !== -1) {
-      this._chatItems[existingIdx] = { ...this._chatItems[existingIdx], ...event, id } as ChatItem;
+      const updated = { ...this._chatItems[existingIdx], ...event, id } as ChatItem;
+      this._chatItems = this._chatItems.map((item, index) => (index === existingIdx ? updated : item));
+      this._emit('chatItemUpdated', updated);
       return;
     }
-    this._chatItems.push({ ...event, id } as ChatItem);
+    const added = { ...event, id } as ChatItem;
+    this._chatItems = [...this._chatItems, added];
+    this._emit('chatItemAdded', added);
+    if (added.type === 'ask_user') this._emit('askUser', added);
+    else if (added.type === 'approval_needed') this._emit('approvalNeeded', added);
+    else if (added.type === 'plan_review') this._emit('planReview', added);
+    else if (added.type === 'onboard_required') this._emit('onboardRequired', added);
   }
 
   _clearPlaceholder(): void {
-    const idx = this._chatItems.findIndex(item => item.id === '__optimistic__');
-    if (idx !== -1) this._chatItems.splice(idx, 1);
+    this._removeChatItem('__optimistic__');
+  }
+
+  _removeChatItem(id: string): void {
+    const idx = this._chatItems.findIndex(item => item.id === id);
+    if (idx === -1) return;
+    const removed = this._chatItems[idx];
+    this._chatItems = this._chatItems.filter((_, index) => index !== idx);
+    this._emit('chatItemRemoved', removed);
   }
 
   // Replace local chat items with server's canonical history, preserving any
@@ -421,18 +748,23 @@ export class RemoteAgent {
     }
     if (cutoff === this._chatItems.length) {
       // Local history can be SHORTER than the server's (fresh browser, evicted
-      // session), so the count check above never fires and a just-sent prompt
-      // would be silently dropped. Preserve the tail from the last local user
-      // prompt onward unless the server already has that exact prompt last.
+      // session, a transcript restored from storage), so the count check above
+      // never fires and a just-sent prompt would be silently dropped. Preserve
+      // the tail from the last local user prompt onward unless the server
+      // already has that exact prompt last, or it was answered (a restored
+      // transcript the server has since moved past).
       const lastServerUser = [...serverItems].reverse().find(i => i.type === 'user');
       for (let i = this._chatItems.length - 1; i >= 0; i--) {
         const item = this._chatItems[i];
         if (item.type !== 'user') continue;
-        if (!lastServerUser || item.content !== lastServerUser.content) cutoff = i;
+        const answered = this._chatItems.slice(i + 1).some(later => later.type === 'agent');
+        if (!answered && (!lastServerUser || item.content !== lastServerUser.content)) cutoff = i;
         break;
       }
     }
     this._chatItems = [...serverItems, ...this._chatItems.slice(cutoff)];
+    this._conversations.current.updatedAt = Date.now();
+    this._emit('chatItemsReset', this._chatItems);
   }
 
   // --- Private: connection lifecycle ---
@@ -459,7 +791,7 @@ export class RemoteAgent {
     await this._resolveEndpointOnce();
 
     const { wsUrl, isDirect } = this._resolveWsUrl();
-    const ws = new this._WS(wsUrl);
+    const ws = this._openSocket(wsUrl);
     this._ws = ws;
 
     // Wait for open
@@ -478,6 +810,18 @@ export class RemoteAgent {
     ws.onerror = () => this._handleConnectionLoss();
     ws.onclose = () => this._handleConnectionLoss();
 
+    // A saved session is resumed; the host sends newer chat_items if it moved on
+    await this._restored;
+
+    // Entries from an earlier run resume their session, so the host can spot repeats
+    if (this._outbox) {
+      await this._outbox.ready;
+      const queuedSession = this._outbox.sessionId;
+      if (!this._currentSession && queuedSession && !this._conversations.bySession(queuedSession)) {
+        this._currentSession = { session_id: queuedSession };
+      }
+    }
+
     // Send CONNECT with session (conversation history)
     const payload: Record<string, unknown> = { timestamp: Math.floor(Date.now() / 1000) };
     payload.to = this.address;
@@ -503,6 +847,7 @@ export class RemoteAgent {
     });
 
     this._authenticated = true;
+    this._lastConnected = connected;
 
     // Update session from server (may include merged data)
     const sid = connected.session_id as string;
@@ -518,8 +863,9 @@ export class RemoteAgent {
     }
     if (connected.server_newer && connected.chat_items && Array.isArray(connected.chat_items)) {
       this._mergeServerChatItems(connected.chat_items as ChatItem[]);
-      this._onMessage?.();
+      this._notify();
     }
+    this._flushOutbox();
   }
 
   private _handleMessage(evt: { data: unknown }): void {
@@ -546,7 +892,7 @@ export class RemoteAgent {
         this._connectResolve = null;
         this._connectReject = null;
         resolve(data);
-        this._onMessage?.();
+        this._notify();
         return;
       }
 
@@ -570,7 +916,7 @@ export class RemoteAgent {
         resolve?.({ text: '', done: true });
       }
       // If status is "running", events will stream in via _handleMessage — don't resolve yet
-      this._onMessage?.();
+      this._notify();
       return;
     }
 
@@ -591,6 +937,11 @@ export class RemoteAgent {
       return;
     }
 
+    if (data?.type === 'SESSIONS') {
+      this._settleSessionsRequest(Array.isArray(data.sessions) ? data.sessions : []);
+      return;
+    }
+
     if (data?.type === 'RECONNECTED') {
       // Server confirmed reconnect — events will follow
     }
@@ -628,7 +979,7 @@ export class RemoteAgent {
         data?.type === 'intent' || data?.type === 'eval' || data?.type === 'compact' ||
         data?.type === 'tool_blocked' || data?.type === 'files_received') {
       this._clearPlaceholder();
-      mapEventToChatItem(this._chatItems, data, (item) => this._addChatItem(item));
+      mapEventToChatItem(() => this._chatItems, data, (item) => this._addChatItem(item), (id) => this._removeChatItem(id));
       if (data.session) {
         this._currentSession = data.session;
       }
@@ -739,11 +1090,23 @@ export class RemoteAgent {
       }
 
       // Don't close WS — keep it for next input()
+      this._ackInput();
       const resolve = this._inputResolve;
       this._settleInput();
       resolve?.({ text: result, done: true });
     }
 
+    // CANCELLED — the host stopped a run (ours, or one cancelled from another
+    // client of the session). A late CANCELLED for a run we already stopped
+    // locally must not settle the input() sent after it.
+    if (data?.type === 'CANCELLED') {
+      const pendingId = this._pendingInput?.input_id;
+      if (!pendingId || !data.input_id || data.input_id === pendingId) {
+        if (data.session) this._currentSession = data.session;
+        this._stopRun();
+      }
+    }
+
     // ERROR — reject input() promise
     if (data?.type === 'ERROR') {
       const err = new Error(`Agent error: ${String(data.message || data.error || 'Unknown error')}`);
@@ -753,12 +1116,15 @@ export class RemoteAgent {
       // failing — a refused invite code is the case that matters, and the host
       // keeps the connection open for a second try. Closing it here sent the
       // retry into a dead socket and the caller waited forever.
+      this._ackInput();
       const reject = this._inputReject;
       this._settleInput();
       reject?.(err);
     }
 
-    this._onMessage?.();
+    // The answered run made room for the next queued INPUT
+    if (!this._inputResolve) this._flushOutbox();
+    this._notify();
   }
 
   /**
@@ -789,21 +1155,365 @@ export class RemoteAgent {
       return;
     }
 
+    // Opt-in: resume the session on a new socket while a pending input() keeps waiting
+    if (this._reconnectOptions) {
+      if (!this._reconnecting) {
+        this._reconnecting = true;
+        this._reconnectAttempt = 0;
+        this._scheduleReconnect();
+      }
+      return;
+    }
+
     // Reject pending input only if there is one
     if (this._inputReject) {
       this._status = 'idle';
       this._connectionState = 'disconnected';
-      const reject = this._inputReject;
-      this._settleInput();
-      reject(new Error('Connection closed before response'));
-      this._onMessage?.();
+      this._failInput(new Error('Connection closed before response'));
+      this._notify();
     }
   }
 
+  /** Flush: emit state events for what changed, save, then the onMessage callback */
+  private _notify(): void {
+    this._emitStateChanges();
+    this._save();
+    this._onMessage?.();
+  }
+
+  /**
+   * Load what an earlier agent for this address saved. Items added here before
+   * the load finished (an input() right after connect()) stay after the saved ones.
+   */
+  private async _restore(): Promise<void> {
+    const resets = this._resets;
+    let stored: string | null = null;
+    try {
+      stored = await this._storage!.getItem(this._storageKey());
+    } catch {
+      // Unreadable storage: start empty rather than failing the agent
+    }
+    this._restoring = false;
+    const placeholder = this._chatItems.find(item => item.id === '__optimistic__');
+    this._conversations.sync(this._currentSession, this._chatItems);
+    // After a reset() the saved open conversation comes back as another one, not as this one
+    if (this._conversations.restore(stored, this._resets === resets)) {
+      this._saved = stored;
+      const { session, chatItems } = this._conversations.current;
+      this._currentSession = session;
+      this._chatItems = placeholder ? [...chatItems, placeholder] : [...chatItems];
+      this._emit('chatItemsReset', this._chatItems);
+    }
+    this._notify();
+  }
+
+  /** Write the conversations if they changed; best effort, a full or failing store only loses the copy */
+  private _save(): void {
+    const storage = this._storage;
+    if (!storage || this._restoring) return;
+    this._conversations.sync(this._currentSession, this._chatItems);
+    const state = this._conversations.serialize();
+    if (state === this._saved) return;
+    this._saved = state;
+    const key = this._storageKey();
+    Promise.resolve()
+      .then(() => (state === null ? storage.removeItem(key) : storage.setItem(key, state)))
+      .catch(() => undefined);
+  }
+
+  /** Put the open conversation away and load `id` in its place */
+  private _openConversation(id: string): void {
+    this._conversations.sync(this._currentSession, this._chatItems);
+    this._cancelAutoReconnect();
+    this._closeWs();
+    this._settleInput();
+    this._conversations.currentId = id;
+    const { session, chatItems } = this._conversations.current;
+    this._currentSession = session ? { ...session } : null;
+    this._chatItems = [...chatItems];
+    this._status = 'idle';
+    this._error = null;
+    this._emit('chatItemsReset', this._chatItems);
+    this._notify();
+  }
+
+  private _findConversation(id: string) {
+    const conversation = this._conversations.get(id);
+    if (!conversation) throw new Error(`Unknown conversation: ${id}`);
+    return conversation;
+  }
+
+  private _assertIdle(action: string): void {
+    if (this._status !== 'idle' || this._inputResolve) {
+      throw new Error(`Cannot ${action} while the agent is working; cancel() first`);
+    }
+  }
+
+  /** A conversation id → its session_id; anything else is taken to be a session_id */
+  private _sessionIdOf(id: string): string {
+    if (id === this._conversations.currentId) return this._currentSession?.session_id || id;
+    return this._conversations.get(id)?.session?.session_id || id;
+  }
+
+  /** LIST_SESSIONS on the live socket, or on a short-lived one like checkSessionStatus() */
+  private async _requestSessions(): Promise<HostSessionSummary[]> {
+    this._keys = ensureKeys(this._keys);
+    const request = (): Record<string, unknown> => ({
+      type: 'LIST_SESSIONS',
+      ...signPayload(this._keys, { timestamp: Math.floor(Date.now() / 1000), to: this.address }),
+      ...(!this._isDirect() && { to: this.address }),
+    });
+
+    if (this._ws && this._authenticated) {
+      return new Promise((resolve) => {
+        if (this._sessionsRequest) {
+          this._sessionsRequest.resolves.push(resolve);
+          return;
+        }
+        const timer = setTimeout(() => this._settleSessionsRequest([]), 5000);
+        this._sessionsRequest = { resolves: [resolve], timer };
+        this._ws!.send(JSON.stringify(request()));
+      });
+    }
+
+    await this._resolveEndpointOnce();
+    const { wsUrl } = this._resolveWsUrl();
+    return new Promise((resolve) => {
+      const ws = this._openSocket(wsUrl);
+      const finish = (sessions: HostSessionSummary[]) => { clearTimeout(timeout); ws.close(); resolve(sessions); };
+      const timeout = setTimeout(() => finish([]), 5000);
+      ws.onopen = () => ws.send(JSON.stringify(request()));
+      ws.onmessage = (evt: { data: unknown }) => {
+        const data = JSON.parse(typeof evt.data === 'string' ? evt.data : String(evt.data));
+        if (data?.type === 'SESSIONS') finish(Array.isArray(data.sessions) ? data.sessions : []);
+        else if (data?.type === 'ERROR') finish([]);
+      };
+      ws.onerror = () => finish([]);
+    });
+  }
+
+  private _settleSessionsRequest(sessions: HostSessionSummary[]): void {
+    const request = this._sessionsRequest;
+    if (!request) return;
+    clearTimeout(request.timer);
+    this._sessionsRequest = null;
+    for (const resolve of request.resolves) resolve(sessions);
+  }
+
+  private _storageKey(): string {
+    return `connectonion_chat_${this.address}`;
+  }
+
+  private _emitStateChanges(): void {
+    const last = this._emitted;
+    if (this._status !== last.status) {
+      last.status = this._status;
+      this._emit('statusChanged', this._status);
+    }
+    if (this._connectionState !== last.connectionState) {
+      last.connectionState = this._connectionState;
+      this._emit('connectionStateChanged', this._connectionState);
+    }
+    if (this._error !== last.error) {
+      last.error = this._error;
+      if (this._error) this._emit('error', this._error);
+    }
+    if (this._profile !== last.profile) {
+      last.profile = this._profile;
+      if (this._profile) this._emit('profile', this._profile);
+    }
+    if (this._dashboardHtml !== last.dashboardHtml) {
+      last.dashboardHtml = this._dashboardHtml;
+      if (this._dashboardHtml !== null) this._emit('dashboard', this._dashboardHtml);
+    }
+  }
+
+  private _subscribe<K extends RemoteAgentEventName>(
+    event: K,
+    handler: (payload: RemoteAgentEvents[K]) => void,
+    once: boolean,
+  ): () => void {
+    const listeners = this._listeners.get(event) || [];
+    listeners.push({ handler: handler as (payload: never) => void, once });
+    this._listeners.set(event, listeners);
+    return () => this.off(event, handler);
+  }
+
+  private _emit<K extends RemoteAgentEventName>(event: K, payload: RemoteAgentEvents[K]): void {
+    const listeners = this._listeners.get(event);
+    if (!listeners?.length) return;
+    for (const listener of [...listeners]) {
+      if (listener.once) listeners.splice(listeners.indexOf(listener), 1);
+      try {
+        (listener.handler as (payload: RemoteAgentEvents[K]) => void)(payload);
+      } catch (err) {
+        // A failing UI handler must not break the frame being processed (an
+        // OUTPUT would never resolve input()); rethrow it outside this stack.
+        queueMicrotask(() => { throw err; });
+      }
+    }
+  }
+
+  /** Settle the pending input() as cancelled and mark what was running as stopped */
+  private _stopRun(): void {
+    this._clearPlaceholder();
+    mapEventToChatItem(() => this._chatItems, { type: 'CANCELLED' }, (item) => this._addChatItem(item));
+    this._status = 'idle';
+    this._ackInput();
+    const resolve = this._inputResolve;
+    this._settleInput();
+    resolve?.({ text: '', done: true, cancelled: true });
+  }
+
   private _settleInput(): void {
     if (this._inputTimer) { clearTimeout(this._inputTimer); this._inputTimer = null; }
     this._inputResolve = null;
     this._inputReject = null;
+    this._pendingInput = null;
+  }
+
+  /** The host answered the pending INPUT (or lost it), so it leaves the outbox */
+  private _ackInput(): void {
+    const inputId = this._pendingInput?.input_id;
+    if (typeof inputId === 'string') this._outbox?.remove(inputId);
+  }
+
+  /**
+   * The connection failed under the pending input(). An INPUT the outbox still
+   * holds is sent again on the next connect, so input() resolves as queued
+   * instead of rejecting.
+   */
+  private _failInput(err: Error): void {
+    const inputId = this._pendingInput?.input_id;
+    const resolve = this._inputResolve;
+    const reject = this._inputReject;
+    this._settleInput();
+    if (typeof inputId === 'string' && this._outbox?.has(inputId)) {
+      this._addChatItem({ type: 'user', id: inputId, queued: true });
+      resolve?.({ text: '', done: true, queued: true });
+    } else {
+      reject?.(err);
+    }
+  }
+
+  /**
+   * Send what the outbox holds, oldest first: answers right away, an INPUT only
+   * when no run is pending (the host runs them one after another anyway, and
+   * input() has a single pending slot). Called after CONNECTED and whenever a
+   * run settles.
+   */
+  private _flushOutbox(): void {
+    const outbox = this._outbox;
+    if (!outbox || !this._ws || !this._authenticated) return;
+    // Entries of another conversation wait until it is open again
+    const sessionId = this._currentSession?.session_id;
+    const next = () => outbox.entries.find(entry => !entry.session_id || entry.session_id === sessionId);
+    for (let entry = next(); entry; entry = next()) {
+      const { id, frame } = entry;
+      const msg = this._isDirect() ? { ...frame } : { ...frame, to: this.address };
+      if (frame.type !== 'INPUT') {
+        this._ws.send(JSON.stringify(msg));
+        outbox.remove(id);
+        continue;
+      }
+      if (this._inputResolve) return;
+
+      const item = this._chatItems.find(existing => existing.id === id);
+      if (!item) {
+        // Queued by an earlier run of the app: show the prompt it is answering
+        const images = Array.isArray(frame.images) ? frame.images as string[] : undefined;
+        this._addChatItem({ type: 'user', id, content: String(frame.prompt ?? ''), images });
+      } else if (item.type === 'user' && item.queued) {
+        this._addChatItem({ type: 'user', id, queued: false });
+      }
+      this._addChatItem({ type: 'thinking', id: '__optimistic__', status: 'running' });
+      this._status = 'working';
+
+      const waiter = this._outboxWaiters.get(id);
+      this._outboxWaiters.delete(id);
+      this._inputResolve = (response) => waiter?.resolve(response);
+      this._inputReject = (err) => waiter?.reject(err);
+      this._ws.send(JSON.stringify(msg));
+      this._pendingInput = msg;
+      this._notify();
+      return;
+    }
+  }
+
+  private _scheduleReconnect(): void {
+    if (this._reconnectTimer) return;
+    const { maxAttempts, initialDelayMs, maxDelayMs } = this._reconnectOptions!;
+    if (this._reconnectAttempt >= maxAttempts) {
+      this._reconnecting = false;
+      this._connectionState = 'disconnected';
+      if (this._inputReject) {
+        this._status = 'idle';
+        this._clearPlaceholder();
+        this._failInput(new Error(`Connection closed before response (gave up after ${maxAttempts} reconnect attempts)`));
+      }
+      this._notify();
+      return;
+    }
+
+    // Jitter (50-100% of the doubled delay) so clients dropped by the same
+    // outage do not all come back in the same instant
+    const delay = Math.min(maxDelayMs, initialDelayMs * 2 ** this._reconnectAttempt) * (0.5 + Math.random() / 2);
+    this._reconnectAttempt++;
+    this._connectionState = 'reconnecting';
+    this._notify();
+    this._reconnectTimer = setTimeout(() => {
+      this._reconnectTimer = null;
+      // _doConnect sends CONNECT with the stored session_id, so the host resumes the session
+      this._ensureConnected().then(
+        () => this._resumeAfterReconnect(),
+        () => { if (this._reconnecting) this._scheduleReconnect(); },
+      );
+    }, delay);
+  }
+
+  /**
+   * Settle the input() that was pending when the connection dropped, from how the
+   * host answered the resuming CONNECT.
+   */
+  private _resumeAfterReconnect(): void {
+    if (!this._reconnecting) return;
+    this._reconnecting = false;
+    this._reconnectAttempt = 0;
+    const connected = this._lastConnected || {};
+
+    if (this._inputResolve && connected.status !== 'running') {
+      // 'running': the run's remaining events and its OUTPUT arrive on the new socket
+      const resolve = this._inputResolve;
+      const reject = this._inputReject!;
+      if (connected.status === 'new') {
+        // The host no longer knows the session (expired or restarted): the run is gone
+        this._status = 'idle';
+        this._clearPlaceholder();
+        this._ackInput();
+        this._settleInput();
+        reject(new Error('Session was lost while reconnecting'));
+      } else if (!connected.server_newer && this._pendingInput) {
+        // Nothing happened on the host since our last turn, so the INPUT never
+        // arrived. Same input_id, so a host that did see it can drop the repeat.
+        this._ws!.send(JSON.stringify(this._pendingInput));
+      } else {
+        // The run finished while we were away; its answer came back in chat_items
+        const lastAgent = this._chatItems.filter((e): e is ChatItem & { type: 'agent' } => e.type === 'agent').pop();
+        this._status = 'idle';
+        this._clearPlaceholder();
+        this._ackInput();
+        this._settleInput();
+        resolve({ text: lastAgent?.content || '', done: true });
+      }
+    }
+    if (!this._inputResolve) this._flushOutbox();
+    this._notify();
+  }
+
+  private _cancelAutoReconnect(): void {
+    if (this._reconnectTimer) { clearTimeout(this._reconnectTimer); this._reconnectTimer = null; }
+    this._reconnecting = false;
+    this._reconnectAttempt = 0;
   }
 
   private _closeWs(): void {
@@ -825,8 +1535,15 @@ export class RemoteAgent {
     this._settleSessionStatusWaiters('not_found');
   }
 
+  /** A WebSocket, or a channel of the pool's socket when going through the relay */
+  private _openSocket(wsUrl: string): WebSocketLike {
+    return this._pool && !this._isDirect() ? this._pool.socket() : new this._WS(wsUrl);
+  }
+
   private _startPingMonitor(): void {
     this._stopPingMonitor();
+    // A channel only hears the relay's PING through the pool, which watches the shared socket
+    if (this._pool && !this._isDirect() && this._pool.mode === 'channels') return;
     this._pingTimer = setInterval(() => {
       if (Date.now() - this._lastActivityTime > 60000) {
         this._stopPingMonitor();
@@ -854,7 +1571,7 @@ export class RemoteAgent {
   }
 
   private async _resolveEndpointOnce(): Promise<void> {
-    if (this._endpointResolutionAttempted || this._directUrl) return;
+    if (this._endpointResolutionAttempted || this._directUrl || this._pool) return;
     this._endpointResolutionAttempted = true;
     if (!this.address.startsWith('0x') || this.address.length !== 66) return;
     const resolved = await resolveEndpoint(this.address, this._relayUrl);
@@ -871,5 +1588,6 @@ export class RemoteAgent {
       for (const resolve of waiter.resolves) resolve(status);
     }
     this._sessionStatusWaiters.clear();
+    this._settleSessionsRequest([]);
   }
 }
@@ -0,0 +1,120 @@
+/**
+ * @llm-note
+ *   Dependencies: imports from [fs, path (Node.js built-ins, conditional), src/connect/auth, src/connect/types] | imported by [src/connect/remote-agent.ts, src/connect/outbox.ts, src/connect/index.ts] | tested by [tests/outbox.test.ts, tests/persistence.test.ts]
+ *   Data flow: StorageAdapter.getItem/setItem/removeItem(key) → localStorage (browser) | an IndexedDB object store (indexedDBStorage, browser) | <dir>/<key>.json (fileStorage, Node.js) | a Map (memoryStorage)
+ *   State/Effects: fileStorage creates its directory on first write and writes synchronously | indexedDBStorage opens (and on first use creates) its database lazily, once | memoryStorage lives as long as the adapter object
+ *   Integration: exposes fileStorage(dir), indexedDBStorage(dbName, storeName), memoryStorage(), defaultStorage() | the browser's localStorage is already a StorageAdapter, so it is used as is
+ *   Errors: fileStorage.getItem returns null for a missing file | write errors (quota, permissions) propagate to the caller | a failed IndexedDB open is retried on the next call
+ */
+import { isBrowser } from './auth';
+import { StorageAdapter } from './types';
+
+// Use dynamic imports for Node.js modules to support browser builds
+let fs: typeof import('fs') | null = null;
+let path: typeof import('path') | null = null;
+
+try {
+  fs = require('fs');
+  path = require('path');
+} catch {
+  // Browser environment - fs not available
+}
+
+/**
+ * Store each key as a JSON file in `dir` (Node.js only)
+ *
+ * @param dir - Directory for the files (default: .co/storage)
+ */
+export function fileStorage(dir = '.co/storage'): StorageAdapter {
+  if (!fs || !path) {
+    throw new Error('fileStorage() requires Node.js');
+  }
+  const nodeFs = fs;
+  const nodePath = path;
+  const fileFor = (key: string) => nodePath.join(dir, `${key.replace(/[^\w.-]/g, '_')}.json`);
+
+  return {
+    getItem(key: string): string | null {
+      const file = fileFor(key);
+      return nodeFs.existsSync(file) ? nodeFs.readFileSync(file, 'utf-8') : null;
+    },
+    setItem(key: string, value: string): void {
+      nodeFs.mkdirSync(dir, { recursive: true });
+      nodeFs.writeFileSync(fileFor(key), value);
+    },
+    removeItem(key: string): void {
+      nodeFs.rmSync(fileFor(key), { force: true });
+    },
+  };
+}
+
+/**
+ * Store values in an IndexedDB object store (browser). Asynchronous, and not
+ * held to localStorage's few megabytes, so it suits long transcripts with images.
+ *
+ * @param dbName - Database name (default: connectonion)
+ * @param storeName - Object store name (default: storage)
+ */
+export function indexedDBStorage(dbName = 'connectonion', storeName = 'storage'): StorageAdapter {
+  const factory = (globalThis as { indexedDB?: IDBFactory }).indexedDB;
+  if (!factory) {
+    throw new Error('indexedDBStorage() requires IndexedDB');
+  }
+
+  let database: Promise<IDBDatabase> | null = null;
+  const open = (): Promise<IDBDatabase> => {
+    if (!database) {
+      database = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = factory.open(dbName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      database.catch(() => { database = null; });
+    }
+    return database;
+  };
+  const run = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await open();
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    async getItem(key: string): Promise<string | null> {
+      const value = await run<unknown>('readonly', store => store.get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    async setItem(key: string, value: string): Promise<void> {
+      await run('readwrite', store => store.put(value, key));
+    },
+    async removeItem(key: string): Promise<void> {
+      await run('readwrite', store => store.delete(key));
+    },
+  };
+}
+
+/**
+ * Keep values in memory only: for tests, or to opt out of persistence
+ */
+export function memoryStorage(): StorageAdapter {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => { values.set(key, value); },
+    removeItem: (key: string) => { values.delete(key); },
+  };
+}
+
+/**
+ * localStorage in a browser, fileStorage() in Node.js
+ */
+export function defaultStorage(): StorageAdapter {
+  if (isBrowser()) {
+    return (globalThis as unknown as { localStorage: StorageAdapter }).localStorage;
+  }
+  return fileStorage();
+}
@@ -1,17 +1,23 @@
 /**
  * @llm-note
- *   Dependencies: imports from [src/address (type-only)] | imported by [all connect/ files, src/react/]
+ *   Dependencies: imports from [src/address (type-only), src/types (type-only)] | imported by [all connect/ files, src/react/]
  *   Data flow: defines interfaces used by RemoteAgent for WebSocket message parsing → ChatItem union rendered by UI consumers → SessionState synced between client/server
  *   State/Effects: pure type definitions, no runtime logic or side effects
- *   Integration: exports Response, ChatItem (14-variant union), ChatItemType, AskUserField (structured ask_user forms, e.g. login credentials), WebSocketLike, WebSocketCtor, ResolvedEndpoint, AgentInfo, ConnectOptions, SessionState, ApprovalMode, AgentStatus, ConnectionState
+ *   Integration: exports Response, ChatItem (14-variant union), ChatItemType, AskUserField (structured ask_user forms, e.g. login credentials), WebSocketLike, WebSocketCtor, ResolvedEndpoint, AgentInfo, ConnectOptions, ReconnectOptions, StorageAdapter, OutboxEntry, SessionState, ApprovalMode, AgentStatus, ConnectionState, RemoteAgentEvents, Conversation
  */
 import type * as address from '../address';
+import type { RelayPool } from './relay-pool';
+import type { ContentPart, TokenUsage } from '../types';
 
 export type { AddressData } from '../address';
 
 export interface Response {
   text: string;
   done: boolean;
+  /** The run was stopped with cancel() (or by the host) before it answered */
+  cancelled?: boolean;
+  /** The input could not be sent and is waiting in the outbox (ConnectOptions.outbox) */
+  queued?: boolean;
 }
 
 export type ChatItemType = 'user' | 'agent' | 'thinking' | 'tool_call' | 'ask_user' | 'approval_needed' | 'onboard_required' | 'onboard_success' | 'intent' | 'eval' | 'compact' | 'tool_blocked' | 'ulw_turns_reached' | 'plan_review' | 'files_received';
@@ -26,10 +32,10 @@ export interface AskUserField {
 }
 
 export type ChatItem =
-  | { id: string; type: 'user'; content: string; images?: string[]; files?: FileAttachment[] }
+  | { id: string; type: 'user'; content: string; images?: string[]; files?: FileAttachment[]; queued?: boolean }
   | { id: string; type: 'agent'; content: string; images?: string[] }
-  | { id: string; type: 'thinking'; status: 'running' | 'done' | 'error'; model?: string; duration_ms?: number; content?: string; kind?: string; context_percent?: number; usage?: { input_tokens?: number; output_tokens?: number; prompt_tokens?: number; completion_tokens?: number; total_tokens?: number; cost?: number } }
-  | { id: string; type: 'tool_call'; name: string; args?: Record<string, unknown>; status: 'running' | 'done' | 'error'; result?: string; timing_ms?: number }
+  | { id: string; type: 'thinking'; status: 'running' | 'done' | 'error' | 'stopped'; model?: string; duration_ms?: number; content?: string; kind?: string; context_percent?: number; usage?: { input_tokens?: number; output_tokens?: number; prompt_tokens?: number; completion_tokens?: number; total_tokens?: number; cost?: number } }
+  | { id: string; type: 'tool_call'; name: string; args?: Record<string, unknown>; status: 'running' | 'done' | 'error' | 'stopped'; result?: string; timing_ms?: number }
   | { id: string; type: 'ask_user'; text: string; options: string[]; multi_select: boolean; input_type?: string; fields?: AskUserField[]; answered?: boolean; answer?: string }
   | { id: string; type: 'approval_needed'; tool: string; arguments: Record<string, unknown>; description?: string; batch_remaining?: Array<{ tool: string; arguments: string }> }
   | { id: string; type: 'onboard_required'; methods: string[]; paymentAmount?: number; paymentAddress?: string }
@@ -118,11 +124,66 @@ export interface ConnectOptions {
   directUrl?: string;
   /** Custom WebSocket constructor */
   wsCtor?: WebSocketCtor;
+  /**
+   * Reconnect on its own when an authenticated connection drops (default: off).
+   * `true` uses the ReconnectOptions defaults. The session is resumed by
+   * session_id and a pending input() keeps waiting across the reconnect.
+   */
+  autoReconnect?: boolean | ReconnectOptions;
+  /**
+   * Keep inputs (and ask_user/approval answers) that could not be sent, and send
+   * them in order once connected (default: off). `true` stores them with
+   * `storage` when that is set, else in localStorage in a browser and under
+   * .co/storage in Node.js.
+   */
+  outbox?: boolean | StorageAdapter;
+  /**
+   * Save the conversations (`ui` and session of each) under the agent's address,
+   * and restore them when a RemoteAgent for the same address is created
+   * (default: off). `true` uses localStorage in a browser and .co/storage in Node.js.
+   */
+  storage?: boolean | StorageAdapter;
+  /**
+   * Share one relay WebSocket with other agents instead of opening one per agent
+   * (default: off). `true` uses the pool every agent on the same relay shares
+   * (RelayPool.shared()). A pooled agent always goes through the relay, skipping
+   * the endpoints the agent published; `directUrl` still connects directly.
+   */
+  pool?: boolean | RelayPool;
+}
+
+/**
+ * Key-value store for state that must outlive the process or page. The
+ * browser's localStorage is one as is; methods may also return promises.
+ */
+export interface StorageAdapter {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+/** A frame waiting in the outbox */
+export interface OutboxEntry {
+  /** The INPUT's input_id, or the id given to an answer; the host ignores a repeat */
+  id: string;
+  /** The frame as it will be sent, without relay routing (`to`) */
+  frame: Record<string, unknown>;
+  /** Session the frame belongs to, resumed on the next connect if the agent has none */
+  session_id?: string;
+}
+
+export interface ReconnectOptions {
+  /** Attempts before giving up and rejecting the pending input (default: 5) */
+  maxAttempts?: number;
+  /** Delay before the first attempt in ms, doubled on each retry (default: 1000) */
+  initialDelayMs?: number;
+  /** Upper bound on the delay in ms (default: 30000) */
+  maxDelayMs?: number;
 }
 
 export interface SessionState {
   session_id?: string;
-  messages?: Array<{ role: string; content: string }>;
+  messages?: Array<{ role: string; content: string; parts?: ContentPart[] }>;
   trace?: unknown[];
   turn?: number;
   mode?: 'safe' | 'plan' | 'accept_edits' | 'ulw';
@@ -130,6 +191,8 @@ export interface SessionState {
   ulw_turns?: number;
   /** ULW mode: turns used so far */
   ulw_turns_used?: number;
+  /** Token usage and cost accumulated over the session */
+  usage?: TokenUsage;
 }
 
 export type ApprovalMode = 'safe' | 'plan' | 'accept_edits' | 'ulw';
@@ -138,8 +201,46 @@ export type AgentStatus = 'idle' | 'working' | 'waiting';
 
 export type ConnectionState = 'disconnected' | 'connected' | 'reconnecting';
 
+/**
+ * Events of RemoteAgent.on(), with the payload each handler receives
+ */
+export interface RemoteAgentEvents {
+  /** A new item was appended to `agent.ui` */
+  chatItemAdded: ChatItem;
+  /** An item changed; the payload replaces the previous object with the same id */
+  chatItemUpdated: ChatItem;
+  /** An item was taken out of `agent.ui` (e.g. the optimistic thinking placeholder) */
+  chatItemRemoved: ChatItem;
+  /** `agent.ui` was replaced wholesale (server history merged in, or reset()) */
+  chatItemsReset: ChatItem[];
+  statusChanged: AgentStatus;
+  connectionStateChanged: ConnectionState;
+  askUser: Extract<ChatItem, { type: 'ask_user' }>;
+  approvalNeeded: Extract<ChatItem, { type: 'approval_needed' }>;
+  planReview: Extract<ChatItem, { type: 'plan_review' }>;
+  onboardRequired: Extract<ChatItem, { type: 'onboard_required' }>;
+  profile: AgentInfo;
+  dashboard: string;
+  error: Error;
+}
+
+export type RemoteAgentEventName = keyof RemoteAgentEvents;
+
 export type RemoteSessionStatus = 'running' | 'connected' | 'not_found';
 
+/** One conversation with an agent, as listed by RemoteAgent.listConversations() */
+export interface Conversation {
+  id: string;
+  /** Set with renameConversation(), else the first prompt (or the host's title) */
+  title: string;
+  /** The host session, once the conversation has connected (or was fetched from the host) */
+  sessionId?: string;
+  mode: ApprovalMode;
+  /** Milliseconds since the epoch */
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface FileAttachment {
   name: string;
   type: string;
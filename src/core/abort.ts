@@ -0,0 +1,69 @@
+/**
+ * @purpose Cancellation primitives for agent runs: the distinct cancelled error and AbortSignal helpers
+ *
+ * @llm-note
+ *   Dependencies: none | imported by [src/core/agent.ts, src/index.ts] | tested by [tests/cancellation.test.ts]
+ *   Data flow: Agent checks throwIfAborted() at each iteration and wraps LLM/tool promises in raceAbort() → abort rejects with AgentCancelledError without waiting for non-cooperative work
+ *   State/Effects: raceAbort adds one 'abort' listener per call and removes it when the race settles
+ *   Integration: exposes AgentCancelledError, isCancelled(), throwIfAborted(), raceAbort(), sleep()
+ */
+
+/**
+ * Thrown (and rejected) when a run is stopped through its AbortSignal.
+ * Distinct from provider or tool failures so callers can tell "the user gave up"
+ * from "something broke".
+ */
+export class AgentCancelledError extends Error {
+  constructor(message: string = 'Agent run cancelled') {
+    super(message);
+    this.name = 'AgentCancelledError';
+  }
+}
+
+/**
+ * True if the error is a cancellation, including the abort errors provider SDKs
+ * throw when their request signal fires.
+ */
+export function isCancelled(error: unknown, signal?: AbortSignal): boolean {
+  return error instanceof AgentCancelledError || !!signal?.aborted;
+}
+
+/**
+ * Throw AgentCancelledError if the signal has already fired
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new AgentCancelledError();
+}
+
+/**
+ * Settle with the promise, or reject with AgentCancelledError as soon as the signal fires.
+ * The underlying work is not stopped — it receives the same signal and should honour it.
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new AgentCancelledError());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new AgentCancelledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => { signal.removeEventListener('abort', onAbort); resolve(value); },
+      (error) => { signal.removeEventListener('abort', onAbort); reject(error); }
+    );
+  });
+}
+
+/**
+ * Wait ms milliseconds; resolves early (without throwing) when the signal fires
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (ms <= 0 || signal?.aborted) return Promise.resolve();
+  return new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
@@ -17,7 +17,7 @@
  *              ┌──────────────────────────────────────┐
  *              │          Main Loop (max 10 iter)      │
  *              │  ┌────────────────────────────────┐   │
- *              │  │   LLM.complete(messages, tools) │   │
+ *              │  │   LLM.stream / complete(...)    │   │
  *              │  └───────────────┬────────────────┘   │
  *              │                  │                     │
  *              │         ┌───────┴────────┐            │
@@ -26,7 +26,7 @@
  *              │          No │        │ Yes             │
  *              │             │        ▼                 │
  *              │             │  ┌──────────────────┐   │
- *              │             │  │  Promise.all(     │   │
+ *              │             │  │  runScheduled(    │   │
  *              │             │  │    tool₁.run()    │   │
  *              │             │  │    tool₂.run()    │   │
  *              │             │  │    ...            │   │
@@ -47,6 +47,10 @@
  *                 │  response string    │
  *                 └────────────────────┘
  *
+ *   input() drains the loop for the final text; stream() hands the same
+ *   generator to the caller so every event (text_delta, tool_call_start/end,
+ *   tool_result, iteration_start/end, complete) is observable as it happens.
+ *
  * @graph Multi-Turn Conversation State
  *
  *   input("Hi")          input("Name?")        resetConversation()
@@ -58,33 +62,71 @@
  *   └────────┘          └────────────┘          └──────────┘
  *
  * @llm-note
- *   Dependencies: imports from [src/types, src/llm/index, src/console, src/tools/tool-utils, src/trust/index, node:fs, node:dotenv, node:readline] | imported by [src/index.ts] | tested by [tests/agent.test.ts, tests/e2e/*.test.ts]
- *   Data flow: receives user prompt → lazy-init messages array (system + user) → LLM loop (max 10 iterations) → parallel tool execution via Promise.all → adds tool results to messages → repeats until no tool calls → returns final text response
- *   State/Effects: mutates this.messages (persistent conversation state) | writes to Console (stderr + optional file) | reads systemPrompt from file if path provided | reads env for API keys/config
- *   Integration: exposes input(prompt, maxIterations?), resetConversation(), addTool(), removeTool(), getTools(), executeTool(), autoDebug(), getSession(), getTrust() | uses createLLM() factory | tool execution at line 285-302 (parallel) | main loop at line 221-267
- *   Performance: parallel tool execution via Promise.all | no caching | tool map for O(1) lookup | max 10 iterations default (configurable)
+ *   Dependencies: imports from [src/types, src/llm, src/console, src/tools, src/trust, src/core/*, node:fs, node:dotenv, node:readline] | imported by [src/index.ts] | tested by [tests/agent.test.ts, tests/session.test.ts, tests/e2e/*.test.ts]
+ *   Data flow: receives user prompt → lazy-init messages array (system + user) → LLM loop (max 10 iterations) → tool calls run via runScheduled → adds tool results to messages → repeats until no tool calls → returns final text response
+ *   State/Effects: mutates this.messages (persistent conversation state) | writes to Console (stderr + optional file) | reads systemPrompt from file if path provided | reads env for API keys/config | with a session id, saves to the SessionStore after every run
+ *   Integration: exposes input(), run(), stream(), resetConversation(), addTool(), removeTool(), getTools(), addPlugin(), executeTool(), getSession(), getUsage(), setApprover(), loadSession(), saveSession(), getTrust() and more | uses createLLM() factory | runLoop() backs input(), run() and stream()
+ *   Performance: parallel tool execution (maxParallelTools) | no caching | tool map for O(1) lookup | max 10 iterations default (configurable)
  *   ⚠️ messages persist across input() calls until resetConversation() | @xray tools pause execution in debug mode | tool errors returned to LLM for retry
  */
 
 import {
   AgentConfig,
+  AgentStreamEvent,
+  FunctionSchema,
+  InputOptions,
   Tool,
   LLM,
+  LLMResponse,
+  LLMStreamChunk,
   Message,
-  ToolResult
+  ToolCall,
+  ToolContext,
+  ToolErrorPolicy,
+  ToolResult,
+  ToolRetryPolicy,
+  TokenUsage,
+  RunResult,
+  RunStatus
 } from '../types';
 import { createLLM } from '../llm';
 import { Console } from '../console';
 import { processTools } from '../tools/tool-utils';
+import { executeSingleTool, isRetryable, retryDelay, toToolResult, ToolExecutionError, TraceEntry } from '../tools/tool-executor';
+import { FileSessionStore, SessionStore, createSessionId } from './session';
+import { BudgetExceeded, BudgetTracker, RunBudget } from './budget';
+import { ContextManager } from './context';
+import { runScheduled } from './scheduler';
+import { JsonSchema, SchemaValidationError, extractJson, validateSchema } from './schema';
+import { ApprovalDecision, ApprovalMode, ApprovalRequest, Approver, approvalGate, cliApprover, normalizeDecision } from './approval';
+import { DEFAULT_PRICES, PriceTable, addUsage, calculateCost, emptyUsage } from '../llm/usage';
+import { messageFields, toolMessageContent, userContent } from '../llm/content';
+import type { FileAttachment, SessionState } from '../connect/types';
 import { injectXrayContext, clearXrayContext } from '../tools/xray';
 import * as dotenv from 'dotenv';
 import * as fs from 'fs';
 import * as readline from 'readline';
 import { createTrustAgent, getDefaultTrustLevel } from '../trust';
+import { AgentPlugin, runHook } from './plugins';
+import { AgentCancelledError, isCancelled, raceAbort, sleep, throwIfAborted } from './abort';
 
 // Load environment variables from local .env only; if not present, env stays empty
 dotenv.config();
 
+/** Instruction for the optional wrap-up call when a run is stopped early */
+const FINAL_SUMMARY_PROMPT =
+  'You have run out of steps for this task. Do not call any more tools. ' +
+  'Summarize what you found so far and give your best final answer.';
+
+/** Tool calls in a trace, including those of nested sub-agent runs */
+function countToolCalls(trace: TraceEntry[]): number {
+  return trace.reduce((count, entry) =>
+    count + (entry.status === 'cancelled' || entry.status === 'rejected' ? 0 : 1) + countToolCalls(entry.children || []), 0);
+}
+
+const STRUCTURED_OUTPUT_PROMPT =
+  'Return your final answer to my last request as JSON matching the given schema. Use only information from this conversation.';
+
 /**
  * Agent class - The core of ConnectOnion
  * 
@@ -146,9 +188,52 @@ export class Agent {
   /** Trust configuration object */
   private _trust: any = null;
   /** In-memory trace entries for xray-style introspection */
-  private trace: Array<{ tool_name: string; timing: number; status: string; args?: any; result?: any; iteration?: number }> = [];
+  private trace: TraceEntry[] = [];
   /** Last user prompt, for xray context */
   private lastUserPrompt: string | null = null;
+  /** Lifecycle hook plugins, run in registration order */
+  private plugins: AgentPlugin[];
+  /** What a failing tool does to the run: surface to the LLM, retry first, or abort */
+  private onToolError: ToolErrorPolicy;
+  /** Extra attempts per failing tool call when onToolError is 'retry' */
+  private maxToolRetries: number;
+  /** Where sessions are persisted */
+  private sessionStore: SessionStore;
+  /** Id of the persisted session, or null when the conversation is memory-only */
+  private sessionId: string | null = null;
+  /** Load of config.session started by the constructor; the first run waits for it */
+  private sessionLoad: Promise<boolean> | null = null;
+  /** Save started by resetConversation(); the next run waits for it so it cannot overwrite the run's save */
+  private sessionReset: Promise<void> | null = null;
+  /** Number of input() runs in this conversation */
+  private turn = 0;
+  /** USD per million tokens, used to price each LLM call */
+  private prices: PriceTable;
+  /** Token usage of the latest input() run */
+  private inputUsage: TokenUsage = emptyUsage();
+  /** Token usage accumulated over the session */
+  private sessionUsage: TokenUsage = emptyUsage();
+  /** Default ceilings for every input() run */
+  private budget: RunBudget;
+  /** Ask the model to wrap up without tools when a run is stopped (true or a custom instruction) */
+  private finalSummary: boolean | string;
+  /** Context-window manager, or null when disabled */
+  private context: ContextManager | null;
+  /** Max tool calls of one batch in flight at once */
+  private maxParallelTools: number;
+  /** Default per-call timeout in ms (tool.timeout wins) */
+  private toolTimeout?: number;
+  /** Default retry policy (tool.retry fields win) */
+  private toolRetry: ToolRetryPolicy;
+  /** Decides on calls to tools with requiresApproval */
+  private approver: Approver;
+  private approvalMode: ApprovalMode;
+  /** Budget tracker of the run in progress, for sub-agent tools */
+  private runBudget: BudgetTracker | null = null;
+  /** Approval mode and approver the run in progress was given (InputOptions), over the agent's own */
+  private runApproval: Pick<InputOptions, 'approvalMode' | 'approver'> | null = null;
+  /** Approvals are asked one at a time, even when tool calls run in parallel */
+  private approvalQueue: Promise<unknown> = Promise.resolve();
 
   /**
    * Creates a new Agent instance
@@ -161,6 +246,20 @@ export class Agent {
    * @param config.apiKey - API key for LLM provider (uses env var if not provided)
    * @param config.model - Model to use (default: 'gpt-4o-mini')
    * @param config.maxIterations - Max iterations for tool calling (default: 10)
+   * @param config.plugins - Lifecycle hook plugins (before_llm, after_tool, ...)
+   * @param config.onToolError - Tool failure policy: 'surface' (default), 'retry' or 'abort'
+   * @param config.maxToolRetries - Extra attempts per failing call under 'retry' (default: 2)
+   * @param config.session - Session id to resume and keep saving to
+   * @param config.sessionStore - Where sessions live (default: FileSessionStore under .co/sessions/)
+   * @param config.prices - Price table for usage cost (default: DEFAULT_PRICES)
+   * @param config.budget - Per-run ceilings: maxTokens, maxCost, maxDurationMs, maxToolCalls
+   * @param config.finalSummary - On max iterations or budget stop, make one more call asking for a final answer
+   * @param config.context - Context-window management options, or false to disable compaction
+   * @param config.maxParallelTools - Max tool calls from one response running at once (default: no limit)
+   * @param config.toolTimeout - Default per-call tool timeout in ms
+   * @param config.toolRetry - Default retry policy: retries, backoff, delayMs, maxDelayMs, retryOn
+   * @param config.approver - Decides on calls to requiresApproval tools (default: terminal prompt on a TTY, otherwise reject)
+   * @param config.approvalMode - 'safe' (default), 'plan', 'accept_edits' or 'ulw'
    * 
    * @example
    * ```typescript
@@ -199,6 +298,21 @@ export class Agent {
     // Create a map for O(1) tool lookup by name
     this.toolMap = new Map(this.tools.map(tool => [tool.name, tool]));
 
+    this.plugins = [...(config.plugins || [])];
+    this.onToolError = config.onToolError || 'surface';
+    this.maxToolRetries = config.maxToolRetries ?? 2;
+    this.prices = config.prices || DEFAULT_PRICES;
+    this.budget = { ...config.budget };
+    this.finalSummary = config.finalSummary ?? false;
+    this.context = config.context === false ? null : new ContextManager(config.context);
+    this.maxParallelTools = config.maxParallelTools || Infinity;
+    this.toolTimeout = config.toolTimeout;
+    this.toolRetry = { ...config.toolRetry };
+    this.approver = config.approver || (process.stdin.isTTY
+      ? cliApprover()
+      : () => ({ approved: false, feedback: 'No approver is configured for tools that require approval' }));
+    this.approvalMode = config.approvalMode || 'safe';
+
     // No persistent history: align with Python current_session semantics
 
     // Setup console logging
@@ -217,6 +331,14 @@ export class Agent {
     }
     this.console = new Console(logFile);
 
+    // Sessions are opt-in: without config.session nothing is written to disk.
+    // Stores are async, so the load finishes in the background and runs wait for it
+    this.sessionStore = config.sessionStore || new FileSessionStore();
+    if (config.session) {
+      this.sessionLoad = this.loadSession(config.session);
+      this.sessionLoad.catch(() => undefined);
+    }
+
     // Initialize LLM - either use provided instance or create one
     if (config.llm) {
       this.llm = config.llm;
@@ -244,8 +366,10 @@ export class Agent {
    * 4. Generate a final response
    * 
    * @param prompt - The user's input prompt
-   * @param maxIterations - Override the default max iterations for this request
-   * @returns The agent's response as a string
+   * @param options - Max iterations override, or InputOptions ({ maxIterations, signal, schema, ... })
+   * @returns The agent's response as a string, or the validated object when options.schema is set
+   * @throws AgentCancelledError if options.signal fires before the run finishes
+   * @throws SchemaValidationError if the answer still fails options.schema after the re-asks
    * 
    * @example
    * ```typescript
@@ -257,11 +381,192 @@ export class Agent {
    *   'Analyze this data and create a report',
    *   20 // Allow more iterations for complex task
    * );
+   *
+   * // Stop the run when the HTTP client goes away
+   * const controller = new AbortController();
+   * req.on('close', () => controller.abort());
+   * const response = await agent.input(prompt, { signal: controller.signal });
+   *
+   * // Typed answer validated against a JSON Schema
+   * const order = await agent.input<{ id: string; total: number }>('Find order 42', {
+   *   schema: { type: 'object', properties: { id: { type: 'string' }, total: { type: 'number' } }, required: ['id', 'total'] },
+   * });
    * ```
    */
-  async input(prompt: string, maxIterations?: number): Promise<string> {
-    const iterations = maxIterations || this.maxIterations;
+  async input<T = any>(prompt: string, options: InputOptions & { schema: JsonSchema }): Promise<T>;
+  async input(prompt: string, options?: number | InputOptions): Promise<string>;
+  async input(prompt: string, options?: number | InputOptions): Promise<any> {
+    let finalResponse: unknown = '';
+    for await (const event of this.runLoop(prompt, this.resolveInputOptions(options))) {
+      if (event.type === 'complete') finalResponse = event.output !== undefined ? event.output : event.content;
+    }
+    return finalResponse;
+  }
 
+  /**
+   * Process user input and report how the run ended
+   *
+   * Same loop as input(), but never throws for run failures: the outcome is in
+   * status ('completed', 'max_iterations', 'budget_exceeded', 'cancelled' or
+   * 'error'), alongside the final text and the trace entries of this run.
+   *
+   * @param prompt - The user's input prompt
+   * @param options - Max iterations override, or InputOptions
+   * @returns RunResult for this run (output holds the validated object when options.schema is set)
+   *
+   * @example
+   * ```typescript
+   * const result = await agent.run('Audit the dependencies', { finalSummary: true });
+   * if (result.status !== 'completed') {
+   *   console.warn(`Stopped early (${result.status}) after ${result.iterations} iterations`);
+   * }
+   * console.log(result.text);
+   * ```
+   */
+  async run<T = unknown>(prompt: string, options?: number | InputOptions): Promise<RunResult<T>> {
+    const traceStart = this.trace.length;
+    let status: RunStatus = 'completed';
+    let text = '';
+    let output: T | undefined;
+    let budget: BudgetExceeded | undefined;
+    let error: unknown;
+    try {
+      for await (const event of this.runLoop(prompt, this.resolveInputOptions(options))) {
+        if (event.type === 'budget_exceeded') {
+          status = 'budget_exceeded';
+          budget = { limit: event.limit, max: event.max, used: event.used, reason: event.reason };
+        } else if (event.type === 'max_iterations') {
+          status = 'max_iterations';
+        } else if (event.type === 'complete') {
+          text = event.content;
+          output = event.output as T | undefined;
+        }
+      }
+    } catch (caught) {
+      status = caught instanceof AgentCancelledError ? 'cancelled' : 'error';
+      error = caught;
+    }
+    const result: RunResult<T> = {
+      status,
+      text,
+      trace: this.trace.slice(traceStart),
+      iterations: this.currentIteration,
+      usage: { ...this.inputUsage },
+    };
+    if (budget) result.budget = budget;
+    if (error !== undefined) result.error = error;
+    if (output !== undefined) result.output = output;
+    return result;
+  }
+
+  /**
+   * Process user input and stream typed events as the agent works
+   *
+   * Same loop and conversation state as input(), but yields text deltas,
+   * tool call start/end, tool results and iteration boundaries as they happen.
+   * Providers without a stream() method are called via complete() and their
+   * text arrives as a single delta.
+   *
+   * @param prompt - The user's input prompt
+   * @param options - Max iterations override, or InputOptions ({ maxIterations, signal })
+   * @returns Async iterator of AgentStreamEvent, ending with 'complete'
+   *
+   * @example
+   * ```typescript
+   * for await (const event of agent.stream('Summarize the report')) {
+   *   if (event.type === 'text_delta') process.stdout.write(event.delta);
+   *   if (event.type === 'tool_call_start') console.log(`\n[${event.name}]`);
+   * }
+   * ```
+   */
+  stream(prompt: string, options?: number | InputOptions): AsyncGenerator<AgentStreamEvent> {
+    return this.runLoop(prompt, this.resolveInputOptions(options));
+  }
+
+  /**
+   * Normalize the legacy maxIterations argument and InputOptions into one shape
+   *
+   * @private
+   */
+  private resolveInputOptions(options?: number | InputOptions): Required<Pick<InputOptions, 'maxIterations'>> & InputOptions {
+    const opts = typeof options === 'number' ? { maxIterations: options } : { ...options };
+    return { ...opts, maxIterations: opts.maxIterations || this.maxIterations };
+  }
+
+  /**
+   * Main execution loop shared by input() and stream(), reporting failures to on_error hooks
+   *
+   * @private
+   */
+  private async *runLoop(prompt: string, options: Required<Pick<InputOptions, 'maxIterations'>> & InputOptions): AsyncGenerator<AgentStreamEvent> {
+    // A failed session load fails every run (and saves nothing) until loadSession() succeeds
+    if (this.sessionLoad) {
+      await this.sessionLoad;
+      this.sessionLoad = null;
+    }
+    if (this.sessionReset) {
+      const reset = this.sessionReset;
+      await reset;
+      if (this.sessionReset === reset) this.sessionReset = null;
+    }
+    this.runApproval = { approvalMode: options.approvalMode, approver: options.approver };
+    try {
+      yield* this.loop(
+        prompt,
+        options.maxIterations,
+        options.signal,
+        { ...this.budget, ...options.budget },
+        options.finalSummary ?? this.finalSummary,
+        options.schema,
+        options.schemaRetries ?? 2,
+        options.images,
+        options.files
+      );
+    } catch (caught) {
+      // Provider SDKs reject aborted requests with their own error types
+      const error = isCancelled(caught, options.signal) && !(caught instanceof AgentCancelledError)
+        ? new AgentCancelledError()
+        : caught;
+      if (error instanceof AgentCancelledError) this.console.print(`✗ Cancelled`);
+      for (const plugin of this.plugins) {
+        try {
+          await plugin.on_error?.({ agent: this, error, iteration: this.currentIteration });
+        } catch {
+          // a failing error hook must not mask the original error
+        }
+      }
+      throw error;
+    } finally {
+      this.runApproval = null;
+      // Save whatever state the run reached: completed, failed or cancelled
+      if (this.sessionId) await this.saveSession();
+    }
+  }
+
+  /**
+   * One run of the tool-calling loop
+   *
+   * Each iteration may compact the context (manageContext), calls the LLM
+   * through plugins' before_llm/after_llm, then runs the requested tools. The
+   * signal is checked every iteration and forwarded to LLM requests and tools.
+   * A budget stops the run gracefully: pending tool calls are answered, a
+   * 'budget_exceeded' event is yielded and the latest text (or a finalSummary
+   * wrap-up) is the answer. With a schema the final text is parsed by
+   * structuredOutput().
+   *
+   * @private
+   */
+  private async *loop(
+    prompt: string,
+    iterations: number,
+    signal?: AbortSignal,
+    budget: RunBudget = {},
+    finalSummary: boolean | string = false,
+    schema?: JsonSchema,
+    schemaRetries: number = 2,
+    images?: string[],
+    files?: FileAttachment[]
+  ): AsyncGenerator<AgentStreamEvent> {
     // Record input implicitly via messages; no persistent history
 
     this.console.print(`INPUT: ${prompt.slice(0, 100)}...`);
@@ -271,70 +576,351 @@ export class Agent {
       this.messages = [{ role: 'system', content: this.systemPrompt }];
     }
 
-    // Add user message
-    this.messages.push({ role: 'user', content: prompt });
+    // Add user message (with image/file parts when attachments were given)
+    const userMessage: Message = { role: 'user', ...messageFields(userContent(prompt, images, files)) };
+    this.messages.push(userMessage);
     this.lastUserPrompt = prompt;
+    this.turn++;
+    this.inputUsage = emptyUsage();
 
     // Convert tools to OpenAI-compatible function schemas
     const toolSchemas = this.tools.map(tool => tool.toFunctionSchema());
 
     let finalResponse = '';
 
-    // Main execution loop - allows for multiple rounds of tool calling
-    for (let i = 0; i < iterations; i++) {
-      this.currentIteration = i + 1;
-      // Call LLM with current conversation and available tools
-      const reqStart = Date.now();
-      this.console.print(`→ LLM Request (${(this as any).llm?.model || 'llm'})`);
-      const llmResponse = await this.llm.complete(this.messages, toolSchemas);
-      const reqMs = Date.now() - reqStart;
-      this.console.print(`← LLM Response (${reqMs}ms)`);
-
-      // No persistent history; record via messages only
-
-      // Add assistant's response to the conversation
-      if (llmResponse.content || llmResponse.toolCalls.length > 0) {
-        const assistantMessage: Message = {
-          role: 'assistant',
-          content: llmResponse.content || '',
-        };
+    // LLM calls and tools get the tracker's signal: user cancel or the wall-time deadline
+    const tracker = new BudgetTracker(budget, signal);
+    this.runBudget = tracker;
+    const runSignal = tracker.signal;
+    let stopped: BudgetExceeded | null = null;
+    let answered = false;
 
-        // Include tool calls in the message if present
-        if (llmResponse.toolCalls.length > 0) {
-          assistantMessage.tool_calls = llmResponse.toolCalls;
+    try {
+      // Main execution loop - allows for multiple rounds of tool calling
+      for (let i = 0; i < iterations; i++) {
+        throwIfAborted(runSignal);
+        this.currentIteration = i + 1;
+        const iteration = this.currentIteration;
+        yield { type: 'iteration_start', iteration };
+
+        // Keep the conversation inside the model's context window
+        yield* this.manageContext(toolSchemas, runSignal);
+
+        // Call LLM with current conversation and available tools
+        const reqStart = Date.now();
+        this.console.print(`→ LLM Request (${(this as any).llm?.model || 'llm'})`);
+        const requestMessages = await runHook(
+          this.plugins,
+          'before_llm',
+          { agent: this, messages: this.messages, tools: toolSchemas, iteration },
+          'messages'
+        );
+        let llmResponse: LLMResponse | null = null;
+        for await (const chunk of this.streamLLM(requestMessages, toolSchemas, runSignal)) {
+          if (chunk.type === 'response') {
+            llmResponse = chunk.response;
+          } else if (chunk.type === 'text_delta') {
+            yield { type: 'text_delta', delta: chunk.delta, iteration };
+          } else if (chunk.type === 'tool_call_start') {
+            yield { type: 'tool_call_start', id: chunk.id, name: chunk.name, iteration };
+          } else {
+            yield { type: 'tool_call_end', toolCall: chunk.toolCall, iteration };
+          }
         }
+        if (!llmResponse) {
+          throw new Error('LLM stream ended without a response');
+        }
+        const reqMs = Date.now() - reqStart;
+        const tokens = this.recordUsage(llmResponse);
+        if (llmResponse.usage) this.context?.calibrate(this.messages.length, llmResponse.usage.input_tokens);
+        this.console.print(`← LLM Response (${reqMs}ms${tokens ? `, ${tokens} tokens` : ''})`);
+        llmResponse = await runHook(
+          this.plugins,
+          'after_llm',
+          { agent: this, messages: this.messages, response: llmResponse, iteration },
+          'response'
+        );
 
-        this.messages.push(assistantMessage);
-      }
+        // No persistent history; record via messages only
+
+        // Add assistant's response to the conversation
+        if (llmResponse.content || llmResponse.toolCalls.length > 0) {
+          const assistantMessage: Message = {
+            role: 'assistant',
+            content: llmResponse.content || '',
+          };
+
+          // Include tool calls in the message if present
+          if (llmResponse.toolCalls.length > 0) {
+            assistantMessage.tool_calls = llmResponse.toolCalls;
+          }
+
+          this.messages.push(assistantMessage);
+        }
+
+        // Process tool calls if the LLM requested any
+        if (llmResponse.toolCalls.length > 0) {
+          // Token/cost ceilings only stop a run that still has work to do
+          const over = tracker.checkUsage(this.inputUsage) || tracker.reserveToolCalls(llmResponse.toolCalls.length);
+          if (over) {
+            this.recordUnansweredToolCalls(llmResponse.toolCalls, `Not run: ${over.reason}`);
+            stopped = over;
+            yield { type: 'iteration_end', iteration };
+            break;
+          }
+
+          // Execute all tool calls in parallel for efficiency
+          let toolResults: Array<{ result: ToolResult; callId: string; name: string; timing: number }>;
+          try {
+            toolResults = await raceAbort(this.executeToolCalls(llmResponse.toolCalls, runSignal), runSignal);
+          } catch (error) {
+            // Keep the conversation valid: every tool_call needs a matching tool message
+            const reason = tracker.exceeded
+              ? `Not finished: ${tracker.exceeded.reason}`
+              : isCancelled(error, signal)
+                ? 'Cancelled before the tool finished'
+                : `Run aborted: ${error instanceof Error ? error.message : String(error)}`;
+            this.recordUnansweredToolCalls(llmResponse.toolCalls, reason);
+            throw error;
+          }
 
-      // Process tool calls if the LLM requested any
-      if (llmResponse.toolCalls.length > 0) {
-        // Execute all tool calls in parallel for efficiency
-        const toolResults = await this.executeToolCalls(llmResponse.toolCalls);
-
-        // Add tool results back to the conversation
-        // This allows the LLM to see the results and continue reasoning
-        for (const result of toolResults) {
-          this.messages.push({
-            role: 'tool',
-            content: JSON.stringify(result.result),
-            tool_call_id: result.callId,
-          });
+          // Add tool results back to the conversation
+          // This allows the LLM to see the results and continue reasoning
+          for (const result of toolResults) {
+            this.messages.push({
+              role: 'tool',
+              ...messageFields(toolMessageContent(result.result)),
+              tool_call_id: result.callId,
+            });
+            yield {
+              type: 'tool_result',
+              callId: result.callId,
+              name: result.name,
+              result: result.result,
+              timing_ms: result.timing,
+              iteration,
+            };
+          }
+          yield { type: 'iteration_end', iteration };
+        } else {
+          // No more tool calls - we have our final response
+          finalResponse = llmResponse.content || '';
+          answered = true;
+          yield { type: 'iteration_end', iteration };
+          break;
         }
+      }
+    } catch (error) {
+      // The deadline aborts in-flight work like a cancel; anything else is a real failure
+      if (!tracker.exceeded || signal?.aborted) throw error;
+      stopped = tracker.exceeded;
+    } finally {
+      tracker.dispose();
+      this.runBudget = null;
+    }
+
+    if (stopped) {
+      this.console.print(`⚠ Stopped: ${stopped.reason}`);
+      yield { type: 'budget_exceeded', ...stopped, iteration: this.currentIteration };
+    } else if (!answered) {
+      this.console.print(`⚠ Stopped: reached max iterations (${iterations})`);
+      yield { type: 'max_iterations', max: iterations, iteration: this.currentIteration };
+    }
+    if (stopped || !answered) {
+      if (finalSummary) {
+        finalResponse = yield* this.summarize(typeof finalSummary === 'string' ? finalSummary : FINAL_SUMMARY_PROMPT, toolSchemas, signal);
       } else {
-        // No more tool calls - we have our final response
-        finalResponse = llmResponse.content || '';
-        break;
+        // Partial answer: the latest text the model produced during this run
+        // (compaction never removes the current turn, so its user message is still there)
+        const runStart = this.messages.indexOf(userMessage) + 1;
+        const lastText = this.messages.slice(runStart).reverse().find(m => m.role === 'assistant' && m.content);
+        finalResponse = lastText ? lastText.content : '';
       }
     }
 
+    // A structured answer needs a real final answer; a stopped run without a summary has none
+    let output: unknown;
+    if (schema && (answered || finalSummary)) {
+      output = await this.structuredOutput(schema, schemaRetries, finalResponse, signal);
+    }
+
+    finalResponse = await runHook(
+      this.plugins,
+      'on_complete',
+      { agent: this, prompt, content: finalResponse, messages: this.messages, iteration: this.currentIteration },
+      'content'
+    );
+
     this.console.print(`✓ Complete`);
 
-    return finalResponse;
+    yield output === undefined ? { type: 'complete', content: finalResponse } : { type: 'complete', content: finalResponse, output };
+  }
+
+  /**
+   * Price an LLM response's usage and add it to the input and session totals
+   *
+   * @returns Total tokens of this call (0 if the provider reported none)
+   * @private
+   */
+  private recordUsage(response: LLMResponse): number {
+    if (!response.usage) return 0;
+    const model = (this.llm as any).model || '';
+    response.usage = { ...response.usage, cost: calculateCost(model, response.usage, this.prices) };
+    this.inputUsage = addUsage(this.inputUsage, response.usage);
+    this.sessionUsage = addUsage(this.sessionUsage, response.usage);
+    return response.usage.total_tokens;
+  }
+
+  /**
+   * Compact the conversation when it nears the context window, reporting
+   * progress with the same fields as the connect 'compact' ChatItem
+   *
+   * @private
+   */
+  private async *manageContext(toolSchemas: FunctionSchema[], signal?: AbortSignal): AsyncGenerator<AgentStreamEvent> {
+    const model = (this.llm as any).model || '';
+    if (!this.context || !this.context.shouldCompact(this.messages!, model, toolSchemas)) return;
+
+    const context = this.context;
+    const iteration = this.currentIteration;
+    const id = `compact_${Date.now()}`;
+    const percent = context.percent(context.count(this.messages!, model, toolSchemas), model);
+    this.console.print(`⟳ Compacting context (${percent}% of window)`);
+    yield { type: 'compact', id, status: 'compacting', context_percent: percent, iteration };
+    try {
+      const result = await context.compact(this.messages!, model, async (instruction, transcript) => {
+        const response = await raceAbort(
+          this.llm.complete([{ role: 'system', content: instruction }, { role: 'user', content: transcript }], [], { signal }),
+          signal
+        );
+        this.recordUsage(response);
+        if (!response.content) throw new Error('LLM returned an empty summary');
+        return response.content;
+      }, toolSchemas);
+      this.messages = result.messages;
+      const message = result.summarized
+        ? `Summarized ${result.summarized} earlier messages`
+        : 'Trimmed tool results';
+      this.console.print(`✓ ${message}`);
+      yield {
+        type: 'compact',
+        id,
+        status: 'done',
+        context_before: context.percent(result.before, model),
+        context_after: context.percent(result.after, model),
+        message,
+        iteration,
+      };
+    } catch (error) {
+      if (isCancelled(error, signal)) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      this.console.print(`✗ Compaction failed: ${message}`);
+      yield { type: 'compact', id, status: 'error', error: message, iteration };
+    }
+  }
+
+  /**
+   * Turn the finished run into a value that passes the schema
+   *
+   * The final answer is used as-is when it already is matching JSON.
+   * Otherwise structuredComplete is asked for it, and each invalid reply is
+   * sent back with its validation errors, up to `retries` more times. Nothing
+   * is added to the conversation.
+   *
+   * @private
+   */
+  private async structuredOutput(schema: JsonSchema, retries: number, finalText: string, signal?: AbortSignal): Promise<unknown> {
+    const direct = extractJson(finalText);
+    if (direct !== undefined && validateSchema(direct, schema).length === 0) return direct;
+
+    let instruction = STRUCTURED_OUTPUT_PROMPT;
+    let errors: string[] = [];
+    let value: unknown;
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      throwIfAborted(signal);
+      try {
+        value = await raceAbort(this.llm.structuredComplete(
+          [...(this.messages || []), { role: 'user', content: instruction }],
+          schema
+        ), signal);
+        errors = validateSchema(value, schema);
+      } catch (error) {
+        if (isCancelled(error, signal)) throw error;
+        value = undefined;
+        errors = [error instanceof Error ? error.message : String(error)];
+      }
+      if (errors.length === 0) return value;
+      this.console.print(`⚠ Structured output rejected (${attempt + 1}/${retries + 1}): ${errors[0]}`);
+      const previous = value === undefined ? 'was not valid JSON' : `${JSON.stringify(value)} is invalid`;
+      instruction = `${STRUCTURED_OUTPUT_PROMPT}\n\nYour previous answer ${previous}:\n- ${errors.join('\n- ')}\nReturn corrected JSON.`;
+    }
+    throw new SchemaValidationError(errors, value);
   }
 
   /**
-   * Execute multiple tool calls in parallel
+   * One extra LLM call asking the model to wrap up after the run was stopped
+   *
+   * Tool schemas are still sent (some providers reject tool history without
+   * them) but any tool calls in the reply are dropped. Only the summary is
+   * added to the conversation, not the instruction.
+   *
+   * @private
+   */
+  private async *summarize(instruction: string, toolSchemas: FunctionSchema[], signal?: AbortSignal): AsyncGenerator<AgentStreamEvent, string> {
+    const iteration = this.currentIteration;
+    this.console.print(`→ LLM Request (final summary)`);
+    const requestMessages = await runHook(
+      this.plugins,
+      'before_llm',
+      { agent: this, messages: [...this.messages!, { role: 'user', content: instruction }], tools: toolSchemas, iteration },
+      'messages'
+    );
+    let response: LLMResponse | null = null;
+    for await (const chunk of this.streamLLM(requestMessages, toolSchemas, signal)) {
+      if (chunk.type === 'response') response = chunk.response;
+      else if (chunk.type === 'text_delta') yield { type: 'text_delta', delta: chunk.delta, iteration };
+    }
+    if (!response) {
+      throw new Error('LLM stream ended without a response');
+    }
+    this.recordUsage(response);
+    response = await runHook(
+      this.plugins,
+      'after_llm',
+      { agent: this, messages: this.messages!, response, iteration },
+      'response'
+    );
+    const summary = response.content || '';
+    if (summary) this.messages!.push({ role: 'assistant', content: summary });
+    return summary;
+  }
+
+  /**
+   * Stream one LLM completion, falling back to complete() for providers
+   * that do not implement stream()
+   *
+   * @private
+   */
+  private async *streamLLM(messages: Message[], toolSchemas: FunctionSchema[], signal?: AbortSignal): AsyncGenerator<LLMStreamChunk> {
+    if (this.llm.stream) {
+      for await (const chunk of this.llm.stream(messages, toolSchemas, { signal })) {
+        // Custom providers may ignore the signal; stop consuming regardless
+        throwIfAborted(signal);
+        yield chunk;
+      }
+      return;
+    }
+    const response = await raceAbort(this.llm.complete(messages, toolSchemas, { signal }), signal);
+    if (response.content) yield { type: 'text_delta', delta: response.content };
+    for (const toolCall of response.toolCalls) {
+      yield { type: 'tool_call_start', id: toolCall.id, name: toolCall.name };
+      yield { type: 'tool_call_end', toolCall };
+    }
+    yield { type: 'response', response };
+  }
+
+  /**
+   * Execute multiple tool calls in parallel, within the concurrency rules
    * 
    * @param toolCalls - Array of tool calls to execute
    * @returns Array of results with their corresponding call IDs
@@ -342,30 +928,79 @@ export class Agent {
    * @private
    */
   private async executeToolCalls(
-    toolCalls: Array<{ name: string; arguments: any; id: string }>
-  ): Promise<Array<{ result: ToolResult; callId: string }>> {
-    // Execute all tool calls in parallel using Promise.all
-    // This significantly improves performance when multiple tools are called
-    const results = await Promise.all(
-      toolCalls.map(async (toolCall) => {
-        const result = await this.executeToolCall(
-          toolCall.name,
-          toolCall.arguments,
-          toolCall.id
-        );
-        return { result, callId: toolCall.id };
-      })
+    toolCalls: ToolCall[],
+    signal?: AbortSignal
+  ): Promise<Array<{ result: ToolResult; callId: string; name: string; timing: number }>> {
+    // Run in parallel up to maxParallelTools; sequential tools run alone and
+    // tools sharing a group never overlap. Results keep the call order.
+    return runScheduled(
+      toolCalls.map((toolCall) => {
+        const tool = this.toolMap.get(toolCall.name);
+        return {
+          exclusive: tool?.sequential,
+          group: tool?.group,
+          run: async () => {
+            const t0 = Date.now();
+            const result = toolCall.invalidArguments
+              ? await this.answerInvalidArguments(toolCall)
+              : await this.executeToolCall(toolCall.name, toolCall.arguments, toolCall.id, signal);
+            return { result, callId: toolCall.id, name: toolCall.name, timing: Date.now() - t0 };
+          },
+        };
+      }),
+      this.maxParallelTools
     );
+  }
 
-    return results;
+  /**
+   * Answer every tool call left unanswered by a cancelled or aborted batch so
+   * the assistant tool_calls message is never left without its tool results
+   *
+   * @private
+   */
+  private recordUnansweredToolCalls(toolCalls: ToolCall[], reason: string): void {
+    // Only answers after this batch's assistant message count: providers like
+    // Gemini reuse call ids (fc_0, fc_1, ...) every turn
+    const messages = this.messages || [];
+    let batchStart = messages.length;
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i].tool_calls === toolCalls) { batchStart = i + 1; break; }
+    }
+    const answered = new Set(messages.slice(batchStart).filter(m => m.role === 'tool').map(m => m.tool_call_id));
+    for (const toolCall of toolCalls) {
+      if (answered.has(toolCall.id)) continue;
+      const result: ToolResult = { status: 'error', error: reason };
+      this.messages!.push({ role: 'tool', content: JSON.stringify(result), tool_call_id: toolCall.id });
+      this.trace.push({
+        type: 'tool_execution',
+        tool_name: toolCall.name,
+        arguments: toolCall.arguments,
+        call_id: toolCall.id,
+        timing: 0,
+        status: 'cancelled',
+        result: null,
+        iteration: this.currentIteration,
+        timestamp: Date.now(),
+        error: reason,
+      });
+    }
   }
 
   /**
    * Execute a single tool call
+   *
+   * Runs through executeSingleTool, so a throwing tool becomes a traced
+   * ToolResult{status:'error'} instead of rejecting the whole batch. What
+   * happens next follows the tool error policy: 'surface' hands the error to
+   * the LLM, 'retry' re-runs the tool up to maxToolRetries times first, and
+   * 'abort' fails the run with a ToolExecutionError. A retry policy (the
+   * tool's own, over AgentConfig.toolRetry) sets the attempts and backoff
+   * explicitly; timeouts come back as error_type 'ToolTimeoutError'.
    * 
    * @param name - Name of the tool to execute
    * @param args - Arguments to pass to the tool
    * @param callId - Unique identifier for this tool call
+   * @param signal - Run cancellation signal, handed to the tool via ToolContext
    * @returns The result of the tool execution
    * 
    * @private
@@ -373,20 +1008,12 @@ export class Agent {
   private async executeToolCall(
     name: string,
     args: any,
-    callId: string
+    callId: string,
+    signal?: AbortSignal
   ): Promise<ToolResult> {
     // Look up the tool by name
     const tool = this.toolMap.get(name);
 
-    // Handle case where tool doesn't exist
-    if (!tool) {
-      const result: ToolResult = {
-        status: 'not_found',
-        error: `Tool ${name} not found`,
-      };
-      return result;
-    }
-
     // Prepare xray context before execution
     const previousTools = this.trace.map(t => t.tool_name);
     injectXrayContext(
@@ -398,7 +1025,7 @@ export class Agent {
     );
     try {
       // If debugger enabled and tool is marked as @xray, pause before execution
-      if (this.debugEnabled && (tool as any).xray) {
+      if (tool && this.debugEnabled && (tool as any).xray) {
         const maybeArgs = await this.pauseAtBreakpoint(tool, args);
         if (maybeArgs && (maybeArgs as any).__skip__) {
           const result: ToolResult = { status: 'success', result: '[debugger: skipped]' };
@@ -406,27 +1033,220 @@ export class Agent {
         }
         if (maybeArgs) args = maybeArgs;
       }
-      // Execute the tool with provided arguments (no catch: let errors surface)
-      const t0 = Date.now();
-      const output = await tool.run(args);
-      const result: ToolResult = { status: 'success', result: output };
-      const dt = Date.now() - t0;
-      this.trace.push({ tool_name: name, timing: dt, status: 'success', args, result: output, iteration: this.currentIteration });
-      if ((tool as any).xray || this.debugEnabled) {
-        this.console.printXray(name, args, output, dt, { agent: this.name, iteration: this.currentIteration, userPrompt: this.lastUserPrompt || undefined });
-      } else {
-        const rs = String(output);
-        const preview = rs.length > 120 ? rs.slice(0, 120) + '...' : rs;
-        this.console.print(`← Result (${(dt / 1000).toFixed(dt < 100 ? 4 : 1)}s): ${preview}`);
+      if (tool) {
+        args = await runHook(
+          this.plugins,
+          'before_tool',
+          { agent: this, name, args, callId, iteration: this.currentIteration },
+          'args'
+        );
+      }
+
+      if (tool?.requiresApproval) {
+        let decision: ApprovalDecision;
+        try {
+          decision = await this.requestApproval(tool, args, callId, signal);
+        } catch (error) {
+          // A throwing approver fails this call like a throwing tool, not the whole batch
+          if (error instanceof AgentCancelledError || signal?.aborted) throw error;
+          const entry = this.recordApprovalFailure(name, args, callId, error);
+          if (this.onToolError === 'abort') {
+            throw new ToolExecutionError(name, entry.error || 'Unknown error', entry.error_type);
+          }
+          return await runHook(
+            this.plugins,
+            'after_tool',
+            { agent: this, name, args, callId, result: toToolResult(entry), iteration: this.currentIteration },
+            'result'
+          );
+        }
+        if (!decision.approved) {
+          const entry = this.recordRejection(name, args, callId, decision.feedback);
+          return await runHook(
+            this.plugins,
+            'after_tool',
+            { agent: this, name, args, callId, result: toToolResult(entry), iteration: this.currentIteration },
+            'result'
+          );
+        }
+        if (decision.args) args = decision.args;
+      }
+
+      const timeout = tool?.timeout ?? this.toolTimeout;
+      const retry: ToolRetryPolicy = { ...this.toolRetry, ...tool?.retry };
+      const retries = retry.retries ?? (this.onToolError === 'retry' ? this.maxToolRetries : 0);
+      let entry = await executeSingleTool(name, args, callId, this.toolMap, this, this.console, signal, timeout, this.subRunContext());
+      this.trace.push(entry);
+      for (
+        let attempt = 1;
+        entry.status === 'error' && attempt <= retries && isRetryable(entry.error_type, retry.retryOn);
+        attempt++
+      ) {
+        await sleep(retryDelay(retry, attempt), signal);
+        if (signal?.aborted) break;
+        this.console.print(`→ Retry ${attempt}/${retries}: ${name}`);
+        entry = await executeSingleTool(name, args, callId, this.toolMap, this, this.console, signal, timeout, this.subRunContext());
+        this.trace.push(entry);
       }
-      // Silence unused var warning by referencing callId in a no-op
-      void callId;
-      return result;
+
+      if (entry.status === 'error' && this.onToolError === 'abort' && !signal?.aborted) {
+        throw new ToolExecutionError(name, entry.error || 'Unknown error', entry.error_type);
+      }
+      if (tool && entry.status === 'success' && ((tool as any).xray || this.debugEnabled)) {
+        this.console.printXray(name, args, entry.output, entry.timing, { agent: this.name, iteration: this.currentIteration, userPrompt: this.lastUserPrompt || undefined });
+      }
+
+      return await runHook(
+        this.plugins,
+        'after_tool',
+        { agent: this, name, args, callId, result: toToolResult(entry), iteration: this.currentIteration },
+        'result'
+      );
     } finally {
       clearXrayContext();
     }
   }
 
+  /**
+   * What tools that run sub-agents get from this run: the budget left and a
+   * sink that charges their usage and tool calls to it
+   *
+   * @private
+   */
+  private subRunContext(): Pick<ToolContext, 'budget' | 'report'> {
+    return {
+      budget: this.runBudget ? this.runBudget.remaining(this.inputUsage) : undefined,
+      report: ({ usage, trace }) => {
+        if (usage) {
+          this.inputUsage = addUsage(this.inputUsage, usage);
+          this.sessionUsage = addUsage(this.sessionUsage, usage);
+        }
+        if (trace) this.runBudget?.addToolCalls(countToolCalls(trace));
+      },
+    };
+  }
+
+  /**
+   * Run the approval gate for one call: the mode may decide alone, otherwise
+   * the approver is asked (one question at a time per agent)
+   *
+   * @private
+   */
+  private async requestApproval(
+    tool: Tool,
+    args: Record<string, any>,
+    callId: string,
+    signal?: AbortSignal
+  ): Promise<ApprovalDecision> {
+    const mode = this.runApproval?.approvalMode || this.approvalMode;
+    const approver = this.runApproval?.approver || this.approver;
+    const gate = approvalGate(tool.requiresApproval, mode);
+    if (gate === 'run') return { approved: true };
+    if (gate === 'block') {
+      return { approved: false, feedback: 'Plan mode is on: describe the change you would make instead of making it' };
+    }
+    const request: ApprovalRequest = {
+      tool: tool.name,
+      arguments: args,
+      description: tool.description,
+      callId,
+      iteration: this.currentIteration,
+      mode,
+      signal,
+    };
+    const turn = this.approvalQueue.then(() => {
+      throwIfAborted(signal);
+      return approver(request);
+    });
+    this.approvalQueue = turn.catch(() => undefined);
+    const decision = normalizeDecision(await raceAbort(Promise.resolve(turn), signal));
+    this.console.print(decision.approved ? `✓ Approved: ${tool.name}` : `✗ Rejected: ${tool.name}`);
+    return decision;
+  }
+
+  /**
+   * Trace a call that was not run because approval was refused
+   *
+   * @private
+   */
+  private recordRejection(name: string, args: Record<string, any>, callId: string, feedback?: string): TraceEntry {
+    const error = `User rejected the call to '${name}'${feedback ? `: ${feedback}` : ''}`;
+    const entry: TraceEntry = {
+      type: 'tool_execution',
+      tool_name: name,
+      arguments: args,
+      call_id: callId,
+      timing: 0,
+      status: 'rejected',
+      result: null,
+      iteration: this.currentIteration,
+      timestamp: Date.now(),
+      error,
+    };
+    this.trace.push(entry);
+    return entry;
+  }
+
+  /**
+   * Trace a call that was not run because the approver threw
+   *
+   * @private
+   */
+  private recordApprovalFailure(name: string, args: Record<string, any>, callId: string, error: unknown): TraceEntry {
+    const message = error instanceof Error ? error.message : String(error);
+    const entry: TraceEntry = {
+      type: 'tool_execution',
+      tool_name: name,
+      arguments: args,
+      call_id: callId,
+      timing: 0,
+      status: 'error',
+      result: `Approval failed: ${message}`,
+      iteration: this.currentIteration,
+      timestamp: Date.now(),
+      error: message,
+      error_type: error instanceof Error ? error.constructor.name : typeof error,
+    };
+    this.console.print(`✗ Approval failed: ${name}: ${message}`);
+    this.trace.push(entry);
+    return entry;
+  }
+
+  /**
+   * Answer a call whose arguments the provider could not parse with an error
+   * the model can correct, instead of running the tool with no arguments
+   *
+   * @private
+   */
+  private async answerInvalidArguments(toolCall: ToolCall): Promise<ToolResult> {
+    const { name, id: callId } = toolCall;
+    const message = `${toolCall.invalidArguments}. Call '${name}' again with its arguments as a JSON object.`;
+    const entry: TraceEntry = {
+      type: 'tool_execution',
+      tool_name: name,
+      arguments: {},
+      call_id: callId,
+      timing: 0,
+      status: 'error',
+      result: message,
+      iteration: this.currentIteration,
+      timestamp: Date.now(),
+      error: message,
+      error_type: 'InvalidArgumentsError',
+    };
+    this.console.print(`✗ Invalid arguments: ${name}: ${toolCall.invalidArguments}`);
+    this.trace.push(entry);
+    if (this.onToolError === 'abort') {
+      throw new ToolExecutionError(name, message, entry.error_type);
+    }
+    return await runHook(
+      this.plugins,
+      'after_tool',
+      { agent: this, name, args: {}, callId, result: toToolResult(entry), iteration: this.currentIteration },
+      'result'
+    );
+  }
+
   /** Pause at @xray breakpoint with basic interactive menu */
   private async pauseAtBreakpoint(tool: Tool, args: any): Promise<any> {
     this.console.print(`@xray breakpoint: ${tool.name}`);
@@ -478,18 +1298,119 @@ export class Agent {
   /** Get trust configuration */
   getTrust() { return this._trust; }
 
+  getName(): string { return this.name; }
+
+  /** Model name of the LLM ('' for custom providers that do not set one) */
+  getModel(): string { return (this.llm as any).model || ''; }
+
+  /**
+   * The per-run budget from AgentConfig.budget (per-call budgets are merged over it)
+   */
+  getBudget(): RunBudget { return { ...this.budget }; }
+
   /**
    * Get the current in-memory session (messages + tool execution trace)
    */
   getSession() {
     return {
+      session_id: this.sessionId,
       messages: this.messages || [],
       trace: this.trace,
+      turn: this.turn,
+      usage: this.sessionUsage,
       iteration: this.currentIteration,
       user_prompt: this.lastUserPrompt || ''
     };
   }
 
+  /**
+   * Token usage and USD cost of the latest input() run and of the whole session
+   *
+   * @example
+   * ```typescript
+   * await agent.input('Summarize the report');
+   * const { last_input, session } = agent.getUsage();
+   * console.log(`${last_input.total_tokens} tokens, $${session.cost?.toFixed(4)} so far`);
+   * ```
+   */
+  getUsage(): { last_input: TokenUsage; session: TokenUsage } {
+    return { last_input: { ...this.inputUsage }, session: { ...this.sessionUsage } };
+  }
+
+  /**
+   * Switch how calls to requiresApproval tools are handled
+   *
+   * @param mode - 'safe' asks the approver, 'plan' blocks them, 'accept_edits'
+   *   lets 'edit' tools through and asks for the rest, 'ulw' runs everything
+   */
+  setApprovalMode(mode: ApprovalMode): void {
+    this.approvalMode = mode;
+  }
+
+  getApprovalMode(): ApprovalMode {
+    return this.approvalMode;
+  }
+
+  /**
+   * Replace the approver (e.g. serve() routes approvals to the connected client)
+   */
+  setApprover(approver: Approver): void {
+    this.approver = approver;
+  }
+
+  /**
+   * Resume a persisted conversation
+   *
+   * Replaces the current messages and trace with the stored session and keeps
+   * saving to it after every run. An unknown id starts an empty conversation
+   * under that id. When loads overlap, the last one called wins.
+   *
+   * @param id - Session id in the session store
+   * @returns true if a stored session was found
+   *
+   * @example
+   * ```typescript
+   * const agent = new Agent({ name: 'support' });
+   * await agent.loadSession('ticket-42');
+   * await agent.input('Where were we?');
+   * ```
+   */
+  async loadSession(id: string): Promise<boolean> {
+    this.sessionId = id;
+    this.sessionLoad = null;
+    const state = await this.sessionStore.load(id);
+    if (this.sessionId !== id) return state !== null;
+    this.messages = state?.messages?.length ? (state.messages as Message[]) : null;
+    this.trace = (state?.trace as TraceEntry[]) || [];
+    this.turn = state?.turn || 0;
+    this.sessionUsage = state?.usage ? { ...emptyUsage(), ...state.usage } : emptyUsage();
+    const lastUser = [...(this.messages || [])].reverse().find(m => m.role === 'user');
+    this.lastUserPrompt = lastUser ? lastUser.content : null;
+    if (state) this.console.print(`Resumed session ${id} (turn ${this.turn})`);
+    return state !== null;
+  }
+
+  /**
+   * Write the conversation to the session store
+   *
+   * Called automatically after every run once a session id is set.
+   *
+   * @param id - Session id to save under (default: the current one, or a new id)
+   * @returns The session id used
+   */
+  async saveSession(id?: string): Promise<string> {
+    const sessionId = this.sessionId = id || this.sessionId || createSessionId();
+    const state: SessionState = {
+      session_id: sessionId,
+      messages: this.messages || [],
+      trace: this.trace,
+      turn: this.turn,
+      usage: this.sessionUsage,
+    };
+    await this.sessionStore.save(sessionId, state);
+    return sessionId;
+  }
+
   /**
    * Clear the in-memory tool execution trace for this session
    */
@@ -575,6 +1496,15 @@ export class Agent {
     return false;
   }
 
+  /**
+   * Register a lifecycle hook plugin after construction
+   *
+   * @param plugin - Plugin with any of before_llm, after_llm, before_tool, after_tool, on_error, on_complete
+   */
+  addPlugin(plugin: AgentPlugin): void {
+    this.plugins.push(plugin);
+  }
+
   /**
    * Execute a single tool by name with arguments (manual invocation)
    */
@@ -585,9 +1515,20 @@ export class Agent {
 
   /**
    * Reset the conversation, keeping tools and configuration intact
+   *
+   * A persisted session is saved empty in the background; the next run waits
+   * for that write, and a failed one is logged.
    */
   resetConversation(): void {
     this.messages = null;
     this.trace = [];
+    this.turn = 0;
+    this.sessionUsage = emptyUsage();
+    if (this.sessionId) {
+      this.sessionReset = this.saveSession().then(
+        () => undefined,
+        error => this.console.print(`✗ Could not save the reset session: ${error instanceof Error ? error.message : String(error)}`)
+      );
+    }
   }
 }
@@ -0,0 +1,146 @@
+/**
+ * @purpose Human-in-the-loop approval for local tools: approval modes, the Approver contract and built-in approvers (CLI, callback, auto rules)
+ *
+ * @graph Approval gate (per tool call, after before_tool, before tool.run)
+ *
+ *   tool.requiresApproval?
+ *        │ no ──────────────────────────────────────────▶ run
+ *        │ yes
+ *        ▼
+ *   mode ─┬─ 'ulw' ───────────────────────────────────────▶ run
+ *         ├─ 'accept_edits' + requiresApproval 'edit' ────▶ run
+ *         ├─ 'plan' ───────────────────────────────────────▶ blocked (not run, LLM told to plan)
+ *         └─ otherwise ──▶ approver(request)
+ *                            ├─ approve ──────────────────▶ run
+ *                            ├─ approve + edited args ────▶ run with new args
+ *                            └─ reject (+ feedback) ──────▶ not run, feedback sent to the LLM
+ *
+ * @llm-note
+ *   Dependencies: imports from [src/connect/types (type-only), node:readline] | imported by [src/core/agent.ts, src/types.ts, src/index.ts] | tested by [tests/approval.test.ts]
+ *   Data flow: Agent.executeToolCall calls approvalGate(tool, mode) → 'ask' means build an ApprovalRequest and await the approver (serialized per agent) → normalizeDecision() turns boolean/partial answers into an ApprovalDecision
+ *   State/Effects: cliApprover reads stdin/writes stderr via readline, one question at a time | autoApprover and callback approvers are pure
+ *   Integration: exposes ApprovalMode (same modes as remote agents), ApprovalRequest, ApprovalDecision, Approver, ApprovalRule, cliApprover(), autoApprover(), normalizeDecision(), approvalGate() | Agent takes AgentConfig.approver / approvalMode and exposes setApprovalMode()/getApprovalMode()
+ *   Errors: an approver that throws fails the tool call like a throwing tool (error_type from the thrown error)
+ */
+
+import * as readline from 'readline';
+import type { ApprovalMode } from '../connect/types';
+
+export type { ApprovalMode } from '../connect/types';
+
+/**
+ * What the approver is asked about
+ */
+export interface ApprovalRequest {
+  tool: string;
+  arguments: Record<string, any>;
+  description: string;
+  callId: string;
+  iteration: number;
+  mode: ApprovalMode;
+  /** Fires when the run is cancelled; long-running approvers should give up */
+  signal?: AbortSignal;
+}
+
+/**
+ * The approver's answer. `args` replaces the arguments the tool runs with;
+ * `feedback` on a rejection is passed to the LLM.
+ */
+export type ApprovalDecision =
+  | { approved: true; args?: Record<string, any> }
+  | { approved: false; feedback?: string };
+
+/**
+ * Decides whether a tool call may run. `true`/`false` are shorthand for approve/reject.
+ */
+export type Approver = (request: ApprovalRequest) => ApprovalDecision | boolean | Promise<ApprovalDecision | boolean>;
+
+/**
+ * One auto-approval rule; the first matching rule decides
+ */
+export interface ApprovalRule {
+  /** Tool name, or a pattern matched against it */
+  tool: string | RegExp;
+  /** Extra condition on the arguments */
+  when?: (args: Record<string, any>) => boolean;
+  decision: 'approve' | 'reject';
+  /** Sent to the LLM when the rule rejects */
+  feedback?: string;
+}
+
+/**
+ * Turn an approver's answer into a full ApprovalDecision
+ */
+export function normalizeDecision(answer: ApprovalDecision | boolean | undefined | null): ApprovalDecision {
+  if (answer === true) return { approved: true };
+  if (!answer) return { approved: false };
+  return answer;
+}
+
+/**
+ * What the mode does with a call to this tool before any approver is consulted
+ *
+ * @param requiresApproval - The tool's flag ('edit' marks tools that only change files)
+ * @returns 'run' to skip approval, 'block' to refuse without asking, 'ask' to consult the approver
+ */
+export function approvalGate(requiresApproval: boolean | 'edit' | undefined, mode: ApprovalMode): 'run' | 'block' | 'ask' {
+  if (!requiresApproval || mode === 'ulw') return 'run';
+  if (mode === 'plan') return 'block';
+  if (mode === 'accept_edits' && requiresApproval === 'edit') return 'run';
+  return 'ask';
+}
+
+/**
+ * Approve or reject by rules; calls that match no rule go to the fallback (default: reject)
+ *
+ * @example
+ * ```typescript
+ * autoApprover([
+ *   { tool: 'write_file', when: args => args.path.startsWith('tmp/'), decision: 'approve' },
+ *   { tool: /^delete_/, decision: 'reject', feedback: 'Deleting is not allowed here.' },
+ * ], cliApprover());
+ * ```
+ */
+export function autoApprover(rules: ApprovalRule[], fallback?: Approver): Approver {
+  return (request) => {
+    for (const rule of rules) {
+      const nameMatches = typeof rule.tool === 'string' ? rule.tool === request.tool : rule.tool.test(request.tool);
+      if (!nameMatches || (rule.when && !rule.when(request.arguments))) continue;
+      return rule.decision === 'approve'
+        ? { approved: true }
+        : { approved: false, feedback: rule.feedback };
+    }
+    return fallback ? fallback(request) : { approved: false, feedback: `No approval rule matches '${request.tool}'` };
+  };
+}
+
+/**
+ * Ask on the terminal: [y]es, [n]o (with optional feedback) or [e]dit the arguments as JSON
+ */
+export function cliApprover(options: { input?: NodeJS.ReadableStream; output?: NodeJS.WritableStream } = {}): Approver {
+  return async (request) => {
+    const output = options.output || process.stderr;
+    const rl = readline.createInterface({ input: options.input || process.stdin, output });
+    const ask = (q: string) => new Promise<string>(res => rl.question(q, ans => res(ans)));
+    const onAbort = () => rl.close();
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+      output.write(`Approval needed: ${request.tool}\narguments: ${JSON.stringify(request.arguments)}\n`);
+      const cmd = (await ask('approve> [y]es, [n]o, [e]dit args: ')).trim().toLowerCase();
+      if (cmd === 'y' || cmd === 'yes') return { approved: true };
+      if (cmd === 'e' || cmd === 'edit') {
+        const text = await ask('args JSON> ');
+        try {
+          return { approved: true, args: JSON.parse(text) };
+        } catch {
+          return { approved: false, feedback: 'The edited arguments were not valid JSON' };
+        }
+      }
+      const feedback = (await ask('feedback for the agent (optional)> ')).trim();
+      return { approved: false, feedback: feedback || undefined };
+    } finally {
+      request.signal?.removeEventListener('abort', onAbort);
+      rl.close();
+    }
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * @purpose Per-run budget ceilings (tokens, USD cost, wall time, tool calls) and the tracker the Agent loop consults
+ *
+ * @graph Where the Agent checks the budget
+ *
+ *   iteration start ──▶ time (deadline signal aborts LLM/tool awaits too)
+ *        │
+ *   LLM response ─────▶ tokens, cost   (only when the model still wants tools)
+ *        │
+ *   before tools ─────▶ tool_calls     (the whole batch must fit)
+ *        │
+ *   exceeded? ──yes──▶ stop: answer pending tool_calls, yield 'budget_exceeded',
+ *                            complete with the last assistant text as partial answer
+ *
+ * @llm-note
+ *   Dependencies: imports from [src/types (type-only)] | imported by [src/core/agent.ts, src/types.ts, src/index.ts] | tested by [tests/budget.test.ts]
+ *   Data flow: Agent creates one BudgetTracker per run from AgentConfig.budget merged with InputOptions.budget → tracker.signal (user signal + deadline) is what the loop hands to LLM calls and tools → check*() return a BudgetExceeded record or null
+ *   State/Effects: starts one setTimeout when maxDurationMs is set; dispose() clears it and unlinks from the parent signal
+ *   Integration: exposes RunBudget, BudgetLimit, BudgetExceeded (re-exported as types from src/index), tightestBudget() and BudgetTracker (internal to the Agent) | remaining() is handed to sub-agent tools via ToolContext.budget; their usage and tool calls come back through ToolContext.report
+ *   ⚠️ a final answer (no tool calls) is always accepted even if that call crossed the token or cost ceiling
+ */
+
+import type { TokenUsage } from '../types';
+
+/**
+ * Hard ceilings for a single agent.input() run. Omitted fields are unlimited.
+ */
+export interface RunBudget {
+  /** Total tokens (input + output) across all LLM calls of the run */
+  maxTokens?: number;
+  /** Estimated USD cost across all LLM calls of the run */
+  maxCost?: number;
+  /** Wall-clock time for the run in milliseconds */
+  maxDurationMs?: number;
+  /** Number of tool calls the run may execute */
+  maxToolCalls?: number;
+}
+
+/** Which ceiling stopped the run */
+export type BudgetLimit = 'tokens' | 'cost' | 'time' | 'tool_calls';
+
+/**
+ * Why a run was stopped by its budget
+ */
+export interface BudgetExceeded {
+  limit: BudgetLimit;
+  /** The configured ceiling */
+  max: number;
+  /** What the run had used (or would have used) when it stopped */
+  used: number;
+  /** Human-readable reason, e.g. "token budget exceeded (5120/5000)" */
+  reason: string;
+}
+
+/**
+ * The tighter of two budgets, field by field
+ */
+export function tightestBudget(a: RunBudget, b: RunBudget): RunBudget {
+  const result: RunBudget = { ...a };
+  for (const key of Object.keys(b) as Array<keyof RunBudget>) {
+    const value = b[key];
+    if (value !== undefined) result[key] = result[key] === undefined ? value : Math.min(result[key]!, value);
+  }
+  return result;
+}
+
+function exceeded(limit: BudgetLimit, max: number, used: number, label: string): BudgetExceeded {
+  return { limit, max, used, reason: `${label} budget exceeded (${used}/${max})` };
+}
+
+/**
+ * Tracks one run against its RunBudget
+ */
+export class BudgetTracker {
+  /** Signal to hand to LLM calls and tools: fires on user cancel or at the deadline */
+  readonly signal?: AbortSignal;
+  /** Set once a ceiling is hit */
+  exceeded: BudgetExceeded | null = null;
+
+  private startedAt = Date.now();
+  private toolCalls = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+  private unlink?: () => void;
+
+  constructor(private budget: RunBudget, parent?: AbortSignal) {
+    if (budget.maxDurationMs === undefined) {
+      this.signal = parent;
+      return;
+    }
+    const controller = new AbortController();
+    if (parent) {
+      const onAbort = () => controller.abort();
+      if (parent.aborted) controller.abort();
+      else parent.addEventListener('abort', onAbort, { once: true });
+      this.unlink = () => parent.removeEventListener('abort', onAbort);
+    }
+    const max = budget.maxDurationMs;
+    this.timer = setTimeout(() => {
+      this.exceeded = this.exceeded || exceeded('time', max, Date.now() - this.startedAt, 'time (ms)');
+      controller.abort();
+    }, max);
+    this.signal = controller.signal;
+  }
+
+  /**
+   * Check token and cost ceilings against the run's usage so far
+   */
+  checkUsage(usage: TokenUsage): BudgetExceeded | null {
+    const { maxTokens, maxCost } = this.budget;
+    if (maxTokens !== undefined && usage.total_tokens > maxTokens) {
+      this.exceeded = exceeded('tokens', maxTokens, usage.total_tokens, 'token');
+    } else if (maxCost !== undefined && (usage.cost || 0) > maxCost) {
+      this.exceeded = exceeded('cost', maxCost, Number((usage.cost || 0).toFixed(6)), 'cost (USD)');
+    }
+    return this.exceeded;
+  }
+
+  /**
+   * Reserve a batch of tool calls; refuses the whole batch if it would cross the ceiling
+   */
+  reserveToolCalls(count: number): BudgetExceeded | null {
+    const { maxToolCalls } = this.budget;
+    if (maxToolCalls !== undefined && this.toolCalls + count > maxToolCalls) {
+      this.exceeded = exceeded('tool_calls', maxToolCalls, this.toolCalls + count, 'tool call');
+      return this.exceeded;
+    }
+    this.toolCalls += count;
+    return null;
+  }
+
+  /**
+   * What is left of each ceiling, given the run's usage so far (sub-agents run under this)
+   */
+  remaining(usage: TokenUsage): RunBudget {
+    const { maxTokens, maxCost, maxDurationMs, maxToolCalls } = this.budget;
+    const left: RunBudget = {};
+    if (maxTokens !== undefined) left.maxTokens = Math.max(0, maxTokens - usage.total_tokens);
+    if (maxCost !== undefined) left.maxCost = Math.max(0, maxCost - (usage.cost || 0));
+    if (maxDurationMs !== undefined) left.maxDurationMs = Math.max(0, maxDurationMs - (Date.now() - this.startedAt));
+    if (maxToolCalls !== undefined) left.maxToolCalls = Math.max(0, maxToolCalls - this.toolCalls);
+    return left;
+  }
+
+  /**
+   * Count tool calls made outside the loop's own batches (by sub-agents)
+   */
+  addToolCalls(count: number): void {
+    this.toolCalls += count;
+  }
+
+  /**
+   * Stop the deadline timer and detach from the parent signal
+   */
+  dispose(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.unlink?.();
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * @purpose Context-window management for the Agent: per-model token estimates and conversation compaction
+ *
+ * @graph Compaction (runs before an LLM call once the threshold is crossed)
+ *
+ *   [system] [summary?] │ older turns ................ │ recent turns (kept)
+ *                       │                               │
+ *   1. truncate every tool result over maxToolResultChars
+ *   2. still over? blank tool payloads in older turns   (messages kept, pairs intact)
+ *   3. still over? summarize older turns with the agent's LLM
+ *                  → one [summary] system message, older turns removed
+ *
+ *   The cut is always at a user message, so an assistant tool_calls message
+ *   and its tool results are never separated.
+ *
+ * @llm-note
+ *   Dependencies: imports from [src/types (type-only), src/llm/content] | imported by [src/core/agent.ts, src/types.ts, src/index.ts] | tested by [tests/context.test.ts]
+ *   Data flow: Agent asks shouldCompact(messages, tools) before each LLM call → compact(messages, summarize) returns new messages + before/after token counts → Agent replaces this.messages and yields 'compact' events (same fields as the connect 'compact' ChatItem)
+ *   State/Effects: calibrate() remembers the provider-reported input tokens for a message prefix so later counts are real numbers plus an estimate for what was appended | compaction resets it
+ *   Integration: exposes ContextConfig, ContextManager, CONTEXT_WINDOWS, estimateTokens(), SUMMARY_HEADER | enabled by default, AgentConfig.context = false turns it off
+ *   ⚠️ estimates are character-based (no tokenizer dependency); keep threshold below 1 to leave headroom
+ */
+
+import type { FunctionSchema, Message } from '../types';
+import { IMAGE_TOKEN_ESTIMATE } from '../llm/content';
+
+/**
+ * Options for context-window management
+ */
+export interface ContextConfig {
+  /** Context window in tokens (default: looked up from CONTEXT_WINDOWS by model) */
+  maxTokens?: number;
+  /** Compact once the conversation uses this fraction of the window (default: 0.8) */
+  threshold?: number;
+  /** Most recent user turns never compacted (default: 2) */
+  keepRecentTurns?: number;
+  /** Tool results longer than this many characters are truncated (default: 20000) */
+  maxToolResultChars?: number;
+  /** Replace the built-in estimate with a real tokenizer */
+  countTokens?: (messages: Message[], model: string) => number;
+}
+
+/**
+ * Context window sizes by model-name prefix (longest prefix wins)
+ */
+export const CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-4o': 128_000,
+  'gpt-4.1': 1_047_576,
+  'gpt-5': 400_000,
+  'o1': 200_000,
+  'o3': 200_000,
+  'o4': 200_000,
+  'claude': 200_000,
+  'gemini-1.5-pro': 2_000_000,
+  'gemini': 1_000_000,
+};
+
+const DEFAULT_WINDOW = 128_000;
+
+/** First line of the system message that carries the compacted history */
+export const SUMMARY_HEADER = 'Summary of the earlier conversation:';
+
+const SUMMARY_INSTRUCTION =
+  'Summarize this conversation between a user and an AI agent so the agent can continue the work. ' +
+  'Keep facts, decisions, user preferences, file names, ids and open tasks. Be concise.';
+
+/**
+ * Character-based token estimate. Claude's tokenizer averages fewer
+ * characters per token than OpenAI's and Gemini's.
+ */
+export function estimateTokens(messages: Message[], model: string = '', tools: FunctionSchema[] = []): number {
+  const charsPerToken = model.replace(/^co\//, '').startsWith('claude') ? 3.5 : 4;
+  let chars = tools.length ? JSON.stringify(tools).length : 0;
+  let overhead = 0;
+  for (const msg of messages) {
+    if (msg.parts?.length) {
+      for (const part of msg.parts) {
+        if (part.type === 'text') chars += part.text.length;
+        else overhead += IMAGE_TOKEN_ESTIMATE;
+      }
+    } else {
+      chars += (msg.content || '').length;
+    }
+    if (msg.tool_calls) chars += JSON.stringify(msg.tool_calls).length;
+    overhead += 4;
+  }
+  return Math.ceil(chars / charsPerToken) + overhead;
+}
+
+/**
+ * Tracks context usage for one Agent and compacts its conversation
+ */
+export class ContextManager {
+  private config: Required<Omit<ContextConfig, 'countTokens' | 'maxTokens'>> & Pick<ContextConfig, 'countTokens' | 'maxTokens'>;
+  private calibration: { length: number; tokens: number } | null = null;
+
+  constructor(config: ContextConfig = {}) {
+    this.config = {
+      threshold: 0.8,
+      keepRecentTurns: 2,
+      maxToolResultChars: 20_000,
+      ...config,
+    };
+  }
+
+  /**
+   * Context window for a model
+   */
+  windowFor(model: string): number {
+    if (this.config.maxTokens) return this.config.maxTokens;
+    const name = model.replace(/^co\//, '');
+    const prefix = Object.keys(CONTEXT_WINDOWS)
+      .filter(key => name.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? CONTEXT_WINDOWS[prefix] : DEFAULT_WINDOW;
+  }
+
+  /**
+   * Tokens the conversation would take in the next request
+   */
+  count(messages: Message[], model: string, tools: FunctionSchema[] = []): number {
+    if (this.config.countTokens) return this.config.countTokens(messages, model);
+    const cal = this.calibration;
+    if (cal && messages.length >= cal.length) {
+      return cal.tokens + estimateTokens(messages.slice(cal.length), model);
+    }
+    return estimateTokens(messages, model, tools);
+  }
+
+  /**
+   * Record the provider-reported input tokens for the messages just sent
+   */
+  calibrate(messageCount: number, inputTokens: number): void {
+    if (inputTokens > 0) this.calibration = { length: messageCount, tokens: inputTokens };
+  }
+
+  /**
+   * Percentage of the window in use (0-100)
+   */
+  percent(tokens: number, model: string): number {
+    return Math.round((tokens / this.windowFor(model)) * 100);
+  }
+
+  shouldCompact(messages: Message[], model: string, tools: FunctionSchema[] = []): boolean {
+    return this.count(messages, model, tools) > this.windowFor(model) * this.config.threshold;
+  }
+
+  /**
+   * Shrink the conversation until it fits under the threshold, or nothing more can be done
+   *
+   * @param messages - Current conversation (not mutated)
+   * @param model - Model name, for window size and estimates
+   * @param summarize - Turns a transcript of older turns into a summary (the agent's own LLM)
+   * @returns The compacted conversation and token counts before and after
+   */
+  async compact(
+    messages: Message[],
+    model: string,
+    summarize: (instruction: string, transcript: string) => Promise<string>,
+    tools: FunctionSchema[] = []
+  ): Promise<{ messages: Message[]; before: number; after: number; summarized: number }> {
+    const before = this.count(messages, model, tools);
+    const limit = this.windowFor(model) * this.config.threshold;
+    this.calibration = null;
+
+    // 1. Truncate oversized tool results anywhere in the conversation
+    const max = this.config.maxToolResultChars;
+    let result = messages.map(m => (m.role === 'tool' && !m.parts?.length && m.content.length > max)
+      ? { ...m, content: `${m.content.slice(0, max)}\n[truncated ${m.content.length - max} characters]` }
+      : m);
+
+    const head = result.filter(m => m.role === 'system');
+    const body = result.filter(m => m.role !== 'system');
+    const cut = this.recentStart(body);
+    const fits = () => this.count(result, model, tools) <= limit;
+    if (fits() || cut === 0) {
+      return { messages: result, before, after: this.count(result, model, tools), summarized: 0 };
+    }
+
+    // 2. Blank stale tool payloads in older turns; the messages stay so pairs remain intact
+    const older = body.slice(0, cut).map(m => m.role === 'tool'
+      ? { ...m, content: JSON.stringify({ status: 'success', result: '[removed during compaction]' }) }
+      : m);
+    result = [...head, ...older, ...body.slice(cut)];
+    if (fits()) {
+      return { messages: result, before, after: this.count(result, model, tools), summarized: 0 };
+    }
+
+    // 3. Summarize older turns (and any previous summary) into one system message
+    const previous = head.find(m => m.content.startsWith(SUMMARY_HEADER));
+    const transcript = [
+      previous ? previous.content.slice(SUMMARY_HEADER.length).trim() : '',
+      ...body.slice(0, cut).map(formatForSummary),
+    ].filter(Boolean).join('\n');
+    const summary = await summarize(SUMMARY_INSTRUCTION, transcript);
+    result = [
+      ...head.filter(m => m !== previous),
+      { role: 'system', content: `${SUMMARY_HEADER}\n${summary}` },
+      ...body.slice(cut),
+    ];
+    return { messages: result, before, after: this.count(result, model, tools), summarized: cut };
+  }
+
+  /**
+   * Index in the non-system messages where the kept recent turns begin
+   */
+  private recentStart(body: Message[]): number {
+    let turns = 0;
+    for (let i = body.length - 1; i >= 0; i--) {
+      if (body[i].role === 'user' && ++turns === this.config.keepRecentTurns) return i;
+    }
+    return 0;
+  }
+}
+
+function formatForSummary(msg: Message): string {
+  if (msg.role === 'tool') return `TOOL RESULT: ${msg.content}`;
+  const calls = msg.tool_calls?.map(tc => `${tc.name}(${JSON.stringify(tc.arguments)})`).join(', ');
+  return `${msg.role.toUpperCase()}: ${msg.content}${calls ? ` [called ${calls}]` : ''}`;
+}
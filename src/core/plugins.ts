@@ -0,0 +1,120 @@
+/**
+ * @purpose Lifecycle hook (plugin) system for the Agent loop, mirroring the Python SDK's on_events
+ *
+ * @graph Hook Points in agent.input()
+ *
+ *   input(prompt)
+ *        │
+ *        ▼
+ *   ┌─────────────┐   return Message[] → sent to the LLM for this call only
+ *   │ before_llm  │
+ *   └──────┬──────┘
+ *          ▼
+ *     LLM.complete
+ *          │
+ *   ┌──────┴──────┐   return LLMResponse → replaces the response
+ *   │  after_llm  │
+ *   └──────┬──────┘
+ *          ▼  (per tool call)
+ *   ┌─────────────┐   return args → tool runs with them
+ *   │ before_tool │
+ *   └──────┬──────┘
+ *          ▼
+ *      tool.run
+ *          │
+ *   ┌──────┴──────┐   return ToolResult → replaces what the LLM sees
+ *   │ after_tool  │
+ *   └──────┬──────┘
+ *          ▼
+ *   ┌─────────────┐   return string → replaces the final answer
+ *   │ on_complete │
+ *   └─────────────┘
+ *
+ *   any throw ──▶ on_error (observe only; the error still propagates)
+ *
+ * @llm-note
+ *   Dependencies: imports from [src/types (type-only), src/core/agent (type-only)] | imported by [src/core/agent.ts, src/types.ts, src/index.ts] | tested by [tests/plugins.test.ts]
+ *   Data flow: Agent calls runHook(plugins, event, ctx, key) at each hook point → each plugin's handler sees ctx with the value produced by earlier plugins → a non-undefined return replaces ctx[key] → final value returned to Agent
+ *   State/Effects: no module state | hooks may mutate ctx objects (e.g. push to messages) and that mutation is persistent
+ *   Integration: exposes AgentPlugin, PluginEvents, PluginHook, runHook() | registered via AgentConfig.plugins or agent.addPlugin()
+ *   Errors: a throwing hook fails the run like any other error (and is reported to on_error); on_error handlers that throw are ignored so the original error wins
+ */
+
+import type { Agent } from './agent';
+import type { FunctionSchema, LLMResponse, Message, ToolResult } from '../types';
+
+/**
+ * Context object passed to each hook, keyed by event name
+ */
+export interface PluginEvents {
+  before_llm: { agent: Agent; messages: Message[]; tools: FunctionSchema[]; iteration: number };
+  after_llm: { agent: Agent; messages: Message[]; response: LLMResponse; iteration: number };
+  before_tool: { agent: Agent; name: string; args: Record<string, any>; callId: string; iteration: number };
+  after_tool: { agent: Agent; name: string; args: Record<string, any>; callId: string; result: ToolResult; iteration: number };
+  on_error: { agent: Agent; error: unknown; iteration: number };
+  on_complete: { agent: Agent; prompt: string; content: string; messages: Message[]; iteration: number };
+}
+
+/**
+ * A hook handler. Returning a value replaces the event's modifiable field
+ * (messages, response, args, result or content); returning nothing keeps it.
+ */
+export type PluginHook<E extends keyof PluginEvents, R = void> =
+  (ctx: PluginEvents[E]) => R | void | Promise<R | void>;
+
+/**
+ * A plugin is a named bundle of lifecycle hooks
+ *
+ * @example
+ * ```typescript
+ * const redact: AgentPlugin = {
+ *   name: 'redact-emails',
+ *   after_tool: ({ result }) => ({
+ *     ...result,
+ *     result: String(result.result).replace(/\S+@\S+/g, '[email]'),
+ *   }),
+ * };
+ *
+ * const agent = new Agent({ name: 'support', plugins: [redact] });
+ * ```
+ */
+export interface AgentPlugin {
+  /** Optional name, used in log output */
+  name?: string;
+  /** Before each LLM call; return Message[] to change what is sent (conversation is untouched) */
+  before_llm?: PluginHook<'before_llm', Message[]>;
+  /** After each LLM call; return an LLMResponse to replace it */
+  after_llm?: PluginHook<'after_llm', LLMResponse>;
+  /** Before each tool runs; return new arguments to run it with */
+  before_tool?: PluginHook<'before_tool', Record<string, any>>;
+  /** After each tool runs; return a ToolResult to replace what the LLM sees */
+  after_tool?: PluginHook<'after_tool', ToolResult>;
+  /** When the run fails; observe only, the error still propagates */
+  on_error?: PluginHook<'on_error'>;
+  /** When the run completes; return a string to replace the final answer */
+  on_complete?: PluginHook<'on_complete', string>;
+}
+
+/**
+ * Run one hook across all plugins in registration order
+ *
+ * @param plugins - Registered plugins
+ * @param event - Hook name
+ * @param ctx - Context passed to every handler
+ * @param key - Field of ctx a handler's return value replaces
+ * @returns The final value of ctx[key]
+ */
+export async function runHook<E extends keyof PluginEvents, K extends keyof PluginEvents[E]>(
+  plugins: AgentPlugin[],
+  event: E,
+  ctx: PluginEvents[E],
+  key: K
+): Promise<PluginEvents[E][K]> {
+  for (const plugin of plugins) {
+    const hook = plugin[event] as ((c: PluginEvents[E]) => any) | undefined;
+    if (!hook) continue;
+    const replaced = await hook(ctx);
+    if (replaced !== undefined) ctx[key] = replaced;
+  }
+  return ctx[key];
+}
@@ -0,0 +1,94 @@
+/**
+ * @purpose Run one batch of tool calls with a parallelism cap, exclusive (sequential) tools and mutual-exclusion groups
+ *
+ * @graph Scheduling a batch  (maxParallel = 2)
+ *
+ *   calls:  read_a   write(g:fs)   write(g:fs)   migrate(sequential)   read_b
+ *             │          │             │                 │                │
+ *   t0      start      start         wait (fs busy)    barrier: waits    behind barrier
+ *   t1      done  ───▶             start (fs free)
+ *   t2                 done                            ...
+ *   tN                                           start alone ──▶ done ──▶ start
+ *
+ *   Results are returned in call order, whatever order the calls finish in.
+ *
+ * @llm-note
+ *   Dependencies: none | imported by [src/core/agent.ts] | tested by [tests/concurrency.test.ts]
+ *   Data flow: Agent.executeToolCalls maps each ToolCall to a ScheduledTask (exclusive from tool.sequential, group from tool.group) → runScheduled starts tasks in call order as slots and groups allow → resolves with results in call order
+ *   State/Effects: no module state | a rejected task rejects the batch and no further tasks are started (tasks already running are not awaited)
+ *   Integration: exposes ScheduledTask, runScheduled()
+ */
+
+/**
+ * One unit of work in a batch
+ */
+export interface ScheduledTask<T> {
+  run: () => Promise<T>;
+  /** Run alone: waits for everything before it and blocks everything after it */
+  exclusive?: boolean;
+  /** At most one task of a group runs at a time */
+  group?: string;
+}
+
+/**
+ * Run tasks with at most maxParallel in flight, honouring exclusive tasks and groups
+ *
+ * Tasks start in list order; a task whose group is busy is skipped over by
+ * later independent tasks, but nothing passes an exclusive task.
+ *
+ * @param tasks - Tasks in call order
+ * @param maxParallel - Concurrency cap (Infinity for no cap, 1 for fully sequential)
+ * @returns Results in the same order as tasks
+ */
+export function runScheduled<T>(tasks: Array<ScheduledTask<T>>, maxParallel: number = Infinity): Promise<T[]> {
+  const results = new Array<T>(tasks.length);
+  const pending = tasks.map((_, i) => i);
+  const busyGroups = new Set<string>();
+  let running = 0;
+  let exclusiveRunning = false;
+  let failed = false;
+
+  return new Promise<T[]>((resolve, reject) => {
+    const start = (index: number) => {
+      const task = tasks[index];
+      running++;
+      if (task.exclusive) exclusiveRunning = true;
+      if (task.group) busyGroups.add(task.group);
+      Promise.resolve()
+        .then(task.run)
+        .then(
+          (value) => { results[index] = value; },
+          (error) => { failed = true; reject(error); }
+        )
+        .finally(() => {
+          running--;
+          if (task.exclusive) exclusiveRunning = false;
+          if (task.group) busyGroups.delete(task.group);
+          pump();
+        });
+    };
+
+    const pump = () => {
+      if (failed) return;
+      if (pending.length === 0 && running === 0) {
+        resolve(results);
+        return;
+      }
+      if (exclusiveRunning) return;
+      for (let i = 0; i < pending.length; i++) {
+        const task = tasks[pending[i]];
+        if (task.exclusive) {
+          // Barrier: start only when idle, and never let later tasks pass it
+          if (running === 0) start(pending.splice(i, 1)[0]);
+          return;
+        }
+        if (running >= maxParallel) return;
+        if (task.group && busyGroups.has(task.group)) continue;
+        start(pending.splice(i, 1)[0]);
+        i--;
+      }
+    };
+
+    pump();
+  });
+}
@@ -0,0 +1,152 @@
+/**
+ * @purpose Structured final output: a dependency-free JSON Schema validator and the error raised when the model cannot satisfy a schema
+ *
+ * @graph Structured output after the tool loop
+ *
+ *   final answer text ──▶ extractJson() ──▶ validateSchema() ──ok──▶ output
+ *                                                │ invalid / not JSON
+ *                                                ▼
+ *   llm.structuredComplete(conversation + instruction) ──▶ validateSchema()
+ *                      ▲                                        │ invalid
+ *                      └──── instruction + errors (re-ask) ◀────┘  (up to schemaRetries)
+ *                                                               │ still invalid
+ *                                                               ▼
+ *                                                  throw SchemaValidationError
+ *
+ * @llm-note
+ *   Dependencies: none | imported by [src/core/agent.ts, src/types.ts, src/index.ts] | tested by [tests/structured-output.test.ts]
+ *   Data flow: Agent.loop finishes → structuredOutput() tries the final text, then structuredComplete with re-asks → validateSchema() returns human-readable errors ('$.items[0].price: expected number') that are fed back to the model
+ *   State/Effects: pure functions, no state
+ *   Integration: exposes JsonSchema, validateSchema(), extractJson(), SchemaValidationError | used by agent.input(prompt, { schema }) and agent.run<T>()
+ *   ⚠️ supports the commonly used keywords (type, properties, required, additionalProperties, items, enum, const, anyOf, oneOf, allOf, min/max bounds, pattern); $ref and format are not checked
+ */
+
+/** A JSON Schema document (draft-07 style) */
+export type JsonSchema = Record<string, any>;
+
+/**
+ * Raised when the model's output still fails the schema after all re-asks
+ */
+export class SchemaValidationError extends Error {
+  /** Validation errors of the last attempt */
+  readonly errors: string[];
+  /** The last value the model returned (undefined if it was not JSON) */
+  readonly value: unknown;
+
+  constructor(errors: string[], value: unknown) {
+    super(`Output does not match the schema: ${errors.join('; ')}`);
+    this.name = 'SchemaValidationError';
+    this.errors = errors;
+    this.value = value;
+  }
+}
+
+/**
+ * Parse JSON from model text, tolerating a ```json fence or prose around one object/array
+ *
+ * @returns The parsed value, or undefined when the text holds no JSON
+ */
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidates = [fenced ? fenced[1] : text, text.match(/[{[][\s\S]*[}\]]/)?.[0]];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return JSON.parse(candidate.trim());
+    } catch {
+      // try the next candidate
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Validate a value against a JSON Schema
+ *
+ * @returns Error messages with JSON paths; empty when the value is valid
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  if (!schema || typeof schema !== 'object') return [];
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+  }
+  if (schema.const !== undefined && !deepEqual(value, schema.const)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => deepEqual(value, option))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${path}: shorter than ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${path}: longer than ${schema.maxLength} characters`);
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) errors.push(`${path}: does not match ${schema.pattern}`);
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: less than ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: greater than ${schema.maximum}`);
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) errors.push(`${path}: must be greater than ${schema.exclusiveMinimum}`);
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) errors.push(`${path}: must be less than ${schema.exclusiveMaximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: fewer than ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: more than ${schema.maxItems} items`);
+    if (schema.items && typeof schema.items === 'object') {
+      value.forEach((item, i) => errors.push(...validateSchema(item, schema.items, `${path}[${i}]`)));
+    }
+  } else if (value !== null && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!(key in obj)) errors.push(`${path}.${key}: is required`);
+    }
+    const properties: Record<string, JsonSchema> = schema.properties || {};
+    for (const [key, item] of Object.entries(obj)) {
+      if (key in properties) {
+        errors.push(...validateSchema(item, properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        errors.push(...validateSchema(item, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf) errors.push(...validateSchema(value, sub, path));
+  }
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some((sub: JsonSchema) => validateSchema(value, sub, path).length === 0)) {
+    errors.push(`${path}: does not match any allowed schema`);
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter((sub: JsonSchema) => validateSchema(value, sub, path).length === 0).length;
+    if (matches !== 1) errors.push(`${path}: must match exactly one allowed schema (matched ${matches})`);
+  }
+  return errors;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'null': return value === null;
+    case 'array': return Array.isArray(value);
+    case 'object': return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    default: return typeof value === type;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
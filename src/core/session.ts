@@ -0,0 +1,128 @@
+/**
+ * @purpose Persistent Agent sessions: a pluggable SessionStore and the default file store under .co/sessions/
+ *
+ * @graph Session Persistence
+ *
+ *   new Agent({ session: 'abc' })        agent.loadSession('abc')
+ *            │                                    │
+ *            └───────────────┬────────────────────┘
+ *                            ▼
+ *                 store.load('abc') ──▶ messages, trace, turn restored
+ *                            │
+ *                   agent.input(...) (each run)
+ *                            │
+ *                            ▼
+ *                 store.save('abc', SessionState)
+ *                            │
+ *                            ▼
+ *               .co/sessions/abc.json  (or .yaml)
+ *
+ * @llm-note
+ *   Dependencies: imports from [src/connect/types (type-only), js-yaml, node:fs, node:path] | imported by [src/core/agent.ts, src/index.ts] | tested by [tests/session.test.ts]
+ *   Data flow: Agent builds a SessionState (same shape RemoteAgent syncs with hosts) → await store.save(id, state) → file; await store.load(id) → SessionState | null → Agent restores messages/trace/turn
+ *   State/Effects: FileSessionStore creates its directory on first save and writes one file per session id | every SessionStore method is async, so new Agent({ session }) starts the load in the constructor and the first run waits for it
+ *   Integration: exposes SessionStore, FileSessionStore, FileSessionStoreOptions, createSessionId() | used via AgentConfig.session / AgentConfig.sessionStore and agent.loadSession()
+ *   Errors: rejects on ids containing path separators or '..' | load() resolves null for a missing session and rejects on a corrupt file
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import type { SessionState } from '../connect/types';
+
+/**
+ * Where sessions live. Implement this to keep sessions in a database,
+ * a key-value store, or anywhere else.
+ */
+export interface SessionStore {
+  /** Read a session, or null if none is stored under this id */
+  load(id: string): Promise<SessionState | null>;
+  /** Create or overwrite a session */
+  save(id: string, state: SessionState): Promise<void>;
+  /** Remove a session; a missing id is not an error */
+  delete(id: string): Promise<void>;
+  /** Ids of all stored sessions */
+  list(): Promise<string[]>;
+}
+
+/**
+ * Options for FileSessionStore
+ */
+export interface FileSessionStoreOptions {
+  /** Directory holding the session files (default: .co/sessions) */
+  dir?: string;
+  /** File format (default: 'json') */
+  format?: 'json' | 'yaml';
+}
+
+/**
+ * Generate a new session id
+ */
+export function createSessionId(): string {
+  return `session_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Default SessionStore: one file per session in .co/sessions/
+ *
+ * @example
+ * ```typescript
+ * const store = new FileSessionStore({ dir: '.co/sessions', format: 'yaml' });
+ * const agent = new Agent({ name: 'support', session: 'ticket-42', sessionStore: store });
+ * ```
+ */
+export class FileSessionStore implements SessionStore {
+  private dir: string;
+  private format: 'json' | 'yaml';
+
+  constructor(options: FileSessionStoreOptions = {}) {
+    this.dir = options.dir || path.join('.co', 'sessions');
+    this.format = options.format || 'json';
+  }
+
+  async load(id: string): Promise<SessionState | null> {
+    const file = this.fileFor(id);
+    let text: string;
+    try {
+      text = await fs.promises.readFile(file, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+    return (this.format === 'yaml' ? yaml.load(text) : JSON.parse(text)) as SessionState;
+  }
+
+  async save(id: string, state: SessionState): Promise<void> {
+    const file = this.fileFor(id);
+    const text = this.format === 'yaml'
+      ? yaml.dump(state, { noRefs: true, skipInvalid: true })
+      : JSON.stringify(state, null, 2) + '\n';
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    await fs.promises.writeFile(file, text, 'utf-8');
+  }
+
+  async delete(id: string): Promise<void> {
+    await fs.promises.rm(this.fileFor(id), { force: true });
+  }
+
+  async list(): Promise<string[]> {
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    const ext = `.${this.format}`;
+    return names
+      .filter(name => name.endsWith(ext))
+      .map(name => name.slice(0, -ext.length));
+  }
+
+  private fileFor(id: string): string {
+    if (!id || id.includes('/') || id.includes('\\') || id.includes('..')) {
+      throw new Error(`Invalid session id: ${id}`);
+    }
+    return path.join(this.dir, `${id}.${this.format}`);
+  }
+}
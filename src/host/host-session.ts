@@ -0,0 +1,401 @@
+/**
+ * @purpose One hosted conversation: runs INPUT prompts on a local Agent and streams ConnectOnion protocol events to the client socket that is attached
+ *
+ * @graph One run
+ *
+ *   INPUT {input_id, prompt, images, files}
+ *     │ user ChatItem recorded, run queued behind other runs on the same Agent
+ *     ▼
+ *   agent.stream(prompt, {images, files})
+ *     │ host plugin before_llm ──▶ llm_call {id, model}
+ *     │ host plugin after_llm  ──▶ llm_result {id, status, duration_ms, usage}
+ *     │                           assistant {content} (text next to tool calls)
+ *     │                           tool_call {tool_id, name, args} per requested call
+ *     │ run's approver         ──▶ approval_needed ◀── APPROVAL_RESPONSE {approved, scope?, feedback?}
+ *     │ tool_result            ──▶ tool_result {tool_id, status, result, timing_ms} (+ agent_image per image)
+ *     │ compact                ──▶ compact {id, status, ...}
+ *     ▼
+ *   OUTPUT {input_id, result, session}  │  ERROR {input_id, message}
+ *
+ *   INPUT with an input_id seen before (a client resending from its outbox) is
+ *   never run twice: still running → ignored, finished → its answer is resent
+ *
+ *   mode_change ──▶ setMode(): this session's runs use that approval mode; the
+ *     Agent's own mode, and other sessions on it, are not touched
+ *
+ *   CANCEL ──▶ cancel(): aborts the run's signal (LLM request, tools, approval wait)
+ *     and drops this session's queued runs ──▶ CANCELLED {input_id, session} for each;
+ *     running thinking/tool_call items become 'stopped'
+ *
+ *   every event also goes through mapEventToChatItem() into chatItems, so a
+ *   client that reconnects gets the same transcript it would have built itself;
+ *   summary() describes the session for a client listing its conversations
+ *
+ * @llm-note
+ *   Dependencies: imports from [src/core/abort, src/connect/chat-item-mapper, src/connect/endpoint, src/llm/content, src/core/agent (type-only), src/core/plugins (type-only), src/core/approval (type-only), src/connect/types (type-only), src/types (type-only)] | imported by [src/host/serve.ts] | tested by [tests/serve.test.ts]
+ *   Data flow: serve.ts parses frames → HostSession.input()/respondToApproval()/setMode()/cancel() → agent.stream() events and host plugin hooks → emit() → chatItems + channel.send(JSON)
+ *   State/Effects: owns chatItems (and when they last changed), the turn counter, its approval mode, pending approvals and the last 100 input_ids with their answers | installs a plugin on each hosted Agent once (module WeakSet) and passes its approver and mode per run, so the Agent's configured approver and mode stay as they were | activeRuns maps an Agent to the session whose run is in progress
+ *   Integration: exposes HostSession, HostChannel | sessions sharing one Agent (serve(agent) rather than serve(factory)) share its conversation and their runs are queued, never interleaved
+ *   Errors: a failed run sends ERROR {input_id, message} and leaves the session usable; a cancelled one (AgentCancelledError) sends CANCELLED instead | with no client attached, events are still recorded and approvals wait for the next attach
+ */
+
+import type { Agent } from '../core/agent';
+import type { AgentPlugin } from '../core/plugins';
+import type { ApprovalDecision, ApprovalRequest } from '../core/approval';
+import type { ApprovalMode, ChatItem, ChatItemType, FileAttachment, SessionState } from '../connect/types';
+import type { AgentStreamEvent, LLMResponse, ToolResult } from '../types';
+import { AgentCancelledError } from '../core/abort';
+import { mapEventToChatItem } from '../connect/chat-item-mapper';
+import { generateUUID } from '../connect/endpoint';
+import { contentText, isContentPart, partSource } from '../llm/content';
+
+/**
+ * Where a session's frames go (a client WebSocket, or a relay that forwards them)
+ */
+export interface HostChannel {
+  send(data: string): void;
+}
+
+/** The session whose run is in progress on each Agent */
+const activeRuns = new WeakMap<Agent, HostSession>();
+/** Tail of each Agent's run queue */
+const runQueues = new WeakMap<Agent, Promise<void>>();
+const hostedAgents = new WeakSet<Agent>();
+/** input_ids a session remembers for spotting repeats */
+const MAX_REMEMBERED_INPUTS = 100;
+
+const hostPlugin: AgentPlugin = {
+  name: 'host-events',
+  before_llm: ({ agent }) => { activeRuns.get(agent)?.llmCall(); },
+  after_llm: ({ agent, response }) => { activeRuns.get(agent)?.llmResult(response); },
+};
+
+/**
+ * Route an Agent's LLM hooks to the session running on it
+ */
+function hostAgent(agent: Agent): void {
+  if (hostedAgents.has(agent)) return;
+  hostedAgents.add(agent);
+  agent.addPlugin(hostPlugin);
+}
+
+function toolResultText(result: ToolResult): string {
+  if (result.status !== 'success') return result.error || result.status;
+  const value = result.result;
+  if (typeof value === 'string') return value;
+  if (isContentPart(value) || (Array.isArray(value) && value.length > 0 && value.every(isContentPart))) {
+    return contentText(Array.isArray(value) ? value : [value]);
+  }
+  return value === undefined ? '' : JSON.stringify(value);
+}
+
+/** Images a tool returned, as URLs the client can render */
+function toolImages(result: ToolResult): string[] {
+  const value = result.result;
+  const parts = Array.isArray(value) ? value : [value];
+  return parts
+    .filter(part => isContentPart(part) && part.type === 'image')
+    .map(part => {
+      const source = partSource(part);
+      return source.kind === 'base64' ? `data:${source.mimeType};base64,${source.data}` : source.url;
+    });
+}
+
+export class HostSession {
+  readonly id: string;
+  readonly agent: Agent;
+  /** Address that signed the CONNECT that created the session (null when unsigned) */
+  readonly client: string | null;
+  /** Transcript in the client's ChatItem shape */
+  readonly chatItems: ChatItem[] = [];
+  /** When the transcript last changed (ms) */
+  updatedAt = Date.now();
+
+  private channel: HostChannel | null = null;
+  /** Runs accepted but not finished (the one in progress included) */
+  private pending = 0;
+  private turn = 0;
+  /** Approval mode of this session's runs (starts as the Agent's) */
+  private mode: ApprovalMode;
+  private llmCallId: string | null = null;
+  private llmCallStart = 0;
+  private approvals: Array<{ request: ApprovalRequest; resolve: (decision: ApprovalDecision) => void }> = [];
+  /** Tools the client approved with scope 'session' */
+  private approvedTools = new Set<string>();
+  /** Aborts the run in progress */
+  private controller: AbortController | null = null;
+  /** Bumped by cancel(); a queued run from before the bump never starts */
+  private cancels = 0;
+  /**
+   * Recent input_ids with the frame that answered each (null while the run is
+   * queued or in progress, and for approval answers). A client resending from
+   * its outbox gets that frame again instead of a second run.
+   */
+  private answers = new Map<string, Record<string, unknown> | null>();
+
+  constructor(id: string, agent: Agent, client: string | null) {
+    this.id = id;
+    this.agent = agent;
+    this.client = client;
+    this.mode = agent.getApprovalMode();
+    hostAgent(agent);
+  }
+
+  /** 'running' while a run is in progress or queued, otherwise 'connected' (protocol session status) */
+  get status(): 'running' | 'connected' {
+    return this.pending > 0 ? 'running' : 'connected';
+  }
+
+  get attached(): boolean {
+    return this.channel !== null;
+  }
+
+  /**
+   * Send this session's frames to a new client socket; approvals still waiting are asked again
+   */
+  attach(channel: HostChannel): void {
+    this.channel = channel;
+    for (const { request } of this.approvals) this.send(this.approvalFrame(request));
+  }
+
+  detach(channel: HostChannel): void {
+    if (this.channel === channel) this.channel = null;
+  }
+
+  state(): SessionState {
+    return {
+      session_id: this.id,
+      mode: this.mode,
+      turn: this.turn,
+      usage: this.agent.getUsage().session,
+    };
+  }
+
+  /** This session's entry in a SESSIONS reply (LIST_SESSIONS) */
+  summary(): Record<string, unknown> {
+    const firstPrompt = this.chatItems.find(item => item.type === 'user');
+    return {
+      session_id: this.id,
+      status: this.status,
+      ...(firstPrompt && 'content' in firstPrompt && { title: firstPrompt.content }),
+      mode: this.mode,
+      turn: this.turn,
+      updated_at: this.updatedAt,
+    };
+  }
+
+  /**
+   * The CONNECTED frame for a client that (re)joins this session
+   *
+   * @param resumed - The client asked for this session by id
+   * @param clientTurn - Turn of the client's copy of the session, if it sent one
+   */
+  connected(resumed: boolean, clientTurn?: number): Record<string, unknown> {
+    const frame: Record<string, unknown> = {
+      type: 'CONNECTED',
+      session_id: this.id,
+      status: resumed ? this.status : 'new',
+      session: this.state(),
+    };
+    if (resumed && (this.pending > 0 || (clientTurn ?? 0) < this.turn)) {
+      frame.server_newer = true;
+      frame.chat_items = this.chatItems;
+    }
+    return frame;
+  }
+
+  /**
+   * Queue a prompt; resolves once its OUTPUT or ERROR was sent. A repeated
+   * input_id is not run again: a finished one gets its answer resent.
+   */
+  input(inputId: string, prompt: string, images?: string[], files?: FileAttachment[]): Promise<void> {
+    if (this.answers.has(inputId)) {
+      const answer = this.answers.get(inputId);
+      if (answer) this.send(answer);
+      return Promise.resolve();
+    }
+    this.remember(inputId, null);
+    this.addItem({
+      type: 'user',
+      content: prompt,
+      ...(images?.length && { images }),
+      ...(files?.length && { files }),
+    });
+    this.pending++;
+    const generation = this.cancels;
+    const previous = runQueues.get(this.agent) || Promise.resolve();
+    const run = previous.then(() => this.run(inputId, prompt, images, files, generation));
+    runQueues.set(this.agent, run);
+    return run;
+  }
+
+  /**
+   * Answer the oldest approval question (the agent asks one at a time)
+   */
+  respondToApproval(message: Record<string, unknown>): void {
+    if (typeof message.input_id === 'string') {
+      if (this.answers.has(message.input_id)) return;
+      this.remember(message.input_id, null);
+    }
+    const pending = this.approvals.shift();
+    if (!pending) return;
+    if (message.approved) {
+      if (message.scope === 'session') this.approvedTools.add(pending.request.tool);
+      pending.resolve({ approved: true });
+    } else {
+      pending.resolve({ approved: false, feedback: typeof message.feedback === 'string' ? message.feedback : undefined });
+    }
+  }
+
+  /**
+   * Stop the run in progress and drop the runs this session still has queued
+   */
+  cancel(): void {
+    this.cancels++;
+    this.controller?.abort();
+  }
+
+  /**
+   * Switch the approval mode of this session's runs (from its next run on)
+   */
+  setMode(mode: ApprovalMode): void {
+    this.mode = mode;
+    this.send({ type: 'mode_changed', mode });
+  }
+
+  send(frame: Record<string, unknown>): void {
+    this.channel?.send(JSON.stringify(frame));
+  }
+
+  askApproval(request: ApprovalRequest): ApprovalDecision | Promise<ApprovalDecision> {
+    if (this.approvedTools.has(request.tool)) return { approved: true };
+    return new Promise(resolve => {
+      const pending = { request, resolve };
+      this.approvals.push(pending);
+      // A cancelled run stops waiting (the agent rejects the call itself)
+      request.signal?.addEventListener('abort', () => {
+        this.approvals = this.approvals.filter(item => item !== pending);
+      }, { once: true });
+      this.send(this.approvalFrame(request));
+    });
+  }
+
+  llmCall(): void {
+    this.llmCallId = generateUUID();
+    this.llmCallStart = Date.now();
+    this.emit({ type: 'llm_call', id: this.llmCallId, model: this.agent.getModel() || undefined });
+  }
+
+  llmResult(response: LLMResponse): void {
+    this.finishLlmCall('done', response);
+    if (response.content && response.toolCalls.length > 0) {
+      this.emit({ type: 'assistant', id: generateUUID(), content: response.content });
+    }
+    for (const { id, name, arguments: args } of response.toolCalls) {
+      this.emit({ type: 'tool_call', tool_id: id, name, args });
+    }
+  }
+
+  private async run(inputId: string, prompt: string, images: string[] | undefined, files: FileAttachment[] | undefined, generation: number): Promise<void> {
+    if (generation !== this.cancels) {
+      this.pending--;
+      this.answer(inputId, { type: 'CANCELLED', input_id: inputId, session: this.state() });
+      return;
+    }
+    activeRuns.set(this.agent, this);
+    const controller = new AbortController();
+    this.controller = controller;
+    try {
+      let text = '';
+      const options = {
+        images,
+        files,
+        signal: controller.signal,
+        approvalMode: this.mode,
+        approver: (request: ApprovalRequest) => this.askApproval(request),
+      };
+      for await (const event of this.agent.stream(prompt, options)) {
+        if (event.type === 'complete') text = event.content;
+        else this.forward(event);
+      }
+      this.turn++;
+      if (text) this.addItem({ type: 'agent', content: text });
+      this.answer(inputId, { type: 'OUTPUT', input_id: inputId, result: text, session: this.state() });
+    } catch (error) {
+      if (error instanceof AgentCancelledError) {
+        // The open LLM call is marked 'stopped' with the rest of the run
+        this.llmCallId = null;
+        this.answer(inputId, { type: 'CANCELLED', input_id: inputId, session: this.state() });
+      } else {
+        if (this.llmCallId) this.finishLlmCall('error');
+        this.answer(inputId, { type: 'ERROR', input_id: inputId, message: error instanceof Error ? error.message : String(error) });
+      }
+    } finally {
+      activeRuns.delete(this.agent);
+      this.controller = null;
+      this.pending--;
+    }
+  }
+
+  private forward(event: AgentStreamEvent): void {
+    if (event.type === 'tool_result') {
+      this.emit({
+        type: 'tool_result',
+        tool_id: event.callId,
+        name: event.name,
+        status: event.result.status === 'success' ? 'success' : 'error',
+        result: toolResultText(event.result),
+        timing_ms: event.timing_ms,
+      });
+      for (const image of toolImages(event.result)) this.emit({ type: 'agent_image', image });
+    } else if (event.type === 'compact') {
+      const { iteration: _iteration, ...frame } = event;
+      this.emit(frame);
+    }
+  }
+
+  private finishLlmCall(status: 'done' | 'error', response?: LLMResponse): void {
+    this.emit({
+      type: 'llm_result',
+      id: this.llmCallId,
+      status,
+      model: this.agent.getModel() || undefined,
+      duration_ms: Date.now() - this.llmCallStart,
+      ...(response?.usage && { usage: response.usage }),
+    });
+    this.llmCallId = null;
+  }
+
+  private approvalFrame(request: ApprovalRequest): Record<string, unknown> {
+    return { type: 'approval_needed', tool: request.tool, arguments: request.arguments, description: request.description };
+  }
+
+  /** Send the frame that ends a run, and keep it for a repeat of its input_id */
+  private answer(inputId: string, frame: Record<string, unknown>): void {
+    this.remember(inputId, frame);
+    this.emit(frame);
+  }
+
+  private remember(inputId: string, answer: Record<string, unknown> | null): void {
+    this.answers.delete(inputId);
+    this.answers.set(inputId, answer);
+    if (this.answers.size > MAX_REMEMBERED_INPUTS) this.answers.delete(this.answers.keys().next().value!);
+  }
+
+  /** Record an event in the transcript and send it to the client */
+  private emit(event: Record<string, unknown>): void {
+    mapEventToChatItem(this.chatItems, event, item => this.addItem(item));
+    this.send(event);
+  }
+
+  private addItem(item: Partial<ChatItem> & { type: ChatItemType }): void {
+    this.updatedAt = Date.now();
+    const id = (item as { id?: string }).id || generateUUID();
+    const index = this.chatItems.findIndex(existing => existing.id === id);
+    if (index !== -1) {
+      this.chatItems[index] = { ...this.chatItems[index], ...item, id } as ChatItem;
+    } else {
+      this.chatItems.push({ ...item, id } as ChatItem);
+    }
+  }
+}
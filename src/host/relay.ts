@@ -0,0 +1,455 @@
+/**
+ * @purpose Self-hostable relay: agents announce themselves on /ws/announce, clients reach them by address on /ws/input, and GET /api/agents/:address says where an agent is and whether it is online
+ *
+ * @graph Routing
+ *
+ *   agent ──WS /ws/announce──▶ ANNOUNCE {payload: {timestamp, relay, endpoints, profile}, from, signature}
+ *                                │ verifyAnnounce(): signature over the sorted-key payload, timestamp within 5 min,
+ *                                │ payload.relay names this relay (its publicUrl or the Host it was reached at)
+ *                                ├─ invalid ──────────────────────────────────────▶ ERROR {message}, socket closed
+ *                                ├─ timestamp not after the address's last one ──▶ ERROR {message}, socket closed
+ *                                ▼
+ *                              ANNOUNCED {address, relay}  (record online; the old socket for the address loses it)
+ *
+ *   A captured ANNOUNCE cannot take an address over: it names one relay, and
+ *   once the address announced with it (or anything newer) it is stale
+ *
+ *   client ──WS /ws/input──▶ CHANNELS {payload: {timestamp}, from, signature}  (only to use channels)
+ *                                │ same signature and timestamp checks as ANNOUNCE
+ *                                ├─ invalid ──▶ ERROR {message}; frames with `channel` keep getting ERROR
+ *                                ▼
+ *                              CHANNELS_READY {address}
+ *
+ *   client ──WS /ws/input──▶ CONNECT / INPUT / ... {to: 0x..., channel?}
+ *                                │ the socket (or, with `channel`, that channel) is bound to the first `to` it names
+ *                                ├─ agent offline ──▶ ERROR {message} (CONNECT also closes the socket, or the channel)
+ *                                ▼
+ *                              agent gets the frame + client_id (one per socket, or per channel)
+ *
+ *   agent ──▶ {..., client_id} ──▶ relay strips client_id ──▶ that client (+ its channel)
+ *   agent ──▶ CLOSE_CLIENT {client_id} ──▶ client socket closed, or CHANNEL_CLOSED {channel}
+ *   client ──▶ CLOSE_CHANNEL {channel} ──▶ agent gets CLIENT_DISCONNECTED {client_id} for that channel
+ *   client socket closes ──▶ agent gets CLIENT_DISCONNECTED {client_id} for it and each of its channels
+ *   agent socket closes  ──▶ its clients get ERROR and are closed; the record stays (relay: null)
+ *
+ *   Channels let one client socket (a RelayPool) talk to many agents once it
+ *   has sent CHANNELS; the relay's PING/PONG stay per socket
+ *
+ *   GET /api/agents          ─▶ [record, ...]
+ *   GET /api/agents/:address ─▶ { address, endpoints, relay: ws URL while online else null, last_seen, profile }
+ *
+ * @llm-note
+ *   Dependencies: imports from [node:http, ws (WebSocketServer via require), src/address, src/connect/auth, src/connect/endpoint, src/host/serve (MAX_CLOCK_SKEW_S, ServerSocket)] | imported by [src/index.ts] | tested by [tests/relay.test.ts]
+ *   Data flow: serveRelay(options) → http server; upgrades to /ws/announce and /ws/input go to two noServer WebSocketServers → frames routed by address (client → agent, per socket or per channel) or client_id (agent → client)
+ *   State/Effects: listens on a TCP port | agent records (endpoints, profile, last_seen, timestamp of the announce that holds the address) live in memory for the life of the relay, online or not | PINGs every socket every pingIntervalMs
+ *   Integration: exposes serveRelay(), RelayOptions, RelayServer, RelayAgentRecord, verifyAnnounce() | agents announce with serve(agent, { relayUrl }) | clients use connect(address, { relayUrl }) (endpoints found at /api/agents are tried first, then /ws/input), or share a socket through RelayPool channels
+ *   Errors: bad JSON, frames without a target, frames for offline agents and channel frames before CHANNELS get ERROR frames | serveRelay() rejects if the port cannot be bound
+ *   ⚠️ Node.js only | no persistence: records are lost when the relay stops
+ */
+
+import * as http from 'http';
+import * as address from '../address';
+import { sortedStringify } from '../connect/auth';
+import { AgentInfoSource, generateUUID } from '../connect/endpoint';
+import { MAX_CLOCK_SKEW_S, ServerSocket } from './serve';
+
+export interface RelayOptions {
+  /** Port to listen on (default: 8000; 0 picks a free port) */
+  port?: number;
+  /** Interface to bind (default: all interfaces) */
+  host?: string;
+  /** URL the relay is reachable at, published as `relay` in agent records (default: ws://<host>:<port>) */
+  publicUrl?: string;
+  /** Keepalive PING interval in ms (default: 30000) */
+  pingIntervalMs?: number;
+}
+
+/**
+ * A running relay, returned by serveRelay()
+ */
+export interface RelayServer {
+  readonly port: number;
+  /** WebSocket base URL, e.g. for connect(address, { relayUrl: relay.url }) */
+  readonly url: string;
+  /** Stop listening and close every agent and client socket */
+  close(): Promise<void>;
+}
+
+/**
+ * What GET /api/agents/:address returns
+ */
+export interface RelayAgentRecord {
+  address: string;
+  endpoints: string[];
+  /** The relay's URL while the agent holds an announce connection, otherwise null */
+  relay: string | null;
+  /** ISO time of the agent's last frame */
+  last_seen: string | null;
+  profile: AgentInfoSource | null;
+}
+
+interface AnnouncedAgent {
+  address: string;
+  endpoints: string[];
+  profile: AgentInfoSource | null;
+  lastSeen: Date;
+  /** Signed timestamp of the announce that holds the address; the next one must be newer */
+  announcedAt: number;
+  socket: ServerSocket | null;
+  /** Clients bound to this agent, by relay-assigned client_id */
+  clients: Map<string, RelayClient>;
+}
+
+/** A client socket, or one channel of a client socket that multiplexes several agents */
+interface RelayClient {
+  socket: ServerSocket;
+  channel?: string;
+}
+
+/** What a client socket (channel '') or one of its channels is bound to */
+interface ClientRoute {
+  clientId: string;
+  agent: AnnouncedAgent;
+}
+
+/** Check a signed frame ({ payload: { timestamp, ... }, from, signature }): the signature and a fresh timestamp */
+function verifySigned(
+  message: Record<string, unknown>,
+  kind: string
+): { from: string; payload: Record<string, unknown> } | { error: string } {
+  const { payload, from, signature } = message;
+  if (typeof from !== 'string' || typeof signature !== 'string' || !payload || typeof payload !== 'object') {
+    return { error: `${kind} must be signed` };
+  }
+  const signed = payload as Record<string, unknown>;
+  if (!address.verify(from, sortedStringify(signed), signature)) {
+    return { error: 'Invalid signature' };
+  }
+  const timestamp = Number(signed.timestamp);
+  if (!Number.isFinite(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > MAX_CLOCK_SKEW_S) {
+    return { error: `${kind} signature has expired` };
+  }
+  return { from, payload: signed };
+}
+
+/** host[:port] of a URL (scheme ignored, so a TLS proxy in front of the relay still matches) */
+function urlHost(url: string): string | null {
+  try {
+    return new URL(url).host.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check an ANNOUNCE frame's signature and that it was signed for this relay
+ *
+ * @param message - The ANNOUNCE frame ({ payload: { timestamp, relay, endpoints?, profile? }, from, signature })
+ * @param relayUrls - URLs this relay answers at; payload.relay must have the host of one of them
+ * @returns The announcing address with its endpoints, profile and signed timestamp, or why it was refused
+ */
+export function verifyAnnounce(
+  message: Record<string, unknown>,
+  relayUrls: string[]
+): { address: string; endpoints: string[]; profile: AgentInfoSource | null; timestamp: number } | { error: string } {
+  const verified = verifySigned(message, 'ANNOUNCE');
+  if ('error' in verified) return verified;
+  const signed = verified.payload;
+  const relay = typeof signed.relay === 'string' ? urlHost(signed.relay) : null;
+  if (!relay || !relayUrls.some(url => urlHost(url) === relay)) {
+    return { error: 'ANNOUNCE was signed for a different relay' };
+  }
+  const endpoints = Array.isArray(signed.endpoints)
+    ? signed.endpoints.filter((url): url is string => typeof url === 'string')
+    : [];
+  const profile = signed.profile && typeof signed.profile === 'object' ? signed.profile as AgentInfoSource : null;
+  return { address: verified.from, endpoints, profile, timestamp: Number(signed.timestamp) };
+}
+
+/**
+ * Run a relay: agent announcement, address-based routing and the /api/agents directory
+ *
+ * @param options - Port, interface and the URL to publish
+ * @returns The running relay, once it is listening
+ *
+ * @example
+ * ```typescript
+ * const relay = await serveRelay({ port: 8000 });
+ * await serve(() => new Agent({ name: 'support' }), { port: 8001, relayUrl: relay.url });
+ *
+ * // Anywhere else
+ * const remote = connect('0x...', { relayUrl: 'ws://localhost:8000' });
+ * ```
+ */
+export async function serveRelay(options: RelayOptions = {}): Promise<RelayServer> {
+  const pingIntervalMs = options.pingIntervalMs ?? 30000;
+  const agents = new Map<string, AnnouncedAgent>();
+  let publicUrl = options.publicUrl || '';
+
+  const record = (agent: AnnouncedAgent): RelayAgentRecord => ({
+    address: agent.address,
+    endpoints: agent.endpoints,
+    relay: agent.socket ? publicUrl : null,
+    last_seen: agent.lastSeen.toISOString(),
+    profile: agent.profile,
+  });
+
+  const server = http.createServer((req, res) => {
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+      res.end(JSON.stringify(body));
+    };
+    const path = (req.url || '/').split('?')[0].replace(/\/$/, '');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Methods': 'GET, OPTIONS' });
+      res.end();
+    } else if (req.method === 'GET' && path === '/api/agents') {
+      json(200, [...agents.values()].map(record));
+    } else if (req.method === 'GET' && path.startsWith('/api/agents/')) {
+      const agent = agents.get(decodeURIComponent(path.slice('/api/agents/'.length)));
+      if (agent) json(200, record(agent));
+      else json(404, { error: 'Agent not found' });
+    } else {
+      json(404, { error: 'Not found' });
+    }
+  });
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const { WebSocketServer } = require('ws');
+  const announceWss = new WebSocketServer({ noServer: true });
+  const inputWss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req: http.IncomingMessage, socket: unknown, head: Buffer) => {
+    const path = (req.url || '/').split('?')[0];
+    const wss = path === '/ws/announce' ? announceWss : path === '/ws/input' ? inputWss : null;
+    if (!wss) {
+      (socket as { destroy(): void }).destroy();
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws: ServerSocket) => wss.emit('connection', ws, req));
+  });
+
+  const sendTo = (socket: ServerSocket, frame: Record<string, unknown>) => {
+    if (socket.readyState === 1) socket.send(JSON.stringify(frame));
+  };
+
+  /** Send to a client, tagged with its channel when it has one */
+  const sendToClient = (client: RelayClient, frame: Record<string, unknown>) => {
+    sendTo(client.socket, client.channel ? { ...frame, channel: client.channel } : frame);
+  };
+
+  /** Close a client: its socket, or only its channel when the socket is shared */
+  const closeClient = (client: RelayClient) => {
+    if (client.channel) sendTo(client.socket, { type: 'CHANNEL_CLOSED', channel: client.channel });
+    else client.socket.close();
+  };
+
+  const dropClients = (agent: AnnouncedAgent) => {
+    for (const client of agent.clients.values()) {
+      sendToClient(client, { type: 'ERROR', message: `Agent ${agent.address} went offline` });
+      closeClient(client);
+    }
+    agent.clients.clear();
+  };
+
+  const parse = (socket: ServerSocket, data: unknown): Record<string, unknown> | null => {
+    try {
+      const msg = JSON.parse(String(data));
+      if (msg && typeof msg === 'object') return msg;
+    } catch {
+      // fall through to the ERROR below
+    }
+    sendTo(socket, { type: 'ERROR', message: 'Invalid JSON' });
+    return null;
+  };
+
+  announceWss.on('connection', (socket: ServerSocket, req: http.IncomingMessage) => {
+    let agent: AnnouncedAgent | null = null;
+    const relayUrls = req.headers.host ? [publicUrl, `ws://${req.headers.host}`] : [publicUrl];
+
+    socket.on('message', data => {
+      const msg = parse(socket, data);
+      if (!msg) return;
+      if (agent) agent.lastSeen = new Date();
+
+      if (msg.type === 'PING') {
+        sendTo(socket, { type: 'PONG' });
+        return;
+      }
+      if (msg.type === 'PONG') return;
+      if (msg.type === 'ANNOUNCE') {
+        let announced = verifyAnnounce(msg, relayUrls);
+        const existing = 'error' in announced ? undefined : agents.get(announced.address);
+        // A replayed or out-of-date announce must not take the address from the socket that holds it
+        if (existing && !('error' in announced) && announced.timestamp <= existing.announcedAt) {
+          announced = { error: 'ANNOUNCE is not newer than the last one for this address' };
+        }
+        if ('error' in announced) {
+          sendTo(socket, { type: 'ERROR', message: announced.error });
+          socket.close();
+          return;
+        }
+        // The newest announce for an address wins; the old socket loses its clients
+        if (existing?.socket && existing.socket !== socket) {
+          dropClients(existing);
+          existing.socket.close();
+        }
+        agent = existing || { address: announced.address, endpoints: [], profile: null, lastSeen: new Date(), announcedAt: 0, socket: null, clients: new Map() };
+        agent.announcedAt = announced.timestamp;
+        agent.endpoints = announced.endpoints;
+        agent.profile = announced.profile;
+        agent.lastSeen = new Date();
+        agent.socket = socket;
+        agents.set(agent.address, agent);
+        sendTo(socket, { type: 'ANNOUNCED', address: agent.address, relay: publicUrl });
+        return;
+      }
+      if (!agent) {
+        sendTo(socket, { type: 'ERROR', message: 'Send ANNOUNCE first' });
+        return;
+      }
+
+      const { client_id: clientId, ...frame } = msg;
+      const client = typeof clientId === 'string' ? agent.clients.get(clientId) : undefined;
+      if (!client) return;
+      if (frame.type === 'CLOSE_CLIENT') {
+        if (client.channel) agent.clients.delete(clientId as string);
+        closeClient(client);
+      } else {
+        sendToClient(client, frame);
+      }
+    });
+
+    socket.on('close', () => {
+      if (!agent || agent.socket !== socket) return;
+      agent.socket = null;
+      agent.lastSeen = new Date();
+      dropClients(agent);
+    });
+  });
+
+  inputWss.on('connection', (socket: ServerSocket) => {
+    // Frames without a channel make the socket one client; each channel is a client of its own
+    const routes = new Map<string, ClientRoute>();
+    /** Who opened channels on this socket with a signed CHANNELS frame; channels are refused until then */
+    let multiplexer: string | null = null;
+
+    /** The route still stands unless its agent dropped the client (went offline, CLOSE_CLIENT) */
+    const routeOf = (channel: string): ClientRoute | undefined => {
+      const route = routes.get(channel);
+      if (route && route.agent.clients.get(route.clientId)?.socket !== socket) {
+        routes.delete(channel);
+        return undefined;
+      }
+      return route;
+    };
+
+    const release = (channel: string) => {
+      const route = routeOf(channel);
+      if (!route) return;
+      routes.delete(channel);
+      route.agent.clients.delete(route.clientId);
+      if (route.agent.socket) sendTo(route.agent.socket, { type: 'CLIENT_DISCONNECTED', client_id: route.clientId });
+    };
+
+    socket.on('message', data => {
+      const msg = parse(socket, data);
+      if (!msg) return;
+      if (msg.type === 'PING') {
+        sendTo(socket, { type: 'PONG' });
+        return;
+      }
+      if (msg.type === 'PONG') return;
+      if (msg.type === 'CHANNELS') {
+        const signed = verifySigned(msg, 'CHANNELS');
+        if ('error' in signed) {
+          sendTo(socket, { type: 'ERROR', message: signed.error });
+          return;
+        }
+        multiplexer = signed.from;
+        sendTo(socket, { type: 'CHANNELS_READY', address: multiplexer });
+        return;
+      }
+
+      const { to, channel: rawChannel, ...frame } = msg;
+      const channel = typeof rawChannel === 'string' ? rawChannel : '';
+      const reply = (out: Record<string, unknown>) => sendTo(socket, channel ? { ...out, channel } : out);
+      if (channel && !multiplexer) {
+        reply({ type: 'ERROR', message: 'Send CHANNELS before using channels' });
+        return;
+      }
+      if (channel && frame.type === 'CLOSE_CHANNEL') {
+        release(channel);
+        return;
+      }
+
+      const route = routeOf(channel);
+      if (route && typeof to === 'string' && to !== route.agent.address) {
+        reply({ type: 'ERROR', message: `This connection is bound to ${route.agent.address}` });
+        return;
+      }
+      const addr = route?.agent.address || (typeof to === 'string' ? to : '');
+      if (!addr) {
+        reply({ type: 'ERROR', message: "Missing 'to' address" });
+        return;
+      }
+      const agent = agents.get(addr);
+      if (!agent?.socket) {
+        if (frame.type === 'SESSION_STATUS') {
+          const sessionId = (frame.session as { session_id?: unknown } | undefined)?.session_id;
+          reply({ type: 'SESSION_STATUS', session_id: sessionId, status: 'not_found' });
+          return;
+        }
+        reply({ type: 'ERROR', message: `Agent ${addr} is offline` });
+        if (frame.type === 'CONNECT') {
+          if (channel) reply({ type: 'CHANNEL_CLOSED' });
+          else socket.close();
+        }
+        return;
+      }
+      let clientId = route?.clientId;
+      if (!clientId) {
+        clientId = generateUUID();
+        routes.set(channel, { clientId, agent });
+        agent.clients.set(clientId, { socket, ...(channel && { channel }) });
+      }
+      sendTo(agent.socket, { ...frame, client_id: clientId });
+    });
+
+    socket.on('close', () => {
+      for (const channel of [...routes.keys()]) release(channel);
+    });
+  });
+
+  const ping = setInterval(() => {
+    for (const wss of [announceWss, inputWss]) {
+      for (const socket of wss.clients as Set<ServerSocket>) sendTo(socket, { type: 'PING' });
+    }
+  }, pingIntervalMs);
+  ping.unref?.();
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 8000, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const port = (server.address() as { port: number }).port;
+  const hostname = !options.host || options.host === '0.0.0.0' || options.host === '::' ? 'localhost' : options.host;
+  publicUrl = publicUrl || `ws://${hostname}:${port}`;
+
+  return {
+    port,
+    url: publicUrl,
+    close: () => new Promise<void>(resolve => {
+      clearInterval(ping);
+      for (const wss of [announceWss, inputWss]) {
+        for (const socket of wss.clients as Set<ServerSocket>) socket.terminate();
+        wss.close();
+      }
+      server.close(() => resolve());
+    }),
+  };
+}
@@ -0,0 +1,475 @@
+/**
+ * @purpose Host a local Agent over the ConnectOnion WebSocket protocol, so connect() clients (and Python ones) can talk to a Node agent
+ *
+ * @graph Endpoints
+ *
+ *   GET /info ─────────▶ { address, name, tools, model, accepted_inputs }
+ *   GET /sessions/:id ─▶ { session_id, status: 'running' | 'connected' }  (404 when unknown)
+ *
+ *   WS /ws
+ *     CONNECT {payload, from, signature, session_id?, session?}
+ *       │ verifyConnect(): signature over the sorted-key payload, payload.to, timestamp within 5 min
+ *       ├─ invalid ──▶ ERROR {message}, socket closed
+ *       ▼
+ *     session_id known (and same signer)? ── yes ──▶ resume: CONNECTED {status 'running'|'connected', chat_items if newer}
+ *       │ no
+ *       ▼
+ *     new HostSession ──▶ CONNECTED {session_id, status: 'new'} + AGENT_PROFILE
+ *
+ *     INPUT / CANCEL / APPROVAL_RESPONSE / mode_change ──▶ HostSession (see host-session.ts)
+ *     SESSION_STATUS {session: {session_id}} ──▶ SESSION_STATUS {session_id, status} (no CONNECT needed)
+ *     LIST_SESSIONS {payload, from, signature} ──▶ SESSIONS {sessions: [{session_id, status, title, mode, turn, updated_at}]}
+ *       (the signer's own sessions still in memory; none for an unsigned or invalid frame; no CONNECT needed)
+ *     PING ──▶ PONG; the host PINGs every pingIntervalMs
+ *
+ *   relayUrl set: WS <relay>/ws/announce
+ *     signed ANNOUNCE {payload: {timestamp, relay, endpoints, profile}} ──▶ ANNOUNCED
+ *     {..., client_id} ──▶ same handling as a /ws socket, one per client_id; replies carry the client_id back
+ *     CLIENT_DISCONNECTED {client_id} ──▶ that client's session is detached
+ *     connection dropped ──▶ announce again every RELAY_RETRY_MS until close()
+ *
+ * @llm-note
+ *   Dependencies: imports from [node:http, ws (WebSocketServer via require), src/address, src/connect/auth, src/connect/endpoint, src/host/host-session, src/core/agent (type-only), src/connect/types (type-only)] | imported by [src/index.ts, src/host/relay.ts] | tested by [tests/serve.test.ts, tests/relay.test.ts]
+ *   Data flow: serve(agent | factory, options) → loads keys (options.keys, coDir keys, else a new in-memory address) → http server + WebSocketServer on /ws → frames parsed per socket (or per relayed client_id) → openConnection() → HostSession per session id
+ *   State/Effects: listens on a TCP port | sessions live in memory; one with no client and no run is dropped after sessionTimeoutMs | a factory is called once at startup (for /info) and once per new session; that first agent serves the first session
+ *   Integration: exposes serve(), ServeOptions, AgentServer, verifyConnect() (plus MAX_CLOCK_SKEW_S and ServerSocket for relay.ts) | clients connect with connect(server.address, { directUrl: server.url }) | events match what src/connect/chat-item-mapper.ts maps
+ *   Errors: bad JSON, frames before CONNECT, oversized files and mode_change from an unsigned session get ERROR frames; a refused CONNECT also closes the socket | serve() rejects if the port cannot be bound or the relay refuses or cannot be reached at startup
+ *   ⚠️ Node.js only | serve(agent) shares one conversation across all sessions (runs are queued); pass a factory for one conversation per session
+ */
+
+import * as http from 'http';
+import * as address from '../address';
+import type { Agent } from '../core/agent';
+import type { AgentAcceptedInputs, AgentInfo, FileAttachment, WebSocketLike } from '../connect/types';
+import { signPayload, sortedStringify } from '../connect/auth';
+import { generateUUID, getWebSocketCtor, normalizeRelayUrl } from '../connect/endpoint';
+import { HostChannel, HostSession } from './host-session';
+
+export interface ServeOptions {
+  /** Port to listen on (default: 8000; 0 picks a free port) */
+  port?: number;
+  /** Interface to bind (default: all interfaces) */
+  host?: string;
+  /** Identity of the hosted agent (default: keys in coDir, else a new in-memory address) */
+  keys?: address.AddressData;
+  /** Where to look for keys (default: '.co') */
+  coDir?: string;
+  /** Refuse unsigned CONNECT frames (default: false; a bad signature is always refused) */
+  requireSignature?: boolean;
+  /** Keepalive PING interval in ms (default: 30000) */
+  pingIntervalMs?: number;
+  /** Drop a session this long after its last client left and its runs finished (default: 30 minutes) */
+  sessionTimeoutMs?: number;
+  /** Largest accepted file attachment (default: 10) */
+  maxFileSizeMb?: number;
+  /** Most files in one INPUT (default: 10) */
+  maxFilesPerRequest?: number;
+  /** Announce on this relay so clients can reach the agent by address, e.g. 'ws://localhost:8000' (default: no relay) */
+  relayUrl?: string;
+  /** URLs published to the relay for direct connections (default: [server.url]; [] routes every client through the relay) */
+  endpoints?: string[];
+}
+
+/**
+ * A running host, returned by serve()
+ */
+export interface AgentServer {
+  /** The agent's public address (0x...) */
+  readonly address: string;
+  readonly port: number;
+  /** Base URL, e.g. for connect(address, { directUrl: server.url }) */
+  readonly url: string;
+  /** Stop listening and close every client socket */
+  close(): Promise<void>;
+}
+
+/** Oldest/newest signed CONNECT (or relay ANNOUNCE) accepted, in seconds from now */
+export const MAX_CLOCK_SKEW_S = 300;
+
+/** Wait before announcing again after the relay connection drops */
+const RELAY_RETRY_MS = 5000;
+
+/** Minimal shape of a `ws` server-side socket */
+export interface ServerSocket {
+  readyState: number;
+  send(data: string): void;
+  close(): void;
+  terminate(): void;
+  on(event: 'message', listener: (data: unknown) => void): void;
+  on(event: 'close', listener: () => void): void;
+}
+
+/**
+ * Check a CONNECT frame's signature
+ *
+ * @param message - The CONNECT frame ({ payload, from, signature } when signed)
+ * @param self - Address of the hosted agent; a signed payload.to must match it
+ * @param requireSignature - Refuse frames without a signature
+ * @returns The signer's address (null for an accepted unsigned frame), or why it was refused
+ */
+export function verifyConnect(
+  message: Record<string, unknown>,
+  self: string,
+  requireSignature = false
+): { client: string | null } | { error: string } {
+  const { payload, from, signature } = message;
+  if (!signature && !from) {
+    return requireSignature ? { error: 'This agent only accepts signed connections' } : { client: null };
+  }
+  if (typeof from !== 'string' || typeof signature !== 'string' || !payload || typeof payload !== 'object') {
+    return { error: 'Malformed signed CONNECT' };
+  }
+  const signed = payload as Record<string, unknown>;
+  if (!address.verify(from, sortedStringify(signed), signature)) {
+    return { error: 'Invalid signature' };
+  }
+  if (signed.to !== undefined && signed.to !== self) {
+    return { error: 'CONNECT was signed for a different agent' };
+  }
+  const timestamp = Number(signed.timestamp);
+  if (!Number.isFinite(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > MAX_CLOCK_SKEW_S) {
+    return { error: 'CONNECT signature has expired' };
+  }
+  return { client: from };
+}
+
+/**
+ * Serve a local Agent over the ConnectOnion protocol (WebSocket /ws and GET /info)
+ *
+ * @param target - The Agent to host, or a factory that creates one Agent per session
+ * @param options - Port, identity and connection policy
+ * @returns The running server, once it is listening
+ *
+ * @example
+ * ```typescript
+ * const server = await serve(() => new Agent({ name: 'support', tools: [lookupOrder] }), { port: 8000 });
+ * console.log(`Agent ${server.address} on ${server.url}`);
+ *
+ * // Anywhere else
+ * const remote = connect(server.address, { directUrl: 'http://localhost:8000' });
+ * await remote.input('Where is order 42?');
+ * ```
+ */
+export async function serve(
+  target: Agent | (() => Agent | Promise<Agent>),
+  options: ServeOptions = {}
+): Promise<AgentServer> {
+  const keys = options.keys || address.load(options.coDir) || address.generate();
+  const createAgent = typeof target === 'function' ? target : () => target;
+  const pingIntervalMs = options.pingIntervalMs ?? 30000;
+  const sessionTimeoutMs = options.sessionTimeoutMs ?? 30 * 60 * 1000;
+  const maxFileSizeMb = options.maxFileSizeMb ?? 10;
+  const maxFilesPerRequest = options.maxFilesPerRequest ?? 10;
+
+  // The first agent describes the host and serves the first session
+  let spare: Agent | null = await createAgent();
+  const acceptedInputs: AgentAcceptedInputs = {
+    text: true,
+    images: true,
+    files: { max_file_size_mb: maxFileSizeMb, max_files_per_request: maxFilesPerRequest },
+  };
+  const profile: Omit<AgentInfo, 'online'> = {
+    address: keys.address,
+    name: spare.getName(),
+    tools: spare.listTools(),
+    ...(spare.getModel() && { model: spare.getModel() }),
+    accepted_inputs: acceptedInputs,
+  };
+
+  const sessions = new Map<string, HostSession>();
+  const expiry = new Map<string, ReturnType<typeof setTimeout>>();
+
+  const newSession = async (id: string, client: string | null): Promise<HostSession> => {
+    const agent = spare || await createAgent();
+    spare = null;
+    const session = new HostSession(id, agent, client);
+    sessions.set(id, session);
+    return session;
+  };
+
+  // Sessions nobody is attached to are dropped once their runs are done
+  const scheduleExpiry = (session: HostSession) => {
+    clearTimeout(expiry.get(session.id));
+    const timer = setTimeout(() => {
+      expiry.delete(session.id);
+      if (session.attached) return;
+      if (session.status === 'running') scheduleExpiry(session);
+      else sessions.delete(session.id);
+    }, sessionTimeoutMs);
+    timer.unref?.();
+    expiry.set(session.id, timer);
+  };
+
+  const server = http.createServer((req, res) => {
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+      res.end(JSON.stringify(body));
+    };
+    const path = (req.url || '/').split('?')[0];
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Methods': 'GET, OPTIONS' });
+      res.end();
+    } else if (req.method === 'GET' && path === '/info') {
+      json(200, profile);
+    } else if (req.method === 'GET' && path.startsWith('/sessions/')) {
+      const session = sessions.get(decodeURIComponent(path.slice('/sessions/'.length)));
+      if (session) json(200, { session_id: session.id, status: session.status });
+      else json(404, { status: 'not_found' });
+    } else {
+      json(404, { error: 'Not found' });
+    }
+  });
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const { WebSocketServer } = require('ws');
+  const wss = new WebSocketServer({ server, path: '/ws' });
+
+  // One client: a socket on /ws, or a client the relay forwards frames for
+  const openConnection = (channel: HostChannel, close: () => void) => {
+    let session: HostSession | null = null;
+    const send = (frame: Record<string, unknown>) => channel.send(JSON.stringify(frame));
+
+    const handleFrame = async (msg: Record<string, unknown>) => {
+      switch (msg.type) {
+        case 'PING':
+          send({ type: 'PONG' });
+          return;
+        case 'PONG':
+          return;
+        case 'SESSION_STATUS': {
+          const id = String((msg.session as { session_id?: unknown } | undefined)?.session_id || '');
+          send({ type: 'SESSION_STATUS', session_id: id, status: sessions.get(id)?.status || 'not_found' });
+          return;
+        }
+        case 'LIST_SESSIONS': {
+          // Only a signer's own sessions; unsigned clients cannot be told apart, so they get none
+          const auth = verifyConnect(msg, keys.address);
+          const client = 'error' in auth ? null : auth.client;
+          const own = client ? [...sessions.values()].filter(existing => existing.client === client) : [];
+          send({ type: 'SESSIONS', sessions: own.map(existing => existing.summary()) });
+          return;
+        }
+        case 'CONNECT': {
+          const auth = verifyConnect(msg, keys.address, options.requireSignature);
+          if ('error' in auth) {
+            send({ type: 'ERROR', message: auth.error });
+            close();
+            return;
+          }
+          if (session) {
+            session.detach(channel);
+            scheduleExpiry(session);
+          }
+          // Only the signer who opened a session can resume it: unsigned clients
+          // cannot be told apart, so each of their CONNECTs opens a new session
+          const existing = typeof msg.session_id === 'string' ? sessions.get(msg.session_id) : undefined;
+          const resumed = !!existing && auth.client !== null && existing.client === auth.client;
+          session = resumed ? existing! : await newSession(generateUUID(), auth.client);
+          clearTimeout(expiry.get(session.id));
+          session.attach(channel);
+          const clientTurn = (msg.session as { turn?: unknown } | undefined)?.turn;
+          send(session.connected(resumed, typeof clientTurn === 'number' ? clientTurn : undefined));
+          send({ type: 'AGENT_PROFILE', ...profile });
+          return;
+        }
+      }
+
+      if (!session) {
+        send({ type: 'ERROR', message: 'Send CONNECT first' });
+        return;
+      }
+      if (msg.type === 'INPUT') {
+        const inputId = String(msg.input_id || generateUUID());
+        const files = toAttachments(msg.files);
+        const tooLarge = files.find(file => file.size > maxFileSizeMb * 1024 * 1024);
+        if (files.length > maxFilesPerRequest || tooLarge) {
+          send({
+            type: 'ERROR',
+            input_id: inputId,
+            message: tooLarge
+              ? `File '${tooLarge.name}' is larger than ${maxFileSizeMb} MB`
+              : `At most ${maxFilesPerRequest} files per request`,
+          });
+          return;
+        }
+        const images = Array.isArray(msg.images) ? msg.images.filter((url): url is string => typeof url === 'string') : [];
+        await session.input(inputId, String(msg.prompt ?? ''), images, files);
+      } else if (msg.type === 'CANCEL') {
+        session.cancel();
+      } else if (msg.type === 'APPROVAL_RESPONSE') {
+        session.respondToApproval(msg);
+      } else if (msg.type === 'mode_change' && typeof msg.mode === 'string') {
+        // The mode decides which tools run without asking, so only a signer may change it
+        if (session.client === null) {
+          send({ type: 'ERROR', message: 'Sign the connection to change the approval mode' });
+          return;
+        }
+        session.setMode(msg.mode as Parameters<HostSession['setMode']>[0]);
+      }
+    };
+
+    return {
+      receive(msg: Record<string, unknown>): void {
+        handleFrame(msg).catch(error => send({ type: 'ERROR', message: error instanceof Error ? error.message : String(error) }));
+      },
+      closed(): void {
+        if (!session) return;
+        session.detach(channel);
+        scheduleExpiry(session);
+      },
+    };
+  };
+
+  wss.on('connection', (socket: ServerSocket) => {
+    const channel: HostChannel = {
+      send: data => { if (socket.readyState === 1) socket.send(data); },
+    };
+    const connection = openConnection(channel, () => socket.close());
+    const ping = setInterval(() => channel.send(JSON.stringify({ type: 'PING' })), pingIntervalMs);
+
+    socket.on('message', data => {
+      let msg: Record<string, unknown>;
+      try {
+        msg = JSON.parse(String(data));
+      } catch {
+        channel.send(JSON.stringify({ type: 'ERROR', message: 'Invalid JSON' }));
+        return;
+      }
+      connection.receive(msg);
+    });
+
+    socket.on('close', () => {
+      clearInterval(ping);
+      connection.closed();
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 8000, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const port = (server.address() as { port: number }).port;
+  const hostname = !options.host || options.host === '0.0.0.0' || options.host === '::' ? 'localhost' : options.host;
+
+  const url = `http://${hostname}:${port}`;
+
+  // Announce on the relay and answer the clients it forwards (each one keyed by client_id)
+  let relaySocket: WebSocketLike | null = null;
+  let relayRetry: ReturnType<typeof setTimeout> | null = null;
+  let closing = false;
+
+  const announce = (relayUrl: string) => new Promise<void>((resolve, reject) => {
+    const ws = new (getWebSocketCtor())(`${normalizeRelayUrl(relayUrl)}/ws/announce`);
+    const relayed = new Map<string, ReturnType<typeof openConnection>>();
+    let announced = false;
+    relaySocket = ws;
+
+    const connectionFor = (clientId: string) => {
+      let connection = relayed.get(clientId);
+      if (!connection) {
+        connection = openConnection(
+          { send: data => ws.send(JSON.stringify({ ...JSON.parse(data), client_id: clientId })) },
+          () => ws.send(JSON.stringify({ type: 'CLOSE_CLIENT', client_id: clientId }))
+        );
+        relayed.set(clientId, connection);
+      }
+      return connection;
+    };
+
+    ws.onopen = () => {
+      // Naming the relay keeps the signed announce from being replayed on another one
+      const payload = { timestamp: Math.floor(Date.now() / 1000), relay: normalizeRelayUrl(relayUrl), endpoints: options.endpoints ?? [url], profile };
+      ws.send(JSON.stringify({ type: 'ANNOUNCE', ...signPayload(keys, payload) }));
+    };
+    ws.onmessage = (evt: { data: unknown }) => {
+      let msg: Record<string, unknown>;
+      try {
+        msg = JSON.parse(String(evt.data));
+      } catch {
+        return;
+      }
+      if (!announced) {
+        if (msg.type === 'ANNOUNCED') {
+          announced = true;
+          resolve();
+        } else if (msg.type === 'ERROR') {
+          reject(new Error(`Relay refused the announcement: ${msg.message}`));
+        }
+        return;
+      }
+      const { client_id: clientId, ...frame } = msg;
+      if (msg.type === 'PING') {
+        ws.send(JSON.stringify({ type: 'PONG' }));
+      } else if (typeof clientId !== 'string') {
+        return;
+      } else if (msg.type === 'CLIENT_DISCONNECTED') {
+        relayed.get(clientId)?.closed();
+        relayed.delete(clientId);
+      } else {
+        connectionFor(clientId).receive(frame);
+      }
+    };
+    ws.onerror = () => undefined;
+    ws.onclose = () => {
+      if (relaySocket === ws) relaySocket = null;
+      for (const connection of relayed.values()) connection.closed();
+      relayed.clear();
+      if (!announced) {
+        reject(new Error(`Could not announce on relay ${relayUrl}`));
+      } else if (!closing) {
+        retryAnnounce(relayUrl);
+      }
+    };
+  });
+
+  // A dropped relay connection is retried until the server is closed
+  const retryAnnounce = (relayUrl: string) => {
+    relayRetry = setTimeout(() => {
+      relayRetry = null;
+      announce(relayUrl).catch(() => { if (!closing) retryAnnounce(relayUrl); });
+    }, RELAY_RETRY_MS);
+    relayRetry.unref?.();
+  };
+
+  const close = () => new Promise<void>(resolve => {
+    closing = true;
+    if (relayRetry) clearTimeout(relayRetry);
+    relaySocket?.close();
+    for (const timer of expiry.values()) clearTimeout(timer);
+    for (const client of wss.clients as Set<ServerSocket>) client.terminate();
+    wss.close();
+    server.close(() => resolve());
+  });
+
+  if (options.relayUrl) {
+    try {
+      await announce(options.relayUrl);
+    } catch (error) {
+      await close();
+      throw error;
+    }
+  }
+
+  return { address: keys.address, port, url, close };
+}
+
+/** INPUT files ({ name, data: data URL }) → the FileAttachment shape the Agent takes */
+function toAttachments(files: unknown): FileAttachment[] {
+  if (!Array.isArray(files)) return [];
+  return files
+    .filter((file): file is { name?: unknown; data: string } => !!file && typeof file.data === 'string')
+    .map(file => {
+      const match = file.data.match(/^data:([^;,]+)?[^,]*,/);
+      const base64 = file.data.slice(match ? match[0].length : 0);
+      return {
+        name: typeof file.name === 'string' ? file.name : 'attachment',
+        type: match?.[1] || 'application/octet-stream',
+        size: Math.floor(base64.length * 3 / 4),
+        dataUrl: file.data,
+      };
+    });
+}
@@ -29,13 +29,30 @@
  *   └─────────────────────────────────────────────────────────┘
  *
  * @llm-note
- *   Dependencies: imports from [src/core/agent, src/llm/*, src/tools/*, src/trust/*, src/types] | imported by external consumers | tested by all test files
+ *   Dependencies: imports from [src/core/agent, src/llm/*, src/tools/*, src/trust/*, src/host/serve, src/host/relay, src/types] | imported by external consumers | tested by all test files
  *   Data flow: no runtime logic, pure re-exports → external code imports from here → provides unified API surface
  *   State/Effects: no state or side effects | static exports only
- *   Integration: exposes Agent, createLLM, all LLM providers (OpenAILLM, AnthropicLLM, GeminiLLM), tool utils (xray, processTools, etc), trust system, all types | single source of truth for SDK imports
+ *   Integration: exposes Agent, createLLM, all LLM providers (OpenAILLM, AnthropicLLM, GeminiLLM), tool utils (xray, processTools, etc), trust system, serve() for hosting an Agent, serveRelay() for a self-hosted relay, all types | single source of truth for SDK imports
  */
 
 export { Agent } from './core/agent';
+export type { AgentPlugin, PluginEvents, PluginHook } from './core/plugins';
+export { AgentCancelledError } from './core/abort';
+export { DEFAULT_PRICES, calculateCost, addUsage, emptyUsage, type ModelPrice, type PriceTable } from './llm/usage';
+export type { RunBudget, BudgetLimit, BudgetExceeded } from './core/budget';
+export { ContextManager, CONTEXT_WINDOWS, estimateTokens, type ContextConfig } from './core/context';
+export {
+  autoApprover,
+  cliApprover,
+  type ApprovalMode,
+  type ApprovalRequest,
+  type ApprovalDecision,
+  type Approver,
+  type ApprovalRule,
+} from './core/approval';
+export { contentText, messageFields, userContent } from './llm/content';
+export { SchemaValidationError, validateSchema, extractJson, type JsonSchema } from './core/schema';
+export { FileSessionStore, createSessionId, type SessionStore, type FileSessionStoreOptions } from './core/session';
 export { createLLM, OpenAILLM, AnthropicLLM, GeminiLLM } from './llm';
 export { 
   createToolFromFunction, 
@@ -43,8 +60,11 @@ export {
   extractMethodsFromInstance,
   processTools,
   xray,
+  withToolOptions,
 } from './tools/tool-utils';
+export { agentAsTool, type AgentToolOptions } from './tools/agent-tool';
 export { trace as xrayTrace } from './tools/xray';
+export { ToolExecutionError, ToolTimeoutError, type TraceEntry } from './tools/tool-executor';
 export { withReplay, xrayReplay, replay } from './tools/replay';
 export * from './tools/email';
 export * from './trust';
@@ -53,6 +73,8 @@ export * from './trust/tools';
 export * from './types';
 export { llmDo } from './llm/llm-do';
 export { transcribe, type TranscribeOptions } from './transcribe';
+export { serve, verifyConnect, type ServeOptions, type AgentServer } from './host/serve';
+export { serveRelay, verifyAnnounce, type RelayOptions, type RelayServer, type RelayAgentRecord } from './host/relay';
 export {
   connect,
   RemoteAgent,
@@ -61,8 +83,19 @@ export {
   ChatItemType,
   AgentStatus,
   ConnectOptions,
+  ReconnectOptions,
+  RemoteAgentEvents,
+  StorageAdapter,
+  OutboxEntry,
+  Conversation,
   SessionState,
   fetchAgentInfo,
+  fileStorage,
+  indexedDBStorage,
+  memoryStorage,
+  defaultStorage,
+  RelayPool,
+  RelayPoolOptions,
   AgentInfo,
   AgentAcceptedInputs,
   AgentOnboard,
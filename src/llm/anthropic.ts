@@ -29,15 +29,53 @@
  *                     └──▶ find type:'text'     ──▶ content string
  *
  * @llm-note
- *   Dependencies: imports from [@anthropic-ai/sdk via dynamic require, src/types.ts] | imported by [src/llm/index.ts, src/index.ts] | tested by [tests/e2e/realProviders.test.ts]
- *   Data flow: receives Message[] + FunctionSchema[] → converts to Anthropic format (system separate, user/assistant alternating) → calls client.messages.create() → parses tool_use blocks → returns LLMResponse
- *   State/Effects: makes HTTP POST to Anthropic API | reads env ANTHROPIC_API_KEY | no persistent state | lazy-loads SDK to keep optional
- *   Integration: implements LLM interface | exposes complete(), structuredComplete() | default model 'claude-3-5-sonnet-20241022' | default max_tokens: 8192, temperature: 0 for determinism
+ *   Dependencies: imports from [@anthropic-ai/sdk via dynamic require, src/types.ts, src/llm/content.ts, src/llm/tool-call.ts] | imported by [src/llm/index.ts, src/index.ts] | tested by [tests/e2e/realProviders.test.ts]
+ *   Data flow: receives Message[] + FunctionSchema[] → converts to Anthropic format (system separate, user/assistant alternating) → calls client.messages.create() → parses tool_use blocks | content parts → text/image/document blocks (PDFs as base64 documents, text files as text documents) → returns LLMResponse with normalized usage | stream() consumes content_block_* events, accumulating input_json_delta per block index; usage from message_start + message_delta
+ *   State/Effects: makes HTTP POST to Anthropic API | reads env ANTHROPIC_API_KEY | forwards options.signal as the SDK request signal | no persistent state | lazy-loads SDK to keep optional
+ *   Integration: implements LLM interface | exposes complete(), stream(), structuredComplete() | default model 'claude-3-5-sonnet-20241022' | default max_tokens: 8192, temperature: 0 for determinism
  *   Performance: direct API call, no caching | native tool support via tool_use content blocks
  *   ⚠️ Anthropic requires max_tokens (hard cap may cut off mid-sentence) | messages must alternate user/assistant, first must be user
  */
 
-import { LLM, LLMResponse, Message, FunctionSchema, ToolCall } from '../types';
+import { ContentPart, LLM, LLMCallOptions, LLMResponse, LLMStreamChunk, Message, FunctionSchema, ToolCall, TokenUsage } from '../types';
+import { contentText, messageContent, partSource } from './content';
+import { toolCallFrom } from './tool-call';
+
+/**
+ * Normalize Anthropic usage; input_tokens excludes cache reads and writes,
+ * so they are added back to match the other providers' prompt totals
+ */
+function toUsage(usage: any): TokenUsage | undefined {
+  if (!usage) return undefined;
+  const cached = usage.cache_read_input_tokens || 0;
+  const input = (usage.input_tokens || 0) + cached + (usage.cache_creation_input_tokens || 0);
+  const output = usage.output_tokens || 0;
+  return {
+    input_tokens: input,
+    output_tokens: output,
+    cached_tokens: cached,
+    reasoning_tokens: 0,
+    total_tokens: input + output,
+  };
+}
+
+/**
+ * Content part → Anthropic block (image, or document for PDFs and plain text)
+ */
+function toAnthropicBlock(part: ContentPart): any {
+  if (part.type === 'text') return { type: 'text', text: part.text };
+  const source = partSource(part);
+  const blockSource = source.kind === 'url'
+    ? { type: 'url', url: source.url }
+    : { type: 'base64', media_type: source.mimeType, data: source.data };
+  if (part.type === 'image') return { type: 'image', source: blockSource };
+  if (source.mimeType === 'application/pdf') return { type: 'document', source: blockSource, title: part.name };
+  if (source.kind === 'base64' && source.mimeType.startsWith('text/')) {
+    const text = Buffer.from(source.data, 'base64').toString('utf-8');
+    return { type: 'document', source: { type: 'text', media_type: 'text/plain', data: text }, title: part.name };
+  }
+  return { type: 'text', text: contentText([part]) };
+}
 
 export class AnthropicLLM implements LLM {
   private client: any;
@@ -62,21 +100,10 @@ export class AnthropicLLM implements LLM {
     this.defaultTemperature = 0;
   }
 
-  async complete(messages: Message[], tools?: FunctionSchema[]): Promise<LLMResponse> {
-    const { system, anthropicMessages } = this.convertMessages(messages);
-    const anthropicTools = tools && tools.length > 0 ? this.convertTools(tools) : undefined;
+  async complete(messages: Message[], tools?: FunctionSchema[], options?: LLMCallOptions): Promise<LLMResponse> {
+    const params = this.buildParams(messages, tools);
 
-    const params: any = {
-      model: this.model,
-      // Claude requires max_tokens. Default to 8192 unless caller overrides via extra params.
-      max_tokens: this.defaultMaxTokens,
-      messages: anthropicMessages,
-      temperature: this.defaultTemperature,
-    };
-    if (system) params.system = system;
-    if (anthropicTools) params.tools = anthropicTools;
-
-    const response = await this.client.messages.create(params);
+    const response = await this.client.messages.create(params, { signal: options?.signal });
 
     const toolCalls: ToolCall[] = [];
     let content = '';
@@ -93,9 +120,74 @@ export class AnthropicLLM implements LLM {
       content: content || null,
       toolCalls,
       rawResponse: response,
+      usage: toUsage(response?.usage),
+    };
+  }
+
+  async *stream(messages: Message[], tools?: FunctionSchema[], options?: LLMCallOptions): AsyncIterable<LLMStreamChunk> {
+    const params = this.buildParams(messages, tools);
+    const stream = await this.client.messages.create({ ...params, stream: true }, { signal: options?.signal });
+
+    let content = '';
+    const toolCalls: ToolCall[] = [];
+    const events: any[] = [];
+    // Content blocks are addressed by index; tool_use input arrives as partial JSON
+    const blocks = new Map<number, { type: string; id?: string; name?: string; json: string }>();
+    // message_start carries input usage; message_delta carries the cumulative output count
+    let usage: any = null;
+
+    for await (const event of stream) {
+      events.push(event);
+      if (event.type === 'message_start') {
+        usage = { ...event.message?.usage };
+      } else if (event.type === 'message_delta') {
+        usage = { ...usage, ...event.usage };
+      } else if (event.type === 'content_block_start') {
+        const block = event.content_block;
+        blocks.set(event.index, { type: block.type, id: block.id, name: block.name, json: '' });
+        if (block.type === 'tool_use') {
+          yield { type: 'tool_call_start', id: block.id, name: block.name };
+        }
+      } else if (event.type === 'content_block_delta') {
+        if (event.delta.type === 'text_delta') {
+          content += event.delta.text;
+          yield { type: 'text_delta', delta: event.delta.text };
+        } else if (event.delta.type === 'input_json_delta') {
+          const block = blocks.get(event.index);
+          if (block) block.json += event.delta.partial_json;
+        }
+      } else if (event.type === 'content_block_stop') {
+        const block = blocks.get(event.index);
+        if (block?.type === 'tool_use') {
+          const toolCall = toolCallFrom(block.name!, block.id!, block.json);
+          toolCalls.push(toolCall);
+          yield { type: 'tool_call_end', toolCall };
+        }
+      }
+    }
+
+    yield {
+      type: 'response',
+      response: { content: content || null, toolCalls, rawResponse: events, usage: toUsage(usage) },
     };
   }
 
+  private buildParams(messages: Message[], tools?: FunctionSchema[]): any {
+    const { system, anthropicMessages } = this.convertMessages(messages);
+    const anthropicTools = tools && tools.length > 0 ? this.convertTools(tools) : undefined;
+
+    const params: any = {
+      model: this.model,
+      // Claude requires max_tokens. Default to 8192 unless caller overrides via extra params.
+      max_tokens: this.defaultMaxTokens,
+      messages: anthropicMessages,
+      temperature: this.defaultTemperature,
+    };
+    if (system) params.system = system;
+    if (anthropicTools) params.tools = anthropicTools;
+    return params;
+  }
+
   private convertMessages(messages: Message[]): { system?: string; anthropicMessages: any[] } {
     let system: string | undefined;
     const anthropicMessages: any[] = [];
@@ -103,10 +195,11 @@ export class AnthropicLLM implements LLM {
     for (const msg of messages) {
       if (msg.role === 'system') {
         // Anthropic supports system as top-level field
-        system = (system ? system + '\n' : '') + (msg.content || '');
+        system = (system ? system + '\n' : '') + msg.content;
         continue;
       }
 
+      const content = messageContent(msg);
       if (msg.role === 'tool') {
         // Tool results are appended as user message with tool_result type
         anthropicMessages.push({
@@ -115,7 +208,10 @@ export class AnthropicLLM implements LLM {
             {
               type: 'tool_result',
               tool_use_id: msg.tool_call_id,
-              content: msg.content,
+              // tool_result blocks take text and images only
+              content: typeof content === 'string'
+                ? content
+                : content.map(part => (part.type === 'file' ? { type: 'text', text: contentText([part]) } : toAnthropicBlock(part))),
             },
           ],
         });
@@ -124,7 +220,8 @@ export class AnthropicLLM implements LLM {
 
       if (msg.role === 'assistant' && msg.tool_calls && msg.tool_calls.length > 0) {
         const contentBlocks: any[] = [];
-        if (msg.content) contentBlocks.push({ type: 'text', text: msg.content });
+        const text = msg.content;
+        if (text) contentBlocks.push({ type: 'text', text });
         for (const tc of msg.tool_calls) {
           contentBlocks.push({
             type: 'tool_use',
@@ -138,7 +235,10 @@ export class AnthropicLLM implements LLM {
       }
 
       // Regular user/assistant text messages (ensure alternation in caller usage; Anthropic expects first to be 'user')
-      anthropicMessages.push({ role: msg.role, content: msg.content });
+      anthropicMessages.push({
+        role: msg.role,
+        content: typeof content === 'string' ? content : content.map(toAnthropicBlock),
+      });
     }
 
     return { system, anthropicMessages };
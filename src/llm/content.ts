@@ -0,0 +1,141 @@
+/**
+ * @purpose Multimodal message content: helpers shared by the Agent and the providers for typed content parts (text, images, files)
+ *
+ * @graph Where content parts come from and go
+ *
+ *   agent.input(prompt, {images, files}) ──▶ userContent() ──────────┐
+ *   tool returns ContentPart(s) ───────────▶ toolMessageContent() ───┴─▶ messageFields() ──▶ Message {content: text, parts}
+ *                                                                                              │
+ *                    provider.convertMessages() ◀── messageContent() ◀─────────────────────────┘  (parts mapped to native blocks)
+ *
+ *   everything that only needs text (token estimates, compaction, logs) ──▶ contentText()
+ *
+ * @llm-note
+ *   Dependencies: imports from [src/types (type-only), src/connect/types (type-only)] | imported by [src/core/agent.ts, src/core/context.ts, src/llm/openai.ts, src/llm/anthropic.ts, src/llm/gemini.ts, src/index.ts] | tested by [tests/multimodal.test.ts]
+ *   Data flow: data: URLs are split into mimeType + base64 by parseDataUrl() so providers that want raw base64 (Anthropic, Gemini) and those that want URLs (OpenAI) can both be served
+ *   State/Effects: pure functions, no state
+ *   Integration: exposes contentText(), isContentPart(), contentParts(), messageFields(), messageContent(), userContent(), toolMessageContent(), parseDataUrl(), partSource(), guessMimeType(), IMAGE_TOKEN_ESTIMATE
+ *   ⚠️ Message.content stays a string: a message with media keeps its text there (images as '[image]', files as '[file: name]') and the parts in Message.parts
+ */
+
+import type { ContentPart, Message, MessageContent, ToolResult } from '../types';
+import type { FileAttachment } from '../connect/types';
+
+/** Rough token cost of one image or file part, for context-window estimates */
+export const IMAGE_TOKEN_ESTIMATE = 1000;
+
+/**
+ * Text of a message: the string itself, or text parts joined with placeholders for media
+ */
+export function contentText(content: MessageContent | null | undefined): string {
+  if (!content) return '';
+  if (typeof content === 'string') return content;
+  return content.map(part => {
+    if (part.type === 'text') return part.text;
+    if (part.type === 'image') return '[image]';
+    return `[file: ${part.name || part.mimeType || 'attachment'}]`;
+  }).join('\n');
+}
+
+/**
+ * The content as a list of parts (a string becomes one text part)
+ */
+export function contentParts(content: MessageContent): ContentPart[] {
+  return typeof content === 'string' ? (content ? [{ type: 'text', text: content }] : []) : content;
+}
+
+/**
+ * Message fields for content: parts go to `parts` and their text to `content`
+ */
+export function messageFields(content: MessageContent): Pick<Message, 'content' | 'parts'> {
+  return typeof content === 'string' ? { content } : { content: contentText(content), parts: content };
+}
+
+/**
+ * What a provider sends for a message: its parts if it has any, else its text
+ */
+export function messageContent(msg: Pick<Message, 'content' | 'parts'>): MessageContent {
+  return msg.parts?.length ? msg.parts : msg.content;
+}
+
+export function isContentPart(value: unknown): value is ContentPart {
+  if (!value || typeof value !== 'object') return false;
+  const part = value as Record<string, unknown>;
+  if (part.type === 'text') return typeof part.text === 'string';
+  if (part.type === 'image' || part.type === 'file') return typeof part.url === 'string' || typeof part.data === 'string';
+  return false;
+}
+
+/**
+ * Split a data: URL into its MIME type and base64 payload
+ */
+export function parseDataUrl(url: string): { mimeType: string; data: string } | null {
+  const match = url.match(/^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/s);
+  return match ? { mimeType: match[1] || 'application/octet-stream', data: match[2] } : null;
+}
+
+/**
+ * Where a media part's bytes are: inline base64 (data: URLs included) or a remote URL
+ */
+export function partSource(part: Exclude<ContentPart, { type: 'text' }>):
+  | { kind: 'base64'; mimeType: string; data: string }
+  | { kind: 'url'; mimeType: string; url: string } {
+  if ('data' in part) return { kind: 'base64', mimeType: part.mimeType, data: part.data };
+  const inline = parseDataUrl(part.url);
+  if (inline) return { kind: 'base64', ...inline };
+  const mimeType = ('mimeType' in part && part.mimeType) || guessMimeType(part.url, part.type);
+  return { kind: 'url', mimeType, url: part.url };
+}
+
+const EXTENSION_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+/**
+ * MIME type from a URL or file name extension
+ */
+export function guessMimeType(url: string, kind: 'image' | 'file' = 'file'): string {
+  const ext = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_TYPES[ext] || (kind === 'image' ? 'image/jpeg' : 'application/octet-stream');
+}
+
+/**
+ * Build user message content from a prompt and attachments (same shapes as RemoteAgent.input)
+ *
+ * @param images - Image URLs or data: URLs
+ * @param files - File attachments as data: URLs (e.g. from a file picker)
+ */
+export function userContent(prompt: string, images: string[] = [], files: FileAttachment[] = []): MessageContent {
+  if (images.length === 0 && files.length === 0) return prompt;
+  const parts: ContentPart[] = prompt ? [{ type: 'text', text: prompt }] : [];
+  for (const url of images) parts.push({ type: 'image', url });
+  for (const file of files) parts.push({ type: 'file', url: file.dataUrl, mimeType: file.type, name: file.name });
+  return parts;
+}
+
+/**
+ * Content of the tool message for a result. A tool that returns a content
+ * part, or an array containing media parts, sends the media back to the model
+ * next to the JSON ToolResult; anything else is the JSON ToolResult as before.
+ */
+export function toolMessageContent(result: ToolResult): MessageContent {
+  const value = result.result;
+  const parts = isContentPart(value) ? [value] : Array.isArray(value) && value.some(isContentPart) ? value : null;
+  if (result.status !== 'success' || !parts || !parts.every(isContentPart) || parts.every(p => p.type === 'text')) {
+    return JSON.stringify(result);
+  }
+  const media = (parts as ContentPart[]).filter(p => p.type !== 'text');
+  return [
+    { type: 'text', text: JSON.stringify({ ...result, result: contentText(parts as ContentPart[]) }) },
+    ...media,
+  ];
+}
@@ -31,18 +31,50 @@
  *   response.text()               ──▶ content string
  *
  * @llm-note
- *   Dependencies: imports from [@google/generative-ai via dynamic require, src/types.ts] | imported by [src/llm/index.ts, src/index.ts] | tested by [tests/e2e/realProviders.test.ts]
- *   Data flow: receives Message[] + FunctionSchema[] → converts to Gemini format (contents array, systemInstruction separate) → calls client.generateContent() → parses functionCall parts → returns LLMResponse
- *   State/Effects: makes HTTP POST to Google Gemini API | reads env GEMINI_API_KEY or GOOGLE_API_KEY | no persistent state | lazy-loads SDK to keep optional
- *   Integration: implements LLM interface | exposes complete(), structuredComplete() | default model 'gemini-1.5-flash' | converts OpenAI-style messages to Gemini contents format
+ *   Dependencies: imports from [@google/generative-ai via dynamic require, src/types.ts, src/llm/content.ts] | imported by [src/llm/index.ts, src/index.ts] | tested by [tests/e2e/realProviders.test.ts]
+ *   Data flow: receives Message[] + FunctionSchema[] → converts to Gemini format (contents array, systemInstruction separate, base64 media → inlineData, media URLs → fileData, tool-returned media appended to the 'function' turn) → calls client.generateContent() → parses functionCall parts → returns LLMResponse with usage from usageMetadata | stream() reads generateContentStream() chunks part by part
+ *   State/Effects: makes HTTP POST to Google Gemini API | reads env GEMINI_API_KEY or GOOGLE_API_KEY | forwards options.signal as the SDK request signal | no persistent state | lazy-loads SDK to keep optional
+ *   Integration: implements LLM interface | exposes complete(), stream(), structuredComplete() | default model 'gemini-1.5-flash' | converts OpenAI-style messages to Gemini contents format
  *   Performance: direct API call, no caching | tool support via functionDeclarations
  *   ⚠️ structuredComplete uses JSON prompting fallback (not native structured output API)
  */
 
-import { LLM, LLMResponse, Message, FunctionSchema, ToolCall } from '../types';
+import { LLM, LLMCallOptions, LLMResponse, LLMStreamChunk, Message, FunctionSchema, ToolCall, TokenUsage, ContentPart } from '../types';
+import { contentParts, messageContent, partSource } from './content';
+
+/**
+ * Normalize Gemini usageMetadata; thoughtsTokenCount is billed as output but
+ * reported apart from candidatesTokenCount
+ */
+function toUsage(meta: any): TokenUsage | undefined {
+  if (!meta) return undefined;
+  const reasoning = meta.thoughtsTokenCount || 0;
+  const input = meta.promptTokenCount || 0;
+  const output = (meta.candidatesTokenCount || 0) + reasoning;
+  return {
+    input_tokens: input,
+    output_tokens: output,
+    cached_tokens: meta.cachedContentTokenCount || 0,
+    reasoning_tokens: reasoning,
+    total_tokens: meta.totalTokenCount || input + output,
+  };
+}
+
+/**
+ * Content part → Gemini part (inlineData for base64 media, fileData for URLs)
+ */
+function toGeminiPart(part: ContentPart): any {
+  if (part.type === 'text') return { text: part.text };
+  const source = partSource(part);
+  return source.kind === 'base64'
+    ? { inlineData: { mimeType: source.mimeType, data: source.data } }
+    : { fileData: { mimeType: source.mimeType, fileUri: source.url } };
+}
 
 export class GeminiLLM implements LLM {
   private client: any; // genai.GenerativeModel
+  /** Model name, read by the Agent for logging and pricing */
+  readonly model: string;
 
   constructor(apiKey?: string, model: string = 'gemini-1.5-flash') {
     const key = apiKey || process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY;
@@ -53,27 +85,13 @@ export class GeminiLLM implements LLM {
     const genai = require('@google/generative-ai');
     const googleAI = new genai.GoogleGenerativeAI(key);
     this.client = googleAI.getGenerativeModel({ model });
+    this.model = model;
   }
 
-  async complete(messages: Message[], tools?: FunctionSchema[]): Promise<LLMResponse> {
-    const { contents, systemInstruction } = this.convertMessages(messages);
-    const params: any = { contents };
-    if (systemInstruction) params.systemInstruction = systemInstruction;
-
-    // Minimal tools conversion to Gemini functionDeclarations
-    if (tools && tools.length > 0) {
-      params.tools = [
-        {
-          functionDeclarations: tools.map((t) => ({
-            name: t.name,
-            description: t.description || '',
-            parameters: this.convertSchema(t.parameters),
-          })),
-        },
-      ];
-    }
+  async complete(messages: Message[], tools?: FunctionSchema[], options?: LLMCallOptions): Promise<LLMResponse> {
+    const params = this.buildParams(messages, tools);
 
-    const response = await this.client.generateContent(params);
+    const response = await this.client.generateContent(params, { signal: options?.signal });
     const raw = response?.response;
     const text = raw?.text ? raw.text() : '';
 
@@ -90,9 +108,64 @@ export class GeminiLLM implements LLM {
       content: text || null,
       toolCalls,
       rawResponse: response,
+      usage: toUsage(raw?.usageMetadata),
+    };
+  }
+
+  async *stream(messages: Message[], tools?: FunctionSchema[], options?: LLMCallOptions): AsyncIterable<LLMStreamChunk> {
+    const params = this.buildParams(messages, tools);
+    const result = await this.client.generateContentStream(params, { signal: options?.signal });
+
+    let content = '';
+    const toolCalls: ToolCall[] = [];
+    // Gemini sends each functionCall whole, so start and end are emitted together
+    for await (const chunk of result.stream) {
+      const parts = chunk?.candidates?.[0]?.content?.parts || [];
+      for (const p of parts) {
+        if (p.text) {
+          content += p.text;
+          yield { type: 'text_delta', delta: p.text };
+        }
+        if (p.functionCall) {
+          const toolCall: ToolCall = {
+            name: p.functionCall.name,
+            arguments: p.functionCall.args || {},
+            id: `fc_${toolCalls.length}`,
+          };
+          toolCalls.push(toolCall);
+          yield { type: 'tool_call_start', id: toolCall.id, name: toolCall.name };
+          yield { type: 'tool_call_end', toolCall };
+        }
+      }
+    }
+
+    const raw = await result.response;
+    yield {
+      type: 'response',
+      response: { content: content || null, toolCalls, rawResponse: raw, usage: toUsage(raw?.usageMetadata) },
     };
   }
 
+  private buildParams(messages: Message[], tools?: FunctionSchema[]): any {
+    const { contents, systemInstruction } = this.convertMessages(messages);
+    const params: any = { contents };
+    if (systemInstruction) params.systemInstruction = systemInstruction;
+
+    // Minimal tools conversion to Gemini functionDeclarations
+    if (tools && tools.length > 0) {
+      params.tools = [
+        {
+          functionDeclarations: tools.map((t) => ({
+            name: t.name,
+            description: t.description || '',
+            parameters: this.convertSchema(t.parameters),
+          })),
+        },
+      ];
+    }
+    return params;
+  }
+
   async structuredComplete<T = any>(messages: Message[], schema: any): Promise<T> {
     // Fallback to JSON-prompt approach
     const system = `You are a JSON generator. Return ONLY valid minified JSON matching this schema: ${JSON.stringify(
@@ -120,7 +193,8 @@ export class GeminiLLM implements LLM {
       const msg = messages[i];
 
       if (msg.role === 'system') {
-        systemInstruction = systemInstruction ? systemInstruction + '\n' + msg.content : msg.content;
+        const text = msg.content;
+        systemInstruction = systemInstruction ? systemInstruction + '\n' + text : text;
         i += 1;
         continue;
       }
@@ -128,7 +202,8 @@ export class GeminiLLM implements LLM {
       // Assistant with tool calls: add functionCall parts and then stitch following tool results
       if (msg.role === 'assistant' && msg.tool_calls && msg.tool_calls.length > 0) {
         const parts: any[] = [];
-        if (msg.content) parts.push({ text: msg.content });
+        const text = msg.content;
+        if (text) parts.push({ text });
         for (const tc of msg.tool_calls) {
           parts.push({ functionCall: { name: tc.name, args: tc.arguments || {} } });
         }
@@ -137,6 +212,7 @@ export class GeminiLLM implements LLM {
         // Collect subsequent tool result messages and convert to functionResponse
         i += 1;
         const responseParts: any[] = [];
+        const mediaParts: any[] = [];
         while (i < messages.length && messages[i].role === 'tool') {
           const toolMsg = messages[i];
           // Find matching tool name by id
@@ -144,24 +220,28 @@ export class GeminiLLM implements LLM {
           for (const tc of msg.tool_calls) {
             if (tc.id === toolMsg.tool_call_id) { toolName = tc.name; break; }
           }
-          responseParts.push({ functionResponse: { name: toolName, response: { result: toolMsg.content } } });
+          const parts = contentParts(messageContent(toolMsg));
+          const result = parts.filter(p => p.type === 'text').map(p => (p as { text: string }).text).join('\n');
+          responseParts.push({ functionResponse: { name: toolName, response: { result } } });
+          mediaParts.push(...parts.filter(p => p.type !== 'text').map(toGeminiPart));
           i += 1;
         }
         if (responseParts.length > 0) {
-          contents.push({ role: 'function', parts: responseParts });
+          contents.push({ role: 'function', parts: [...responseParts, ...mediaParts] });
         }
         continue;
       }
 
       if (msg.role === 'tool') {
         // Tool result without preceding assistant call; treat as user content
-        contents.push({ role: 'user', parts: [{ text: msg.content }] });
+        contents.push({ role: 'user', parts: contentParts(messageContent(msg)).map(toGeminiPart) });
         i += 1;
         continue;
       }
 
       // Regular user/assistant messages
-      contents.push({ role: msg.role === 'assistant' ? 'model' : 'user', parts: [{ text: msg.content }] });
+      const parts = contentParts(messageContent(msg)).map(toGeminiPart);
+      contents.push({ role: msg.role === 'assistant' ? 'model' : 'user', parts: parts.length ? parts : [{ text: '' }] });
       i += 1;
     }
 
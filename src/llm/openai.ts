@@ -40,21 +40,57 @@
  *   https://api.openai.com (default)
  *
  * @llm-note
- *   Dependencies: imports from [openai npm package, src/types.ts] | imported by [src/llm/index.ts, src/index.ts] | tested by [tests/e2e/realProviders.test.ts]
- *   Data flow: receives Message[] + FunctionSchema[] → converts to OpenAI format → calls client.chat.completions.create() → parses tool_calls → returns LLMResponse
- *   State/Effects: makes HTTP POST to OpenAI API (or baseURL override) | reads env OPENAI_API_KEY/OPENONION_API_KEY | no persistent state
- *   Integration: implements LLM interface | exposes complete(), structuredComplete() | default model 'o4-mini' | supports baseURL override for co/* models via createLLM factory
+ *   Dependencies: imports from [openai npm package, src/types.ts, src/llm/content.ts, src/llm/tool-call.ts] | imported by [src/llm/index.ts, src/index.ts] | tested by [tests/e2e/realProviders.test.ts]
+ *   Data flow: receives Message[] + FunctionSchema[] → converts to OpenAI format → calls client.chat.completions.create() → parses tool_calls → returns LLMResponse with normalized usage | user content parts → text/image_url/file parts; media in tool results is re-sent as a user message after the batch of tool messages (tool messages are text-only) | stream() passes stream: true (+ stream_options.include_usage unless a baseURL is set or the server answered 400 to it; usage is then undefined) and reassembles indexed tool_call deltas into a final 'response' chunk
+ *   State/Effects: makes HTTP POST to OpenAI API (or baseURL override) | reads env OPENAI_API_KEY/OPENONION_API_KEY | forwards options.signal as the SDK request signal | no persistent state
+ *   Integration: implements LLM interface | exposes complete(), stream(), structuredComplete() | default model 'o4-mini' | supports baseURL override for co/* models via createLLM factory
  *   Performance: direct API call, no caching | tool_choice: 'auto' for parallel tool execution
  */
 
 import OpenAI from 'openai';
-import { LLM, LLMResponse, Message, FunctionSchema, ToolCall } from '../types';
+import { ContentPart, LLM, LLMCallOptions, LLMResponse, LLMStreamChunk, Message, FunctionSchema, ToolCall, TokenUsage } from '../types';
+import { contentText, messageContent, partSource } from './content';
+import { toolCallFrom } from './tool-call';
+
+/**
+ * Normalize OpenAI usage (prompt/completion tokens with cached and reasoning details)
+ */
+function toUsage(usage: any): TokenUsage | undefined {
+  if (!usage) return undefined;
+  const input = usage.prompt_tokens || 0;
+  const output = usage.completion_tokens || 0;
+  return {
+    input_tokens: input,
+    output_tokens: output,
+    cached_tokens: usage.prompt_tokens_details?.cached_tokens || 0,
+    reasoning_tokens: usage.completion_tokens_details?.reasoning_tokens || 0,
+    total_tokens: usage.total_tokens || input + output,
+  };
+}
+
+/**
+ * Content part → Chat Completions part (image_url, or file with inline data for PDFs)
+ */
+function toOpenAIPart(part: ContentPart): any {
+  if (part.type === 'text') return { type: 'text', text: part.text };
+  const source = partSource(part);
+  const url = source.kind === 'url' ? source.url : `data:${source.mimeType};base64,${source.data}`;
+  if (part.type === 'image') return { type: 'image_url', image_url: { url } };
+  if (source.kind === 'url') return { type: 'text', text: `[file: ${part.name || url}]` };
+  return { type: 'file', file: { filename: part.name || 'attachment', file_data: url } };
+}
 
 export class OpenAILLM implements LLM {
   private client: OpenAI;
   private model: string;
+  /** Ask for usage on streams (stream_options.include_usage), which not every compatible server accepts */
+  private streamUsage: boolean;
 
-  constructor(apiKey?: string, model: string = 'o4-mini', options?: { baseURL?: string }) {
+  /**
+   * @param options.baseURL - An OpenAI-compatible endpoint instead of api.openai.com
+   * @param options.streamUsage - Request usage on streams (default: only without a baseURL)
+   */
+  constructor(apiKey?: string, model: string = 'o4-mini', options?: { baseURL?: string; streamUsage?: boolean }) {
     const key = apiKey || process.env.OPENAI_API_KEY || process.env.OPENONION_API_KEY;
     if (!key) {
       throw new Error(
@@ -67,25 +103,13 @@ export class OpenAILLM implements LLM {
     const baseURL = options?.baseURL || envBase;
     this.client = new OpenAI(baseURL ? { apiKey: key, baseURL } : { apiKey: key });
     this.model = model;
+    this.streamUsage = options?.streamUsage ?? !baseURL;
   }
 
-  async complete(messages: Message[], tools?: FunctionSchema[]): Promise<LLMResponse> {
-    const openAIMessages = this.convertMessages(messages);
-    
-    const params: any = {
-      model: this.model,
-      messages: openAIMessages,
-    };
-
-    if (tools && tools.length > 0) {
-      params.tools = tools.map(tool => ({
-        type: 'function',
-        function: tool,
-      }));
-      params.tool_choice = 'auto';
-    }
+  async complete(messages: Message[], tools?: FunctionSchema[], options?: LLMCallOptions): Promise<LLMResponse> {
+    const params = this.buildParams(messages, tools);
 
-    const response = await this.client.chat.completions.create(params);
+    const response = await this.client.chat.completions.create(params, { signal: options?.signal });
     const message = response.choices[0].message;
 
     // Parse tool calls
@@ -104,15 +128,108 @@ export class OpenAILLM implements LLM {
       content: message.content,
       toolCalls,
       rawResponse: response,
+      usage: toUsage(response.usage),
     };
   }
 
+  async *stream(messages: Message[], tools?: FunctionSchema[], options?: LLMCallOptions): AsyncIterable<LLMStreamChunk> {
+    const params = this.buildParams(messages, tools);
+    const request = (withUsage: boolean): Promise<any> => this.client.chat.completions.create(
+      withUsage ? { ...params, stream: true, stream_options: { include_usage: true } } : { ...params, stream: true },
+      { signal: options?.signal }
+    );
+    let stream: any;
+    try {
+      stream = await request(this.streamUsage);
+    } catch (error) {
+      // A server that rejects stream_options streams without usage from now on
+      if (!this.streamUsage || (error as { status?: number })?.status !== 400) throw error;
+      this.streamUsage = false;
+      stream = await request(false);
+    }
+
+    let content = '';
+    let lastChunk: any = null;
+    let usage: any = null;
+    // Tool call deltas arrive keyed by index; id and name come first, arguments in fragments
+    const pending = new Map<number, { id: string; name: string; args: string }>();
+
+    for await (const chunk of stream) {
+      lastChunk = chunk;
+      // include_usage adds a final chunk with usage and no choices
+      if (chunk.usage) usage = chunk.usage;
+      const delta = chunk.choices?.[0]?.delta;
+      if (!delta) continue;
+
+      if (delta.content) {
+        content += delta.content;
+        yield { type: 'text_delta', delta: delta.content };
+      }
+
+      for (const tc of delta.tool_calls || []) {
+        let entry = pending.get(tc.index);
+        if (!entry) {
+          entry = { id: tc.id || '', name: tc.function?.name || '', args: '' };
+          pending.set(tc.index, entry);
+          yield { type: 'tool_call_start', id: entry.id, name: entry.name };
+        }
+        if (tc.function?.arguments) entry.args += tc.function.arguments;
+      }
+    }
+
+    const toolCalls: ToolCall[] = [];
+    for (const entry of pending.values()) {
+      const toolCall = toolCallFrom(entry.name, entry.id, entry.args);
+      toolCalls.push(toolCall);
+      yield { type: 'tool_call_end', toolCall };
+    }
+
+    yield {
+      type: 'response',
+      response: { content: content || null, toolCalls, rawResponse: lastChunk, usage: toUsage(usage) },
+    };
+  }
+
+  private buildParams(messages: Message[], tools?: FunctionSchema[]): any {
+    const params: any = {
+      model: this.model,
+      messages: this.convertMessages(messages),
+    };
+
+    if (tools && tools.length > 0) {
+      params.tools = tools.map(tool => ({
+        type: 'function',
+        function: tool,
+      }));
+      params.tool_choice = 'auto';
+    }
+
+    return params;
+  }
+
   private convertMessages(messages: Message[]): any[] {
-    return messages.map(msg => {
+    const result: any[] = [];
+    // Tool messages only carry text: media a tool returned follows the batch of tool messages as a user message
+    let pendingMedia: any[] = [];
+    const flushMedia = () => {
+      if (pendingMedia.length === 0) return;
+      result.push({ role: 'user', content: [{ type: 'text', text: 'Media returned by the tools above:' }, ...pendingMedia] });
+      pendingMedia = [];
+    };
+
+    for (const msg of messages) {
+      if (msg.role !== 'tool') flushMedia();
+      const content = messageContent(msg);
       const converted: any = {
         role: msg.role,
-        content: msg.content,
+        content: msg.role === 'user' && typeof content !== 'string'
+          ? content.map(toOpenAIPart)
+          : contentText(content),
       };
+      if (msg.role === 'tool' && typeof content !== 'string') {
+        converted.content = content.filter(p => p.type === 'text').map(p => (p as { text: string }).text).join('\n');
+        pendingMedia.push(...content.filter(p => p.type !== 'text').map(toOpenAIPart));
+      }
 
       if (msg.name) {
         converted.name = msg.name;
@@ -133,8 +250,10 @@ export class OpenAILLM implements LLM {
         converted.tool_call_id = msg.tool_call_id;
       }
 
-      return converted;
-    });
+      result.push(converted);
+    }
+    flushMedia();
+    return result;
   }
 
   async structuredComplete<T = any>(messages: Message[], schema: any): Promise<T> {
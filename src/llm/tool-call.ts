@@ -0,0 +1,27 @@
+/**
+ * @purpose Turn a tool call's argument JSON, as a provider streamed it, into a ToolCall without ever throwing
+ *
+ * @llm-note
+ *   Dependencies: imports from [src/types (type-only)] | imported by [src/llm/openai.ts, src/llm/anthropic.ts] | tested by [tests/stream.test.ts]
+ *   Data flow: provider stream joins argument fragments → toolCallFrom(name, id, json) → ToolCall, with invalidArguments set when the JSON does not parse to an object
+ *   State/Effects: pure function
+ *   Integration: exposes toolCallFrom() | Agent answers a call with invalidArguments with an error result instead of running the tool, so the model can send it again
+ */
+
+import type { ToolCall } from '../types';
+
+/**
+ * Build a ToolCall from streamed argument JSON. Truncated or malformed JSON
+ * gives empty arguments and `invalidArguments` with the reason.
+ */
+export function toolCallFrom(name: string, id: string, json: string): ToolCall {
+  if (!json) return { name, arguments: {}, id };
+  try {
+    const parsed = JSON.parse(json);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return { name, arguments: parsed, id };
+    return { name, arguments: {}, id, invalidArguments: 'Arguments must be a JSON object' };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { name, arguments: {}, id, invalidArguments: `Arguments are not valid JSON: ${reason}` };
+  }
+}
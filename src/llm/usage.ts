@@ -0,0 +1,105 @@
+/**
+ * @purpose Token usage arithmetic and USD cost calculation from a pluggable per-model price table
+ *
+ * @graph Usage Accounting
+ *
+ *   provider response ──▶ LLMResponse.usage (normalized TokenUsage)
+ *                                 │
+ *                calculateCost(model, usage, prices)
+ *                                 │
+ *                                 ▼
+ *              addUsage(run, usage)   addUsage(session, usage)
+ *               (per agent.input)      (across the session)
+ *
+ * @llm-note
+ *   Dependencies: imports from [src/types (type-only)] | imported by [src/core/agent.ts, src/index.ts] | tested by [tests/usage.test.ts]
+ *   Data flow: Agent reads LLMResponse.usage after each call → calculateCost() looks up the model in the price table (exact name, then longest prefix, ignoring a co/ prefix) → addUsage() folds it into run and session totals
+ *   State/Effects: pure functions, no state | DEFAULT_PRICES is a plain object callers can spread and extend
+ *   Integration: exposes ModelPrice, PriceTable, DEFAULT_PRICES, emptyUsage(), addUsage(), calculateCost() | Agent takes AgentConfig.prices
+ *   ⚠️ DEFAULT_PRICES are list prices at the time of writing; pass your own table for billing-grade numbers | unknown models cost 0
+ */
+
+import type { TokenUsage } from '../types';
+
+/**
+ * USD price per million tokens for one model
+ */
+export interface ModelPrice {
+  /** Uncached input tokens */
+  input: number;
+  /** Output tokens (reasoning tokens are billed as output) */
+  output: number;
+  /** Cached input tokens (defaults to the input price) */
+  cached_input?: number;
+}
+
+/**
+ * Prices keyed by model name or model-name prefix
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * Built-in prices for common models
+ */
+export const DEFAULT_PRICES: PriceTable = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cached_input: 0.075 },
+  'gpt-4o': { input: 2.5, output: 10, cached_input: 1.25 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, cached_input: 0.1 },
+  'gpt-4.1': { input: 2, output: 8, cached_input: 0.5 },
+  'o4-mini': { input: 1.1, output: 4.4, cached_input: 0.275 },
+  'o3': { input: 2, output: 8, cached_input: 0.5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cached_input: 0.08 },
+  'claude-3-5-sonnet': { input: 3, output: 15, cached_input: 0.3 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cached_input: 0.3 },
+  'claude-sonnet-4': { input: 3, output: 15, cached_input: 0.3 },
+  'claude-opus-4': { input: 15, output: 75, cached_input: 1.5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4, cached_input: 0.025 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cached_input: 0.075 },
+  'gemini-2.5-pro': { input: 1.25, output: 10, cached_input: 0.31 },
+};
+
+/**
+ * A zeroed TokenUsage
+ */
+export function emptyUsage(): TokenUsage {
+  return { input_tokens: 0, output_tokens: 0, cached_tokens: 0, reasoning_tokens: 0, total_tokens: 0, cost: 0 };
+}
+
+/**
+ * Sum two usages (cost included)
+ */
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    input_tokens: a.input_tokens + b.input_tokens,
+    output_tokens: a.output_tokens + b.output_tokens,
+    cached_tokens: a.cached_tokens + b.cached_tokens,
+    reasoning_tokens: a.reasoning_tokens + b.reasoning_tokens,
+    total_tokens: a.total_tokens + b.total_tokens,
+    cost: (a.cost || 0) + (b.cost || 0),
+  };
+}
+
+/**
+ * USD cost of one usage record
+ *
+ * @param model - Model name; an exact table entry wins, otherwise the longest matching prefix
+ * @param usage - Normalized usage (input_tokens includes cached_tokens)
+ * @param prices - Price table (default: DEFAULT_PRICES)
+ * @returns Cost in USD, or 0 for models missing from the table
+ */
+export function calculateCost(model: string, usage: TokenUsage, prices: PriceTable = DEFAULT_PRICES): number {
+  const name = model.replace(/^co\//, '');
+  let price: ModelPrice | undefined = prices[name];
+  if (!price) {
+    const prefix = Object.keys(prices)
+      .filter(key => name.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    price = prefix ? prices[prefix] : undefined;
+  }
+  if (!price) return 0;
+  const uncached = usage.input_tokens - usage.cached_tokens;
+  const cachedPrice = price.cached_input ?? price.input;
+  return (uncached * price.input + usage.cached_tokens * cachedPrice + usage.output_tokens * price.output) / 1_000_000;
+}
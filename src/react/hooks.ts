@@ -0,0 +1,135 @@
+/**
+ * @purpose React hooks over RemoteAgent state, read with useSyncExternalStore so concurrent renders never see a torn transcript
+ *
+ * @graph Snapshots
+ *
+ *   RemoteAgent ── chatItemAdded/Updated/Removed/Reset ──▶ useChatItems()  ── agent.ui (a new array per change)
+ *               ── statusChanged ─────────────────────────▶ useAgentStatus() ── agent.status
+ *                                                           useAskUser()     ── the open ask_user item, answer()
+ *                                                           useApproval()    ── the open approval_needed item, approve()/reject()
+ *
+ * @llm-note
+ *   Dependencies: imports from [react (peer dependency), src/connect (RemoteAgent, ChatItem, AgentStatus, RemoteAgentEventName), src/react/provider] | imported by [src/react/index.ts]
+ *   Data flow: agent.on(event) → useSyncExternalStore's onStoreChange → getSnapshot reads agent.ui / agent.status, which only change identity when the state changes → the question or approval is derived from both with useMemo
+ *   State/Effects: no state of its own; answer()/approve()/reject() call agent.send() (queued in the outbox while offline when that is on) | the provider's agent is connected while a hook uses it (provider.ts)
+ *   Integration: exposes useChatItems, useAgentStatus, useAskUser, useApproval, AskUserState, ApprovalState | each takes an optional RemoteAgent, else the AgentProvider's
+ *   Errors: answering with no open question or approval does nothing | answer()/approve()/reject() never throw: offline without an outbox their promise rejects with 'No active connection'
+ */
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { AgentStatus, ChatItem, RemoteAgent, RemoteAgentEventName } from '../connect';
+import { useResolvedAgent } from './provider';
+
+type AskUserItem = Extract<ChatItem, { type: 'ask_user' }>;
+type ApprovalItem = Extract<ChatItem, { type: 'approval_needed' }>;
+
+const ITEM_EVENTS: RemoteAgentEventName[] = ['chatItemAdded', 'chatItemUpdated', 'chatItemRemoved', 'chatItemsReset'];
+const STATUS_EVENTS: RemoteAgentEventName[] = ['statusChanged'];
+/** Items that leave the agent waiting for the human */
+const WAITING_TYPES = new Set<ChatItem['type']>(['ask_user', 'approval_needed', 'plan_review', 'onboard_required', 'ulw_turns_reached']);
+
+/** Subscribe to some of an agent's events; stable per agent (events is a module constant), as useSyncExternalStore needs */
+function useAgentSubscription(agent: RemoteAgent, events: RemoteAgentEventName[]) {
+  return useCallback((onStoreChange: () => void) => {
+    const unsubscribes = events.map(event => agent.on(event, onStoreChange));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [agent, events]);
+}
+
+/** What the agent is waiting on: the last item that asked the human for something */
+function waitingItem(items: readonly ChatItem[], status: AgentStatus): ChatItem | null {
+  if (status !== 'waiting') return null;
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (WAITING_TYPES.has(items[i].type)) return items[i];
+  }
+  return null;
+}
+
+/**
+ * The agent's transcript. The array is never mutated: a change gives a new
+ * array, and unchanged items keep their identity, so React.memo rows work.
+ *
+ * @example
+ * ```tsx
+ * const items = useChatItems();
+ * return <>{items.map(item => <Row key={item.id} item={item} />)}</>;
+ * ```
+ */
+export function useChatItems(agent?: RemoteAgent): readonly ChatItem[] {
+  const target = useResolvedAgent(agent);
+  const subscribe = useAgentSubscription(target, ITEM_EVENTS);
+  const snapshot = () => target.ui;
+  return useSyncExternalStore(subscribe, snapshot, snapshot);
+}
+
+/** 'idle', 'working' or 'waiting' (for an answer from the human) */
+export function useAgentStatus(agent?: RemoteAgent): AgentStatus {
+  const target = useResolvedAgent(agent);
+  const subscribe = useAgentSubscription(target, STATUS_EVENTS);
+  const snapshot = () => target.status;
+  return useSyncExternalStore(subscribe, snapshot, snapshot);
+}
+
+export interface AskUserState {
+  /** The question the agent is waiting on, or null */
+  question: AskUserItem | null;
+  /** Answer it; a list for multi_select questions. Rejects if it could not be sent */
+  answer(answer: string | string[]): Promise<void>;
+}
+
+/**
+ * The agent's open ask_user question and a way to answer it
+ *
+ * @example
+ * ```tsx
+ * const { question, answer } = useAskUser();
+ * if (question) return <Choices options={question.options} onPick={answer} />;
+ * ```
+ */
+export function useAskUser(agent?: RemoteAgent): AskUserState {
+  const target = useResolvedAgent(agent);
+  const items = useChatItems(target);
+  const status = useAgentStatus(target);
+  const question = useMemo(() => {
+    const item = waitingItem(items, status);
+    return item?.type === 'ask_user' && !item.answered ? item : null;
+  }, [items, status]);
+  const answer = useCallback(async (value: string | string[]) => {
+    if (question) target.send({ type: 'ASK_USER_RESPONSE', answer: value });
+  }, [target, question]);
+  return { question, answer };
+}
+
+export interface ApprovalState {
+  /** The tool call waiting for approval, or null */
+  request: ApprovalItem | null;
+  /** Allow it; scope 'session' allows this tool for the rest of the session. Rejects if it could not be sent */
+  approve(scope?: 'once' | 'session'): Promise<void>;
+  /** Refuse it; the feedback is passed to the agent. Rejects if it could not be sent */
+  reject(feedback?: string): Promise<void>;
+}
+
+/**
+ * The tool call waiting for the human's approval, with approve() and reject()
+ *
+ * @example
+ * ```tsx
+ * const { request, approve, reject } = useApproval();
+ * if (request) return <Confirm tool={request.tool} onYes={() => approve()} onNo={() => reject('Not now')} />;
+ * ```
+ */
+export function useApproval(agent?: RemoteAgent): ApprovalState {
+  const target = useResolvedAgent(agent);
+  const items = useChatItems(target);
+  const status = useAgentStatus(target);
+  const request = useMemo(() => {
+    const item = waitingItem(items, status);
+    return item?.type === 'approval_needed' ? item : null;
+  }, [items, status]);
+  const approve = useCallback(async (scope?: 'once' | 'session') => {
+    if (request) target.send({ type: 'APPROVAL_RESPONSE', approved: true, ...(scope && { scope }) });
+  }, [target, request]);
+  const reject = useCallback(async (feedback?: string) => {
+    if (request) target.send({ type: 'APPROVAL_RESPONSE', approved: false, ...(feedback && { feedback }) });
+  }, [target, request]);
+  return { request, approve, reject };
+}
@@ -0,0 +1,9 @@
+/**
+ * @llm-note
+ *   Dependencies: imports from [src/react/provider, src/react/hooks] | imported by [package.json "./react" export (connectonion/react)]
+ *   Data flow: barrel only
+ *   State/Effects: none
+ *   Integration: exposes AgentProvider, AgentProviderProps, useAgent, useChatItems, useAgentStatus, useAskUser, useApproval, AskUserState, ApprovalState | react is a peer dependency, needed only by this entry point
+ */
+export { AgentProvider, useAgent, type AgentProviderProps } from './provider';
+export { useChatItems, useAgentStatus, useAskUser, useApproval, type AskUserState, type ApprovalState } from './hooks';
@@ -0,0 +1,131 @@
+/**
+ * @purpose Give React components one shared RemoteAgent per address: AgentProvider holds them, useAgent() looks them up
+ *
+ * @graph Lifecycle
+ *
+ *   render  ── agentFor(address) ──▶ the cached RemoteAgent, else a new one (no socket yet)
+ *   effect  ── retain(agent) ──────▶ first user: agent.connect()
+ *   cleanup ── release ────────────▶ last user gone (checked a tick later, so a
+ *                                    StrictMode remount keeps it): agent.disconnect()
+ *
+ * @llm-note
+ *   Dependencies: imports from [react (peer dependency), src/connect (RemoteAgent, ConnectOptions)] | imported by [src/react/hooks.ts, src/react/index.ts] | tested by [tests/react.test.ts]
+ *   Data flow: <AgentProvider address? options?> → context {agents: Map<address, RemoteAgent>, users, address, options} → useAgent(address?) → the agent for that address, created with the provider's options on first use
+ *   State/Effects: one AgentRegistry per provider, created once (useState initializer) | without a provider, useAgent() uses a module-level registry and default options | rendering only creates and caches agents; connect() and disconnect() happen in effects, counted per agent across every hook using it | disconnect() keeps the transcript, so remounting resumes the session
+ *   Integration: exposes AgentProvider, AgentProviderProps, useAgent, useResolvedAgent (for hooks.ts) | every hook in hooks.ts takes an optional RemoteAgent and otherwise uses the provider's address | an agent passed in is never connected or disconnected here
+ *   Errors: useAgent() without an address, under no provider with one, throws | a failed connect() is left on agent.error (the connectionStateChanged/error events), not thrown
+ */
+import { createContext, createElement, useContext, useEffect, useState, type ReactNode } from 'react';
+import { ConnectOptions, RemoteAgent } from '../connect';
+
+export interface AgentProviderProps {
+  /** Agent used by hooks called without an address or agent */
+  address?: string;
+  /** Options for every agent this provider creates (relayUrl, keys, pool, storage, ...) */
+  options?: ConnectOptions;
+  children?: ReactNode;
+}
+
+interface AgentRegistry {
+  agents: Map<string, RemoteAgent>;
+  /** Mounted hooks per agent: it connects with the first and disconnects after the last */
+  users: Map<RemoteAgent, number>;
+}
+
+interface AgentContextValue {
+  registry: AgentRegistry;
+  address?: string;
+  options?: ConnectOptions;
+}
+
+/** Agents used outside any AgentProvider */
+const defaultContext: AgentContextValue = { registry: { agents: new Map(), users: new Map() } };
+const AgentContext = createContext<AgentContextValue>(defaultContext);
+
+/**
+ * Share agents with the components below: each address gets one RemoteAgent,
+ * so every hook for it sees the same transcript and socket.
+ *
+ * @example
+ * ```tsx
+ * <AgentProvider address="0x..." options={{ storage: true }}>
+ *   <Chat />
+ * </AgentProvider>
+ * ```
+ */
+export function AgentProvider({ address, options, children }: AgentProviderProps) {
+  const [registry] = useState<AgentRegistry>(() => ({ agents: new Map(), users: new Map() }));
+  return createElement(AgentContext.Provider, { value: { registry, address, options } }, children);
+}
+
+/**
+ * The agent for `address`, created with the provider's options on first use.
+ * Safe during render: a new RemoteAgent opens no socket, and a second render
+ * finds the cached one.
+ */
+function agentFor(context: AgentContextValue, address: string): RemoteAgent {
+  const { agents } = context.registry;
+  let agent = agents.get(address);
+  if (!agent) {
+    agent = new RemoteAgent(address, context.options);
+    agents.set(address, agent);
+  }
+  return agent;
+}
+
+/** Count one more user of the agent, connecting it for the first; returns the release */
+function retain(registry: AgentRegistry, agent: RemoteAgent): () => void {
+  const count = registry.users.get(agent) || 0;
+  registry.users.set(agent, count + 1);
+  if (count === 0 && agent.connectionState === 'disconnected') {
+    agent.connect().catch(() => undefined);
+  }
+  return () => {
+    const left = (registry.users.get(agent) || 1) - 1;
+    if (left > 0) {
+      registry.users.set(agent, left);
+      return;
+    }
+    registry.users.delete(agent);
+    setTimeout(() => {
+      if (!registry.users.has(agent)) agent.disconnect();
+    }, 0);
+  };
+}
+
+/** Keep the agent connected while the calling component is mounted (none: nothing to manage) */
+function useConnection(registry: AgentRegistry, agent: RemoteAgent | null): void {
+  useEffect(() => (agent ? retain(registry, agent) : undefined), [registry, agent]);
+}
+
+/**
+ * The RemoteAgent for an address (default: the AgentProvider's). It is
+ * connected while a component uses it.
+ *
+ * @example
+ * ```tsx
+ * const agent = useAgent('0x...');
+ * <button onClick={() => agent.input('Hello')}>Send</button>
+ * ```
+ */
+export function useAgent(address?: string): RemoteAgent {
+  const context = useContext(AgentContext);
+  const target = address || context.address;
+  if (!target) {
+    throw new Error('useAgent() needs an address, or an <AgentProvider address> above it');
+  }
+  const agent = agentFor(context, target);
+  useConnection(context.registry, agent);
+  return agent;
+}
+
+/** The agent a hook works on: the one passed in, else the provider's (kept connected) */
+export function useResolvedAgent(agent?: RemoteAgent): RemoteAgent {
+  const context = useContext(AgentContext);
+  if (!agent && !context.address) {
+    throw new Error('Pass an agent, or put an <AgentProvider address> above this component');
+  }
+  const provided = agent ? null : agentFor(context, context.address!);
+  useConnection(context.registry, provided);
+  return agent || provided!;
+}
@@ -0,0 +1,181 @@
+/**
+ * @purpose Sub-agent delegation: wrap a local Agent or a connected RemoteAgent as a Tool of another Agent
+ *
+ * @graph Delegation
+ *
+ *   parent Agent ── tool call research({task}) ──▶ agentAsTool.run(args, context)
+ *                                                     │
+ *                          prompt = args.task  (or formatInput(args))
+ *                                                     │
+ *              ┌──────────── local Agent ─────────────┴──────────── RemoteAgent ───────────┐
+ *              ▼                                                                            ▼
+ *   sub.run(prompt, {signal, budget: context.budget})                  remote.input(prompt)
+ *              │                                           remote.cancel() when the signal fires
+ *              │                                           or its items cross context.budget
+ *              │                                                                            │
+ *   context.report({usage, trace})                    context.report({usage from thinking items,
+ *              │                                                      trace from tool_call items})
+ *              └──────────────────────────────▶ parent TraceEntry.children ◀────────────────┘
+ *                                               parent run usage / tool-call count
+ *
+ * @llm-note
+ *   Dependencies: imports from [src/types, src/connect/remote-agent, src/core/budget, src/core/abort, src/llm/usage, src/core/agent (type-only), src/tools/tool-executor (type-only)] | imported by [src/tools/tool-utils.ts (processTools auto-wraps agents), src/index.ts] | tested by [tests/agent-tool.test.ts]
+ *   Data flow: parent passes ToolContext.budget (what is left of its run) into the sub-run → sub-run trace and usage come back through ToolContext.report → executeSingleTool nests the trace under the call's TraceEntry.children and the parent Agent charges usage and tool calls to its run
+ *   State/Effects: a local sub-agent keeps its own conversation across calls (resetConversation() it for one-shot delegation) | a RemoteAgent's chat items grow with each call
+ *   Integration: exposes agentAsTool(agent, options), AgentToolOptions, isAgentLike() | passing an Agent or RemoteAgent in AgentConfig.tools wraps it with default options
+ *   Errors: a cancelled or failed sub-run rejects, so the parent records the call as an error (or cancellation) like any throwing tool | a remote run cancelled by someone else, or queued because the agent is offline, rejects too | a sub-run stopped by its budget returns its partial answer (remote: the host's run is cancelled once the usage and tool calls its items report cross the budget, so it can overshoot by one LLM call)
+ */
+
+import type { Agent } from '../core/agent';
+import type { TraceEntry } from './tool-executor';
+import type { ChatItem, Response } from '../connect/types';
+import { RemoteAgent } from '../connect/remote-agent';
+import { AgentCancelledError, throwIfAborted } from '../core/abort';
+import { BudgetTracker, tightestBudget } from '../core/budget';
+import { emptyUsage } from '../llm/usage';
+import { FunctionSchema, TokenUsage, Tool, ToolContext } from '../types';
+
+/**
+ * How a sub-agent is presented to the parent's LLM
+ */
+export interface AgentToolOptions {
+  /** Tool name (default: the agent's name, made identifier-safe) */
+  name?: string;
+  /** What the agent is good at; the parent's LLM decides on delegation from this */
+  description?: string;
+  /** JSON Schema of the tool arguments (default: { task: string }) */
+  parameters?: FunctionSchema['parameters'];
+  /** Build the sub-agent's prompt from the arguments (default: args.task, else the arguments as JSON) */
+  formatInput?: (args: Record<string, any>) => string;
+}
+
+const DEFAULT_PARAMETERS: FunctionSchema['parameters'] = {
+  type: 'object',
+  properties: {
+    task: { type: 'string', description: 'The task for the agent, with all the context it needs' },
+  },
+  required: ['task'],
+};
+
+/**
+ * Whether a value is a local Agent or a RemoteAgent (used by processTools)
+ */
+export function isAgentLike(value: any): value is Agent | RemoteAgent {
+  if (value instanceof RemoteAgent) return true;
+  return !!value && typeof value === 'object'
+    && typeof value.run === 'function'
+    && typeof value.getSession === 'function'
+    && typeof value.getName === 'function';
+}
+
+/**
+ * Wrap an Agent or RemoteAgent as a tool
+ *
+ * @example
+ * ```typescript
+ * const researcher = new Agent({ name: 'researcher', tools: [search] });
+ * const writer = new Agent({
+ *   name: 'writer',
+ *   tools: [agentAsTool(researcher, { description: 'Finds and verifies facts on the web' })],
+ *   budget: { maxCost: 1 },  // covers the researcher's calls too
+ * });
+ * ```
+ */
+export function agentAsTool(agent: Agent | RemoteAgent, options: AgentToolOptions = {}): Tool {
+  const remote = agent instanceof RemoteAgent;
+  const label = remote ? (agent.profile?.name || agent.agentAddress) : agent.getName();
+  const name = options.name || label.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64);
+  const description = options.description || `Delegate a task to the ${label} agent and get its answer`;
+  const parameters = options.parameters || DEFAULT_PARAMETERS;
+  const formatInput = options.formatInput || ((args: Record<string, any>) =>
+    (typeof args.task === 'string' && Object.keys(args).length === 1) ? args.task : JSON.stringify(args, null, 2));
+
+  return {
+    name,
+    description,
+    run: (args, context) => remote
+      ? runRemote(agent, formatInput(args), context)
+      : runLocal(agent, formatInput(args), context),
+    toFunctionSchema: () => ({ name, description, parameters }),
+  };
+}
+
+async function runLocal(agent: Agent, prompt: string, context?: ToolContext): Promise<string> {
+  // The sub-agent's own ceilings still apply when the parent has more left
+  const budget = context?.budget ? tightestBudget(agent.getBudget(), context.budget) : undefined;
+  const result = await agent.run(prompt, { signal: context?.signal, budget });
+  context?.report?.({ usage: result.usage, trace: result.trace });
+  if (result.status === 'cancelled' || result.status === 'error') throw result.error;
+  return result.text;
+}
+
+async function runRemote(agent: RemoteAgent, prompt: string, context?: ToolContext): Promise<string> {
+  throwIfAborted(context?.signal);
+  // The host runs its own loop, so the parent's budget is enforced from here:
+  // the remote run is cancelled once the usage and tool calls it reports cross it
+  const tracker = new BudgetTracker(context?.budget || {}, context?.signal);
+  const start = agent.ui.length;
+  let reservedToolCalls = 0;
+  const check = () => {
+    const { usage, trace } = remoteWork(agent.ui.slice(start), context?.iteration || 0);
+    const over = tracker.checkUsage(usage || emptyUsage()) || tracker.reserveToolCalls(trace.length - reservedToolCalls);
+    reservedToolCalls = trace.length;
+    if (over) agent.cancel();
+  };
+  const onAbort = () => agent.cancel();
+  tracker.signal?.addEventListener('abort', onAbort, { once: true });
+  const unsubscribes = [agent.on('chatItemAdded', check), agent.on('chatItemUpdated', check)];
+
+  let response: Response;
+  try {
+    response = await agent.input(prompt);
+  } finally {
+    unsubscribes.forEach(unsubscribe => unsubscribe());
+    tracker.signal?.removeEventListener('abort', onAbort);
+    tracker.dispose();
+    context?.report?.(remoteWork(agent.ui.slice(start), context?.iteration || 0));
+  }
+
+  if (context?.signal?.aborted) throw new AgentCancelledError();
+  if (tracker.exceeded) {
+    // Like a local sub-run stopped by its budget: the partial answer
+    const partial = agent.ui.slice(start).reverse().find(item => item.type === 'agent');
+    return partial && partial.type === 'agent' ? partial.content : '';
+  }
+  if (response.cancelled) throw new Error('The remote run was cancelled');
+  if (response.queued) throw new Error('The remote agent is offline; the task was queued and will run when it reconnects');
+  return response.text;
+}
+
+/** Usage and tool calls of a remote run, from the chat items it added */
+function remoteWork(items: ChatItem[], iteration: number): { usage?: TokenUsage; trace: TraceEntry[] } {
+  let usage: TokenUsage | undefined;
+  const trace: TraceEntry[] = [];
+  for (const item of items) {
+    if (item.type === 'thinking' && item.usage) {
+      const input = item.usage.input_tokens ?? item.usage.prompt_tokens ?? 0;
+      const output = item.usage.output_tokens ?? item.usage.completion_tokens ?? 0;
+      usage = {
+        input_tokens: (usage?.input_tokens || 0) + input,
+        output_tokens: (usage?.output_tokens || 0) + output,
+        cached_tokens: 0,
+        reasoning_tokens: 0,
+        total_tokens: (usage?.total_tokens || 0) + (item.usage.total_tokens ?? input + output),
+        cost: (usage?.cost || 0) + (item.usage.cost || 0),
+      };
+    } else if (item.type === 'tool_call') {
+      trace.push({
+        type: 'tool_execution',
+        tool_name: item.name,
+        arguments: (item.args || {}) as Record<string, any>,
+        call_id: item.id,
+        timing: item.timing_ms || 0,
+        status: item.status === 'done' ? 'success' : item.status === 'error' ? 'error' : 'pending',
+        result: item.result ?? null,
+        iteration,
+        timestamp: Date.now(),
+      });
+    }
+  }
+  return { usage, trace };
+}
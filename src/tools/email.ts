@@ -21,9 +21,9 @@
  *   → all entries    → filtered          → rewrite file
  *
  * @llm-note
- *   Dependencies: imports from [fs, os, path (Node.js built-ins)] | imported by [src/index.ts, tests/e2e/emailTools.test.ts] | tested by [tests/e2e/emailTools.test.ts]
+ *   Dependencies: imports from [fs, os, path (Node.js built-ins), src/tools/tool-utils] | imported by [src/index.ts, tests/e2e/emailTools.test.ts] | tested by [tests/e2e/emailTools.test.ts]
  *   Data flow: sendEmail(to, subject, body) → generates id, timestamp → appends JSONL to ~/.connectonion/mock_email/emails.jsonl | getEmails(recipient?) → reads JSONL → parses entries → returns EmailEntry[]
- *   State/Effects: writes to ~/.connectonion/mock_email/emails.jsonl | creates directory if missing | appends to file without locking | reads entire file on getEmails() | markRead() rewrites entire file
+ *   State/Effects: writes to ~/.connectonion/mock_email/emails.jsonl | creates directory if missing | appends to file without locking (tools share the 'mock_email' group so one Agent never overlaps them) | reads entire file on getEmails() | markRead() rewrites entire file
  *   Integration: exposes sendEmail(to, subject, body), getEmails(recipient?), markRead(id), EmailEntry type | server-only utilities (uses fs) | CONNECTONION_HOME env var for base directory override
  *   Performance: synchronous fs operations | no file locking | reads entire file into memory | markRead() rewrites entire file (not scalable for large inboxes)
  *   Errors: throws on fs errors (ENOENT, EACCES) | invalid JSONL lines cause JSON.parse to throw | no error handling (fails fast)
@@ -31,6 +31,7 @@
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
+import { withToolOptions } from './tool-utils';
 
 type EmailEntry = {
   id: string;
@@ -85,3 +86,8 @@ export function markRead(id: string): string {
   fs.writeFileSync(file, out, 'utf-8');
   return 'ok';
 }
+
+// All three share emails.jsonl: the Agent must never run them concurrently
+withToolOptions(sendEmail, { group: 'mock_email' });
+withToolOptions(getEmails, { group: 'mock_email' });
+withToolOptions(markRead, { group: 'mock_email' });
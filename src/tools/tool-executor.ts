@@ -41,15 +41,15 @@
  *                   (sequential)
  *
  * @llm-note
- *   Dependencies: imports from [src/types.ts (Tool), src/console.ts (Console)] | imported by [src/console.ts, examples/test-migrations.ts] | tested by [examples/test-migrations.ts]
+ *   Dependencies: imports from [src/types.ts (Tool, ToolResult), src/console.ts (Console)] | imported by [src/core/agent.ts, src/index.ts, examples/test-migrations.ts] | tested by [tests/agent.test.ts, examples/test-migrations.ts]
  *   Data flow: receives toolName, toolArgs, toolMap from Agent → executes tool.run(args) → measures timing → creates TraceEntry{type, tool_name, arguments, call_id, timing, status, result, iteration, timestamp} → returns to caller
  *   State/Effects: calls console.print() for tool execution logging | awaits tool.run() which may have side effects | creates trace entries but doesn't store them (caller's responsibility)
- *   Integration: exposes executeSingleTool(toolName, toolArgs, toolId, toolMap, agent, console), executeAndRecordTools(toolCalls, toolMap, agent, console), TraceEntry interface | used for manual tool execution and batch processing
+ *   Integration: exposes executeSingleTool(toolName, toolArgs, toolId, toolMap, agent, console, signal?, timeoutMs?, extra?), executeAndRecordTools(toolCalls, toolMap, agent, console), toToolResult(entry), ToolExecutionError, ToolTimeoutError, isRetryable(), retryDelay(), TraceEntry interface | Agent runs every tool call through executeSingleTool
  *   Performance: async/await tool execution | timing tracked with Date.now() in milliseconds | sequential execution in executeAndRecordTools
- *   Errors: captures all tool execution errors in TraceEntry{status: 'error', error, error_type} | logs errors via console.print | returns 'not_found' status for missing tools | never throws (errors captured in trace)
+ *   Errors: captures all tool execution errors in TraceEntry{status: 'error', error, error_type} | logs errors via console.print | returns 'not_found' status for missing tools | never throws (errors captured in trace) | timeoutMs races tool.run against a deadline → status 'error', error_type 'ToolTimeoutError'; the tool's context signal fires so cooperative tools stop (others are abandoned, not killed)
  */
 
-import { Tool } from '../types';
+import { Tool, ToolContext, ToolResult, ToolRetryPolicy } from '../types';
 import { Console } from '../console';
 
 /**
@@ -61,12 +61,16 @@ export interface TraceEntry {
   arguments: Record<string, any>;
   call_id: string;
   timing: number;
-  status: 'pending' | 'success' | 'error' | 'not_found';
+  status: 'pending' | 'success' | 'error' | 'not_found' | 'cancelled' | 'rejected';
   result: string | null;
+  /** Raw return value of tool.run (result holds its string form) */
+  output?: any;
   iteration: number;
   timestamp: number;
   error?: string;
   error_type?: string;
+  /** Trace of a sub-agent run by this call */
+  children?: TraceEntry[];
 }
 
 /**
@@ -80,6 +84,9 @@ export interface TraceEntry {
  * @param toolMap - Map of tool names to Tool objects
  * @param agent - Agent instance with current session
  * @param console - Console for output
+ * @param signal - Optional run cancellation signal, passed to the tool via ToolContext
+ * @param timeoutMs - Optional deadline; the call fails with ToolTimeoutError and its context signal fires
+ * @param extra - Remaining run budget and a usage sink for tools that spend tokens (sub-agents)
  * @returns Trace entry with execution details
  */
 export async function executeSingleTool(
@@ -88,7 +95,10 @@ export async function executeSingleTool(
   toolId: string,
   toolMap: Map<string, Tool>,
   agent: any,
-  console: Console
+  console: Console,
+  signal?: AbortSignal,
+  timeoutMs?: number,
+  extra: Pick<ToolContext, 'budget' | 'report'> = {}
 ): Promise<TraceEntry> {
   // Console output
   const argsStr = JSON.stringify(toolArgs);
@@ -121,11 +131,26 @@ export async function executeSingleTool(
 
   // Execute the tool with timing
   const toolStart = Date.now();
+  const deadline = timeoutMs ? withDeadline(toolName, timeoutMs, signal) : null;
   try {
-    const result = await tool.run(toolArgs);
+    const run = Promise.resolve().then(() =>
+      tool.run(toolArgs, {
+        signal: deadline ? deadline.signal : signal,
+        callId: toolId,
+        iteration: traceEntry.iteration,
+        agent,
+        budget: extra.budget,
+        report: (spent) => {
+          if (spent.trace?.length) traceEntry.children = [...(traceEntry.children || []), ...spent.trace];
+          extra.report?.(spent);
+        },
+      })
+    );
+    const result = await (deadline ? Promise.race([run, deadline.expired]) : run);
     const toolDuration = Date.now() - toolStart;
 
     traceEntry.timing = toolDuration;
+    traceEntry.output = result;
     traceEntry.result = String(result);
     traceEntry.status = 'success';
 
@@ -146,11 +171,106 @@ export async function executeSingleTool(
 
     const timeStr = toolDuration < 100 ? `${(toolDuration / 1000).toFixed(4)}s` : `${(toolDuration / 1000).toFixed(1)}s`;
     console.print(`✗ Error (${timeStr}): ${traceEntry.error}`);
+  } finally {
+    deadline?.clear();
   }
 
   return traceEntry;
 }
 
+/**
+ * Raised (and recorded as error_type 'ToolTimeoutError') when a tool call exceeds its timeout
+ */
+export class ToolTimeoutError extends Error {
+  readonly toolName: string;
+  readonly timeoutMs: number;
+
+  constructor(toolName: string, timeoutMs: number) {
+    super(`Tool '${toolName}' timed out after ${timeoutMs}ms`);
+    this.name = 'ToolTimeoutError';
+    this.toolName = toolName;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Per-call deadline: a promise that rejects with ToolTimeoutError and a signal
+ * that fires at the deadline or when the run signal does
+ */
+function withDeadline(toolName: string, timeoutMs: number, parent?: AbortSignal) {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  parent?.addEventListener('abort', onAbort, { once: true });
+  if (parent?.aborted) controller.abort();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new ToolTimeoutError(toolName, timeoutMs));
+    }, timeoutMs);
+  });
+  // The race may settle first; keep a late rejection from surfacing as unhandled
+  expired.catch(() => undefined);
+  return {
+    signal: controller.signal,
+    expired,
+    clear: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Whether a failed call may be retried under the policy
+ *
+ * @param errorType - TraceEntry.error_type of the failed attempt (the error's class name)
+ * @param retryOn - Error classes or class names to retry; omitted means every error
+ */
+export function isRetryable(errorType: string | undefined, retryOn?: ToolRetryPolicy['retryOn']): boolean {
+  if (!retryOn) return true;
+  return retryOn.some(match => (typeof match === 'string' ? match : match.name) === errorType);
+}
+
+/**
+ * Milliseconds to wait before retry number `attempt` (1-based)
+ */
+export function retryDelay(policy: ToolRetryPolicy, attempt: number): number {
+  const base = policy.delayMs ?? 200;
+  const backoff = policy.backoff ?? 'exponential';
+  if (typeof backoff === 'function') return backoff(attempt);
+  if (backoff === 'none') return 0;
+  if (backoff === 'fixed') return base;
+  return Math.min(base * 2 ** (attempt - 1), policy.maxDelayMs ?? 10_000);
+}
+
+/**
+ * Raised when a tool fails and the agent's tool error policy is 'abort'
+ */
+export class ToolExecutionError extends Error {
+  readonly toolName: string;
+  readonly errorType?: string;
+
+  constructor(toolName: string, message: string, errorType?: string) {
+    super(`Tool '${toolName}' failed: ${message}`);
+    this.name = 'ToolExecutionError';
+    this.toolName = toolName;
+    this.errorType = errorType;
+  }
+}
+
+/**
+ * Convert a trace entry into the ToolResult fed back to the LLM
+ *
+ * @param entry - Finished trace entry
+ * @returns ToolResult with the raw output on success, the error message (and error class) otherwise
+ */
+export function toToolResult(entry: TraceEntry): ToolResult {
+  if (entry.status === 'success') return { status: 'success', result: entry.output };
+  if (entry.status === 'not_found') return { status: 'not_found', error: entry.error };
+  return { status: 'error', error: entry.error, ...(entry.error_type && { error_type: entry.error_type }) };
+}
+
 /**
  * Execute multiple tools and record results
  *
@@ -57,15 +57,17 @@
  *                                              }
  *
  * @llm-note
- *   Dependencies: imports from [../types] | imported by [src/core/agent.ts, src/index.ts] | tested by [tests/agent.test.ts, examples/test-migrations.ts]
+ *   Dependencies: imports from [../types, ./agent-tool] | imported by [src/core/agent.ts, src/index.ts] | tested by [tests/agent.test.ts, examples/test-migrations.ts]
  *   Data flow: receives func: Function or class instance → inspects with func.toString() → extracts name/JSDoc/params via regex → maps types via TYPE_MAP → returns Tool with run(), toFunctionSchema()
  *   State/Effects: no state or side effects | pure transformation functions | regex parsing of function source
- *   Integration: exposes processTools(tools), createToolFromFunction(func), extractMethodsFromInstance(instance), isClassInstance(obj), xray(func) | used by Agent constructor to auto-convert tools | preserves @xray decorator flag
+ *   Integration: exposes processTools(tools), createToolFromFunction(func), extractMethodsFromInstance(instance), isClassInstance(obj), xray(func), withToolOptions(func, options) | used by Agent constructor to auto-convert tools | an Agent or RemoteAgent in the list becomes one delegation tool via agentAsTool() | preserves @xray decorator flag and ToolOptions set via withToolOptions
  *   Performance: synchronous regex parsing | TYPE_MAP provides O(1) type lookups | no caching (recreates on each call)
+ *   Context: opt-in with withToolOptions(func, { context: true }): the last parameter then receives ToolContext (signal, callId, iteration, agent) and is excluded from the schema | parameter names are never used to guess
  *   Errors: skips methods without proper signatures | skips private methods (starting with _) | defaults to 'string' type when annotation missing | wraps methods with functools-like context preservation
  */
 
-import { Tool } from '../types';
+import { Tool, ToolContext, ToolOptions } from '../types';
+import { agentAsTool, isAgentLike } from './agent-tool';
 
 // Map TypeScript/JavaScript types to JSON Schema types
 const TYPE_MAP: Record<string, string> = {
@@ -98,7 +100,7 @@ function extractFunctionInfo(func: Function): { name: string; description: strin
   const description = extractDescription(funcStr) || `Execute the ${name} tool.`;
   
   // Parse parameters from function signature
-  const parameters = extractParameters(funcStr);
+  const parameters = extractParameters(funcStr, acceptsToolContext(func));
   
   return { name, description, parameters };
 }
@@ -146,11 +148,12 @@ function extractDescription(funcStr: string): string | null {
  * Uses TYPE_MAP to convert TypeScript types to JSON Schema types.
  *
  * @param funcStr - String representation of the function
+ * @param withContext - The last parameter receives ToolContext and is left out
  * @returns JSON Schema object describing the parameters
  *
  * @private
  */
-function extractParameters(funcStr: string): any {
+function extractParameters(funcStr: string, withContext = false): any {
   // Extract parameter names from function signature
   const paramMatch = funcStr.match(/\(([^)]*)\)/);
   if (!paramMatch || !paramMatch[1].trim()) {
@@ -161,8 +164,9 @@ function extractParameters(funcStr: string): any {
     };
   }
 
-  // Split parameters by comma
+  // Split parameters by comma; an opted-in last parameter receives ToolContext, not LLM arguments
   const params = paramMatch[1].split(',').map(p => p.trim());
+  if (withContext) params.pop();
   const properties: Record<string, any> = {};
   const required: string[] = [];
 
@@ -223,6 +227,22 @@ function extractParameters(funcStr: string): any {
   return schema;
 }
 
+/**
+ * Check whether a function opts into receiving ToolContext
+ *
+ * Only withToolOptions(func, { context: true }) opts in: the per-call
+ * ToolContext (abort signal, call id, agent) is then passed as the last
+ * argument, and that parameter is left out of the schema the LLM sees.
+ *
+ * @param func - The function to check
+ * @returns true if the function was marked with `context: true`
+ *
+ * @private
+ */
+function acceptsToolContext(func: Function): boolean {
+  return (func as any)?.__tool_options__?.context === true;
+}
+
 /**
  * Convert a function to a Tool
  * 
@@ -247,25 +267,35 @@ function extractParameters(funcStr: string): any {
  *   name: 'greeter',
  *   tools: [tool] // or just [greet] - automatic conversion
  * });
+ *
+ * // Opt into the per-call context (e.g. to honour cancellation)
+ * async function crawl(url: string, context?: ToolContext): Promise<string> {
+ *   const res = await fetch(url, { signal: context?.signal });
+ *   return res.text();
+ * }
+ * withToolOptions(crawl, { context: true });
  * ```
  */
 export function createToolFromFunction(func: Function): Tool {
   // Extract metadata from the function
   const { name, description, parameters } = extractFunctionInfo(func);
+  const wantsContext = acceptsToolContext(func);
   
   // Create a Tool object that wraps the function
   const tool: Tool = {
     name,
     description,
     xray: (func as any)?.__xray__ === true,
+    ...(func as any)?.__tool_options__,
     
     // The run method executes the actual function with error handling
-    run: (args: Record<string, any>) => {
+    run: (args: Record<string, any>, context?: ToolContext) => {
       try {
         // Convert args object to function parameters
         // This handles the mismatch between object-style args and positional parameters
         const paramNames = Object.keys(parameters.properties || {});
         const orderedArgs = paramNames.map(name => args[name]);
+        if (wantsContext) orderedArgs.push(context);
         
         // Call the original function with the arguments
         return func(...orderedArgs);
@@ -299,6 +329,27 @@ export function xray<T extends Function>(func: T): T {
   return func as any;
 }
 
+/**
+ * Attach execution options (sequential, group, timeout, retry, ...) to a function tool.
+ *
+ * @example
+ * ```typescript
+ * withToolOptions(appendLog, { group: 'log-file' });
+ * withToolOptions(runMigration, { sequential: true });
+ * withToolOptions(fetchPage, { timeout: 10_000, retry: { retries: 2 } });
+ * withToolOptions(crawl, { context: true }); // last parameter gets ToolContext
+ * ```
+ */
+export function withToolOptions<T extends Function>(func: T, options: ToolOptions): T {
+  const merged = { ...(func as any).__tool_options__, ...options };
+  try {
+    Object.defineProperty(func, '__tool_options__', { value: merged, configurable: true });
+  } catch {
+    (func as any).__tool_options__ = merged;
+  }
+  return func;
+}
+
 /**
  * Check if an object is a class instance (not a plain object or function)
  * 
@@ -447,7 +498,10 @@ export function processTools(tools: Tool[] | Function[] | any[] | any): Tool[] {
   
   // Process each tool based on its type
   for (const tool of toolsList) {
-    if (isClassInstance(tool)) {
+    if (isAgentLike(tool)) {
+      // Sub-agent delegation, not its methods
+      processed.push(agentAsTool(tool));
+    } else if (isClassInstance(tool)) {
       // Extract all methods from class instance
       const methods = extractMethodsFromInstance(tool);
       processed.push(...methods);
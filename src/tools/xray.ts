@@ -161,7 +161,7 @@ export function trace(): void {
   history.forEach((h, idx) => {
     const ms = typeof h.timing === 'number' ? h.timing : 0;
     const timeStr = ms < 100 ? `${(ms / 1000).toFixed(4)}s` : `${(ms / 1000).toFixed(1)}s`;
-    const argsPreview = JSON.stringify(h.args ?? {});
+    const argsPreview = JSON.stringify(h.arguments ?? h.args ?? {});
     const shortArgs = argsPreview.length > 120 ? argsPreview.slice(0, 120) + '...' : argsPreview;
     const resultStr = (h.result === undefined || h.result === null) ? '' : String(h.result);
     const shortRes = resultStr.length > 120 ? resultStr.slice(0, 120) + '...' : resultStr;
@@ -12,7 +12,7 @@
  *   │       │LLM│   │Tool[]│                                     │
  *   │       └─┬─┘   └──┬───┘                                     │
  *   │         │        │                                          │
- *   │         │        ├──▶ Tool.run(args) → any                  │
+ *   │         │        ├──▶ Tool.run(args, ctx?) → any            │
  *   │         │        └──▶ Tool.toFunctionSchema() ──┐           │
  *   │         │                                       ▼           │
  *   │         │                              ┌─────────────────┐  │
@@ -23,6 +23,7 @@
  *   │         │                                       │           │
  *   │         ▼                                       │           │
  *   │  LLM.complete(Message[], FunctionSchema[]) <────┘           │
+ *   │  LLM.stream?(...) → AsyncIterable<LLMStreamChunk>           │
  *   │         │                                                   │
  *   │         ▼                                                   │
  *   │   ┌───────────┐        ┌──────────┐                        │
@@ -41,12 +42,22 @@
  *   └─────────────────────────────────────────────────────────────┘
  *
  * @llm-note
- *   Dependencies: none (leaf node) | imported by [src/core/agent.ts, src/llm/*.ts, src/tools/tool-utils.ts, src/index.ts] | tested by [tests/agent.test.ts]
+ *   Dependencies: type-only import of AgentPlugin from src/core/plugins | imported by [src/core/agent.ts, src/llm/*.ts, src/tools/tool-utils.ts, src/index.ts] | tested by [tests/agent.test.ts]
  *   Data flow: defines interfaces → used throughout codebase for type checking → no runtime data processing
  *   State/Effects: pure type definitions, no side effects or state
- *   Integration: exports all core interfaces (Tool, LLM, Agent, Message, FunctionSchema) | consumed by all modules | OpenAI-compatible message format
+ *   Integration: exports all core interfaces (Message, MessageContent, ContentPart, Tool, ToolOptions, ToolRetryPolicy, ToolContext, ToolErrorPolicy, LLM, LLMCallOptions, Agent, InputOptions, RunResult, RunStatus, Message, TokenUsage, FunctionSchema, LLMStreamChunk, AgentStreamEvent) | consumed by all modules | OpenAI-compatible message format
  */
 
+import type { AgentPlugin } from './core/plugins';
+import type { SessionStore } from './core/session';
+import type { PriceTable } from './llm/usage';
+import type { BudgetExceeded, RunBudget } from './core/budget';
+import type { TraceEntry } from './tools/tool-executor';
+import type { ContextConfig } from './core/context';
+import type { ApprovalMode, Approver } from './core/approval';
+import type { JsonSchema } from './core/schema';
+import type { FileAttachment } from './connect/types';
+
 /**
  * Represents a tool call request from the LLM
  * @interface ToolCall
@@ -58,6 +69,8 @@ export interface ToolCall {
   arguments: Record<string, any>;
   /** Unique identifier for this tool call */
   id: string;
+  /** Why the streamed arguments could not be read; the call is answered with this error instead of run */
+  invalidArguments?: string;
 }
 
 /**
@@ -71,8 +84,82 @@ export interface LLMResponse {
   toolCalls: ToolCall[];
   /** Raw response from the underlying API */
   rawResponse: any;
+  /** Normalized token usage, when the provider reports it */
+  usage?: TokenUsage;
 }
 
+/**
+ * Token usage normalized across providers. Field names follow the usage
+ * shape of connect's 'thinking' ChatItem.
+ */
+export interface TokenUsage {
+  /** Prompt tokens, including cached_tokens */
+  input_tokens: number;
+  /** Completion tokens, including reasoning_tokens */
+  output_tokens: number;
+  /** Prompt tokens served from the provider's cache */
+  cached_tokens: number;
+  /** Hidden reasoning / thinking tokens */
+  reasoning_tokens: number;
+  /** input_tokens + output_tokens */
+  total_tokens: number;
+  /** USD cost, filled in by the Agent from its price table */
+  cost?: number;
+}
+
+/**
+ * Incremental chunk produced by a streaming LLM completion.
+ * A stream always ends with exactly one 'response' chunk carrying the
+ * assembled LLMResponse, so callers never re-parse deltas themselves.
+ */
+export type LLMStreamChunk =
+  | { type: 'text_delta'; delta: string }
+  | { type: 'tool_call_start'; id: string; name: string }
+  | { type: 'tool_call_end'; toolCall: ToolCall }
+  | { type: 'response'; response: LLMResponse };
+
+/**
+ * Typed event yielded by Agent.stream()
+ */
+export type AgentStreamEvent =
+  | { type: 'iteration_start'; iteration: number }
+  | { type: 'text_delta'; delta: string; iteration: number }
+  | { type: 'tool_call_start'; id: string; name: string; iteration: number }
+  | { type: 'tool_call_end'; toolCall: ToolCall; iteration: number }
+  | { type: 'tool_result'; callId: string; name: string; result: ToolResult; timing_ms: number; iteration: number }
+  | { type: 'iteration_end'; iteration: number }
+  | ({ type: 'budget_exceeded'; iteration: number } & BudgetExceeded)
+  | { type: 'max_iterations'; max: number; iteration: number }
+  | {
+      type: 'compact';
+      id: string;
+      status: 'compacting' | 'done' | 'error';
+      context_percent?: number;
+      context_before?: number;
+      context_after?: number;
+      message?: string;
+      error?: string;
+      iteration: number;
+    }
+  | { type: 'complete'; content: string; output?: unknown };
+
+/**
+ * One typed part of a multimodal message
+ *
+ * Images and files are given either by URL (http(s) or a data: URL) or as
+ * base64 data with its MIME type. Each provider converts parts to its native
+ * format (OpenAI image_url/file, Anthropic image/document, Gemini inlineData).
+ */
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; url: string }
+  | { type: 'image'; data: string; mimeType: string }
+  | { type: 'file'; url: string; mimeType?: string; name?: string }
+  | { type: 'file'; data: string; mimeType: string; name?: string };
+
+/** Content given for a message: a string, or parts mixing text, images and files */
+export type MessageContent = string | ContentPart[];
+
 /**
  * Represents a message in the conversation history
  * @interface Message
@@ -80,8 +167,10 @@ export interface LLMResponse {
 export interface Message {
   /** The role of the message sender */
   role: 'system' | 'user' | 'assistant' | 'tool';
-  /** The message content */
+  /** The message content (with parts: their text, media shown as placeholders) */
   content: string;
+  /** Typed parts for images and files; providers send these in place of content */
+  parts?: ContentPart[];
   /** Optional name for the message sender */
   name?: string;
   /** Tool calls made by the assistant */
@@ -110,17 +199,73 @@ export interface FunctionSchema {
   };
 }
 
+/**
+ * Per-call context handed to a tool alongside its arguments
+ * @interface ToolContext
+ */
+export interface ToolContext {
+  /** Fires when the run is cancelled; long-running tools should stop early */
+  signal?: AbortSignal;
+  /** ID of the tool call being executed */
+  callId: string;
+  /** Agent iteration the call belongs to */
+  iteration: number;
+  /** The calling agent (typed loosely to avoid a circular dependency) */
+  agent: any;
+  /** What is left of the run's budget, for tools that spend tokens themselves (sub-agents) */
+  budget?: RunBudget;
+  /** Charge work done on the run's behalf: usage counts toward the run, trace is nested under this call */
+  report?: (spent: { usage?: TokenUsage; trace?: TraceEntry[] }) => void;
+}
+
+/**
+ * Execution metadata a tool can carry (set on Tool objects directly, or on
+ * functions via withToolOptions())
+ * @interface ToolOptions
+ */
+export interface ToolOptions {
+  /** Never run concurrently with any other tool call */
+  sequential?: boolean;
+  /** Mutual-exclusion group: calls to tools in the same group never overlap */
+  group?: string;
+  /** Milliseconds before a call is abandoned and reported to the LLM as a timeout error */
+  timeout?: number;
+  /** Retry policy for failing calls (merged over AgentConfig.toolRetry) */
+  retry?: ToolRetryPolicy;
+  /** Ask the agent's approver before each call; 'edit' marks file-editing tools that 'accept_edits' mode lets through */
+  requiresApproval?: boolean | 'edit';
+  /** Function tools: pass ToolContext as the last argument (that parameter is left out of the schema) */
+  context?: boolean;
+}
+
+/**
+ * How a failing tool call is retried before its error reaches the LLM
+ * @interface ToolRetryPolicy
+ */
+export interface ToolRetryPolicy {
+  /** Extra attempts after the first failure (default: 0) */
+  retries?: number;
+  /** Wait between attempts: 'none', 'fixed' (delayMs), 'exponential' (delayMs × 2^n, default), or a function of the attempt number */
+  backoff?: 'none' | 'fixed' | 'exponential' | ((attempt: number) => number);
+  /** Base delay in milliseconds (default: 200) */
+  delayMs?: number;
+  /** Cap for exponential backoff in milliseconds (default: 10000) */
+  maxDelayMs?: number;
+  /** Only retry these error classes (constructors or class names, e.g. 'ToolTimeoutError'); default: every error */
+  retryOn?: Array<string | (new (...args: any[]) => Error)>;
+}
+
 /**
  * Represents a tool that can be used by an agent
  * @interface Tool
  */
-export interface Tool {
+export interface Tool extends ToolOptions {
   /** Unique name for the tool */
   name: string;
   /** Description of what the tool does (shown to LLM) */
   description: string;
-  /** Function to execute the tool with given arguments */
-  run: (args: Record<string, any>) => Promise<any> | any;
+  /** Function to execute the tool with given arguments and optional call context */
+  run: (args: Record<string, any>, context?: ToolContext) => Promise<any> | any;
   /** Converts the tool to an OpenAI function schema */
   toFunctionSchema: () => FunctionSchema;
   /** Optional: mark as @xray to pause in debugger */
@@ -138,8 +283,81 @@ export interface ToolResult {
   result?: any;
   /** Error message if failed */
   error?: string;
+  /** Class of the error a failing tool (or its approver) threw, e.g. 'ToolTimeoutError' */
+  error_type?: string;
+}
+
+
+/**
+ * What the Agent does when a tool throws:
+ * - 'surface': return ToolResult{status:'error'} to the LLM so it can react
+ * - 'retry': re-run the tool (AgentConfig.maxToolRetries times), then surface
+ * - 'abort': fail the run with ToolExecutionError
+ */
+export type ToolErrorPolicy = 'surface' | 'retry' | 'abort';
+
+/**
+ * Per-call options for Agent.input() and Agent.stream()
+ * @interface InputOptions
+ */
+export interface InputOptions {
+  /** Override the agent's max iterations for this call */
+  maxIterations?: number;
+  /** Cancel the run; propagated to provider requests and tools */
+  signal?: AbortSignal;
+  /** Ceilings for this run, merged over AgentConfig.budget */
+  budget?: RunBudget;
+  /** Override AgentConfig.finalSummary for this run */
+  finalSummary?: boolean | string;
+  /** JSON Schema for a structured final answer (input() then resolves with the parsed object) */
+  schema?: JsonSchema;
+  /** Re-asks when the structured answer fails the schema (default: 2) */
+  schemaRetries?: number;
+  /** Images for this turn: http(s) or data: URLs (same as RemoteAgent.input) */
+  images?: string[];
+  /** Files for this turn, e.g. PDFs, as data: URLs (same as RemoteAgent.input) */
+  files?: FileAttachment[];
+  /** Approval mode for this run only; the agent's own mode is left as it is */
+  approvalMode?: ApprovalMode;
+  /** Approver for this run only, in place of the agent's */
+  approver?: Approver;
+}
+
+/**
+ * How an agent.run() ended
+ */
+export type RunStatus = 'completed' | 'max_iterations' | 'budget_exceeded' | 'cancelled' | 'error';
+
+/**
+ * Result of agent.run()
+ * @interface RunResult
+ */
+export interface RunResult<T = unknown> {
+  status: RunStatus;
+  /** Final answer; the partial answer or summary when stopped early, '' on cancel/error */
+  text: string;
+  /** Trace entries recorded during this run */
+  trace: TraceEntry[];
+  /** Iterations used */
+  iterations: number;
+  /** Token usage and cost of this run */
+  usage: TokenUsage;
+  /** Which ceiling stopped the run, when status is 'budget_exceeded' */
+  budget?: BudgetExceeded;
+  /** The thrown error, when status is 'cancelled' or 'error' */
+  error?: unknown;
+  /** Validated structured answer, when a schema was given */
+  output?: T;
 }
 
+/**
+ * Per-request options passed to LLM providers
+ * @interface LLMCallOptions
+ */
+export interface LLMCallOptions {
+  /** Abort the provider request */
+  signal?: AbortSignal;
+}
 
 /**
  * Configuration options for creating an Agent
@@ -164,6 +382,34 @@ export interface AgentConfig {
   trust?: string | any; // Agent type would create circular dependency
   /** Logging: true=./{name}.log, false=off, undefined=~/.co/logs/{name}.log, or string path */
   log?: boolean | string;
+  /** Lifecycle hook plugins (before_llm, after_llm, before_tool, after_tool, on_error, on_complete) */
+  plugins?: AgentPlugin[];
+  /** What a failing tool does to the run (default: 'surface') */
+  onToolError?: ToolErrorPolicy;
+  /** Extra attempts per failing tool call when onToolError is 'retry' (default: 2) */
+  maxToolRetries?: number;
+  /** Session id to resume and keep saving to (see agent.loadSession()) */
+  session?: string;
+  /** Where sessions are persisted (default: FileSessionStore under .co/sessions/) */
+  sessionStore?: SessionStore;
+  /** USD per million tokens by model name or prefix (default: DEFAULT_PRICES) */
+  prices?: PriceTable;
+  /** Ceilings applied to every input() run (tokens, cost, wall time, tool calls) */
+  budget?: RunBudget;
+  /** When stopped early, make one more call asking for a final answer (true, or a custom instruction) */
+  finalSummary?: boolean | string;
+  /** Context-window management (on by default); false disables compaction */
+  context?: ContextConfig | false;
+  /** Max tool calls from one LLM response running at once (default: no limit) */
+  maxParallelTools?: number;
+  /** Default timeout in milliseconds for every tool call (a tool's own timeout wins) */
+  toolTimeout?: number;
+  /** Default retry policy for failing tool calls (a tool's own retry fields win) */
+  toolRetry?: ToolRetryPolicy;
+  /** Decides on calls to tools with requiresApproval (default: terminal prompt when stdin is a TTY, otherwise reject) */
+  approver?: Approver;
+  /** 'safe' (default) asks, 'plan' blocks, 'accept_edits' lets 'edit' tools through, 'ulw' runs everything */
+  approvalMode?: ApprovalMode;
 }
 
 /**
@@ -175,9 +421,20 @@ export interface LLM {
    * Complete a conversation with optional tool support
    * @param messages - Conversation history
    * @param tools - Available tools as function schemas
+   * @param options - Per-request options such as an AbortSignal
    * @returns Promise resolving to the LLM response
    */
-  complete(messages: Message[], tools?: FunctionSchema[]): Promise<LLMResponse>;
+  complete(messages: Message[], tools?: FunctionSchema[], options?: LLMCallOptions): Promise<LLMResponse>;
+
+  /**
+   * Optional: stream a completion as incremental chunks.
+   * Agents fall back to complete() when a provider does not implement this.
+   * @param messages - Conversation history
+   * @param tools - Available tools as function schemas
+   * @param options - Per-request options such as an AbortSignal
+   * @returns Async iterable ending with a single 'response' chunk
+   */
+  stream?(messages: Message[], tools?: FunctionSchema[], options?: LLMCallOptions): AsyncIterable<LLMStreamChunk>;
 
   /**
    * Generate structured output matching a schema.
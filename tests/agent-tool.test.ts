@@ -0,0 +1,255 @@
+/**
+ * Tests for sub-agent delegation: Agent and RemoteAgent as tools of another Agent
+ */
+
+import { Agent } from '../src/core/agent';
+import { agentAsTool } from '../src/tools/agent-tool';
+import { processTools } from '../src/tools/tool-utils';
+import { connect } from '../src/connect';
+import { LLM, LLMResponse, Message, FunctionSchema, TokenUsage } from '../src/types';
+
+class MockLLM implements LLM {
+  private callCount = 0;
+  calls: Message[][] = [];
+
+  constructor(private responses: LLMResponse[]) {}
+
+  async complete(messages: Message[], _tools?: FunctionSchema[]): Promise<LLMResponse> {
+    this.calls.push([...messages]);
+    return this.responses[this.callCount++] || { content: 'done', toolCalls: [], rawResponse: {} };
+  }
+
+  async structuredComplete<T = any>(_messages: Message[], _schema: any): Promise<T> {
+    throw new Error('Not implemented in MockLLM');
+  }
+}
+
+function usage(total: number): TokenUsage {
+  return { input_tokens: total / 2, output_tokens: total / 2, cached_tokens: 0, reasoning_tokens: 0, total_tokens: total };
+}
+
+function delegate(tool: string, task: string, id = 'call_1'): LLMResponse {
+  return { content: null, toolCalls: [{ name: tool, arguments: { task }, id }], rawResponse: {}, usage: usage(100) };
+}
+
+function makeResearcher() {
+  const search = function search(query: string) { return `results for ${query}`; };
+  const llm = new MockLLM([
+    { content: null, toolCalls: [{ name: 'search', arguments: { query: 'tides' }, id: 's1' }], rawResponse: {}, usage: usage(40) },
+    { content: 'Tides are caused by the moon.', toolCalls: [], rawResponse: {}, usage: usage(60) },
+  ]);
+  return { llm, agent: new Agent({ name: 'researcher', llm, tools: [search], log: false }) };
+}
+
+describe('agentAsTool', () => {
+  it('describes the sub-agent with a task parameter by default', () => {
+    const { agent } = makeResearcher();
+    const schema = agentAsTool(agent).toFunctionSchema();
+
+    expect(schema.name).toBe('researcher');
+    expect(schema.parameters.required).toEqual(['task']);
+  });
+
+  it('takes a custom name, description and input schema', async () => {
+    const { agent, llm } = makeResearcher();
+    const tool = agentAsTool(agent, {
+      name: 'ask_expert',
+      description: 'Answers science questions',
+      parameters: { type: 'object', properties: { question: { type: 'string' } }, required: ['question'] },
+      formatInput: args => `Question: ${args.question}`,
+    });
+
+    expect(tool.toFunctionSchema()).toMatchObject({ name: 'ask_expert', description: 'Answers science questions' });
+    await tool.run({ question: 'why tides?' }, { callId: 'c1', iteration: 1, agent: null });
+    expect(llm.calls[0].find(m => m.role === 'user')?.content).toBe('Question: why tides?');
+  });
+
+  it('wraps an Agent passed directly in tools instead of exposing its methods', () => {
+    const { agent } = makeResearcher();
+    const tools = processTools([agent]);
+
+    expect(tools.map(t => t.name)).toEqual(['researcher']);
+  });
+});
+
+describe('Agent delegation', () => {
+  it('returns the sub-agent answer and nests its trace under the call', async () => {
+    const { agent: researcher } = makeResearcher();
+    const parentLlm = new MockLLM([delegate('researcher', 'Why are there tides?'), { content: 'Because of the moon.', toolCalls: [], rawResponse: {} }]);
+    const writer = new Agent({ name: 'writer', llm: parentLlm, tools: [researcher], log: false });
+
+    const result = await writer.run('Explain tides');
+
+    expect(result.text).toBe('Because of the moon.');
+    const call = result.trace[0];
+    expect(call.tool_name).toBe('researcher');
+    expect(call.result).toBe('Tides are caused by the moon.');
+    expect(call.children?.map(c => c.tool_name)).toEqual(['search']);
+  });
+
+  it('counts the sub-agent usage toward the parent run and session', async () => {
+    const { agent: researcher } = makeResearcher();
+    const parentLlm = new MockLLM([delegate('researcher', 'tides'), { content: 'ok', toolCalls: [], rawResponse: {}, usage: usage(10) }]);
+    const writer = new Agent({ name: 'writer', llm: parentLlm, tools: [researcher], log: false });
+
+    const result = await writer.run('Explain tides');
+
+    // 100 + 10 for the parent's own calls, 40 + 60 for the researcher
+    expect(result.usage.total_tokens).toBe(210);
+    expect(writer.getUsage().session.total_tokens).toBe(210);
+  });
+
+  it('runs the sub-agent under what is left of the parent budget', async () => {
+    const { agent: researcher, llm } = makeResearcher();
+    const runSpy = jest.spyOn(researcher, 'run');
+    const parentLlm = new MockLLM([
+      delegate('researcher', 'tides'),
+      delegate('researcher', 'more tides', 'call_2'),
+      { content: 'never reached', toolCalls: [], rawResponse: {} },
+    ]);
+    const writer = new Agent({ name: 'writer', llm: parentLlm, tools: [researcher], budget: { maxTokens: 250, maxToolCalls: 10 }, log: false });
+
+    const result = await writer.run('Explain tides');
+
+    expect(runSpy.mock.calls[0][1]).toMatchObject({ budget: { maxTokens: 150, maxToolCalls: 9 } });
+    // 100 (parent) + 100 (researcher) + 100 (parent asks again) crosses 250
+    expect(result.status).toBe('budget_exceeded');
+    expect(llm.calls).toHaveLength(2);
+  });
+
+  it('keeps the sub-agent own tighter budget', async () => {
+    const search = function search() { return 'x'; };
+    const subLlm = new MockLLM([{ content: 'fine', toolCalls: [], rawResponse: {} }]);
+    const sub = new Agent({ name: 'sub', llm: subLlm, tools: [search], budget: { maxTokens: 50 }, log: false });
+    const runSpy = jest.spyOn(sub, 'run');
+    const writer = new Agent({
+      name: 'writer',
+      llm: new MockLLM([delegate('sub', 'go')]),
+      tools: [sub],
+      budget: { maxTokens: 1000 },
+      log: false,
+    });
+
+    await writer.run('go');
+
+    expect(runSpy.mock.calls[0][1]).toMatchObject({ budget: { maxTokens: 50 } });
+  });
+});
+
+describe('RemoteAgent delegation', () => {
+  class RemoteWS {
+    public onopen: ((ev?: unknown) => unknown) | null = null;
+    public onmessage: ((ev: { data: unknown }) => unknown) | null = null;
+    public onerror: ((ev: unknown) => unknown) | null = null;
+    public onclose: ((ev: unknown) => unknown) | null = null;
+
+    constructor(_url: string) {
+      setTimeout(() => this.onopen && this.onopen({}), 0);
+    }
+
+    send(data: unknown): void {
+      const msg = JSON.parse(String(data));
+      const emit = (event: Record<string, unknown>) => this.onmessage && this.onmessage({ data: JSON.stringify(event) });
+      if (msg.type === 'CONNECT') {
+        setTimeout(() => emit({ type: 'CONNECTED', session_id: 's1', status: 'new' }), 0);
+      } else if (msg.type === 'INPUT') {
+        setTimeout(() => {
+          emit({ type: 'llm_call', id: 'l1', model: 'gpt-4o' });
+          emit({ type: 'llm_result', id: 'l1', usage: { prompt_tokens: 30, completion_tokens: 20, total_tokens: 50, cost: 0.01 } });
+          emit({ type: 'tool_call', tool_id: 't1', name: 'lookup', args: { id: 7 } });
+          emit({ type: 'tool_result', tool_id: 't1', result: 'found', status: 'success' });
+          emit({ type: 'OUTPUT', input_id: msg.input_id, result: `remote: ${msg.prompt}`, session: {} });
+        }, 0);
+      }
+    }
+
+    close(): void {}
+  }
+
+  it('delegates over the connection and nests the remote tool calls', async () => {
+    const remote = connect('0xabc123', { relayUrl: 'ws://localhost:8000', wsCtor: RemoteWS as any });
+    const parentLlm = new MockLLM([delegate('helper', 'find order 7'), { content: 'done', toolCalls: [], rawResponse: {} }]);
+    const agent = new Agent({ name: 'parent', llm: parentLlm, tools: [agentAsTool(remote, { name: 'helper' })], log: false });
+
+    const result = await agent.run('go');
+
+    expect(result.trace[0].result).toBe('remote: find order 7');
+    expect(result.trace[0].children).toEqual([
+      expect.objectContaining({ tool_name: 'lookup', arguments: { id: 7 }, status: 'success', result: 'found' }),
+    ]);
+    expect(result.usage.total_tokens).toBe(150);
+    expect(result.usage.cost).toBeCloseTo(0.01);
+    remote.reset();
+  });
+
+  /** A host that starts working on INPUT (50 tokens, one tool call) and never answers */
+  function busyHost(sent: Array<Record<string, any>>) {
+    return class extends RemoteWS {
+      send(data: unknown): void {
+        const msg = JSON.parse(String(data));
+        sent.push(msg);
+        const emit = (event: Record<string, unknown>) => this.onmessage && this.onmessage({ data: JSON.stringify(event) });
+        if (msg.type === 'CONNECT') {
+          setTimeout(() => emit({ type: 'CONNECTED', session_id: 's1', status: 'new' }), 0);
+        } else if (msg.type === 'INPUT') {
+          setTimeout(() => {
+            emit({ type: 'llm_call', id: 'l1', model: 'gpt-4o' });
+            emit({ type: 'llm_result', id: 'l1', usage: { prompt_tokens: 30, completion_tokens: 20, total_tokens: 50 } });
+            emit({ type: 'tool_call', tool_id: 't1', name: 'crawl', args: { url: 'a' } });
+          }, 0);
+        }
+      }
+    };
+  }
+
+  it('cancels the remote run when the parent run is cancelled', async () => {
+    const sent: Array<Record<string, any>> = [];
+    const remote = connect('0xabc123', { relayUrl: 'ws://localhost:8000', wsCtor: busyHost(sent) as any });
+    remote.on('chatItemAdded', item => { if (item.type === 'tool_call') controller.abort(); });
+    const parentLlm = new MockLLM([delegate('helper', 'crawl everything')]);
+    const agent = new Agent({ name: 'parent', llm: parentLlm, tools: [agentAsTool(remote, { name: 'helper' })], log: false });
+    const controller = new AbortController();
+
+    const result = await agent.run('go', { signal: controller.signal });
+
+    expect(result.status).toBe('cancelled');
+    expect(sent.map(frame => frame.type)).toEqual(['CONNECT', 'INPUT', 'CANCEL']);
+    expect(remote.status).toBe('idle');
+    remote.reset();
+  });
+
+  it('cancels the remote run once it crosses the parent budget', async () => {
+    const sent: Array<Record<string, any>> = [];
+    const remote = connect('0xabc123', { relayUrl: 'ws://localhost:8000', wsCtor: busyHost(sent) as any });
+    const parentLlm = new MockLLM([delegate('helper', 'crawl everything'), { content: 'done', toolCalls: [], rawResponse: {} }]);
+    const agent = new Agent({ name: 'parent', llm: parentLlm, tools: [agentAsTool(remote, { name: 'helper' })], log: false });
+
+    // 100 tokens go to the parent's first call, leaving 40 for the remote run
+    const result = await agent.run('go', { budget: { maxTokens: 140 } });
+
+    expect(sent.map(frame => frame.type)).toEqual(['CONNECT', 'INPUT', 'CANCEL']);
+    expect(result.trace[0]).toMatchObject({ tool_name: 'helper', status: 'success', result: '' });
+    expect(result.usage.total_tokens).toBe(150);
+    remote.reset();
+  });
+
+  it('fails the call when the remote agent is offline and the task is only queued', async () => {
+    class Offline extends RemoteWS {
+      constructor(url: string) {
+        super(url);
+        setTimeout(() => this.onerror && this.onerror({}), 0);
+      }
+    }
+    const remote = connect('0xabc123', { relayUrl: 'ws://localhost:8000', wsCtor: Offline as any, outbox: true });
+    const parentLlm = new MockLLM([delegate('helper', 'find order 7')]);
+    const agent = new Agent({ name: 'parent', llm: parentLlm, tools: [agentAsTool(remote, { name: 'helper' })], log: false });
+
+    const result = await agent.run('go');
+
+    expect(result.trace[0]).toMatchObject({
+      status: 'error',
+      error: 'The remote agent is offline; the task was queued and will run when it reconnects',
+    });
+    remote.reset();
+  });
+});
@@ -110,7 +110,7 @@ describe('Agent', () => {
     expect(response).toBe('Final response after tool call');
   });
 
-  it('propagates tool errors (let it crash)', async () => {
+  it('returns tool errors to the LLM as error results', async () => {
     function errorTool(): string {
       throw new Error('Tool error');
     }
@@ -138,7 +138,78 @@ describe('Agent', () => {
       tools: [errorTool]
     });
 
-    await expect(agent.input('Use the error tool')).rejects.toThrow('Tool error');
+    const result = await agent.input('Use the error tool');
+
+    expect(result).toBe('Handled the error');
+    const toolMessage = agent.getSession().messages.find(m => m.role === 'tool');
+    expect(JSON.parse(toolMessage!.content)).toEqual({ status: 'error', error: 'Tool error', error_type: 'Error' });
+    expect(agent.getSession().trace[0]).toMatchObject({ status: 'error', error_type: 'Error', call_id: 'call_1' });
+  });
+
+  it('aborts the run on tool errors when onToolError is abort', async () => {
+    function errorTool(): string {
+      throw new Error('Tool error');
+    }
+    function okTool(): string {
+      return 'ok';
+    }
+
+    const mockLLM = new MockLLM([
+      {
+        content: null,
+        toolCalls: [
+          { name: 'errorTool', arguments: {}, id: 'call_1' },
+          { name: 'okTool', arguments: {}, id: 'call_2' }
+        ],
+        rawResponse: {}
+      }
+    ]);
+
+    const agent = new Agent({
+      name: 'test-agent',
+      llm: mockLLM,
+      tools: [errorTool, okTool],
+      onToolError: 'abort',
+      log: false
+    });
+
+    await expect(agent.input('Use the error tool')).rejects.toThrow("Tool 'errorTool' failed: Tool error");
+    const toolMessages = agent.getSession().messages.filter(m => m.role === 'tool');
+    expect(toolMessages.map(m => m.tool_call_id).sort()).toEqual(['call_1', 'call_2']);
+  });
+
+  it('retries failing tools when onToolError is retry', async () => {
+    let attempts = 0;
+    function flakyTool(): string {
+      attempts++;
+      if (attempts < 3) throw new Error('Temporary failure');
+      return 'recovered';
+    }
+
+    const mockLLM = new MockLLM([
+      {
+        content: null,
+        toolCalls: [{ name: 'flakyTool', arguments: {}, id: 'call_1' }],
+        rawResponse: {}
+      },
+      { content: 'Done', toolCalls: [], rawResponse: {} }
+    ]);
+
+    const agent = new Agent({
+      name: 'test-agent',
+      llm: mockLLM,
+      tools: [flakyTool],
+      onToolError: 'retry',
+      maxToolRetries: 2,
+      log: false
+    });
+
+    await agent.input('Use the flaky tool');
+
+    expect(attempts).toBe(3);
+    expect(agent.getSession().trace.map(t => t.status)).toEqual(['error', 'error', 'success']);
+    const toolMessage = agent.getSession().messages.find(m => m.role === 'tool');
+    expect(JSON.parse(toolMessage!.content)).toEqual({ status: 'success', result: 'recovered' });
   });
 
   it('should add and remove tools dynamically', () => {
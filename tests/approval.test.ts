@@ -0,0 +1,275 @@
+/**
+ * Tests for human-in-the-loop approval of local tools
+ */
+
+import { PassThrough } from 'stream';
+import { Agent } from '../src/core/agent';
+import { approvalGate, autoApprover, cliApprover, ApprovalRequest } from '../src/core/approval';
+import { withToolOptions } from '../src/tools/tool-utils';
+import { LLM, LLMResponse, Message, FunctionSchema } from '../src/types';
+
+class MockLLM implements LLM {
+  private callCount = 0;
+
+  constructor(private responses: LLMResponse[]) {}
+
+  async complete(_messages: Message[], _tools?: FunctionSchema[]): Promise<LLMResponse> {
+    return this.responses[this.callCount++] || { content: 'done', toolCalls: [], rawResponse: {} };
+  }
+
+  async structuredComplete<T = any>(_messages: Message[], _schema: any): Promise<T> {
+    throw new Error('Not implemented in MockLLM');
+  }
+}
+
+function callTool(name: string, args: Record<string, any> = {}, id = 'call_1'): LLMResponse {
+  return { content: null, toolCalls: [{ name, arguments: args, id }], rawResponse: {} };
+}
+
+function toolMessages(agent: Agent) {
+  return agent.getSession().messages.filter(m => m.role === 'tool').map(m => JSON.parse(m.content));
+}
+
+function makeTools(calls: string[]) {
+  const deleteFile = withToolOptions(function deleteFile(path: string) {
+    calls.push(`delete:${path}`);
+    return `deleted ${path}`;
+  }, { requiresApproval: true });
+  const writeFile = withToolOptions(function writeFile(path: string) {
+    calls.push(`write:${path}`);
+    return `wrote ${path}`;
+  }, { requiresApproval: 'edit' });
+  const readFile = function readFile(path: string) {
+    calls.push(`read:${path}`);
+    return 'contents';
+  };
+  return [deleteFile, writeFile, readFile];
+}
+
+describe('approvalGate', () => {
+  it('applies the mode semantics', () => {
+    expect(approvalGate(undefined, 'safe')).toBe('run');
+    expect(approvalGate(true, 'safe')).toBe('ask');
+    expect(approvalGate('edit', 'safe')).toBe('ask');
+    expect(approvalGate(true, 'plan')).toBe('block');
+    expect(approvalGate('edit', 'accept_edits')).toBe('run');
+    expect(approvalGate(true, 'accept_edits')).toBe('ask');
+    expect(approvalGate(true, 'ulw')).toBe('run');
+  });
+});
+
+describe('Agent approval', () => {
+  it('runs the tool once the approver approves', async () => {
+    const calls: string[] = [];
+    const requests: ApprovalRequest[] = [];
+    const agent = new Agent({
+      name: 'approval',
+      llm: new MockLLM([callTool('deleteFile', { path: 'a.txt' })]),
+      tools: makeTools(calls),
+      approver: (request) => { requests.push(request); return true; },
+      log: false,
+    });
+
+    await agent.input('delete a.txt');
+
+    expect(calls).toEqual(['delete:a.txt']);
+    expect(requests[0]).toMatchObject({ tool: 'deleteFile', arguments: { path: 'a.txt' }, callId: 'call_1', mode: 'safe' });
+  });
+
+  it('sends rejection feedback to the LLM and does not run the tool', async () => {
+    const calls: string[] = [];
+    const agent = new Agent({
+      name: 'approval',
+      llm: new MockLLM([callTool('deleteFile', { path: 'a.txt' })]),
+      tools: makeTools(calls),
+      approver: () => ({ approved: false, feedback: 'archive it instead' }),
+      log: false,
+    });
+
+    const result = await agent.run('delete a.txt');
+
+    expect(calls).toEqual([]);
+    expect(toolMessages(agent)).toEqual([
+      { status: 'error', error: "User rejected the call to 'deleteFile': archive it instead" },
+    ]);
+    expect(result.trace[0].status).toBe('rejected');
+  });
+
+  it('runs the tool with edited arguments', async () => {
+    const calls: string[] = [];
+    const agent = new Agent({
+      name: 'approval',
+      llm: new MockLLM([callTool('deleteFile', { path: 'important.txt' })]),
+      tools: makeTools(calls),
+      approver: () => ({ approved: true, args: { path: 'tmp.txt' } }),
+      log: false,
+    });
+
+    await agent.input('clean up');
+
+    expect(calls).toEqual(['delete:tmp.txt']);
+    expect(agent.getSession().trace[0].arguments).toEqual({ path: 'tmp.txt' });
+  });
+
+  it('never asks about tools without requiresApproval', async () => {
+    const calls: string[] = [];
+    const approver = jest.fn(() => false);
+    const agent = new Agent({
+      name: 'approval',
+      llm: new MockLLM([callTool('readFile', { path: 'a.txt' })]),
+      tools: makeTools(calls),
+      approver,
+      log: false,
+    });
+
+    await agent.input('read a.txt');
+
+    expect(calls).toEqual(['read:a.txt']);
+    expect(approver).not.toHaveBeenCalled();
+  });
+
+  it('blocks approval tools in plan mode without asking', async () => {
+    const calls: string[] = [];
+    const approver = jest.fn(() => true);
+    const agent = new Agent({
+      name: 'approval',
+      llm: new MockLLM([callTool('writeFile', { path: 'a.txt' })]),
+      tools: makeTools(calls),
+      approver,
+      approvalMode: 'plan',
+      log: false,
+    });
+
+    await agent.input('edit a.txt');
+
+    expect(calls).toEqual([]);
+    expect(approver).not.toHaveBeenCalled();
+    expect(toolMessages(agent)[0].error).toContain('Plan mode is on');
+  });
+
+  it('lets edit tools through in accept_edits mode but still asks for the rest', async () => {
+    const calls: string[] = [];
+    const approver = jest.fn(() => false);
+    const llm = new MockLLM([
+      { content: null, toolCalls: [
+        { name: 'writeFile', arguments: { path: 'a.txt' }, id: 'c1' },
+        { name: 'deleteFile', arguments: { path: 'b.txt' }, id: 'c2' },
+      ], rawResponse: {} },
+    ]);
+    const agent = new Agent({ name: 'approval', llm, tools: makeTools(calls), approver, log: false });
+    agent.setApprovalMode('accept_edits');
+
+    await agent.input('edit and delete');
+
+    expect(calls).toEqual(['write:a.txt']);
+    expect(approver).toHaveBeenCalledTimes(1);
+    expect(agent.getApprovalMode()).toBe('accept_edits');
+  });
+
+  it('runs everything in ulw mode', async () => {
+    const calls: string[] = [];
+    const agent = new Agent({
+      name: 'approval',
+      llm: new MockLLM([callTool('deleteFile', { path: 'a.txt' })]),
+      tools: makeTools(calls),
+      approver: () => false,
+      approvalMode: 'ulw',
+      log: false,
+    });
+
+    await agent.input('delete a.txt');
+
+    expect(calls).toEqual(['delete:a.txt']);
+  });
+
+  it('asks one question at a time for parallel calls', async () => {
+    const calls: string[] = [];
+    let open = 0;
+    let peak = 0;
+    const llm = new MockLLM([
+      { content: null, toolCalls: [
+        { name: 'deleteFile', arguments: { path: 'a' }, id: 'c1' },
+        { name: 'deleteFile', arguments: { path: 'b' }, id: 'c2' },
+      ], rawResponse: {} },
+    ]);
+    const agent = new Agent({
+      name: 'approval',
+      llm,
+      tools: makeTools(calls),
+      approver: async () => {
+        peak = Math.max(peak, ++open);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        open--;
+        return true;
+      },
+      log: false,
+    });
+
+    await agent.input('delete both');
+
+    expect(peak).toBe(1);
+    expect(calls.sort()).toEqual(['delete:a', 'delete:b']);
+  });
+
+  it('fails only the call whose approver throws', async () => {
+    class ApprovalServiceError extends Error {}
+    const calls: string[] = [];
+    const llm = new MockLLM([
+      { content: null, toolCalls: [
+        { name: 'deleteFile', arguments: { path: 'a' }, id: 'c1' },
+        { name: 'readFile', arguments: { path: 'b' }, id: 'c2' },
+      ], rawResponse: {} },
+      { content: 'Could not delete a', toolCalls: [], rawResponse: {} },
+    ]);
+    const agent = new Agent({
+      name: 'approval',
+      llm,
+      tools: makeTools(calls),
+      approver: () => { throw new ApprovalServiceError('approval service unreachable'); },
+      log: false,
+    });
+
+    const result = await agent.run('delete a, read b');
+
+    expect(result.status).toBe('completed');
+    expect(calls).toEqual(['read:b']);
+    expect(toolMessages(agent)[0]).toEqual({ status: 'error', error: 'approval service unreachable', error_type: 'ApprovalServiceError' });
+    expect(result.trace[0]).toMatchObject({ tool_name: 'deleteFile', status: 'error', error_type: 'ApprovalServiceError' });
+  });
+});
+
+describe('built-in approvers', () => {
+  const request: ApprovalRequest = {
+    tool: 'deleteFile', arguments: { path: 'tmp/x' }, description: '', callId: 'c1', iteration: 1, mode: 'safe',
+  };
+
+  it('autoApprover applies the first matching rule, then the fallback', async () => {
+    const approver = autoApprover([
+      { tool: 'deleteFile', when: args => args.path.startsWith('tmp/'), decision: 'approve' },
+      { tool: /^delete/, decision: 'reject', feedback: 'no deleting' },
+    ]);
+
+    expect(await approver(request)).toEqual({ approved: true });
+    expect(await approver({ ...request, arguments: { path: 'src/x' } })).toEqual({ approved: false, feedback: 'no deleting' });
+    expect(await approver({ ...request, tool: 'other' })).toMatchObject({ approved: false });
+  });
+
+  it('cliApprover reads the answer, feedback and edited args from the terminal', async () => {
+    const ask = async (lines: string[]) => {
+      const input = new PassThrough();
+      const output = new PassThrough();
+      output.resume();
+      const pending = cliApprover({ input, output })(request);
+      for (const line of lines) {
+        // Answer each prompt after it is asked, like a person at the terminal
+        await new Promise(resolve => setTimeout(resolve, 5));
+        input.write(`${line}\n`);
+      }
+      return pending;
+    };
+
+    expect(await ask(['y'])).toEqual({ approved: true });
+    expect(await ask(['n', 'use trash instead'])).toEqual({ approved: false, feedback: 'use trash instead' });
+    expect(await ask(['e', '{"path":"tmp/y"}'])).toEqual({ approved: true, args: { path: 'tmp/y' } });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for per-run budget limits
+ */
+
+import { Agent } from '../src/core/agent';
+import { createToolFromFunction } from '../src/tools/tool-utils';
+import { AgentStreamEvent, LLM, LLMResponse, Message, FunctionSchema, TokenUsage } from '../src/types';
+
+class MockLLM implements LLM {
+  private callCount = 0;
+  public model = 'mock';
+
+  constructor(private responses: LLMResponse[]) {}
+
+  async complete(_messages: Message[], _tools?: FunctionSchema[]): Promise<LLMResponse> {
+    return this.responses[this.callCount++] || { content: 'Default response', toolCalls: [], rawResponse: {} };
+  }
+
+  async structuredComplete<T = any>(_messages: Message[], _schema: any): Promise<T> {
+    throw new Error('Not implemented in MockLLM');
+  }
+}
+
+function usage(total: number): TokenUsage {
+  return { input_tokens: total, output_tokens: 0, cached_tokens: 0, reasoning_tokens: 0, total_tokens: total };
+}
+
+function toolTurn(content: string | null, id: string, tokens = 0): LLMResponse {
+  return { content, toolCalls: [{ name: 'search', arguments: { q: id }, id }], rawResponse: {}, usage: usage(tokens) };
+}
+
+function search(q: string): string {
+  return `results for ${q}`;
+}
+
+async function collect(iter: AsyncIterable<AgentStreamEvent>): Promise<AgentStreamEvent[]> {
+  const events: AgentStreamEvent[] = [];
+  for await (const e of iter) events.push(e);
+  return events;
+}
+
+describe('Agent budgets', () => {
+  it('stops on the token ceiling with the latest text as a partial answer', async () => {
+    const llm = new MockLLM([
+      toolTurn('Looking into it', 'call_1', 600),
+      toolTurn('Found part of it', 'call_2', 600),
+      { content: 'never reached', toolCalls: [], rawResponse: {} },
+    ]);
+    const agent = new Agent({ name: 'budget', llm, tools: [search], budget: { maxTokens: 1000 }, log: false });
+
+    const events = await collect(agent.stream('research'));
+
+    const stop = events.find(e => e.type === 'budget_exceeded');
+    expect(stop).toMatchObject({ limit: 'tokens', max: 1000, used: 1200 });
+    expect(events[events.length - 1]).toEqual({ type: 'complete', content: 'Found part of it' });
+    const toolMessages = agent.getSession().messages.filter(m => m.role === 'tool');
+    expect(toolMessages.map(m => m.tool_call_id)).toEqual(['call_1', 'call_2']);
+    expect(JSON.parse(toolMessages[1].content).error).toContain('token budget exceeded');
+  });
+
+  it('refuses a tool batch that would cross the tool-call ceiling', async () => {
+    const llm = new MockLLM([
+      toolTurn(null, 'call_1'),
+      toolTurn('Second search', 'call_2'),
+    ]);
+    let runs = 0;
+    const counted = { ...createToolFromFunction(search), run: (args: Record<string, any>) => { runs++; return search(args.q); } };
+    const agent = new Agent({ name: 'budget', llm, tools: [counted], log: false });
+
+    const result = await agent.input('research', { budget: { maxToolCalls: 1 } });
+
+    expect(runs).toBe(1);
+    expect(result).toBe('Second search');
+  });
+
+  it('stops a run stuck in a tool at the wall-time ceiling', async () => {
+    const hang = {
+      ...createToolFromFunction(function hang() { return ''; }),
+      run: () => new Promise(() => { /* never settles */ }),
+    };
+    const llm = new MockLLM([{ content: 'Starting', toolCalls: [{ name: 'hang', arguments: {}, id: 'call_1' }], rawResponse: {} }]);
+    const agent = new Agent({ name: 'budget', llm, tools: [hang], budget: { maxDurationMs: 20 }, log: false });
+
+    const events = await collect(agent.stream('go'));
+
+    expect(events.find(e => e.type === 'budget_exceeded')).toMatchObject({ limit: 'time', max: 20 });
+    expect(events[events.length - 1]).toEqual({ type: 'complete', content: 'Starting' });
+    const toolMessage = agent.getSession().messages.find(m => m.role === 'tool');
+    expect(JSON.parse(toolMessage!.content).status).toBe('error');
+  });
+
+  it('accepts a final answer even when its call crossed the ceiling', async () => {
+    const llm = new MockLLM([{ content: 'Done', toolCalls: [], rawResponse: {}, usage: usage(5000) }]);
+    const agent = new Agent({ name: 'budget', llm, budget: { maxTokens: 100, maxCost: 0.000001 }, log: false });
+
+    const events = await collect(agent.stream('go'));
+
+    expect(events.some(e => e.type === 'budget_exceeded')).toBe(false);
+    expect(events[events.length - 1]).toEqual({ type: 'complete', content: 'Done' });
+  });
+});
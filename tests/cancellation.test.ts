@@ -0,0 +1,152 @@
+/**
+ * Tests for cancelling agent runs with AbortSignal
+ */
+
+import { Agent } from '../src/core/agent';
+import { AgentCancelledError } from '../src/core/abort';
+import { createToolFromFunction, withToolOptions } from '../src/tools/tool-utils';
+import { LLM, LLMCallOptions, LLMResponse, Message, FunctionSchema, ToolContext } from '../src/types';
+
+class MockLLM implements LLM {
+  private callCount = 0;
+  public signals: Array<AbortSignal | undefined> = [];
+
+  constructor(private responses: LLMResponse[]) {}
+
+  async complete(_messages: Message[], _tools?: FunctionSchema[], options?: LLMCallOptions): Promise<LLMResponse> {
+    this.signals.push(options?.signal);
+    return this.responses[this.callCount++] || { content: 'Default response', toolCalls: [], rawResponse: {} };
+  }
+
+  async structuredComplete<T = any>(_messages: Message[], _schema: any): Promise<T> {
+    throw new Error('Not implemented in MockLLM');
+  }
+}
+
+describe('Agent cancellation', () => {
+  it('rejects immediately with AgentCancelledError when already aborted', async () => {
+    const llm = new MockLLM([]);
+    const agent = new Agent({ name: 'cancel', llm, log: false });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(agent.input('hi', { signal: controller.signal })).rejects.toBeInstanceOf(AgentCancelledError);
+    expect(llm.signals).toHaveLength(0);
+  });
+
+  it('forwards the signal to the provider request', async () => {
+    const llm = new MockLLM([{ content: 'ok', toolCalls: [], rawResponse: {} }]);
+    const agent = new Agent({ name: 'cancel', llm, log: false });
+    const controller = new AbortController();
+
+    await agent.input('hi', { signal: controller.signal, maxIterations: 2 });
+
+    expect(llm.signals[0]).toBe(controller.signal);
+  });
+
+  it('stops waiting on a hung LLM call when aborted', async () => {
+    const llm: LLM = {
+      complete: () => new Promise<LLMResponse>(() => { /* never settles */ }),
+      structuredComplete: async () => ({}) as any,
+    };
+    const agent = new Agent({ name: 'cancel', llm, log: false });
+    const controller = new AbortController();
+
+    const run = agent.input('hi', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(run).rejects.toBeInstanceOf(AgentCancelledError);
+  });
+
+  it('hands the signal to tools and answers every pending tool call', async () => {
+    let seen: AbortSignal | undefined;
+    const slow = {
+      ...createToolFromFunction(function slow() { return ''; }),
+      run: (_args: Record<string, any>, context?: ToolContext) => {
+        seen = context?.signal;
+        return new Promise(() => { /* ignores cancellation */ });
+      },
+    };
+    const llm = new MockLLM([{
+      content: null,
+      toolCalls: [{ name: 'slow', arguments: {}, id: 'call_1' }, { name: 'slow', arguments: {}, id: 'call_2' }],
+      rawResponse: {},
+    }]);
+    const agent = new Agent({ name: 'cancel', llm, tools: [slow], log: false });
+    const controller = new AbortController();
+
+    const run = agent.input('go', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(run).rejects.toBeInstanceOf(AgentCancelledError);
+    expect(seen).toBe(controller.signal);
+    const messages = agent.getSession().messages;
+    const toolMessages = messages.filter(m => m.role === 'tool');
+    expect(toolMessages.map(m => m.tool_call_id)).toEqual(['call_1', 'call_2']);
+    expect(JSON.parse(toolMessages[0].content).status).toBe('error');
+  });
+
+  it('answers a cancelled call whose id an earlier turn already used', async () => {
+    const quick = createToolFromFunction(function quick() { return 'done'; });
+    const slow = {
+      ...createToolFromFunction(function slow() { return ''; }),
+      run: () => new Promise(() => { /* ignores cancellation */ }),
+    };
+    // Gemini numbers calls fc_0, fc_1, ... again on every turn
+    const llm = new MockLLM([
+      { content: null, toolCalls: [{ name: 'quick', arguments: {}, id: 'fc_0' }], rawResponse: {} },
+      { content: null, toolCalls: [{ name: 'slow', arguments: {}, id: 'fc_0' }], rawResponse: {} },
+    ]);
+    const agent = new Agent({ name: 'cancel', llm, tools: [quick, slow], log: false });
+    const controller = new AbortController();
+
+    const run = agent.input('go', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(run).rejects.toBeInstanceOf(AgentCancelledError);
+    const messages = agent.getSession().messages;
+    expect(messages.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'tool', 'assistant', 'tool']);
+    expect(messages[5]).toMatchObject({ tool_call_id: 'fc_0' });
+    expect(JSON.parse(messages[5].content)).toEqual({ status: 'error', error: 'Cancelled before the tool finished' });
+  });
+
+  it('converts a provider abort error into AgentCancelledError', async () => {
+    const llm: LLM = {
+      complete: (_m, _t, options) => new Promise<LLMResponse>((_resolve, reject) => {
+        options?.signal?.addEventListener('abort', () => reject(new Error('Request was aborted.')));
+      }),
+      structuredComplete: async () => ({}) as any,
+    };
+    const agent = new Agent({ name: 'cancel', llm, log: false });
+    const controller = new AbortController();
+
+    const run = agent.input('hi', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(run).rejects.toBeInstanceOf(AgentCancelledError);
+  });
+});
+
+describe('ToolContext for function tools', () => {
+  it('passes context to the last parameter of an opted-in function and hides it from the schema', () => {
+    function fetchPage(url: string, ctx?: ToolContext): string {
+      return `${url}:${ctx?.callId}`;
+    }
+
+    const tool = createToolFromFunction(withToolOptions(fetchPage, { context: true }));
+
+    expect(Object.keys(tool.toFunctionSchema().parameters.properties)).toEqual(['url']);
+    expect(tool.run({ url: 'a' }, { callId: 'c1', iteration: 1, agent: null })).toBe('a:c1');
+  });
+
+  it('treats a parameter named `context` as an LLM argument without the opt-in', () => {
+    function summarize(text: string, context: string): string {
+      return `${text} (${context})`;
+    }
+
+    const tool = createToolFromFunction(summarize);
+
+    expect(tool.toFunctionSchema().parameters).toMatchObject({ properties: { text: {}, context: {} }, required: ['text', 'context'] });
+    expect(tool.run({ text: 'Q3 report', context: 'for the board' }, { callId: 'c1', iteration: 1, agent: null })).toBe('Q3 report (for the board)');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Tests for tool-call concurrency: parallelism cap, sequential tools and mutex groups
+ */
+
+import { Agent } from '../src/core/agent';
+import { runScheduled } from '../src/core/scheduler';
+import { withToolOptions, createToolFromFunction } from '../src/tools/tool-utils';
+import { LLM, LLMResponse, Message, FunctionSchema, ToolCall } from '../src/types';
+
+class MockLLM implements LLM {
+  private callCount = 0;
+
+  constructor(private responses: LLMResponse[]) {}
+
+  async complete(_messages: Message[], _tools?: FunctionSchema[]): Promise<LLMResponse> {
+    return this.responses[this.callCount++] || { content: 'done', toolCalls: [], rawResponse: {} };
+  }
+
+  async structuredComplete<T = any>(_messages: Message[], _schema: any): Promise<T> {
+    throw new Error('Not implemented in MockLLM');
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Records start/end events so tests can check what overlapped
+function tracked(log: string[], name: string, ms: number) {
+  return async () => {
+    log.push(`start:${name}`);
+    await sleep(ms);
+    log.push(`end:${name}`);
+    return name;
+  };
+}
+
+describe('runScheduled', () => {
+  it('caps parallelism and returns results in call order', async () => {
+    const log: string[] = [];
+    let inFlight = 0;
+    let peak = 0;
+    const task = (name: string, ms: number) => ({
+      run: async () => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        const value = await tracked(log, name, ms)();
+        inFlight--;
+        return value;
+      },
+    });
+
+    const results = await runScheduled([task('a', 30), task('b', 5), task('c', 5)], 2);
+
+    expect(results).toEqual(['a', 'b', 'c']);
+    expect(peak).toBe(2);
+  });
+
+  it('never overlaps tasks of one group but lets other tasks pass', async () => {
+    const log: string[] = [];
+
+    await runScheduled([
+      { run: tracked(log, 'w1', 20), group: 'file' },
+      { run: tracked(log, 'w2', 5), group: 'file' },
+      { run: tracked(log, 'r', 5) },
+    ]);
+
+    expect(log.indexOf('start:r')).toBeLessThan(log.indexOf('end:w1'));
+    expect(log.indexOf('start:w2')).toBeGreaterThan(log.indexOf('end:w1'));
+  });
+
+  it('runs exclusive tasks alone, after earlier tasks and before later ones', async () => {
+    const log: string[] = [];
+
+    await runScheduled([
+      { run: tracked(log, 'a', 10) },
+      { run: tracked(log, 'x', 5), exclusive: true },
+      { run: tracked(log, 'b', 5) },
+    ]);
+
+    expect(log).toEqual(['start:a', 'end:a', 'start:x', 'end:x', 'start:b', 'end:b']);
+  });
+});
+
+describe('Agent tool concurrency', () => {
+  function batch(calls: Array<[string, string]>): LLMResponse {
+    const toolCalls: ToolCall[] = calls.map(([name, id]) => ({ name, arguments: {}, id }));
+    return { content: null, toolCalls, rawResponse: {} };
+  }
+
+  it('serializes tools sharing a group and keeps tool messages in call order', async () => {
+    const log: string[] = [];
+    const slowWrite = withToolOptions(async function slowWrite() { return tracked(log, 'slow', 20)(); }, { group: 'store' });
+    const fastWrite = withToolOptions(async function fastWrite() { return tracked(log, 'fast', 1)(); }, { group: 'store' });
+    const llm = new MockLLM([batch([['slowWrite', 'call_1'], ['fastWrite', 'call_2']])]);
+    const agent = new Agent({ name: 'conc', llm, tools: [slowWrite, fastWrite], log: false });
+
+    await agent.input('write twice');
+
+    expect(log).toEqual(['start:slow', 'end:slow', 'start:fast', 'end:fast']);
+    const toolMessages = agent.getSession().messages.filter(m => m.role === 'tool');
+    expect(toolMessages.map(m => m.tool_call_id)).toEqual(['call_1', 'call_2']);
+  });
+
+  it('honours maxParallelTools and the sequential flag on Tool objects', async () => {
+    const log: string[] = [];
+    const read = { ...createToolFromFunction(function read() { return ''; }), run: tracked(log, 'read', 5) };
+    const migrate = { ...createToolFromFunction(function migrate() { return ''; }), run: tracked(log, 'migrate', 5), sequential: true };
+    const llm = new MockLLM([batch([['read', 'c1'], ['migrate', 'c2'], ['read', 'c3']])]);
+    const agent = new Agent({ name: 'conc', llm, tools: [read, migrate], maxParallelTools: 4, log: false });
+
+    await agent.input('go');
+
+    expect(log).toEqual(['start:read', 'end:read', 'start:migrate', 'end:migrate', 'start:read', 'end:read']);
+  });
+});
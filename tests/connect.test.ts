@@ -13,9 +13,21 @@
  * - Timeout and error handling with fallback
  */
 
-import { connect, RemoteAgent } from '../src/connect';
+import { connect as openAgent, RemoteAgent } from '../src/connect';
 import * as address from '../src/address';
 
+/** Agents the running test opened: reset after it, so no socket or ping monitor outlives the test */
+const opened: RemoteAgent[] = [];
+const connect: typeof openAgent = (...args) => {
+  const agent = openAgent(...args);
+  opened.push(agent);
+  return agent;
+};
+
+afterEach(() => {
+  for (const agent of opened.splice(0)) agent.reset();
+});
+
 // Mock WebSocket that handles INIT → CONNECTED → INPUT → OUTPUT protocol
 class MockWebSocket {
   public onopen: ((ev?: unknown) => unknown) | null = null;
@@ -1599,10 +1611,12 @@ describe('connect() concurrency and failure handling', () => {
 
     agent.reset();
 
+    let timer: ReturnType<typeof setTimeout> | undefined;
     const outcome = await Promise.race([
       agent.connect().then(() => 'settled', () => 'settled'),
-      new Promise((r) => setTimeout(() => r('hung'), 500)),
+      new Promise((r) => { timer = setTimeout(() => r('hung'), 500); }),
     ]);
+    clearTimeout(timer);
     expect(outcome).toBe('settled');
     agent.reset();
   });
@@ -1732,3 +1746,68 @@ describe('AGENT_PROFILE', () => {
     agent.reset();
   });
 });
+
+describe('cancel()', () => {
+  // Host that starts a tool and then waits, recording what the client sends
+  class BusyWS extends MockWebSocket {
+    static sent: any[] = [];
+    send(data: unknown): void {
+      const msg = JSON.parse(String(data));
+      BusyWS.sent.push(msg);
+      if (msg.type === 'CONNECT') {
+        setTimeout(() => this.onmessage && this.onmessage({
+          data: JSON.stringify({ type: 'CONNECTED', session_id: 's', status: 'new' })
+        }), 0);
+      } else if (msg.type === 'INPUT' && msg.prompt === 'slow') {
+        setTimeout(() => this.onmessage && this.onmessage({
+          data: JSON.stringify({ type: 'tool_call', tool_id: 't1', name: 'crawl', args: {} })
+        }), 0);
+      } else if (msg.type === 'INPUT') {
+        setTimeout(() => this.onmessage && this.onmessage({
+          data: JSON.stringify({ type: 'OUTPUT', input_id: msg.input_id, result: `Echo: ${msg.prompt}` })
+        }), 5);
+      }
+    }
+  }
+
+  beforeEach(() => { BusyWS.sent = []; });
+
+  it('sends CANCEL, resolves the pending input as cancelled and stops running items', async () => {
+    const agent = connect('0xabc123', { relayUrl: 'ws://localhost:8000', wsCtor: BusyWS as any });
+    const pending = agent.input('slow');
+    await new Promise((r) => setTimeout(r, 10));
+
+    agent.cancel();
+
+    expect(await pending).toEqual({ text: '', done: true, cancelled: true });
+    expect(agent.status).toBe('idle');
+    expect(agent.ui.find(item => item.type === 'tool_call')).toMatchObject({ status: 'stopped' });
+    const input = BusyWS.sent.find(msg => msg.type === 'INPUT');
+    expect(BusyWS.sent.find(msg => msg.type === 'CANCEL')).toEqual({ type: 'CANCEL', input_id: input.input_id, to: '0xabc123' });
+    agent.reset();
+  });
+
+  it('does not let a late CANCELLED settle the next input', async () => {
+    const agent = connect('0xabc123', { relayUrl: 'ws://localhost:8000', wsCtor: BusyWS as any });
+    const first = agent.input('slow');
+    await new Promise((r) => setTimeout(r, 10));
+    const firstId = BusyWS.sent.find(msg => msg.type === 'INPUT').input_id;
+    agent.stop();
+    await first;
+
+    const second = agent.input('hello');
+    (agent as any)._handleMessage({ data: JSON.stringify({ type: 'CANCELLED', input_id: firstId }) });
+
+    expect(await second).toEqual({ text: 'Echo: hello', done: true });
+    agent.reset();
+  });
+
+  it('is a no-op when nothing is running', () => {
+    const agent = connect('0xabc123', { relayUrl: 'ws://localhost:8000', wsCtor: BusyWS as any });
+
+    agent.cancel();
+
+    expect(BusyWS.sent).toEqual([]);
+    expect(agent.ui).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Tests for context-window management and compaction
+ */
+
+import { Agent } from '../src/core/agent';
+import { ContextManager, SUMMARY_HEADER, estimateTokens } from '../src/core/context';
+import { AgentStreamEvent, LLM, LLMResponse, Message, FunctionSchema } from '../src/types';
+
+// Answers summary requests with a fixed summary and everything else from a script
+class MockLLM implements LLM {
+  private callCount = 0;
+  public summaryRequests: Message[][] = [];
+
+  constructor(private responses: LLMResponse[], private summary: string | Error = 'They discussed alpha and beta.') {}
+
+  async complete(messages: Message[], _tools?: FunctionSchema[]): Promise<LLMResponse> {
+    if (messages[0].content.startsWith('Summarize this conversation')) {
+      this.summaryRequests.push(messages);
+      if (this.summary instanceof Error) throw this.summary;
+      return { content: this.summary, toolCalls: [], rawResponse: {} };
+    }
+    return this.responses[this.callCount++] || { content: 'ok', toolCalls: [], rawResponse: {} };
+  }
+
+  async structuredComplete<T = any>(_messages: Message[], _schema: any): Promise<T> {
+    throw new Error('Not implemented in MockLLM');
+  }
+}
+
+async function collect(iter: AsyncIterable<AgentStreamEvent>): Promise<AgentStreamEvent[]> {
+  const events: AgentStreamEvent[] = [];
+  for await (const e of iter) events.push(e);
+  return events;
+}
+
+function lookup(topic: string): string {
+  return `${topic}: ${'details '.repeat(40)}`;
+}
+
+function assertNoOrphans(messages: Message[]): void {
+  const called = new Set(messages.flatMap(m => (m.tool_calls || []).map(tc => tc.id)));
+  const answered = new Set(messages.filter(m => m.role === 'tool').map(m => m.tool_call_id));
+  expect([...answered].sort()).toEqual([...called].sort());
+}
+
+describe('ContextManager', () => {
+  it('estimates fewer characters per token for Claude', () => {
+    const messages: Message[] = [{ role: 'user', content: 'x'.repeat(700) }];
+    expect(estimateTokens(messages, 'claude-3-5-sonnet')).toBeGreaterThan(estimateTokens(messages, 'gpt-4o'));
+  });
+
+  it('truncates oversized tool results before anything else', async () => {
+    const manager = new ContextManager({ maxTokens: 1000, maxToolResultChars: 100 });
+    const messages: Message[] = [
+      { role: 'system', content: 'sys' },
+      { role: 'user', content: 'go' },
+      { role: 'assistant', content: '', tool_calls: [{ id: 'c1', name: 'dump', arguments: {} }] },
+      { role: 'tool', content: 'y'.repeat(5000), tool_call_id: 'c1' },
+    ];
+    const summarize = jest.fn();
+
+    const result = await manager.compact(messages, 'gpt-4o', summarize);
+
+    expect(result.messages[3].content).toContain('[truncated 4900 characters]');
+    expect(result.after).toBeLessThan(result.before);
+    expect(summarize).not.toHaveBeenCalled();
+  });
+});
+
+describe('Agent context compaction', () => {
+  it('summarizes older turns through its own LLM without orphaning tool results', async () => {
+    const llm = new MockLLM([
+      { content: null, toolCalls: [{ name: 'lookup', arguments: { topic: 'alpha' }, id: 'call_1' }], rawResponse: {} },
+      { content: 'Alpha is covered. ' + 'a'.repeat(700), toolCalls: [], rawResponse: {} },
+      { content: 'Beta is covered. ' + 'b'.repeat(700), toolCalls: [], rawResponse: {} },
+      { content: 'Gamma answer', toolCalls: [], rawResponse: {} },
+    ]);
+    const agent = new Agent({ name: 'ctx', llm, tools: [lookup], context: { maxTokens: 300, keepRecentTurns: 1 }, log: false });
+
+    const events = [
+      ...await collect(agent.stream('Tell me about alpha')),
+      ...await collect(agent.stream('Tell me about beta')),
+      ...await collect(agent.stream('Tell me about gamma')),
+    ];
+
+    const statuses = events.flatMap(e => (e.type === 'compact' ? [e.status] : []));
+    expect(statuses.length).toBeGreaterThan(0);
+    expect(statuses.filter(s => s === 'compacting').length).toBe(statuses.filter(s => s === 'done').length);
+    expect(llm.summaryRequests[0][1].content).toContain('Tell me about alpha');
+
+    const messages = agent.getSession().messages;
+    expect(messages[1]).toEqual({ role: 'system', content: `${SUMMARY_HEADER}\nThey discussed alpha and beta.` });
+    expect(messages.filter(m => m.role === 'user').map(m => m.content)).toEqual(['Tell me about gamma']);
+    assertNoOrphans(messages);
+    expect(events[events.length - 1]).toEqual({ type: 'complete', content: 'Gamma answer' });
+  });
+
+  it('reports a failed summary and keeps running', async () => {
+    const llm = new MockLLM([
+      { content: 'First ' + 'a'.repeat(600), toolCalls: [], rawResponse: {} },
+      { content: 'Second', toolCalls: [], rawResponse: {} },
+    ], new Error('summary model down'));
+    const agent = new Agent({ name: 'ctx', llm, context: { maxTokens: 150, keepRecentTurns: 1 }, log: false });
+
+    await agent.input('one');
+    const events = await collect(agent.stream('two'));
+
+    expect(events.find(e => e.type === 'compact' && e.status === 'error')).toMatchObject({ error: 'summary model down' });
+    expect(events[events.length - 1]).toEqual({ type: 'complete', content: 'Second' });
+  });
+
+  it('can be turned off', async () => {
+    const llm = new MockLLM([{ content: 'x'.repeat(10_000), toolCalls: [], rawResponse: {} }]);
+    const agent = new Agent({ name: 'ctx', llm, context: false, log: false });
+
+    await agent.input('one');
+    const events = await collect(agent.stream('two'));
+
+    expect(events.some(e => e.type === 'compact')).toBe(false);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Tests for RemoteAgent conversations: several sessions with one agent address,
+ * each with its own transcript and mode, saved together and fetched from the host.
+ */
+
+import { Agent } from '../src/core/agent';
+import { serve, AgentServer } from '../src/host/serve';
+import { connect as openAgent, memoryStorage, RemoteAgent, StorageAdapter } from '../src/connect';
+import * as address from '../src/address';
+import { LLM, LLMResponse } from '../src/types';
+
+/** Agents the running test opened: reset after it, so no socket or ping monitor outlives the test */
+const opened: RemoteAgent[] = [];
+const connect: typeof openAgent = (...args) => {
+  const agent = openAgent(...args);
+  opened.push(agent);
+  return agent;
+};
+
+afterEach(() => {
+  for (const agent of opened.splice(0)) agent.reset();
+});
+
+type Frame = Record<string, any>;
+
+/**
+ * Mock WebSocket for a host that opens s1, s2, ... for each CONNECT without a
+ * session_id and answers INPUT with "re: <prompt>". Every frame sent is in `sent`.
+ */
+function mockHost() {
+  const sent: Frame[] = [];
+  let sessions = 0;
+  class Socket {
+    onopen: ((ev?: unknown) => unknown) | null = null;
+    onmessage: ((ev: { data: unknown }) => unknown) | null = null;
+    onerror: ((ev: unknown) => unknown) | null = null;
+    onclose: ((ev: unknown) => unknown) | null = null;
+    private sessionId = '';
+
+    constructor(_url: string) {
+      setTimeout(() => this.onopen?.({}), 0);
+    }
+
+    send(data: unknown): void {
+      const msg = JSON.parse(String(data));
+      sent.push(msg);
+      if (msg.type === 'CONNECT') {
+        this.sessionId = msg.session_id || `s${++sessions}`;
+        this.reply({ type: 'CONNECTED', session_id: this.sessionId, status: msg.session_id ? 'connected' : 'new' });
+      }
+      if (msg.type === 'INPUT') {
+        this.reply({ type: 'OUTPUT', input_id: msg.input_id, result: `re: ${msg.prompt}`, session: { session_id: this.sessionId } });
+      }
+      if (msg.type === 'SESSION_STATUS') {
+        this.reply({ type: 'SESSION_STATUS', session_id: msg.session.session_id, status: 'connected' });
+      }
+    }
+
+    close(): void {
+      // intentional close: no onclose
+    }
+
+    private reply(frame: Frame): void {
+      setTimeout(() => this.onmessage?.({ data: JSON.stringify(frame) }), 0);
+    }
+  }
+  return { Socket, sent };
+}
+
+const ADDRESS = '0xabc123';
+const texts = (items: Array<{ type: string }>) => items.map(item => 'content' in item ? (item as { content: string }).content : item.type);
+
+function agentWith(storage?: StorageAdapter) {
+  const { Socket, sent } = mockHost();
+  const agent = connect(ADDRESS, { wsCtor: Socket as any, directUrl: 'http://localhost:8000', ...(storage && { storage }) });
+  return { agent, sent };
+}
+
+describe('conversations', () => {
+  it('keeps a transcript, session and mode per conversation', async () => {
+    const { agent, sent } = agentWith();
+    const first = agent.conversationId;
+    await agent.input('flights to NYC');
+    agent.setMode('accept_edits');
+
+    const second = agent.createConversation();
+    expect(agent.conversationId).toBe(second.id);
+    expect(agent.ui).toEqual([]);
+    expect(agent.currentSession).toBeNull();
+    await agent.input('hotels in Paris');
+
+    expect(agent.mode).toBe('safe');
+    expect(sent.filter(frame => frame.type === 'CONNECT').map(frame => frame.session_id)).toEqual([undefined, undefined]);
+
+    agent.switchConversation(first);
+    expect(texts(agent.ui)).toEqual(['flights to NYC', 're: flights to NYC']);
+    expect(agent.mode).toBe('accept_edits');
+    expect(agent.listConversations()).toEqual([
+      expect.objectContaining({ id: second.id, title: 'hotels in Paris', sessionId: 's2', mode: 'safe' }),
+      expect.objectContaining({ id: first, title: 'flights to NYC', sessionId: 's1', mode: 'accept_edits' }),
+    ]);
+    await agent.input('one way');
+    expect(sent.filter(frame => frame.type === 'CONNECT')[2]).toMatchObject({ session_id: 's1' });
+    expect(agent.listConversations()[0].id).toBe(first);
+  });
+
+  it('renames and deletes conversations', async () => {
+    const { agent } = agentWith();
+    const first = agent.conversationId;
+    await agent.input('flights to NYC');
+    const second = agent.createConversation('Paris trip');
+
+    agent.renameConversation(first, 'NYC');
+    expect(agent.listConversations().map(item => item.title).sort()).toEqual(['NYC', 'Paris trip']);
+
+    agent.deleteConversation(second.id);
+    expect(agent.conversationId).toBe(first);
+    expect(texts(agent.ui)).toEqual(['flights to NYC', 're: flights to NYC']);
+    agent.deleteConversation(first);
+    expect(agent.listConversations()).toEqual([expect.objectContaining({ title: 'New conversation' })]);
+    expect(agent.ui).toEqual([]);
+    expect(() => agent.switchConversation(first)).toThrow(`Unknown conversation: ${first}`);
+  });
+
+  it('refuses to switch away from a run in progress', async () => {
+    const { agent } = agentWith();
+    const first = agent.conversationId;
+    const other = agent.createConversation();
+    agent.switchConversation(first);
+    const run = agent.input('slow one');
+
+    expect(() => agent.switchConversation(other.id)).toThrow('Cannot switch conversations while the agent is working; cancel() first');
+    await run;
+    agent.switchConversation(other.id);
+  });
+
+  it('saves every conversation and reopens the one that was open', async () => {
+    const storage = memoryStorage();
+    const before = agentWith(storage).agent;
+    await before.input('flights to NYC');
+    const paris = before.createConversation();
+    await before.input('hotels in Paris');
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const after = agentWith(storage).agent;
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(after.conversationId).toBe(paris.id);
+    expect(texts(after.ui)).toEqual(['hotels in Paris', 're: hotels in Paris']);
+    expect(after.listConversations().map(item => item.title)).toEqual(['hotels in Paris', 'flights to NYC']);
+  });
+
+  it('checks a session by conversation id', async () => {
+    const { agent, sent } = agentWith();
+    const first = agent.conversationId;
+    await agent.input('flights to NYC');
+    agent.createConversation();
+
+    expect(await agent.checkSessionStatus(first)).toBe('connected');
+    expect(sent.find(frame => frame.type === 'SESSION_STATUS')).toMatchObject({ session: { session_id: 's1' } });
+  });
+});
+
+class MockLLM implements LLM {
+  model = 'gpt-4o-mini';
+
+  async complete(): Promise<LLMResponse> {
+    return { content: 'Order 42 has shipped.', toolCalls: [], rawResponse: {} };
+  }
+
+  async structuredComplete<T = any>(): Promise<T> {
+    throw new Error('Not implemented in MockLLM');
+  }
+}
+
+describe('fetchConversations', () => {
+  let server: AgentServer | null = null;
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  it("lists the signer's sessions on the host and opens one with its history", async () => {
+    server = await serve(() => new Agent({ name: 'orders', llm: new MockLLM(), log: false }), { port: 0, keys: address.generate() });
+    const clientKeys = address.generate();
+    const earlier = connect(server.address, { directUrl: server.url, keys: clientKeys });
+    await earlier.input('Where is order 42?');
+    const stranger = connect(server.address, { directUrl: server.url, keys: address.generate() });
+    await stranger.input('Where is order 7?');
+    const sessionId = earlier.currentSession!.session_id;
+    earlier.reset();
+    stranger.reset();
+
+    const remote = connect(server.address, { directUrl: server.url, keys: clientKeys });
+    const conversations = await remote.fetchConversations();
+    expect(conversations).toEqual([
+      expect.objectContaining({ id: remote.conversationId, title: 'New conversation' }),
+      expect.objectContaining({ sessionId, title: 'Where is order 42?' }),
+    ]);
+
+    remote.switchConversation(conversations[1].id);
+    await remote.connect();
+    expect(texts(remote.ui)).toEqual(['Where is order 42?', 'thinking', 'Order 42 has shipped.']);
+    expect(await remote.fetchConversations()).toHaveLength(2);
+    remote.reset();
+  });
+});
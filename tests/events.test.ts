@@ -0,0 +1,179 @@
+/**
+ * Tests for RemoteAgent's typed events: on(), once(), off() and their payloads
+ */
+
+import { connect } from '../src/connect';
+
+type Frame = Record<string, unknown>;
+
+/** Mock WebSocket: CONNECTED on CONNECT, then `script` frames in order for each INPUT */
+function hostSending(script: Frame[], onConnect: Frame[] = []) {
+  return class {
+    onopen: ((ev?: unknown) => unknown) | null = null;
+    onmessage: ((ev: { data: unknown }) => unknown) | null = null;
+    onerror: ((ev: unknown) => unknown) | null = null;
+    onclose: ((ev: unknown) => unknown) | null = null;
+
+    constructor(_url: string) {
+      setTimeout(() => this.onopen?.({}), 0);
+    }
+
+    send(data: unknown): void {
+      const msg = JSON.parse(String(data));
+      if (msg.type === 'CONNECT') this.reply([{ type: 'CONNECTED', session_id: 's1', status: 'new' }, ...onConnect]);
+      if (msg.type === 'INPUT') this.reply(script);
+    }
+
+    close(): void {
+      // intentional close: no onclose
+    }
+
+    private reply(frames: Frame[]): void {
+      setTimeout(() => {
+        for (const frame of frames) this.onmessage?.({ data: JSON.stringify(frame) });
+      }, 0);
+    }
+  };
+}
+
+const TOOL_RUN: Frame[] = [
+  { type: 'tool_call', tool_id: 't1', name: 'search', args: { q: 'flights' } },
+  { type: 'tool_result', tool_id: 't1', status: 'success', result: '3 flights' },
+  { type: 'OUTPUT', result: 'Found 3 flights.', session: { session_id: 's1' } },
+];
+
+describe('RemoteAgent events', () => {
+  it('reports chat items as they are added, updated and removed', async () => {
+    const agent = connect('0xabc123', { relayUrl: 'ws://localhost:8000', wsCtor: hostSending(TOOL_RUN) as any });
+    const log: string[] = [];
+    agent.on('chatItemAdded', item => log.push(`added ${item.type}`));
+    agent.on('chatItemUpdated', item => log.push(`updated ${item.type} ${'status' in item ? item.status : ''}`));
+    agent.on('chatItemRemoved', item => log.push(`removed ${item.id}`));
+
+    await agent.input('Find flights');
+
+    expect(log).toEqual([
+      'added user',
+      'added thinking',
+      'removed __optimistic__',
+      'added tool_call',
+      'updated tool_call done',
+      'added agent',
+    ]);
+    agent.reset();
+  });
+
+  it('replaces an updated item instead of mutating it', async () => {
+    const agent = connect('0xabc123', { relayUrl: 'ws://localhost:8000', wsCtor: hostSending(TOOL_RUN) as any });
+    const versions: unknown[] = [];
+    agent.on('chatItemAdded', item => { if (item.type === 'tool_call') versions.push(item); });
+    agent.on('chatItemUpdated', item => { if (item.type === 'tool_call') versions.push(item); });
+
+    await agent.input('Find flights');
+
+    expect(versions).toHaveLength(2);
+    expect(versions[0]).toMatchObject({ status: 'running' });
+    expect(versions[1]).toMatchObject({ status: 'done', result: '3 flights' });
+    expect(agent.ui.find(item => item.type === 'tool_call')).toBe(versions[1]);
+    agent.reset();
+  });
+
+  it('gives ui a new array on every change and leaves the earlier ones as they were', async () => {
+    const agent = connect('0xabc123', { relayUrl: 'ws://localhost:8000', wsCtor: hostSending(TOOL_RUN) as any });
+    const snapshots: Array<{ array: unknown[]; copy: unknown[] }> = [];
+    for (const event of ['chatItemAdded', 'chatItemUpdated', 'chatItemRemoved'] as const) {
+      agent.on(event, () => snapshots.push({ array: agent.ui, copy: [...agent.ui] }));
+    }
+
+    await agent.input('Find flights');
+
+    expect(new Set(snapshots.map(snapshot => snapshot.array)).size).toBe(snapshots.length);
+    for (const { array, copy } of snapshots) expect(array).toEqual(copy);
+    expect(snapshots[snapshots.length - 1].array).toBe(agent.ui);
+    agent.reset();
+  });
+
+  it('reports status and connection state changes', async () => {
+    const agent = connect('0xabc123', { relayUrl: 'ws://localhost:8000', wsCtor: hostSending(TOOL_RUN) as any });
+    const statuses: string[] = [];
+    const states: string[] = [];
+    agent.on('statusChanged', status => statuses.push(status));
+    agent.on('connectionStateChanged', state => states.push(state));
+
+    await agent.input('Find flights');
+    agent.reset();
+
+    expect(statuses).toEqual(['working', 'idle']);
+    expect(states).toEqual(['connected', 'disconnected']);
+  });
+
+  it('names the interactive items a UI has to answer', async () => {
+    const agent = connect('0xabc123', {
+      relayUrl: 'ws://localhost:8000',
+      wsCtor: hostSending([
+        { type: 'approval_needed', tool: 'delete_file', arguments: { path: 'a.txt' } },
+        { type: 'ask_user', text: 'Which date?', options: ['Mar 15', 'Mar 16'] },
+      ]) as any,
+    });
+    const approval = new Promise(resolve => agent.once('approvalNeeded', resolve));
+    const question = new Promise(resolve => agent.once('askUser', resolve));
+
+    agent.input('Clean up').catch(() => undefined);
+
+    expect(await approval).toMatchObject({ type: 'approval_needed', tool: 'delete_file', arguments: { path: 'a.txt' } });
+    expect(await question).toMatchObject({ type: 'ask_user', text: 'Which date?', options: ['Mar 15', 'Mar 16'] });
+    expect(agent.status).toBe('waiting');
+    agent.reset();
+  });
+
+  it('delivers the profile, the dashboard and errors', async () => {
+    const agent = connect('0xabc123', {
+      relayUrl: 'ws://localhost:8000',
+      wsCtor: hostSending(
+        [{ type: 'ERROR', message: 'quota exceeded' }],
+        [{ type: 'AGENT_PROFILE', name: 'travel' }, { type: 'DASHBOARD_SNAPSHOT', html: '<h1>Trips</h1>' }],
+      ) as any,
+    });
+    const profiles: unknown[] = [];
+    const dashboards: string[] = [];
+    const errors: string[] = [];
+    agent.on('profile', profile => profiles.push(profile));
+    agent.on('dashboard', html => dashboards.push(html));
+    agent.on('error', error => errors.push(error.message));
+
+    await expect(agent.input('Book')).rejects.toThrow('quota exceeded');
+
+    expect(profiles).toEqual([expect.objectContaining({ name: 'travel', online: true })]);
+    expect(dashboards).toEqual(['<h1>Trips</h1>']);
+    expect(errors).toEqual(['Agent error: quota exceeded']);
+    agent.reset();
+  });
+
+  it('stops calling a handler after off(), the returned unsubscribe, or one call for once()', async () => {
+    const agent = connect('0xabc123', { relayUrl: 'ws://localhost:8000', wsCtor: hostSending(TOOL_RUN) as any });
+    const counts = { on: 0, off: 0, unsubscribed: 0, once: 0 };
+    const offHandler = () => { counts.off++; };
+    agent.on('chatItemAdded', () => { counts.on++; });
+    agent.on('chatItemAdded', offHandler);
+    const unsubscribe = agent.on('chatItemAdded', () => { counts.unsubscribed++; });
+    agent.once('chatItemAdded', () => { counts.once++; });
+    agent.off('chatItemAdded', offHandler);
+    unsubscribe();
+
+    await agent.input('Find flights');
+
+    expect(counts).toEqual({ on: 4, off: 0, unsubscribed: 0, once: 1 });
+    agent.reset();
+  });
+
+  it('announces a reset of the transcript', async () => {
+    const agent = connect('0xabc123', { relayUrl: 'ws://localhost:8000', wsCtor: hostSending(TOOL_RUN) as any });
+    await agent.input('Find flights');
+    const resets: unknown[][] = [];
+    agent.on('chatItemsReset', items => resets.push(items));
+
+    agent.reset();
+
+    expect(resets).toEqual([[]]);
+  });
+});
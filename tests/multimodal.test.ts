@@ -0,0 +1,147 @@
+/**
+ * Tests for multimodal content: images and files in user input, media returned by tools, provider conversion
+ */
+
+import { Agent } from '../src/core/agent';
+import { contentText, messageFields, toolMessageContent, userContent, parseDataUrl } from '../src/llm/content';
+import { estimateTokens } from '../src/core/context';
+import { OpenAILLM } from '../src/llm/openai';
+import { AnthropicLLM } from '../src/llm/anthropic';
+import { GeminiLLM } from '../src/llm/gemini';
+import { LLM, LLMResponse, Message, FunctionSchema, ContentPart } from '../src/types';
+
+class MockLLM implements LLM {
+  private callCount = 0;
+  calls: Message[][] = [];
+
+  constructor(private responses: LLMResponse[]) {}
+
+  async complete(messages: Message[], _tools?: FunctionSchema[]): Promise<LLMResponse> {
+    this.calls.push([...messages]);
+    return this.responses[this.callCount++] || { content: 'done', toolCalls: [], rawResponse: {} };
+  }
+
+  async structuredComplete<T = any>(_messages: Message[], _schema: any): Promise<T> {
+    throw new Error('Not implemented in MockLLM');
+  }
+}
+
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+const PDF = 'data:application/pdf;base64,JVBERi0x';
+
+describe('content helpers', () => {
+  it('keeps plain prompts as strings and builds parts for attachments', () => {
+    expect(userContent('hi')).toBe('hi');
+    expect(userContent('What is this?', [PNG], [{ name: 'spec.pdf', type: 'application/pdf', size: 8, dataUrl: PDF }])).toEqual([
+      { type: 'text', text: 'What is this?' },
+      { type: 'image', url: PNG },
+      { type: 'file', url: PDF, mimeType: 'application/pdf', name: 'spec.pdf' },
+    ]);
+  });
+
+  it('renders media as placeholders in text-only paths', () => {
+    const content: ContentPart[] = [{ type: 'text', text: 'look' }, { type: 'image', url: PNG }, { type: 'file', data: 'eA==', mimeType: 'text/plain', name: 'a.txt' }];
+    expect(contentText(content)).toBe('look\n[image]\n[file: a.txt]');
+    expect(estimateTokens([{ role: 'user', ...messageFields(content) }])).toBeGreaterThan(2000);
+  });
+
+  it('splits data URLs', () => {
+    expect(parseDataUrl(PNG)).toEqual({ mimeType: 'image/png', data: 'iVBORw0KGgo=' });
+    expect(parseDataUrl('https://example.com/a.png')).toBeNull();
+  });
+
+  it('sends tool-returned media next to the JSON result', () => {
+    const image = { type: 'image', url: PNG };
+    const content = toolMessageContent({ status: 'success', result: image });
+    expect(content).toEqual([
+      { type: 'text', text: JSON.stringify({ status: 'success', result: '[image]' }) },
+      image,
+    ]);
+    expect(toolMessageContent({ status: 'success', result: 'plain' })).toBe('{"status":"success","result":"plain"}');
+  });
+});
+
+describe('Agent multimodal input', () => {
+  it('sends images and files as user content parts', async () => {
+    const llm = new MockLLM([{ content: 'A cat.', toolCalls: [], rawResponse: {} }]);
+    const agent = new Agent({ name: 'vision', llm, log: false });
+
+    const answer = await agent.input('What is in the picture?', { images: [PNG] });
+
+    expect(answer).toBe('A cat.');
+    const userMessage = llm.calls[0].find(m => m.role === 'user');
+    expect(userMessage?.content).toBe('What is in the picture?\n[image]');
+    expect(userMessage?.parts).toEqual([
+      { type: 'text', text: 'What is in the picture?' },
+      { type: 'image', url: PNG },
+    ]);
+  });
+
+  it('passes an image a tool returns back to the model', async () => {
+    const screenshot = function screenshot() { return { type: 'image', data: 'iVBORw0KGgo=', mimeType: 'image/png' }; };
+    const llm = new MockLLM([
+      { content: null, toolCalls: [{ name: 'screenshot', arguments: {}, id: 'call_1' }], rawResponse: {} },
+      { content: 'The page shows a login form.', toolCalls: [], rawResponse: {} },
+    ]);
+    const agent = new Agent({ name: 'browser', llm, tools: [screenshot], log: false });
+
+    await agent.input('What is on the page?');
+
+    const toolMessage = llm.calls[1].find(m => m.role === 'tool');
+    expect(typeof toolMessage?.content).toBe('string');
+    expect(toolMessage?.parts).toContainEqual({ type: 'image', data: 'iVBORw0KGgo=', mimeType: 'image/png' });
+  });
+});
+
+describe('provider conversion', () => {
+  const messages: Message[] = [
+    { role: 'system', content: 'Be brief.' },
+    { role: 'user', ...messageFields([{ type: 'text', text: 'Compare' }, { type: 'image', url: 'https://example.com/a.jpg' }, { type: 'file', url: PDF, name: 'spec.pdf' }]) },
+    { role: 'assistant', content: '', tool_calls: [{ name: 'shot', arguments: {}, id: 'c1' }] },
+    { role: 'tool', tool_call_id: 'c1', ...messageFields([{ type: 'text', text: '{"status":"success","result":"[image]"}' }, { type: 'image', url: PNG }]) },
+  ];
+
+  it('maps parts to OpenAI content and follows tool media with a user message', () => {
+    const converted = (new OpenAILLM('test-key') as any).convertMessages(messages);
+
+    expect(converted[1].content).toEqual([
+      { type: 'text', text: 'Compare' },
+      { type: 'image_url', image_url: { url: 'https://example.com/a.jpg' } },
+      { type: 'file', file: { filename: 'spec.pdf', file_data: PDF } },
+    ]);
+    expect(converted[3].content).toBe('{"status":"success","result":"[image]"}');
+    expect(converted[4]).toEqual({
+      role: 'user',
+      content: [{ type: 'text', text: 'Media returned by the tools above:' }, { type: 'image_url', image_url: { url: PNG } }],
+    });
+  });
+
+  it('maps parts to Anthropic image and document blocks', () => {
+    const { system, anthropicMessages } = (new AnthropicLLM('test-key') as any).convertMessages(messages);
+
+    expect(system).toBe('Be brief.');
+    expect(anthropicMessages[0].content).toEqual([
+      { type: 'text', text: 'Compare' },
+      { type: 'image', source: { type: 'url', url: 'https://example.com/a.jpg' } },
+      { type: 'document', source: { type: 'base64', media_type: 'application/pdf', data: 'JVBERi0x' }, title: 'spec.pdf' },
+    ]);
+    expect(anthropicMessages[2].content[0].content[1]).toEqual({
+      type: 'image',
+      source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' },
+    });
+  });
+
+  it('maps parts to Gemini inlineData and fileData', () => {
+    const { contents } = (new GeminiLLM('test-key') as any).convertMessages(messages);
+
+    expect(contents[0].parts).toEqual([
+      { text: 'Compare' },
+      { fileData: { mimeType: 'image/jpeg', fileUri: 'https://example.com/a.jpg' } },
+      { inlineData: { mimeType: 'application/pdf', data: 'JVBERi0x' } },
+    ]);
+    expect(contents[2].parts).toEqual([
+      { functionResponse: { name: 'shot', response: { result: '{"status":"success","result":"[image]"}' } } },
+      { inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } },
+    ]);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Tests for the RemoteAgent outbox: inputs and answers that could not be sent are
+ * stored, survive a new RemoteAgent, and are flushed in order with their input_id.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { connect, fileStorage, memoryStorage } from '../src/connect';
+
+type Frame = Record<string, any>;
+type Host = (msg: Frame, socket: ScriptedSocket) => void;
+
+interface ScriptedSocket {
+  reply(frame: Frame, delayMs?: number): void;
+  drop(): void;
+}
+
+/**
+ * Socket whose replies are scripted per connection: `hosts[n]` answers the n-th
+ * socket, `null` makes that connection fail. Every frame sent on any socket is in `sent`.
+ */
+function scriptedSockets(hosts: Array<Host | null>) {
+  const sent: Frame[] = [];
+  let opened = 0;
+  class Socket implements ScriptedSocket {
+    onopen: ((ev?: unknown) => unknown) | null = null;
+    onmessage: ((ev: { data: unknown }) => unknown) | null = null;
+    onerror: ((ev: unknown) => unknown) | null = null;
+    onclose: ((ev: unknown) => unknown) | null = null;
+    private host: Host | null;
+
+    constructor(_url: string) {
+      this.host = hosts[opened++] ?? null;
+      setTimeout(() => (this.host ? this.onopen?.({}) : this.onerror?.(new Error('refused'))), 0);
+    }
+
+    send(data: unknown): void {
+      const msg = JSON.parse(String(data));
+      sent.push(msg);
+      this.host?.(msg, this);
+    }
+
+    reply(frame: Frame, delayMs = 0): void {
+      setTimeout(() => this.onmessage?.({ data: JSON.stringify(frame) }), delayMs);
+    }
+
+    drop(): void {
+      setTimeout(() => this.onclose?.({}), 0);
+    }
+
+    close(): void {
+      // intentional close: handlers are detached by the agent
+    }
+  }
+  return { Socket, sent };
+}
+
+/** Answers each INPUT with "re: <prompt>", and notes if a second INPUT arrives mid-run */
+function echoHost(state = { overlapped: false }): Host {
+  let running = false;
+  return (msg, socket) => {
+    if (msg.type === 'CONNECT') socket.reply({ type: 'CONNECTED', session_id: 's1', status: 'connected' });
+    if (msg.type !== 'INPUT') return;
+    if (running) state.overlapped = true;
+    running = true;
+    setTimeout(() => {
+      running = false;
+      socket.reply({ type: 'OUTPUT', input_id: msg.input_id, result: `re: ${msg.prompt}`, session: { session_id: 's1' } });
+    }, 5);
+  };
+}
+
+async function until(condition: () => boolean): Promise<void> {
+  while (!condition()) await new Promise(resolve => setTimeout(resolve, 2));
+}
+
+const ADDRESS = '0xabc123';
+const KEY = `connectonion_outbox_${ADDRESS}`;
+
+describe('outbox', () => {
+  it('keeps an input that could not be sent and resolves it as queued', async () => {
+    const storage = memoryStorage();
+    const { Socket } = scriptedSockets([null]);
+    const agent = connect(ADDRESS, { wsCtor: Socket as any, directUrl: 'http://localhost:8000', outbox: storage });
+
+    const response = await agent.input('Book the 9am flight');
+
+    expect(response).toEqual({ text: '', done: true, queued: true });
+    expect(agent.status).toBe('idle');
+    expect(agent.ui).toEqual([expect.objectContaining({ type: 'user', content: 'Book the 9am flight', queued: true })]);
+    expect(agent.outbox).toHaveLength(1);
+    expect(JSON.parse(storage.getItem(KEY) as string)).toEqual([
+      { id: agent.ui[0].id, frame: { type: 'INPUT', input_id: agent.ui[0].id, prompt: 'Book the 9am flight' } },
+    ]);
+  });
+
+  it('sends what an earlier agent queued, in order and one run at a time', async () => {
+    const storage = memoryStorage();
+    const offline = scriptedSockets([null, null]);
+    const before = connect(ADDRESS, { wsCtor: offline.Socket as any, directUrl: 'http://localhost:8000', outbox: storage });
+    await before.input('first');
+    await before.input('second');
+    const queuedIds = before.outbox.map(entry => entry.id);
+
+    const state = { overlapped: false };
+    const online = scriptedSockets([echoHost(state)]);
+    const after = connect(ADDRESS, { wsCtor: online.Socket as any, directUrl: 'http://localhost:8000', outbox: storage });
+    await after.connect();
+    await until(() => after.outbox.length === 0 && after.status === 'idle');
+
+    const inputs = online.sent.filter(frame => frame.type === 'INPUT');
+    expect(inputs.map(frame => [frame.input_id, frame.prompt])).toEqual([[queuedIds[0], 'first'], [queuedIds[1], 'second']]);
+    expect(state.overlapped).toBe(false);
+    expect(after.ui.map(item => [item.type, 'content' in item ? item.content : ''])).toEqual([
+      ['user', 'first'], ['agent', 're: first'], ['user', 'second'], ['agent', 're: second'],
+    ]);
+    expect(storage.getItem(KEY)).toBeNull();
+    after.reset();
+  });
+
+  it('sends a new input after the queued ones and resolves it with its own answer', async () => {
+    const { Socket, sent } = scriptedSockets([null, echoHost()]);
+    const agent = connect(ADDRESS, { wsCtor: Socket as any, directUrl: 'http://localhost:8000', outbox: memoryStorage() });
+    await agent.input('first');
+
+    const response = await agent.input('second');
+
+    expect(response).toEqual({ text: 're: second', done: true });
+    expect(sent.filter(frame => frame.type === 'INPUT').map(frame => frame.prompt)).toEqual(['first', 'second']);
+    expect(agent.ui.find(item => item.type === 'user' && item.content === 'first')).toMatchObject({ queued: false });
+    agent.reset();
+  });
+
+  it('sends an input again with the same input_id when the connection dropped under it', async () => {
+    const { Socket, sent } = scriptedSockets([
+      (msg, socket) => {
+        if (msg.type === 'CONNECT') socket.reply({ type: 'CONNECTED', session_id: 's1', status: 'new' });
+        if (msg.type === 'INPUT') socket.drop();
+      },
+      echoHost(),
+    ]);
+    const agent = connect(ADDRESS, { wsCtor: Socket as any, directUrl: 'http://localhost:8000', outbox: memoryStorage() });
+
+    expect(await agent.input('ping')).toEqual({ text: '', done: true, queued: true });
+    await agent.connect();
+    await until(() => agent.outbox.length === 0);
+
+    const [first, again] = sent.filter(frame => frame.type === 'INPUT');
+    expect(again.input_id).toBe(first.input_id);
+    expect(sent.filter(frame => frame.type === 'CONNECT')[1]).toMatchObject({ session_id: 's1' });
+    expect(agent.ui[agent.ui.length - 1]).toMatchObject({ type: 'agent', content: 're: ping' });
+    agent.reset();
+  });
+
+  it('keeps answers given while offline and sends them once connected', async () => {
+    const { Socket, sent } = scriptedSockets([echoHost()]);
+    const agent = connect(ADDRESS, { wsCtor: Socket as any, directUrl: 'http://localhost:8000', outbox: memoryStorage() });
+
+    agent.send({ type: 'APPROVAL_RESPONSE', approved: true });
+    await until(() => agent.outbox.length === 1);
+    await agent.connect();
+
+    expect(sent.map(frame => frame.type)).toEqual(['CONNECT', 'APPROVAL_RESPONSE']);
+    expect(sent[1]).toEqual({ type: 'APPROVAL_RESPONSE', approved: true, input_id: expect.any(String) });
+    expect(agent.outbox).toHaveLength(0);
+    agent.reset();
+  });
+
+  it('rejects and goes back to idle when the outbox cannot store the input', async () => {
+    const { Socket, sent } = scriptedSockets([echoHost()]);
+    const storage = { ...memoryStorage(), setItem: () => { throw new Error('Quota exceeded'); } };
+    const agent = connect(ADDRESS, { wsCtor: Socket as any, directUrl: 'http://localhost:8000', outbox: storage });
+
+    await expect(agent.input('ping')).rejects.toThrow('Quota exceeded');
+
+    expect(agent.status).toBe('idle');
+    expect(agent.error?.message).toBe('Quota exceeded');
+    expect(agent.ui.map(item => item.type)).toEqual(['user']);
+    expect(sent.filter(frame => frame.type === 'INPUT')).toEqual([]);
+    agent.reset();
+  });
+
+  it('is off by default: an input that cannot be sent rejects', async () => {
+    const { Socket } = scriptedSockets([null]);
+    const agent = connect(ADDRESS, { wsCtor: Socket as any, directUrl: 'http://localhost:8000' });
+
+    await expect(agent.input('ping')).rejects.toThrow('WebSocket connection failed');
+    expect(agent.outbox).toEqual([]);
+  });
+});
+
+describe('fileStorage', () => {
+  it('stores each key as a JSON file in its directory', () => {
+    const dir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'co-storage-')), 'nested');
+    const storage = fileStorage(dir);
+
+    expect(storage.getItem(KEY)).toBeNull();
+    storage.setItem(KEY, '[1,2]');
+    expect(fs.readFileSync(path.join(dir, `${KEY}.json`), 'utf-8')).toBe('[1,2]');
+    expect(storage.getItem(KEY)).toBe('[1,2]');
+    storage.removeItem(KEY);
+    expect(storage.getItem(KEY)).toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Tests for ConnectOptions.storage: ui and session saved per agent address,
+ * restored by the next RemoteAgent, and reconciled with the host on connect.
+ */
+
+import { connect as openAgent, memoryStorage, RemoteAgent, StorageAdapter } from '../src/connect';
+
+/** Agents the running test opened: reset after it, so no socket or ping monitor outlives the test */
+const opened: RemoteAgent[] = [];
+const connect: typeof openAgent = (...args) => {
+  const agent = openAgent(...args);
+  opened.push(agent);
+  return agent;
+};
+
+afterEach(() => {
+  for (const agent of opened.splice(0)) agent.reset();
+});
+
+type Frame = Record<string, any>;
+type Host = (msg: Frame, reply: (frame: Frame) => void) => void;
+
+/** Mock WebSocket answering with `host`; every frame sent is recorded in `sent` */
+function socketFor(host: Host) {
+  const sent: Frame[] = [];
+  class Socket {
+    onopen: ((ev?: unknown) => unknown) | null = null;
+    onmessage: ((ev: { data: unknown }) => unknown) | null = null;
+    onerror: ((ev: unknown) => unknown) | null = null;
+    onclose: ((ev: unknown) => unknown) | null = null;
+
+    constructor(_url: string) {
+      setTimeout(() => this.onopen?.({}), 0);
+    }
+
+    send(data: unknown): void {
+      const msg = JSON.parse(String(data));
+      sent.push(msg);
+      host(msg, frame => setTimeout(() => this.onmessage?.({ data: JSON.stringify(frame) }), 0));
+    }
+
+    close(): void {
+      // intentional close: no onclose
+    }
+  }
+  return { Socket, sent };
+}
+
+/** New session s1 on CONNECT; answers INPUT with a tool call and "re: <prompt>" */
+const freshHost: Host = (msg, reply) => {
+  if (msg.type === 'CONNECT') reply({ type: 'CONNECTED', session_id: 's1', status: 'new' });
+  if (msg.type !== 'INPUT') return;
+  reply({ type: 'tool_call', tool_id: 't1', name: 'search', args: { q: msg.prompt } });
+  reply({ type: 'tool_result', tool_id: 't1', status: 'success', result: 'found' });
+  reply({ type: 'OUTPUT', result: `re: ${msg.prompt}`, session: { session_id: 's1', turn: 1, mode: 'safe' } });
+};
+
+const ADDRESS = '0xabc123';
+const options = (storage: StorageAdapter, host: Host = freshHost) => {
+  const { Socket, sent } = socketFor(host);
+  return { sent, options: { wsCtor: Socket as any, directUrl: 'http://localhost:8000', storage } };
+};
+
+async function flushed(): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, 0));
+}
+
+describe('storage', () => {
+  it('restores ui and the session for the same address, and resumes that session', async () => {
+    const storage = memoryStorage();
+    const first = options(storage);
+    const before = connect(ADDRESS, first.options);
+    await before.input('flights to NYC');
+    const saved = before.ui;
+
+    const second = options(storage, (msg, reply) => {
+      if (msg.type === 'CONNECT') reply({ type: 'CONNECTED', session_id: msg.session_id, status: 'connected' });
+    });
+    const after = connect(ADDRESS, second.options);
+    await flushed();
+
+    expect(after.ui).toEqual(saved);
+    expect(after.currentSession).toEqual({ session_id: 's1', turn: 1, mode: 'safe' });
+    await after.connect();
+    expect(second.sent[0]).toMatchObject({ type: 'CONNECT', session_id: 's1', session: { turn: 1 } });
+    expect(after.ui).toEqual(saved);
+  });
+
+  it('takes the host history when the host moved on since the save', async () => {
+    const storage = memoryStorage();
+    const before = connect(ADDRESS, options(storage).options);
+    await before.input('flights to NYC');
+
+    const serverItems = [
+      { id: 'u1', type: 'user', content: 'flights to NYC' },
+      { id: 'a1', type: 'agent', content: 're: flights to NYC' },
+      { id: 'u2', type: 'user', content: 'and hotels' },
+      { id: 'a2', type: 'agent', content: 'Three hotels.' },
+    ];
+    const after = connect(ADDRESS, options(storage, (msg, reply) => {
+      if (msg.type !== 'CONNECT') return;
+      reply({
+        type: 'CONNECTED', session_id: 's1', status: 'connected', server_newer: true,
+        session: { session_id: 's1', turn: 2 }, chat_items: serverItems,
+      });
+    }).options);
+    await after.connect();
+
+    expect(after.ui).toEqual(serverItems);
+    expect(after.currentSession).toEqual({ session_id: 's1', turn: 2 });
+    await flushed();
+    const saved = JSON.parse(storage.getItem(`connectonion_chat_${ADDRESS}`) as string);
+    expect(saved.conversations).toEqual([
+      expect.objectContaining({ id: saved.current, session: { session_id: 's1', turn: 2 }, chatItems: serverItems }),
+    ]);
+  });
+
+  it('keeps an input sent before the restore finished after the saved items', async () => {
+    const values = memoryStorage();
+    const before = connect(ADDRESS, options(values).options);
+    await before.input('first');
+    const slow: StorageAdapter = {
+      getItem: key => new Promise(resolve => setTimeout(() => resolve(values.getItem(key) as string | null), 5)),
+      setItem: (key, value) => values.setItem(key, value),
+      removeItem: key => values.removeItem(key),
+    };
+
+    const after = connect(ADDRESS, options(slow).options);
+    await after.input('second');
+
+    expect(after.ui.filter(item => item.type === 'user').map(item => 'content' in item && item.content)).toEqual(['first', 'second']);
+  });
+
+  it('does not save the thinking placeholder', async () => {
+    const storage = memoryStorage();
+    const agent = connect(ADDRESS, options(storage, (msg, reply) => {
+      if (msg.type === 'CONNECT') reply({ type: 'CONNECTED', session_id: 's1', status: 'new' });
+    }).options);
+    agent.input('slow one').catch(() => undefined);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(agent.ui.map(item => item.id)).toContain('__optimistic__');
+    const saved = JSON.parse(storage.getItem(`connectonion_chat_${ADDRESS}`) as string);
+    expect(saved.conversations[0].chatItems.map((item: Frame) => item.type)).toEqual(['user']);
+    agent.reset();
+  });
+
+  it('forgets the saved state on reset()', async () => {
+    const storage = memoryStorage();
+    const agent = connect(ADDRESS, options(storage).options);
+    await agent.input('flights to NYC');
+
+    agent.reset();
+    await flushed();
+
+    expect(storage.getItem(`connectonion_chat_${ADDRESS}`)).toBeNull();
+    const next = connect(ADDRESS, options(storage).options);
+    await flushed();
+    expect(next.ui).toEqual([]);
+    expect(next.currentSession).toBeNull();
+  });
+});
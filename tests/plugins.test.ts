@@ -0,0 +1,129 @@
+/**
+ * Tests for Agent lifecycle hook plugins
+ */
+
+import { Agent } from '../src/core/agent';
+import { AgentPlugin } from '../src/core/plugins';
+import { LLM, LLMResponse, Message, FunctionSchema } from '../src/types';
+
+class MockLLM implements LLM {
+  private callCount = 0;
+  public seen: Message[][] = [];
+
+  constructor(private responses: LLMResponse[]) {}
+
+  async complete(messages: Message[], _tools?: FunctionSchema[]): Promise<LLMResponse> {
+    this.seen.push(messages.map(m => ({ ...m })));
+    return this.responses[this.callCount++] || { content: 'Default response', toolCalls: [], rawResponse: {} };
+  }
+
+  async structuredComplete<T = any>(_messages: Message[], _schema: any): Promise<T> {
+    throw new Error('Not implemented in MockLLM');
+  }
+}
+
+function toolThenAnswer(args: Record<string, any>): LLMResponse[] {
+  return [
+    { content: null, toolCalls: [{ name: 'echo', arguments: args, id: 'call_1' }], rawResponse: {} },
+    { content: 'done', toolCalls: [], rawResponse: {} },
+  ];
+}
+
+function echo(text: string): string {
+  return `echo: ${text}`;
+}
+
+describe('Agent plugins', () => {
+  it('runs hooks in lifecycle order', async () => {
+    const calls: string[] = [];
+    const plugin: AgentPlugin = {
+      before_llm: () => { calls.push('before_llm'); },
+      after_llm: () => { calls.push('after_llm'); },
+      before_tool: ({ name }) => { calls.push(`before_tool:${name}`); },
+      after_tool: ({ name }) => { calls.push(`after_tool:${name}`); },
+      on_complete: () => { calls.push('on_complete'); },
+    };
+    const agent = new Agent({ name: 'hooks', llm: new MockLLM(toolThenAnswer({ text: 'hi' })), tools: [echo], plugins: [plugin], log: false });
+
+    await agent.input('go');
+
+    expect(calls).toEqual([
+      'before_llm', 'after_llm', 'before_tool:echo', 'after_tool:echo',
+      'before_llm', 'after_llm', 'on_complete',
+    ]);
+  });
+
+  it('before_llm can redact what is sent without rewriting the conversation', async () => {
+    const llm = new MockLLM([{ content: 'ok', toolCalls: [], rawResponse: {} }]);
+    const agent = new Agent({
+      name: 'hooks',
+      llm,
+      log: false,
+      plugins: [{
+        before_llm: ({ messages }) => messages.map(m => ({ ...m, content: m.content.replace(/secret-\d+/g, '[redacted]') })),
+      }],
+    });
+
+    await agent.input('my key is secret-123');
+
+    expect(llm.seen[0][1].content).toBe('my key is [redacted]');
+    expect(agent.getSession().messages[1].content).toBe('my key is secret-123');
+  });
+
+  it('before_tool rewrites arguments and after_tool rewrites results', async () => {
+    const llm = new MockLLM(toolThenAnswer({ text: 'original' }));
+    const agent = new Agent({
+      name: 'hooks',
+      llm,
+      tools: [echo],
+      log: false,
+      plugins: [
+        { before_tool: ({ args }) => ({ ...args, text: 'patched' }) },
+        { after_tool: ({ result }) => ({ ...result, result: String(result.result).toUpperCase() }) },
+      ],
+    });
+
+    await agent.input('go');
+
+    const toolMessage = agent.getSession().messages.find(m => m.role === 'tool');
+    expect(JSON.parse(toolMessage!.content)).toEqual({ status: 'success', result: 'ECHO: PATCHED' });
+  });
+
+  it('later plugins see values replaced by earlier ones', async () => {
+    const llm = new MockLLM([{ content: 'raw', toolCalls: [], rawResponse: {} }]);
+    const agent = new Agent({
+      name: 'hooks',
+      llm,
+      log: false,
+      plugins: [
+        { after_llm: ({ response }) => ({ ...response, content: `${response.content}+a` }) },
+        { on_complete: ({ content }) => `${content}+b` },
+      ],
+    });
+
+    expect(await agent.input('go')).toBe('raw+a+b');
+  });
+
+  it('on_error observes failures and the error still propagates', async () => {
+    const errors: unknown[] = [];
+    const agent = new Agent({
+      name: 'hooks',
+      llm: { complete: async () => { throw new Error('provider down'); }, structuredComplete: async () => ({}) as any },
+      log: false,
+      plugins: [
+        { on_error: () => { throw new Error('hook failure'); } },
+        { on_error: ({ error }) => { errors.push(error); } },
+      ],
+    });
+
+    await expect(agent.input('go')).rejects.toThrow('provider down');
+    expect(errors).toHaveLength(1);
+  });
+
+  it('addPlugin registers hooks after construction', async () => {
+    const agent = new Agent({ name: 'hooks', llm: new MockLLM([{ content: 'x', toolCalls: [], rawResponse: {} }]), log: false });
+    agent.addPlugin({ on_complete: () => 'from plugin' });
+
+    expect(await agent.input('go')).toBe('from plugin');
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Tests for the React bindings: AgentProvider, useAgent and the hooks over RemoteAgent
+ */
+
+import { createElement, StrictMode, type ReactElement } from 'react';
+import TestRenderer, { act, type ReactTestRenderer } from 'react-test-renderer';
+import { connect, RemoteAgent } from '../src/connect';
+import { AgentProvider, useAgent, useAgentStatus, useApproval, useAskUser, useChatItems } from '../src/react';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+type Frame = Record<string, unknown>;
+
+/** Mock WebSocket: CONNECTED on CONNECT, then `script` frames for each INPUT; records every socket */
+function hostSending(script: Frame[]) {
+  const sockets: Array<{ closed: boolean; drop(): void }> = [];
+  class MockSocket {
+    onopen: ((ev?: unknown) => unknown) | null = null;
+    onmessage: ((ev: { data: unknown }) => unknown) | null = null;
+    onerror: ((ev: unknown) => unknown) | null = null;
+    onclose: ((ev: unknown) => unknown) | null = null;
+    closed = false;
+
+    constructor(_url: string) {
+      sockets.push(this);
+      setTimeout(() => this.onopen?.({}), 0);
+    }
+
+    send(data: unknown): void {
+      const msg = JSON.parse(String(data));
+      if (msg.type === 'CONNECT') this.reply([{ type: 'CONNECTED', session_id: 's1', status: 'new' }]);
+      if (msg.type === 'INPUT') this.reply(script);
+    }
+
+    close(): void {
+      this.closed = true;
+    }
+
+    /** The connection is lost */
+    drop(): void {
+      this.closed = true;
+      this.onclose?.({});
+    }
+
+    private reply(frames: Frame[]): void {
+      setTimeout(() => {
+        for (const frame of frames) this.onmessage?.({ data: JSON.stringify(frame) });
+      }, 0);
+    }
+  }
+  return { MockSocket, sockets };
+}
+
+const REPLY: Frame[] = [{ type: 'OUTPUT', result: 'Hello!', session: { session_id: 's1' } }];
+
+/** Let pending timers and socket frames run inside act() */
+async function settle(): Promise<void> {
+  await act(async () => {
+    for (let i = 0; i < 5; i++) await new Promise(resolve => setTimeout(resolve, 0));
+  });
+}
+
+async function render(element: ReactElement): Promise<ReactTestRenderer> {
+  let renderer: ReactTestRenderer | undefined;
+  await act(async () => {
+    renderer = TestRenderer.create(element);
+  });
+  return renderer!;
+}
+
+describe('React bindings', () => {
+  it('returns the same transcript array until the transcript changes', async () => {
+    const { MockSocket } = hostSending(REPLY);
+    const agent = connect('0xabc123', { relayUrl: 'ws://localhost:8000', wsCtor: MockSocket as any });
+    const seen: Array<readonly unknown[]> = [];
+    function Chat() {
+      seen.push(useChatItems(agent));
+      return null;
+    }
+    const renderer = await render(createElement(Chat));
+    await act(async () => renderer.update(createElement(Chat)));
+
+    expect(seen).toHaveLength(2);
+    expect(seen[1]).toBe(seen[0]);
+
+    await act(async () => { await agent.input('hi'); });
+
+    expect(seen[seen.length - 1]).toBe(agent.ui);
+    expect(seen[seen.length - 1].map(item => (item as { type: string }).type)).toEqual(['user', 'agent']);
+    renderer.unmount();
+    agent.reset();
+  });
+
+  it('stops listening to the agent after unmount', async () => {
+    const { MockSocket } = hostSending(REPLY);
+    const agent = connect('0xabc123', { relayUrl: 'ws://localhost:8000', wsCtor: MockSocket as any });
+    let renders = 0;
+    function Chat() {
+      renders++;
+      useChatItems(agent);
+      useAgentStatus(agent);
+      return null;
+    }
+    const renderer = await render(createElement(Chat));
+    act(() => renderer.unmount());
+    const before = renders;
+
+    await agent.input('hi');
+
+    expect(renders).toBe(before);
+    const listeners = (agent as unknown as { _listeners: Map<string, unknown[]> })._listeners;
+    expect([...listeners.values()].every(list => list.length === 0)).toBe(true);
+    agent.reset();
+  });
+
+  it('shares one agent per address under a provider', async () => {
+    const { MockSocket, sockets } = hostSending(REPLY);
+    const options = { relayUrl: 'ws://localhost:8000', wsCtor: MockSocket as any };
+    const seen: RemoteAgent[] = [];
+    function Uses({ address }: { address?: string }) {
+      seen.push(useAgent(address));
+      return null;
+    }
+    const renderer = await render(createElement(AgentProvider, { address: '0xaaa', options },
+      createElement(Uses), createElement(Uses), createElement(Uses, { address: '0xbbb' })));
+    await settle();
+
+    expect(seen[0]).toBe(seen[1]);
+    expect(seen[0].address).toBe('0xaaa');
+    expect(seen[2].address).toBe('0xbbb');
+    expect(sockets).toHaveLength(2);
+
+    act(() => renderer.unmount());
+    await settle();
+    expect(sockets.every(socket => socket.closed)).toBe(true);
+  });
+
+  it('connects in an effect, once under StrictMode, and keeps the transcript after unmount', async () => {
+    const { MockSocket, sockets } = hostSending(REPLY);
+    const options = { relayUrl: 'ws://localhost:8000', wsCtor: MockSocket as any };
+    const socketsAtRender: number[] = [];
+    let agent: RemoteAgent | undefined;
+    function Chat() {
+      socketsAtRender.push(sockets.length);
+      agent = useAgent();
+      useChatItems();
+      return null;
+    }
+    const renderer = await render(createElement(StrictMode, null,
+      createElement(AgentProvider, { address: '0xaaa', options }, createElement(Chat))));
+    await settle();
+
+    expect(socketsAtRender[0]).toBe(0);
+    expect(sockets).toHaveLength(1);
+    expect(agent!.connectionState).toBe('connected');
+
+    await act(async () => { await agent!.input('hi'); });
+    act(() => renderer.unmount());
+    await settle();
+
+    expect(sockets[0].closed).toBe(true);
+    expect(agent!.connectionState).toBe('disconnected');
+    expect(agent!.ui.map(item => item.type)).toEqual(['user', 'agent']);
+  });
+
+  it('answers the open question and approval', async () => {
+    const { MockSocket } = hostSending([
+      { type: 'approval_needed', tool: 'delete_file', arguments: { path: 'a.txt' } },
+    ]);
+    const agent = connect('0xabc123', { relayUrl: 'ws://localhost:8000', wsCtor: MockSocket as any });
+    let approval: ReturnType<typeof useApproval> | undefined;
+    function Confirm() {
+      approval = useApproval(agent);
+      return null;
+    }
+    const renderer = await render(createElement(Confirm));
+    const sent: Frame[] = [];
+
+    act(() => { agent.input('Clean up').catch(() => undefined); });
+    await settle();
+    expect(approval!.request).toMatchObject({ tool: 'delete_file' });
+
+    const send = agent.send.bind(agent);
+    agent.send = message => { sent.push(message); send(message); };
+    await act(async () => { await approval!.approve('session'); });
+
+    expect(sent).toEqual([{ type: 'APPROVAL_RESPONSE', approved: true, scope: 'session' }]);
+    expect(approval!.request).toBeNull();
+    act(() => renderer.unmount());
+    agent.reset();
+  });
+
+  it('rejects instead of throwing when the answer cannot be sent', async () => {
+    const { MockSocket, sockets } = hostSending([
+      { type: 'ask_user', text: 'Which date?', options: ['Mar 15', 'Mar 16'] },
+    ]);
+    const agent = connect('0xabc123', {
+      relayUrl: 'ws://localhost:8000',
+      wsCtor: MockSocket as any,
+      autoReconnect: { initialDelayMs: 60000 },
+    });
+    let ask: ReturnType<typeof useAskUser> | undefined;
+    function Question() {
+      ask = useAskUser(agent);
+      return null;
+    }
+    const renderer = await render(createElement(Question));
+    act(() => { agent.input('Book').catch(() => undefined); });
+    await settle();
+    expect(ask!.question).toMatchObject({ text: 'Which date?' });
+
+    act(() => sockets[0].drop());
+    let answered: Promise<void> | undefined;
+    expect(() => { answered = ask!.answer('Mar 15'); }).not.toThrow();
+
+    await expect(answered).rejects.toThrow('No active connection');
+    act(() => renderer.unmount());
+    agent.reset();
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Tests for RemoteAgent autoReconnect: backoff, resume by session_id, and the
+ * pending input() surviving a dropped connection.
+ */
+
+import { connect } from '../src/connect';
+
+type Frame = Record<string, any>;
+
+/**
+ * Socket whose replies are scripted per connection: `hosts[n]` answers the
+ * frames sent on the n-th socket; `null` makes that connection fail to open.
+ */
+function scriptedSockets(hosts: Array<((msg: Frame, socket: ScriptedSocket) => void) | null>) {
+  const sockets: ScriptedSocket[] = [];
+  class Socket implements ScriptedSocket {
+    onopen: ((ev?: unknown) => unknown) | null = null;
+    onmessage: ((ev: { data: unknown }) => unknown) | null = null;
+    onerror: ((ev: unknown) => unknown) | null = null;
+    onclose: ((ev: unknown) => unknown) | null = null;
+    sent: Frame[] = [];
+    private host: ((msg: Frame, socket: ScriptedSocket) => void) | null;
+
+    constructor(_url: string) {
+      this.host = hosts[sockets.length] ?? null;
+      sockets.push(this);
+      setTimeout(() => (this.host ? this.onopen?.({}) : this.onerror?.(new Error('refused'))), 0);
+    }
+
+    send(data: unknown): void {
+      const msg = JSON.parse(String(data));
+      this.sent.push(msg);
+      this.host?.(msg, this);
+    }
+
+    reply(frame: Frame, delayMs = 0): void {
+      setTimeout(() => this.onmessage?.({ data: JSON.stringify(frame) }), delayMs);
+    }
+
+    drop(): void {
+      setTimeout(() => this.onclose?.({}), 0);
+    }
+
+    close(): void {
+      // intentional close: handlers are detached by the agent
+    }
+  }
+  return { Socket, sockets };
+}
+
+interface ScriptedSocket {
+  sent: Frame[];
+  reply(frame: Frame, delayMs?: number): void;
+  drop(): void;
+}
+
+/** First connection: accepts CONNECT, then dies right after the INPUT */
+const dropsAfterInput = (msg: Frame, socket: ScriptedSocket) => {
+  if (msg.type === 'CONNECT') socket.reply({ type: 'CONNECTED', session_id: 's1', status: 'new' });
+  if (msg.type === 'INPUT') socket.drop();
+};
+
+const fast = { initialDelayMs: 1, maxDelayMs: 5 };
+
+describe('autoReconnect', () => {
+  it('resumes the session and resolves the pending input from the running host', async () => {
+    const { Socket, sockets } = scriptedSockets([
+      dropsAfterInput,
+      (msg, socket) => {
+        if (msg.type !== 'CONNECT') return;
+        socket.reply({ type: 'CONNECTED', session_id: 's1', status: 'running' });
+        socket.reply({ type: 'OUTPUT', result: 'Order 42 has shipped.', session: { session_id: 's1', turn: 1 } }, 5);
+      },
+    ]);
+    const agent = connect('0xabc123', { wsCtor: Socket as any, directUrl: 'http://localhost:8000', autoReconnect: fast });
+    const states: string[] = [];
+    agent.onMessage = () => states.push(agent.connectionState);
+
+    const response = await agent.input('Where is order 42?');
+
+    expect(response).toEqual({ text: 'Order 42 has shipped.', done: true });
+    expect(sockets[1].sent[0]).toMatchObject({ type: 'CONNECT', session_id: 's1' });
+    expect(states).toContain('reconnecting');
+    expect(agent.connectionState).toBe('connected');
+    agent.reset();
+  });
+
+  it('takes the answer from chat_items when the run finished while disconnected', async () => {
+    const { Socket } = scriptedSockets([
+      dropsAfterInput,
+      (msg, socket) => {
+        if (msg.type !== 'CONNECT') return;
+        socket.reply({
+          type: 'CONNECTED', session_id: 's1', status: 'connected', server_newer: true,
+          session: { session_id: 's1', turn: 1 },
+          chat_items: [{ id: 'u1', type: 'user', content: 'hi' }, { id: 'a1', type: 'agent', content: 'hello' }],
+        });
+      },
+    ]);
+    const agent = connect('0xabc123', { wsCtor: Socket as any, directUrl: 'http://localhost:8000', autoReconnect: fast });
+
+    const response = await agent.input('hi');
+
+    expect(response).toEqual({ text: 'hello', done: true });
+    expect(agent.status).toBe('idle');
+    expect(agent.ui.map(item => item.type)).toEqual(['user', 'agent']);
+    agent.reset();
+  });
+
+  it('sends the INPUT again, with the same input_id, when the host never got it', async () => {
+    const { Socket, sockets } = scriptedSockets([
+      dropsAfterInput,
+      (msg, socket) => {
+        if (msg.type === 'CONNECT') socket.reply({ type: 'CONNECTED', session_id: 's1', status: 'connected' });
+        if (msg.type === 'INPUT') socket.reply({ type: 'OUTPUT', result: 'pong', session: { session_id: 's1', turn: 1 } });
+      },
+    ]);
+    const agent = connect('0xabc123', { wsCtor: Socket as any, directUrl: 'http://localhost:8000', autoReconnect: fast });
+
+    const response = await agent.input('ping');
+
+    expect(response.text).toBe('pong');
+    const resent = sockets[1].sent.find(frame => frame.type === 'INPUT');
+    expect(resent?.input_id).toBe(sockets[0].sent.find(frame => frame.type === 'INPUT')?.input_id);
+    agent.reset();
+  });
+
+  it('rejects the pending input once maxAttempts reconnects have failed', async () => {
+    const { Socket, sockets } = scriptedSockets([dropsAfterInput, null, null, null]);
+    const agent = connect('0xabc123', {
+      wsCtor: Socket as any,
+      directUrl: 'http://localhost:8000',
+      autoReconnect: { ...fast, maxAttempts: 3 },
+    });
+
+    await expect(agent.input('ping')).rejects.toThrow('Connection closed before response (gave up after 3 reconnect attempts)');
+    expect(sockets).toHaveLength(4);
+    expect(agent.connectionState).toBe('disconnected');
+    expect(agent.status).toBe('idle');
+  });
+
+  it('rejects the pending input when the host no longer knows the session', async () => {
+    const { Socket } = scriptedSockets([
+      dropsAfterInput,
+      (msg, socket) => {
+        if (msg.type === 'CONNECT') socket.reply({ type: 'CONNECTED', session_id: 's2', status: 'new' });
+      },
+    ]);
+    const agent = connect('0xabc123', { wsCtor: Socket as any, directUrl: 'http://localhost:8000', autoReconnect: fast });
+
+    await expect(agent.input('ping')).rejects.toThrow('Session was lost while reconnecting');
+    agent.reset();
+  });
+
+  it('is off by default: a drop rejects the pending input', async () => {
+    const { Socket, sockets } = scriptedSockets([dropsAfterInput]);
+    const agent = connect('0xabc123', { wsCtor: Socket as any, directUrl: 'http://localhost:8000' });
+
+    await expect(agent.input('ping')).rejects.toThrow('Connection closed before response');
+    expect(sockets).toHaveLength(1);
+    expect(agent.connectionState).toBe('disconnected');
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Tests for RelayPool: many RemoteAgents multiplexed over one relay WebSocket
+ */
+
+import { Agent } from '../src/core/agent';
+import { serve, AgentServer } from '../src/host/serve';
+import { serveRelay, RelayServer } from '../src/host/relay';
+import { connect, RelayPool } from '../src/connect';
+import * as address from '../src/address';
+import { LLM, LLMResponse } from '../src/types';
+
+class MockLLM implements LLM {
+  model = 'gpt-4o-mini';
+
+  constructor(private reply: string) {}
+
+  async complete(): Promise<LLMResponse> {
+    return { content: this.reply, toolCalls: [], rawResponse: {} };
+  }
+
+  async structuredComplete<T = any>(): Promise<T> {
+    throw new Error('Not implemented in MockLLM');
+  }
+}
+
+/** The ws package, counting the sockets it opens */
+function countingSockets() {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const WebSocket = require('ws');
+  const counter = { opened: 0 };
+  class Counting extends WebSocket {
+    constructor(url: string) {
+      super(url);
+      counter.opened++;
+    }
+  }
+  return { Counting, counter };
+}
+
+/** Sockets that send CHANNELS unsigned, so the relay refuses it as a relay without channels would */
+function refusingChannels() {
+  const { Counting, counter } = countingSockets();
+  class Refusing extends (Counting as any) {
+    send(data: string): void {
+      const frame = JSON.parse(data);
+      super.send(frame.type === 'CHANNELS' ? JSON.stringify({ type: 'CHANNELS' }) : data);
+    }
+  }
+  return { Refusing, counter };
+}
+
+/** Sockets whose first CHANNELS frame never reaches the relay, like a handshake lost on the network */
+function losingFirstHandshake() {
+  const { Counting, counter } = countingSockets();
+  let lost = false;
+  class Losing extends (Counting as any) {
+    send(data: string): void {
+      if (!lost && JSON.parse(data).type === 'CHANNELS') {
+        lost = true;
+        return;
+      }
+      super.send(data);
+    }
+  }
+  return { Losing, counter };
+}
+
+describe('RelayPool', () => {
+  let relay: RelayServer;
+  const servers: AgentServer[] = [];
+  const clientKeys = address.generate();
+
+  beforeEach(async () => {
+    relay = await serveRelay({ port: 0, host: '127.0.0.1' });
+  });
+
+  afterEach(async () => {
+    for (const server of servers.splice(0)) await server.close();
+    await relay.close();
+  });
+
+  async function host(name: string) {
+    const keys = address.generate();
+    const agent = () => new Agent({ name, llm: new MockLLM(`${name} here.`), log: false });
+    servers.push(await serve(agent, { port: 0, host: '127.0.0.1', keys, relayUrl: relay.url }));
+    return keys.address;
+  }
+
+  it('talks to several agents over one socket and routes each reply to its agent', async () => {
+    const [orders, billing] = [await host('orders'), await host('billing')];
+    const { Counting, counter } = countingSockets();
+    const pool = new RelayPool({ relayUrl: relay.url, wsCtor: Counting as any });
+    const a = connect(orders, { pool, keys: clientKeys });
+    const b = connect(billing, { pool, keys: clientKeys });
+
+    const [fromA, fromB] = await Promise.all([a.input('hi'), b.input('hi')]);
+
+    expect(fromA).toEqual({ text: 'orders here.', done: true });
+    expect(fromB).toEqual({ text: 'billing here.', done: true });
+    expect(pool.size).toBe(2);
+    expect(counter.opened).toBe(1);
+
+    const observer = connect(orders, { pool, keys: clientKeys });
+    expect(await observer.checkSessionStatus(a.currentSession!.session_id!)).toBe('connected');
+    expect(await b.input('again')).toEqual({ text: 'billing here.', done: true });
+    expect(counter.opened).toBe(1);
+
+    a.reset();
+    b.reset();
+  });
+
+  it('opens the socket with the first agent and closes it with the last', async () => {
+    const orders = await host('orders');
+    const { Counting, counter } = countingSockets();
+    const pool = new RelayPool({ relayUrl: relay.url, wsCtor: Counting as any });
+    const a = connect(orders, { pool, keys: clientKeys });
+    const b = connect(orders, { pool, keys: clientKeys });
+    await a.connect();
+    await b.connect();
+    expect(a.currentSession!.session_id).not.toBe(b.currentSession!.session_id);
+
+    a.reset();
+    expect(pool.connected).toBe(true);
+    expect(await b.input('still here?')).toEqual({ text: 'orders here.', done: true });
+    b.reset();
+    expect(pool.size).toBe(0);
+    expect(pool.connected).toBe(false);
+
+    await a.connect();
+    expect(counter.opened).toBe(2);
+    a.reset();
+  });
+
+  it('closes only the channels of an agent that goes offline', async () => {
+    const [orders, billing] = [await host('orders'), await host('billing')];
+    const pool = new RelayPool({ relayUrl: relay.url });
+    const a = connect(orders, { pool, keys: clientKeys });
+    const b = connect(billing, { pool, keys: clientKeys });
+    await Promise.all([a.connect(), b.connect()]);
+
+    await servers.shift()!.close();
+    while (pool.size > 1) await new Promise(resolve => setTimeout(resolve, 5));
+
+    expect(pool.connected).toBe(true);
+    expect(await b.input('hi')).toEqual({ text: 'billing here.', done: true });
+    await expect(a.input('hi')).rejects.toThrow('Connection lost during authentication');
+    expect(pool.size).toBe(1);
+    b.reset();
+  });
+
+  it('gives each agent its own socket when the relay refuses channels', async () => {
+    const [orders, billing] = [await host('orders'), await host('billing')];
+    const { Refusing, counter } = refusingChannels();
+    const pool = new RelayPool({ relayUrl: relay.url, wsCtor: Refusing as any });
+    const a = connect(orders, { pool, keys: clientKeys });
+    const b = connect(billing, { pool, keys: clientKeys });
+
+    const [fromA, fromB] = await Promise.all([a.input('hi'), b.input('hi')]);
+
+    expect(fromA).toEqual({ text: 'orders here.', done: true });
+    expect(fromB).toEqual({ text: 'billing here.', done: true });
+    expect(pool.mode).toBe('sockets');
+    expect(counter.opened).toBe(3);
+
+    const c = connect(orders, { pool, keys: clientKeys });
+    expect(await c.input('hi')).toEqual({ text: 'orders here.', done: true });
+    expect(counter.opened).toBe(4);
+    a.reset();
+    b.reset();
+    c.reset();
+  });
+
+  it('tries channels again after a handshake that got no answer', async () => {
+    const orders = await host('orders');
+    const { Losing, counter } = losingFirstHandshake();
+    const pool = new RelayPool({ relayUrl: relay.url, wsCtor: Losing as any, handshakeTimeoutMs: 100 });
+    const a = connect(orders, { pool, keys: clientKeys });
+
+    expect(await a.input('hi')).toEqual({ text: 'orders here.', done: true });
+    expect(pool.mode).toBe('unknown');
+    expect(counter.opened).toBe(2);
+
+    const b = connect(orders, { pool, keys: clientKeys });
+    expect(await b.input('hi')).toEqual({ text: 'orders here.', done: true });
+    expect(pool.mode).toBe('channels');
+    expect(counter.opened).toBe(3);
+    a.reset();
+    b.reset();
+  });
+
+  it('refuses channels on a socket that has not sent CHANNELS', async () => {
+    const orders = await host('orders');
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const WebSocket = require('ws');
+    const ws = new WebSocket(`${relay.url}/ws/input`);
+    await new Promise(resolve => ws.once('open', resolve));
+    const reply = new Promise(resolve => ws.once('message', (data: Buffer) => resolve(JSON.parse(String(data)))));
+
+    ws.send(JSON.stringify({ type: 'CONNECT', to: orders, channel: 'c1' }));
+
+    expect(await reply).toEqual({ type: 'ERROR', message: 'Send CHANNELS before using channels', channel: 'c1' });
+    ws.close();
+  });
+});
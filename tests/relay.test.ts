@@ -0,0 +1,171 @@
+/**
+ * Tests for serveRelay(): agent announcement, routing by address and the /api/agents directory
+ */
+
+import { Agent } from '../src/core/agent';
+import { serve, AgentServer } from '../src/host/serve';
+import { serveRelay, verifyAnnounce, RelayServer } from '../src/host/relay';
+import { connect, fetchAgentInfo } from '../src/connect';
+import { signPayload } from '../src/connect/auth';
+import * as address from '../src/address';
+import { LLM, LLMResponse, Message, FunctionSchema } from '../src/types';
+
+class MockLLM implements LLM {
+  private callCount = 0;
+  model = 'gpt-4o-mini';
+
+  constructor(private responses: LLMResponse[]) {}
+
+  async complete(_messages: Message[], _tools?: FunctionSchema[]): Promise<LLMResponse> {
+    return this.responses[this.callCount++] || { content: 'done', toolCalls: [], rawResponse: {} };
+  }
+
+  async structuredComplete<T = any>(_messages: Message[], _schema: any): Promise<T> {
+    throw new Error('Not implemented in MockLLM');
+  }
+}
+
+function ordersAgent() {
+  return new Agent({
+    name: 'orders',
+    llm: new MockLLM([
+      { content: null, toolCalls: [{ name: 'lookup', arguments: { id: '42' }, id: 'call_1' }], rawResponse: {} },
+      { content: 'Order 42 has shipped.', toolCalls: [], rawResponse: {} },
+    ]),
+    tools: [function lookup(id: string) { return `order ${id}: shipped`; }],
+    log: false,
+  });
+}
+
+describe('verifyAnnounce', () => {
+  const agent = address.generate();
+  const relays = ['wss://relay.example'];
+
+  it('accepts a fresh announcement signed for this relay', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const payload = { timestamp: now, relay: 'wss://relay.example', endpoints: ['http://localhost:8001'], profile: { name: 'orders' } };
+    expect(verifyAnnounce({ type: 'ANNOUNCE', ...signPayload(agent, payload) }, relays)).toEqual({
+      address: agent.address,
+      endpoints: ['http://localhost:8001'],
+      profile: { name: 'orders' },
+      timestamp: now,
+    });
+  });
+
+  it('refuses unsigned, tampered, expired and misaddressed announcements', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const tampered: Record<string, unknown> = { type: 'ANNOUNCE', ...signPayload(agent, { timestamp: now, relay: relays[0], endpoints: [] }) };
+    (tampered.payload as Record<string, unknown>).endpoints = ['http://evil.example'];
+    const signed = (payload: Record<string, unknown>) => verifyAnnounce({ type: 'ANNOUNCE', ...signPayload(agent, payload) }, relays);
+
+    expect(verifyAnnounce({ type: 'ANNOUNCE', payload: { timestamp: now } }, relays)).toEqual({ error: 'ANNOUNCE must be signed' });
+    expect(verifyAnnounce(tampered, relays)).toEqual({ error: 'Invalid signature' });
+    expect(signed({ timestamp: now - 3600, relay: relays[0] })).toEqual({ error: 'ANNOUNCE signature has expired' });
+    expect(signed({ timestamp: now, relay: 'wss://other-relay.example' })).toEqual({ error: 'ANNOUNCE was signed for a different relay' });
+    expect(signed({ timestamp: now })).toEqual({ error: 'ANNOUNCE was signed for a different relay' });
+  });
+});
+
+describe('serveRelay', () => {
+  let relay: RelayServer;
+  let server: AgentServer | null = null;
+  const keys = address.generate();
+  const clientKeys = address.generate();
+
+  beforeEach(async () => {
+    relay = await serveRelay({ port: 0, host: '127.0.0.1' });
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+    await relay.close();
+  });
+
+  it('publishes an announced agent at /api/agents/:address', async () => {
+    server = await serve(ordersAgent(), { port: 0, host: '127.0.0.1', keys, relayUrl: relay.url });
+
+    const record = await fetch(`${relay.url.replace('ws', 'http')}/api/agents/${keys.address}`).then(res => res.json());
+
+    expect(record).toMatchObject({
+      address: keys.address,
+      endpoints: [server.url],
+      relay: relay.url,
+      profile: { name: 'orders', tools: ['lookup'] },
+    });
+    expect(typeof record.last_seen).toBe('string');
+  });
+
+  it('reports an agent offline once its announce connection is gone', async () => {
+    server = await serve(ordersAgent(), { port: 0, host: '127.0.0.1', keys, relayUrl: relay.url, endpoints: [] });
+    expect(await fetchAgentInfo(keys.address, relay.url)).toMatchObject({ name: 'orders', online: true });
+
+    await server.close();
+    server = null;
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const info = await fetchAgentInfo(keys.address, relay.url);
+    expect(info).toMatchObject({ name: 'orders', online: false });
+    expect(await fetchAgentInfo(clientKeys.address, relay.url)).toEqual({ address: clientKeys.address, online: false });
+  });
+
+  it('routes a RemoteAgent to the agent by address when it has no direct endpoint', async () => {
+    server = await serve(() => ordersAgent(), { port: 0, host: '127.0.0.1', keys, relayUrl: relay.url, endpoints: [] });
+    const remote = connect(keys.address, { relayUrl: relay.url, keys: clientKeys });
+
+    const response = await remote.input('Where is order 42?');
+
+    expect(response).toEqual({ text: 'Order 42 has shipped.', done: true });
+    expect(remote.ui.find(item => item.type === 'tool_call')).toMatchObject({ name: 'lookup', status: 'done', result: 'order 42: shipped' });
+    expect(await remote.checkSessionStatus(remote.currentSession!.session_id!)).toBe('connected');
+    remote.reset();
+  });
+
+  it('connects directly to an endpoint the agent published', async () => {
+    server = await serve(() => ordersAgent(), { port: 0, host: '127.0.0.1', keys, relayUrl: relay.url });
+    const remote = connect(keys.address, { relayUrl: relay.url, keys: clientKeys });
+
+    await remote.input('Where is order 42?');
+
+    expect(remote._resolvedEndpoint).toEqual({ httpUrl: server.url, wsUrl: `${server.url.replace('http', 'ws')}/ws` });
+    remote.reset();
+  });
+
+  it('refuses to connect a client to an agent that is offline', async () => {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const WebSocket = require('ws');
+    const ws = new WebSocket(`${relay.url}/ws/input`);
+
+    const frames: any[] = [];
+    await new Promise<void>(resolve => {
+      ws.on('open', () => ws.send(JSON.stringify({ type: 'CONNECT', to: keys.address })));
+      ws.on('message', (data: unknown) => frames.push(JSON.parse(String(data))));
+      ws.on('close', () => resolve());
+    });
+
+    expect(frames).toEqual([{ type: 'ERROR', message: `Agent ${keys.address} is offline` }]);
+  });
+
+  it('refuses a replayed announcement and keeps the agent that holds the address', async () => {
+    server = await serve(() => ordersAgent(), { port: 0, host: '127.0.0.1', keys, relayUrl: relay.url, endpoints: [] });
+    // A signed ANNOUNCE captured a minute ago, still inside the clock-skew window
+    const captured = signPayload(keys, { timestamp: Math.floor(Date.now() / 1000) - 60, relay: relay.url, endpoints: ['http://evil.example'] });
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const WebSocket = require('ws');
+    const ws = new WebSocket(`${relay.url}/ws/announce`);
+
+    const frames: any[] = [];
+    await new Promise<void>(resolve => {
+      ws.on('open', () => ws.send(JSON.stringify({ type: 'ANNOUNCE', ...captured })));
+      ws.on('message', (data: unknown) => frames.push(JSON.parse(String(data))));
+      ws.on('close', () => resolve());
+    });
+
+    expect(frames).toEqual([{ type: 'ERROR', message: 'ANNOUNCE is not newer than the last one for this address' }]);
+    const record = await fetch(`${relay.url.replace('ws', 'http')}/api/agents/${keys.address}`).then(res => res.json());
+    expect(record).toMatchObject({ endpoints: [], relay: relay.url });
+    const remote = connect(keys.address, { relayUrl: relay.url, keys: clientKeys });
+    expect(await remote.input('Where is order 42?')).toEqual({ text: 'Order 42 has shipped.', done: true });
+    remote.reset();
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for agent.run() outcomes and the optional final summary call
+ */
+
+import { Agent } from '../src/core/agent';
+import { LLM, LLMResponse, Message, FunctionSchema } from '../src/types';
+
+class MockLLM implements LLM {
+  private callCount = 0;
+  public seen: Message[][] = [];
+
+  constructor(private responses: LLMResponse[]) {}
+
+  async complete(messages: Message[], _tools?: FunctionSchema[]): Promise<LLMResponse> {
+    this.seen.push(messages.map(m => ({ ...m })));
+    return this.responses[this.callCount++] || { content: 'Default response', toolCalls: [], rawResponse: {} };
+  }
+
+  async structuredComplete<T = any>(_messages: Message[], _schema: any): Promise<T> {
+    throw new Error('Not implemented in MockLLM');
+  }
+}
+
+function toolTurn(content: string | null, id: string): LLMResponse {
+  return { content, toolCalls: [{ name: 'lookup', arguments: {}, id }], rawResponse: {} };
+}
+
+function lookup(): string {
+  return 'data';
+}
+
+describe('agent.run()', () => {
+  it('reports completed runs with text and this run\'s trace', async () => {
+    const llm = new MockLLM([toolTurn(null, 'call_1'), { content: 'All done', toolCalls: [], rawResponse: {} }]);
+    const agent = new Agent({ name: 'run', llm, tools: [lookup], log: false });
+
+    const result = await agent.run('go');
+
+    expect(result).toMatchObject({ status: 'completed', text: 'All done', iterations: 2 });
+    expect(result.trace.map(t => t.tool_name)).toEqual(['lookup']);
+  });
+
+  it('reports max_iterations with the latest partial text', async () => {
+    const llm = new MockLLM([toolTurn('Step one', 'call_1'), toolTurn(null, 'call_2')]);
+    const agent = new Agent({ name: 'run', llm, tools: [lookup], maxIterations: 2, log: false });
+
+    const result = await agent.run('go');
+
+    expect(result.status).toBe('max_iterations');
+    expect(result.text).toBe('Step one');
+  });
+
+  it('asks the model to wrap up when finalSummary is set', async () => {
+    const llm = new MockLLM([
+      toolTurn(null, 'call_1'),
+      { content: 'Summary so far', toolCalls: [{ name: 'lookup', arguments: {}, id: 'ignored' }], rawResponse: {} },
+    ]);
+    const agent = new Agent({ name: 'run', llm, tools: [lookup], maxIterations: 1, log: false });
+
+    const result = await agent.run('go', { finalSummary: 'Wrap up now.' });
+
+    expect(result).toMatchObject({ status: 'max_iterations', text: 'Summary so far' });
+    expect(llm.seen[1][llm.seen[1].length - 1]).toEqual({ role: 'user', content: 'Wrap up now.' });
+    const messages = agent.getSession().messages;
+    expect(messages[messages.length - 1]).toEqual({ role: 'assistant', content: 'Summary so far' });
+  });
+
+  it('reports budget_exceeded with the ceiling that was hit', async () => {
+    const llm = new MockLLM([toolTurn('Working', 'call_1'), toolTurn(null, 'call_2')]);
+    const agent = new Agent({ name: 'run', llm, tools: [lookup], log: false });
+
+    const result = await agent.run('go', { budget: { maxToolCalls: 1 } });
+
+    expect(result.status).toBe('budget_exceeded');
+    expect(result.budget).toMatchObject({ limit: 'tool_calls', max: 1, used: 2 });
+    expect(result.text).toBe('Working');
+  });
+
+  it('resolves with cancelled or error instead of throwing', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const agent = new Agent({ name: 'run', llm: new MockLLM([]), log: false });
+    expect((await agent.run('go', { signal: controller.signal })).status).toBe('cancelled');
+
+    const failing = new Agent({
+      name: 'run',
+      llm: { complete: async () => { throw new Error('provider down'); }, structuredComplete: async () => ({}) as any },
+      log: false,
+    });
+    const result = await failing.run('go');
+    expect(result.status).toBe('error');
+    expect((result.error as Error).message).toBe('provider down');
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Tests for serve(): hosting a local Agent over the ConnectOnion WebSocket protocol
+ */
+
+import { Agent } from '../src/core/agent';
+import { serve, verifyConnect, AgentServer } from '../src/host/serve';
+import { connect } from '../src/connect';
+import { signPayload } from '../src/connect/auth';
+import { withToolOptions } from '../src/tools/tool-utils';
+import * as address from '../src/address';
+import { LLM, LLMResponse, Message, FunctionSchema, TokenUsage } from '../src/types';
+
+class MockLLM implements LLM {
+  private callCount = 0;
+  model = 'gpt-4o-mini';
+
+  constructor(private responses: LLMResponse[]) {}
+
+  async complete(_messages: Message[], _tools?: FunctionSchema[]): Promise<LLMResponse> {
+    return this.responses[this.callCount++] || { content: 'done', toolCalls: [], rawResponse: {} };
+  }
+
+  async structuredComplete<T = any>(_messages: Message[], _schema: any): Promise<T> {
+    throw new Error('Not implemented in MockLLM');
+  }
+}
+
+function usage(total: number): TokenUsage {
+  return { input_tokens: total / 2, output_tokens: total / 2, cached_tokens: 0, reasoning_tokens: 0, total_tokens: total };
+}
+
+function lookupAgent(lookup: (...args: any[]) => any = function lookup(id: string) { return `order ${id}: shipped`; }) {
+  return new Agent({
+    name: 'orders',
+    llm: new MockLLM([
+      { content: 'Let me check.', toolCalls: [{ name: 'lookup', arguments: { id: '42' }, id: 'call_1' }], rawResponse: {}, usage: usage(100) },
+      { content: 'Order 42 has shipped.', toolCalls: [], rawResponse: {}, usage: usage(50) },
+    ]),
+    tools: [lookup],
+    log: false,
+  });
+}
+
+describe('verifyConnect', () => {
+  const host = address.generate();
+  const client = address.generate();
+  const signed = (payload: Record<string, unknown>): Record<string, unknown> => ({ type: 'CONNECT', ...signPayload(client, payload) });
+
+  it('accepts a fresh payload signed for this agent', () => {
+    const now = Math.floor(Date.now() / 1000);
+    expect(verifyConnect(signed({ timestamp: now, to: host.address }), host.address)).toEqual({ client: client.address });
+  });
+
+  it('refuses tampered, misaddressed and expired payloads', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const tampered = signed({ timestamp: now, to: host.address });
+    (tampered.payload as Record<string, unknown>).timestamp = now + 1;
+
+    expect(verifyConnect(tampered, host.address)).toEqual({ error: 'Invalid signature' });
+    expect(verifyConnect(signed({ timestamp: now, to: client.address }), host.address)).toEqual({ error: 'CONNECT was signed for a different agent' });
+    expect(verifyConnect(signed({ timestamp: now - 3600, to: host.address }), host.address)).toEqual({ error: 'CONNECT signature has expired' });
+  });
+
+  it('accepts unsigned frames unless signatures are required', () => {
+    expect(verifyConnect({ type: 'CONNECT' }, host.address)).toEqual({ client: null });
+    expect(verifyConnect({ type: 'CONNECT' }, host.address, true)).toEqual({ error: 'This agent only accepts signed connections' });
+  });
+});
+
+describe('serve', () => {
+  let server: AgentServer | null = null;
+  const keys = address.generate();
+  const clientKeys = address.generate();
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  it('describes the agent at /info', async () => {
+    server = await serve(lookupAgent(), { port: 0, host: '127.0.0.1', keys });
+
+    const info = await fetch(`${server.url}/info`).then(res => res.json());
+
+    expect(info).toMatchObject({ address: keys.address, name: 'orders', tools: ['lookup'], model: 'gpt-4o-mini' });
+  });
+
+  it('runs a prompt and streams the events a RemoteAgent maps into chat items', async () => {
+    server = await serve(() => lookupAgent(), { port: 0, host: '127.0.0.1', keys });
+    const remote = connect(server.address, { directUrl: server.url, keys: clientKeys });
+
+    const response = await remote.input('Where is order 42?');
+
+    expect(response).toEqual({ text: 'Order 42 has shipped.', done: true });
+    expect(remote.ui.map(item => item.type)).toEqual(['user', 'thinking', 'agent', 'tool_call', 'thinking', 'agent']);
+    expect(remote.ui[1]).toMatchObject({ status: 'done', model: 'gpt-4o-mini', usage: { total_tokens: 100 } });
+    expect(remote.ui[2]).toMatchObject({ content: 'Let me check.' });
+    expect(remote.ui[3]).toMatchObject({ name: 'lookup', args: { id: '42' }, status: 'done', result: 'order 42: shipped' });
+    expect(remote.currentSession).toMatchObject({ turn: 1, mode: 'safe' });
+    expect(remote.profile).toMatchObject({ name: 'orders', online: true });
+
+    expect(await remote.checkSessionStatus(remote.currentSession!.session_id!)).toBe('connected');
+    remote.reset();
+  });
+
+  it('asks the connected client to approve gated tools', async () => {
+    const ran: string[] = [];
+    const lookup = withToolOptions(function lookup(id: string) { ran.push(id); return 'ok'; }, { requiresApproval: true });
+    server = await serve(() => lookupAgent(lookup), { port: 0, host: '127.0.0.1', keys });
+    const remote = connect(server.address, { directUrl: server.url, keys: clientKeys });
+    remote.onMessage = () => {
+      const last = remote.ui[remote.ui.length - 1];
+      if (last?.type === 'approval_needed' && remote.status === 'waiting') {
+        remote.send({ type: 'APPROVAL_RESPONSE', approved: false, feedback: 'not that one' });
+      }
+    };
+
+    await remote.input('Where is order 42?');
+
+    const approval = remote.ui.find(item => item.type === 'approval_needed');
+    expect(approval).toMatchObject({ tool: 'lookup', arguments: { id: '42' } });
+    expect(ran).toEqual([]);
+    expect(remote.ui.find(item => item.type === 'tool_call')).toMatchObject({
+      status: 'error',
+      result: "User rejected the call to 'lookup': not that one",
+    });
+    remote.reset();
+  });
+
+  it('stops the run when the client cancels and keeps the session usable', async () => {
+    const crawl = function crawl() { return new Promise(() => { /* runs until cancelled */ }); };
+    server = await serve(() => new Agent({
+      name: 'crawler',
+      llm: new MockLLM([
+        { content: null, toolCalls: [{ name: 'crawl', arguments: {}, id: 'call_1' }], rawResponse: {} },
+        { content: 'Fresh start.', toolCalls: [], rawResponse: {} },
+      ]),
+      tools: [crawl],
+      log: false,
+    }), { port: 0, host: '127.0.0.1', keys });
+    const remote = connect(server.address, { directUrl: server.url, keys: clientKeys });
+    const toolStarted = new Promise<void>(resolve => remote.on('chatItemAdded', item => { if (item.type === 'tool_call') resolve(); }));
+
+    const pending = remote.input('Crawl everything');
+    await toolStarted;
+    remote.cancel();
+
+    expect(await pending).toEqual({ text: '', done: true, cancelled: true });
+    expect(remote.ui.find(item => item.type === 'tool_call')).toMatchObject({ status: 'stopped' });
+    // The crawl never returns on its own, so this only runs if the host stopped it
+    expect(await remote.input('Start over')).toEqual({ text: 'Fresh start.', done: true });
+    remote.reset();
+  });
+
+  it('answers a repeated input_id from its record instead of running it again', async () => {
+    server = await serve(() => new Agent({ name: 'once', llm: new MockLLM([
+        { content: 'First answer.', toolCalls: [], rawResponse: {} },
+        { content: 'Second answer.', toolCalls: [], rawResponse: {} },
+      ]), log: false }), { port: 0, host: '127.0.0.1', keys });
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const WebSocket = require('ws');
+    const ws = new WebSocket(`${server.url.replace('http', 'ws')}/ws`);
+    const input = { type: 'INPUT', input_id: 'in-1', prompt: 'Hello' };
+
+    const outputs: any[] = [];
+    await new Promise<void>(resolve => {
+      ws.on('open', () => ws.send(JSON.stringify({ type: 'CONNECT' })));
+      ws.on('message', (data: unknown) => {
+        const frame = JSON.parse(String(data));
+        if (frame.type === 'CONNECTED') ws.send(JSON.stringify(input));
+        if (frame.type !== 'OUTPUT') return;
+        outputs.push(frame);
+        if (outputs.length === 1) ws.send(JSON.stringify(input));
+        else resolve();
+      });
+    });
+    ws.close();
+
+    expect(outputs.map(frame => [frame.input_id, frame.result, frame.session.turn])).toEqual([
+      ['in-1', 'First answer.', 1],
+      ['in-1', 'First answer.', 1],
+    ]);
+  });
+
+  it('refuses unsigned connections when signatures are required', async () => {
+    server = await serve(lookupAgent(), { port: 0, host: '127.0.0.1', keys, requireSignature: true });
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const WebSocket = require('ws');
+    const ws = new WebSocket(`${server.url.replace('http', 'ws')}/ws`);
+
+    const frames: any[] = [];
+    await new Promise<void>(resolve => {
+      ws.on('open', () => ws.send(JSON.stringify({ type: 'CONNECT', prompt: '' })));
+      ws.on('message', (data: unknown) => frames.push(JSON.parse(String(data))));
+      ws.on('close', () => resolve());
+    });
+
+    expect(frames).toEqual([{ type: 'ERROR', message: 'This agent only accepts signed connections' }]);
+  });
+
+  it('never resumes a session for an unsigned client', async () => {
+    server = await serve(() => lookupAgent(), { port: 0, host: '127.0.0.1', keys });
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const WebSocket = require('ws');
+    const connectUnsigned = (sessionId?: string) => new Promise<any>(resolve => {
+      const ws = new WebSocket(`${server!.url.replace('http', 'ws')}/ws`);
+      ws.on('open', () => ws.send(JSON.stringify({ type: 'CONNECT', ...(sessionId && { session_id: sessionId }) })));
+      ws.on('message', (data: unknown) => {
+        const frame = JSON.parse(String(data));
+        if (frame.type === 'CONNECTED') {
+          ws.close();
+          resolve(frame);
+        }
+      });
+    });
+
+    const first = await connectUnsigned();
+    const second = await connectUnsigned(first.session_id);
+
+    expect(second.session_id).not.toBe(first.session_id);
+    expect(second.status).toBe('new');
+  });
+
+  it('keeps the approval mode per session and leaves the agent\'s approver alone', async () => {
+    const ran: string[] = [];
+    const asked: string[] = [];
+    const agent = lookupAgent(withToolOptions(function lookup(id: string) { ran.push(id); return 'ok'; }, { requiresApproval: true }));
+    agent.setApprover(request => { asked.push(request.tool); return false; });
+    server = await serve(agent, { port: 0, host: '127.0.0.1', keys });
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const WebSocket = require('ws');
+    const exchange = (connectFrame: Record<string, unknown>, frames: Record<string, unknown>[]) => new Promise<any[]>(resolve => {
+      const ws = new WebSocket(`${server!.url.replace('http', 'ws')}/ws`);
+      const received: any[] = [];
+      ws.on('open', () => ws.send(JSON.stringify(connectFrame)));
+      ws.on('message', (data: unknown) => {
+        const frame = JSON.parse(String(data));
+        received.push(frame);
+        if (frame.type === 'CONNECTED') for (const next of frames) ws.send(JSON.stringify(next));
+        if (frame.type === 'OUTPUT' || frame.type === 'ERROR') {
+          ws.close();
+          resolve(received);
+        }
+      });
+    });
+
+    const unsigned = await exchange({ type: 'CONNECT' }, [{ type: 'mode_change', mode: 'ulw' }]);
+    expect(unsigned[unsigned.length - 1]).toEqual({ type: 'ERROR', message: 'Sign the connection to change the approval mode' });
+
+    const signedConnect = { type: 'CONNECT', ...signPayload(clientKeys, { timestamp: Math.floor(Date.now() / 1000), to: keys.address }) };
+    const signed = await exchange(signedConnect, [{ type: 'mode_change', mode: 'ulw' }, { type: 'INPUT', prompt: 'Where is order 42?' }]);
+    expect(signed[signed.length - 1]).toMatchObject({ type: 'OUTPUT', session: { mode: 'ulw' } });
+    expect(ran).toEqual(['42']);
+    expect(agent.getApprovalMode()).toBe('safe');
+
+    // A run outside serve() still goes through the approver the agent was given
+    await agent.executeTool('lookup', { id: '7' });
+    expect(asked).toEqual(['lookup']);
+    expect(ran).toEqual(['42']);
+  });
+});
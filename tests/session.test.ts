@@ -0,0 +1,167 @@
+/**
+ * Tests for persistent Agent sessions
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Agent } from '../src/core/agent';
+import { FileSessionStore, SessionStore } from '../src/core/session';
+import { SessionState } from '../src/connect/types';
+import { LLM, LLMResponse, Message, FunctionSchema } from '../src/types';
+
+class MockLLM implements LLM {
+  private callCount = 0;
+  public seen: Message[][] = [];
+
+  constructor(private responses: LLMResponse[]) {}
+
+  async complete(messages: Message[], _tools?: FunctionSchema[]): Promise<LLMResponse> {
+    this.seen.push(messages.map(m => ({ ...m })));
+    return this.responses[this.callCount++] || { content: 'Default response', toolCalls: [], rawResponse: {} };
+  }
+
+  async structuredComplete<T = any>(_messages: Message[], _schema: any): Promise<T> {
+    throw new Error('Not implemented in MockLLM');
+  }
+}
+
+function reply(content: string): LLMResponse {
+  return { content, toolCalls: [], rawResponse: {} };
+}
+
+describe('Agent sessions', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'co-sessions-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('saves after each run and resumes in a new Agent', async () => {
+    const store = new FileSessionStore({ dir });
+    const first = new Agent({ name: 's', llm: new MockLLM([reply('Hi Ada')]), session: 'chat-1', sessionStore: store, log: false });
+    await first.input('My name is Ada');
+
+    const saved = JSON.parse(fs.readFileSync(path.join(dir, 'chat-1.json'), 'utf-8'));
+    expect(saved).toMatchObject({ session_id: 'chat-1', turn: 1 });
+    expect(saved.messages.map((m: Message) => m.role)).toEqual(['system', 'user', 'assistant']);
+
+    const llm = new MockLLM([reply('Ada')]);
+    const second = new Agent({ name: 's', llm, session: 'chat-1', sessionStore: store, log: false });
+    await second.input('What is my name?');
+
+    expect(llm.seen[0].map(m => m.content)).toContain('My name is Ada');
+    expect(second.getSession()).toMatchObject({ session_id: 'chat-1', turn: 2 });
+  });
+
+  it('loadSession() switches conversations and reports unknown ids', async () => {
+    const store = new FileSessionStore({ dir });
+    await store.save('old', { session_id: 'old', messages: [{ role: 'system', content: 'sys' }, { role: 'user', content: 'earlier' }], trace: [], turn: 1 });
+    const agent = new Agent({ name: 's', llm: new MockLLM([]), sessionStore: store, log: false });
+
+    expect(await agent.loadSession('old')).toBe(true);
+    expect(agent.getSession().user_prompt).toBe('earlier');
+    expect(await agent.loadSession('new')).toBe(false);
+    expect(agent.getSession().messages).toEqual([]);
+  });
+
+  it('writes nothing without a session id until saveSession() is called', async () => {
+    const store = new FileSessionStore({ dir, format: 'yaml' });
+    const agent = new Agent({ name: 's', llm: new MockLLM([reply('ok')]), sessionStore: store, log: false });
+    await agent.input('hello');
+    expect(await store.list()).toEqual([]);
+
+    const id = await agent.saveSession();
+
+    expect(await store.list()).toEqual([id]);
+    expect((await store.load(id))!.messages).toHaveLength(3);
+  });
+
+  it('writes YAML and reads sessions written by hand', async () => {
+    const store = new FileSessionStore({ dir, format: 'yaml' });
+    fs.writeFileSync(path.join(dir, 'ticket-7.yaml'), [
+      'session_id: ticket-7',
+      'turn: 1',
+      'messages:',
+      '  - role: system',
+      '    content: You are a support agent.',
+      '  - role: user',
+      '    content: My order is late',
+      'trace: []',
+      '',
+    ].join('\n'));
+    const agent = new Agent({ name: 's', llm: new MockLLM([reply('Sorry about that')]), session: 'ticket-7', sessionStore: store, log: false });
+
+    await agent.input('Any update?');
+
+    const saved = fs.readFileSync(path.join(dir, 'ticket-7.yaml'), 'utf-8');
+    expect(saved).toContain('session_id: ticket-7');
+    expect(saved).not.toMatch(/^\{/);
+    expect((await store.load('ticket-7'))!.messages!.map(m => m.content)).toEqual([
+      'You are a support agent.', 'My order is late', 'Any update?', 'Sorry about that',
+    ]);
+  });
+
+  it('waits for an async store before the first run', async () => {
+    const saved: Record<string, SessionState> = {
+      'chat-9': { session_id: 'chat-9', messages: [{ role: 'system', content: 'sys' }, { role: 'user', content: 'I am Ada' }], trace: [], turn: 1 },
+    };
+    const store: SessionStore = {
+      load: id => new Promise(resolve => setTimeout(() => resolve(saved[id] ?? null), 10)),
+      save: async (id, state) => { saved[id] = state; },
+      delete: async id => { delete saved[id]; },
+      list: async () => Object.keys(saved),
+    };
+    const llm = new MockLLM([reply('Ada')]);
+    const agent = new Agent({ name: 's', llm, session: 'chat-9', sessionStore: store, log: false });
+
+    await agent.input('What is my name?');
+
+    expect(llm.seen[0].map(m => m.content)).toContain('I am Ada');
+    expect(saved['chat-9'].turn).toBe(2);
+  });
+
+  it('fails runs without overwriting the session when the load fails', async () => {
+    const save = jest.fn(async () => undefined);
+    const store: SessionStore = {
+      load: async () => { throw new Error('database unavailable'); },
+      save,
+      delete: async () => undefined,
+      list: async () => [],
+    };
+    const agent = new Agent({ name: 's', llm: new MockLLM([reply('ok')]), session: 'chat-1', sessionStore: store, log: false });
+
+    await expect(agent.input('hello')).rejects.toThrow('database unavailable');
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  it('resetConversation() saves in the background before the next run saves', async () => {
+    const saved: Record<string, SessionState> = {};
+    let saves = 0;
+    const store: SessionStore = {
+      load: async id => saved[id] ?? null,
+      // The reset's save is the slow one
+      save: (id, state) => new Promise(resolve => setTimeout(() => { saved[id] = state; resolve(); }, ++saves === 2 ? 30 : 0)),
+      delete: async id => { delete saved[id]; },
+      list: async () => Object.keys(saved),
+    };
+    const agent = new Agent({ name: 's', llm: new MockLLM([reply('one'), reply('two')]), session: 'chat-1', sessionStore: store, log: false });
+    await agent.input('first');
+
+    expect(agent.resetConversation()).toBeUndefined();
+    await agent.input('second');
+
+    expect(saved['chat-1'].turn).toBe(1);
+    expect(saved['chat-1'].messages!.map(m => m.content)).toContain('second');
+    expect(saved['chat-1'].messages!.map(m => m.content)).not.toContain('first');
+  });
+
+  it('rejects ids that escape the session directory', async () => {
+    const store = new FileSessionStore({ dir });
+    await expect(store.load('../secrets')).rejects.toThrow('Invalid session id');
+  });
+});
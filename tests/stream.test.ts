@@ -0,0 +1,232 @@
+/**
+ * Tests for Agent.stream() and provider stream() reassembly
+ */
+
+import { Agent } from '../src/core/agent';
+import { OpenAILLM, AnthropicLLM } from '../src/llm';
+import { AgentStreamEvent, LLM, LLMResponse, LLMStreamChunk, Message, FunctionSchema } from '../src/types';
+
+// Complete-only LLM: exercises the non-streaming fallback
+class CompleteOnlyLLM implements LLM {
+  private callCount = 0;
+  constructor(private responses: LLMResponse[]) {}
+
+  async complete(_messages: Message[], _tools?: FunctionSchema[]): Promise<LLMResponse> {
+    return this.responses[this.callCount++] || { content: 'Default response', toolCalls: [], rawResponse: {} };
+  }
+
+  async structuredComplete<T = any>(_messages: Message[], _schema: any): Promise<T> {
+    throw new Error('Not implemented');
+  }
+}
+
+// Streaming LLM that replays scripted chunk lists
+class ScriptedStreamLLM extends CompleteOnlyLLM {
+  private streamCount = 0;
+  constructor(private scripts: LLMStreamChunk[][]) { super([]); }
+
+  async *stream(_messages: Message[], _tools?: FunctionSchema[]): AsyncIterable<LLMStreamChunk> {
+    for (const chunk of this.scripts[this.streamCount++]) yield chunk;
+  }
+}
+
+async function collect(iter: AsyncIterable<AgentStreamEvent>): Promise<AgentStreamEvent[]> {
+  const events: AgentStreamEvent[] = [];
+  for await (const e of iter) events.push(e);
+  return events;
+}
+
+async function* fromArray<T>(items: T[]): AsyncIterable<T> {
+  for (const item of items) yield item;
+}
+
+describe('Agent.stream', () => {
+  it('yields text deltas from a streaming provider', async () => {
+    const llm = new ScriptedStreamLLM([[
+      { type: 'text_delta', delta: 'Hel' },
+      { type: 'text_delta', delta: 'lo' },
+      { type: 'response', response: { content: 'Hello', toolCalls: [], rawResponse: {} } },
+    ]]);
+    const agent = new Agent({ name: 'stream-agent', llm, log: false });
+
+    const events = await collect(agent.stream('hi'));
+
+    expect(events.map(e => e.type)).toEqual([
+      'iteration_start', 'text_delta', 'text_delta', 'iteration_end', 'complete',
+    ]);
+    expect(events[events.length - 1]).toEqual({ type: 'complete', content: 'Hello' });
+  });
+
+  it('falls back to complete() and reports tool calls and results', async () => {
+    function lookup(city: string): string {
+      return `sunny in ${city}`;
+    }
+    const llm = new CompleteOnlyLLM([
+      { content: null, toolCalls: [{ name: 'lookup', arguments: { city: 'NYC' }, id: 'call_1' }], rawResponse: {} },
+      { content: 'It is sunny', toolCalls: [], rawResponse: {} },
+    ]);
+    const agent = new Agent({ name: 'stream-agent', llm, tools: [lookup], log: false });
+
+    const events = await collect(agent.stream('weather?'));
+
+    expect(events.map(e => e.type)).toEqual([
+      'iteration_start', 'tool_call_start', 'tool_call_end', 'tool_result', 'iteration_end',
+      'iteration_start', 'text_delta', 'iteration_end', 'complete',
+    ]);
+    const result = events.find(e => e.type === 'tool_result');
+    expect(result).toMatchObject({ callId: 'call_1', name: 'lookup', iteration: 1 });
+    expect(result && result.type === 'tool_result' && result.result.result).toBe('sunny in NYC');
+  });
+
+  it('answers a call with unreadable arguments with an error instead of running it', async () => {
+    const calls: string[] = [];
+    function lookup(city: string): string {
+      calls.push(city);
+      return `sunny in ${city}`;
+    }
+    const llm = new ScriptedStreamLLM([
+      [{ type: 'response', response: {
+        content: null,
+        toolCalls: [{ name: 'lookup', arguments: {}, id: 'call_1', invalidArguments: 'Arguments are not valid JSON: Unexpected end of JSON input' }],
+        rawResponse: {},
+      } }],
+      [{ type: 'response', response: { content: 'Let me try again', toolCalls: [], rawResponse: {} } }],
+    ]);
+    const agent = new Agent({ name: 'stream-agent', llm, tools: [lookup], log: false });
+
+    const events = await collect(agent.stream('weather?'));
+
+    expect(calls).toEqual([]);
+    const result = events.find(e => e.type === 'tool_result');
+    expect(result && result.type === 'tool_result' && result.result).toMatchObject({
+      status: 'error',
+      error_type: 'InvalidArgumentsError',
+      error: "Arguments are not valid JSON: Unexpected end of JSON input. Call 'lookup' again with its arguments as a JSON object.",
+    });
+    expect(events[events.length - 1]).toEqual({ type: 'complete', content: 'Let me try again' });
+  });
+
+  it('shares conversation state with input()', async () => {
+    const llm = new CompleteOnlyLLM([
+      { content: 'first', toolCalls: [], rawResponse: {} },
+      { content: 'second', toolCalls: [], rawResponse: {} },
+    ]);
+    const agent = new Agent({ name: 'stream-agent', llm, log: false });
+
+    await collect(agent.stream('one'));
+    expect(await agent.input('two')).toBe('second');
+    expect(agent.getSession().messages.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'user', 'assistant']);
+  });
+});
+
+describe('provider stream reassembly', () => {
+  it('OpenAILLM joins indexed tool call argument fragments', async () => {
+    const llm = new OpenAILLM('test-key', 'gpt-4o-mini');
+    (llm as any).client = {
+      chat: {
+        completions: {
+          create: async () => fromArray([
+            { choices: [{ delta: { content: 'Checking' } }] },
+            { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_a', function: { name: 'lookup', arguments: '{"ci' } }] } }] },
+            { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'ty":"NYC"}' } }] } }] },
+          ]),
+        },
+      },
+    };
+
+    const chunks: LLMStreamChunk[] = [];
+    for await (const c of llm.stream([{ role: 'user', content: 'hi' }])) chunks.push(c);
+
+    expect(chunks.map(c => c.type)).toEqual(['text_delta', 'tool_call_start', 'tool_call_end', 'response']);
+    const last = chunks[chunks.length - 1];
+    expect(last.type === 'response' && last.response.toolCalls).toEqual([
+      { name: 'lookup', arguments: { city: 'NYC' }, id: 'call_a' },
+    ]);
+    expect(last.type === 'response' && last.response.content).toBe('Checking');
+  });
+
+  it('OpenAILLM marks truncated argument JSON instead of throwing', async () => {
+    const llm = new OpenAILLM('test-key', 'gpt-4o-mini');
+    (llm as any).client = {
+      chat: {
+        completions: {
+          create: async () => fromArray([
+            { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_a', function: { name: 'lookup', arguments: '{"city":"NY' } }] } }] },
+          ]),
+        },
+      },
+    };
+
+    const chunks: LLMStreamChunk[] = [];
+    for await (const c of llm.stream([{ role: 'user', content: 'hi' }])) chunks.push(c);
+
+    const last = chunks[chunks.length - 1];
+    expect(last.type === 'response' && last.response.toolCalls).toEqual([
+      { name: 'lookup', arguments: {}, id: 'call_a', invalidArguments: expect.stringMatching(/^Arguments are not valid JSON/) },
+    ]);
+  });
+
+  it('OpenAILLM asks for stream usage only without a baseURL', async () => {
+    const sent: any[] = [];
+    const create = async (params: any) => { sent.push(params); return fromArray([{ choices: [{ delta: { content: 'ok' } }] }]); };
+    const official = new OpenAILLM('test-key', 'gpt-4o-mini');
+    const compatible = new OpenAILLM('test-key', 'llama3', { baseURL: 'http://localhost:11434/v1' });
+    for (const llm of [official, compatible]) {
+      (llm as any).client = { chat: { completions: { create } } };
+      for await (const _chunk of llm.stream([{ role: 'user', content: 'hi' }])) { /* drain */ }
+    }
+
+    expect(sent[0].stream_options).toEqual({ include_usage: true });
+    expect(sent[1]).not.toHaveProperty('stream_options');
+  });
+
+  it('OpenAILLM streams again without usage when the server rejects stream_options', async () => {
+    const llm = new OpenAILLM('test-key', 'gpt-4o-mini');
+    const sent: any[] = [];
+    (llm as any).client = {
+      chat: {
+        completions: {
+          create: async (params: any) => {
+            sent.push(params);
+            if (params.stream_options) throw Object.assign(new Error('Unrecognized request argument: stream_options'), { status: 400 });
+            return fromArray([{ choices: [{ delta: { content: 'ok' } }] }]);
+          },
+        },
+      },
+    };
+
+    const chunks: LLMStreamChunk[] = [];
+    for await (const c of llm.stream([{ role: 'user', content: 'hi' }])) chunks.push(c);
+    for await (const _chunk of llm.stream([{ role: 'user', content: 'again' }])) { /* drain */ }
+
+    const last = chunks[chunks.length - 1];
+    expect(last.type === 'response' && last.response).toMatchObject({ content: 'ok', usage: undefined });
+    expect(sent.map(params => 'stream_options' in params)).toEqual([true, false, false]);
+  });
+
+  it('AnthropicLLM accumulates input_json_delta per content block', async () => {
+    const llm = new AnthropicLLM('test-key');
+    (llm as any).client = {
+      messages: {
+        create: async () => fromArray([
+          { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+          { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'On it' } },
+          { type: 'content_block_stop', index: 0 },
+          { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'tu_1', name: 'lookup', input: {} } },
+          { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"city":' } },
+          { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"Paris"}' } },
+          { type: 'content_block_stop', index: 1 },
+        ]),
+      },
+    };
+
+    const chunks: LLMStreamChunk[] = [];
+    for await (const c of llm.stream([{ role: 'user', content: 'hi' }])) chunks.push(c);
+
+    const last = chunks[chunks.length - 1];
+    expect(last.type === 'response' && last.response.content).toBe('On it');
+    expect(last.type === 'response' && last.response.toolCalls).toEqual([
+      { name: 'lookup', arguments: { city: 'Paris' }, id: 'tu_1' },
+    ]);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Tests for structured final output: agent.input(prompt, { schema }) and agent.run<T>()
+ */
+
+import { Agent } from '../src/core/agent';
+import { SchemaValidationError, extractJson, validateSchema } from '../src/core/schema';
+import { LLM, LLMResponse, Message, FunctionSchema } from '../src/types';
+
+class MockLLM implements LLM {
+  private callCount = 0;
+  private structuredCount = 0;
+  structuredCalls: Message[][] = [];
+
+  constructor(private responses: LLMResponse[], private structured: any[] = []) {}
+
+  async complete(_messages: Message[], _tools?: FunctionSchema[]): Promise<LLMResponse> {
+    return this.responses[this.callCount++] || { content: 'done', toolCalls: [], rawResponse: {} };
+  }
+
+  async structuredComplete<T = any>(messages: Message[], _schema: any): Promise<T> {
+    this.structuredCalls.push(messages);
+    const next = this.structured[this.structuredCount++];
+    if (next instanceof Error) throw next;
+    return next as T;
+  }
+}
+
+const orderSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    total: { type: 'number', minimum: 0 },
+    items: { type: 'array', items: { type: 'string' }, minItems: 1 },
+  },
+  required: ['id', 'total'],
+  additionalProperties: false,
+};
+
+describe('validateSchema', () => {
+  it('accepts a matching value', () => {
+    expect(validateSchema({ id: 'a', total: 3, items: ['x'] }, orderSchema)).toEqual([]);
+  });
+
+  it('reports errors with JSON paths', () => {
+    expect(validateSchema({ total: -1, items: [1], extra: true }, orderSchema)).toEqual([
+      '$.id: is required',
+      '$.total: less than 0',
+      '$.items[0]: expected string, got number',
+      '$.extra: is not allowed',
+    ]);
+  });
+
+  it('handles enum, integer, nullable types and anyOf', () => {
+    expect(validateSchema('red', { enum: ['red', 'green'] })).toEqual([]);
+    expect(validateSchema(1.5, { type: 'integer' })).toEqual(['$: expected integer, got number']);
+    expect(validateSchema(null, { type: ['string', 'null'] })).toEqual([]);
+    expect(validateSchema(true, { anyOf: [{ type: 'string' }, { type: 'number' }] })).toEqual([
+      '$: does not match any allowed schema',
+    ]);
+  });
+});
+
+describe('extractJson', () => {
+  it('reads fenced and embedded JSON', () => {
+    expect(extractJson('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(extractJson('Here you go: {"a": [1, 2]} hope that helps')).toEqual({ a: [1, 2] });
+    expect(extractJson('no json here')).toBeUndefined();
+  });
+});
+
+describe('Agent structured output', () => {
+  it('runs the tool loop, then returns the structured answer', async () => {
+    const llm = new MockLLM(
+      [
+        { content: null, toolCalls: [{ name: 'lookup', arguments: { id: '42' }, id: 'call_1' }], rawResponse: {} },
+        { content: 'Order 42 costs $19.50 and contains a lamp.', toolCalls: [], rawResponse: {} },
+      ],
+      [{ id: '42', total: 19.5, items: ['lamp'] }]
+    );
+    const lookup = function lookup(id: string) { return `order ${id}: lamp, 19.50`; };
+    const agent = new Agent({ name: 'orders', llm, tools: [lookup], log: false });
+
+    const order = await agent.input<{ id: string; total: number }>('Find order 42', { schema: orderSchema });
+
+    expect(order).toEqual({ id: '42', total: 19.5, items: ['lamp'] });
+    expect(agent.getSession().trace.map(t => t.tool_name)).toEqual(['lookup']);
+    // The structured call sees the whole conversation; nothing is added to it
+    expect(llm.structuredCalls[0].some(m => m.role === 'tool')).toBe(true);
+    expect(agent.getSession().messages.filter(m => m.role === 'user')).toHaveLength(1);
+  });
+
+  it('uses the final answer directly when it already matches', async () => {
+    const llm = new MockLLM([{ content: '```json\n{"id":"7","total":1}\n```', toolCalls: [], rawResponse: {} }]);
+    const agent = new Agent({ name: 'orders', llm, log: false });
+
+    const result = await agent.run<{ id: string; total: number }>('Order 7?', { schema: orderSchema });
+
+    expect(result.status).toBe('completed');
+    expect(result.output).toEqual({ id: '7', total: 1 });
+    expect(llm.structuredCalls).toHaveLength(0);
+  });
+
+  it('re-asks with the validation errors until the answer is valid', async () => {
+    const llm = new MockLLM(
+      [{ content: 'It is order 9.', toolCalls: [], rawResponse: {} }],
+      [{ id: 9 }, new Error('Failed to parse structured JSON'), { id: '9', total: 5 }]
+    );
+    const agent = new Agent({ name: 'orders', llm, log: false });
+
+    const order = await agent.input('Order 9?', { schema: orderSchema });
+
+    expect(order).toEqual({ id: '9', total: 5 });
+    expect(llm.structuredCalls).toHaveLength(3);
+    const secondAsk = llm.structuredCalls[1].slice(-1)[0].content;
+    expect(secondAsk).toContain('$.id: expected string, got number');
+    expect(secondAsk).toContain('$.total: is required');
+    expect(llm.structuredCalls[2].slice(-1)[0].content).toContain('was not valid JSON');
+  });
+
+  it('fails with SchemaValidationError once the re-asks run out', async () => {
+    const llm = new MockLLM(
+      [{ content: 'No idea.', toolCalls: [], rawResponse: {} }],
+      [{ id: 1 }, { id: 2 }]
+    );
+    const agent = new Agent({ name: 'orders', llm, log: false });
+
+    const result = await agent.run('Order?', { schema: orderSchema, schemaRetries: 1 });
+
+    expect(result.status).toBe('error');
+    expect(result.error).toBeInstanceOf(SchemaValidationError);
+    expect((result.error as SchemaValidationError).value).toEqual({ id: 2 });
+    expect(result.text).toBe('');
+  });
+
+  it('puts the output on the stream complete event', async () => {
+    const llm = new MockLLM([{ content: 'ok', toolCalls: [], rawResponse: {} }], [{ id: '1', total: 2 }]);
+    const agent = new Agent({ name: 'orders', llm, log: false });
+
+    const events = [];
+    for await (const event of agent.stream('Order?', { schema: orderSchema })) events.push(event);
+
+    expect(events[events.length - 1]).toEqual({ type: 'complete', content: 'ok', output: { id: '1', total: 2 } });
+  });
+});
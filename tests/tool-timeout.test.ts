@@ -0,0 +1,177 @@
+/**
+ * Tests for per-tool timeouts and retry policies
+ */
+
+import { Agent } from '../src/core/agent';
+import { executeSingleTool, isRetryable, retryDelay, ToolTimeoutError } from '../src/tools/tool-executor';
+import { createToolFromFunction, withToolOptions } from '../src/tools/tool-utils';
+import { Console } from '../src/console';
+import { LLM, LLMResponse, Message, FunctionSchema, ToolContext } from '../src/types';
+
+class MockLLM implements LLM {
+  private callCount = 0;
+
+  constructor(private responses: LLMResponse[]) {}
+
+  async complete(_messages: Message[], _tools?: FunctionSchema[]): Promise<LLMResponse> {
+    return this.responses[this.callCount++] || { content: 'done', toolCalls: [], rawResponse: {} };
+  }
+
+  async structuredComplete<T = any>(_messages: Message[], _schema: any): Promise<T> {
+    throw new Error('Not implemented in MockLLM');
+  }
+}
+
+function callTool(name: string): LLMResponse {
+  return { content: null, toolCalls: [{ name, arguments: {}, id: 'call_1' }], rawResponse: {} };
+}
+
+function toolMessage(agent: Agent) {
+  const message = agent.getSession().messages.find(m => m.role === 'tool');
+  return JSON.parse(message!.content);
+}
+
+class FlakyError extends Error {
+  constructor() {
+    super('flaky');
+    this.name = 'FlakyError';
+  }
+}
+
+describe('executeSingleTool timeout', () => {
+  it('records a ToolTimeoutError and fires the tool context signal', async () => {
+    let contextSignal: AbortSignal | undefined;
+    const slow = {
+      ...createToolFromFunction(function slow() { return ''; }),
+      run: (_args: Record<string, any>, context?: ToolContext) => {
+        contextSignal = context?.signal;
+        return new Promise(resolve => setTimeout(() => resolve('late'), 200));
+      },
+    };
+    const toolMap = new Map([['slow', slow]]);
+
+    const entry = await executeSingleTool('slow', {}, 'c1', toolMap, {}, new Console(), undefined, 20);
+
+    expect(entry.status).toBe('error');
+    expect(entry.error_type).toBe('ToolTimeoutError');
+    expect(entry.error).toBe("Tool 'slow' timed out after 20ms");
+    expect(contextSignal?.aborted).toBe(true);
+  });
+
+  it('leaves fast tools alone', async () => {
+    const fast = createToolFromFunction(function fast() { return 'ok'; });
+    const entry = await executeSingleTool('fast', {}, 'c1', new Map([['fast', fast]]), {}, new Console(), undefined, 1000);
+
+    expect(entry.status).toBe('success');
+    expect(entry.result).toBe('ok');
+  });
+});
+
+describe('retry helpers', () => {
+  it('computes backoff delays', () => {
+    expect(retryDelay({ backoff: 'none' }, 3)).toBe(0);
+    expect(retryDelay({ backoff: 'fixed', delayMs: 50 }, 3)).toBe(50);
+    expect(retryDelay({ delayMs: 100 }, 3)).toBe(400);
+    expect(retryDelay({ delayMs: 100, maxDelayMs: 250 }, 3)).toBe(250);
+    expect(retryDelay({ backoff: attempt => attempt * 7 }, 2)).toBe(14);
+  });
+
+  it('matches retryOn by class or class name', () => {
+    expect(isRetryable('FlakyError')).toBe(true);
+    expect(isRetryable('FlakyError', [FlakyError])).toBe(true);
+    expect(isRetryable('ToolTimeoutError', [ToolTimeoutError])).toBe(true);
+    expect(isRetryable('TypeError', ['FlakyError', ToolTimeoutError])).toBe(false);
+  });
+});
+
+describe('Agent tool timeouts and retries', () => {
+  it('reports a timeout to the LLM as a ToolResult error', async () => {
+    const hang = withToolOptions(function hang() { return new Promise(resolve => setTimeout(resolve, 200)); }, { timeout: 20 });
+    const agent = new Agent({ name: 'timeouts', llm: new MockLLM([callTool('hang')]), tools: [hang], log: false });
+
+    const result = await agent.run('go');
+
+    expect(toolMessage(agent)).toEqual({ status: 'error', error: "Tool 'hang' timed out after 20ms", error_type: 'ToolTimeoutError' });
+    expect(result.trace[0].error_type).toBe('ToolTimeoutError');
+  });
+
+  it('applies AgentConfig.toolTimeout to tools without their own', async () => {
+    const hang = function hang() { return new Promise(resolve => setTimeout(resolve, 200)); };
+    const agent = new Agent({ name: 'timeouts', llm: new MockLLM([callTool('hang')]), tools: [hang], toolTimeout: 20, log: false });
+
+    const result = await agent.run('go');
+
+    expect(result.trace[0].error_type).toBe('ToolTimeoutError');
+  });
+
+  it('retries with backoff until the tool succeeds', async () => {
+    let attempts = 0;
+    const started: number[] = [];
+    const flaky = withToolOptions(function flaky() {
+      started.push(Date.now());
+      if (++attempts < 3) throw new FlakyError();
+      return 'ok';
+    }, { retry: { retries: 3, backoff: 'fixed', delayMs: 30 } });
+    const agent = new Agent({ name: 'retry', llm: new MockLLM([callTool('flaky')]), tools: [flaky], log: false });
+
+    const result = await agent.run('go');
+
+    expect(attempts).toBe(3);
+    expect(result.trace.map(t => t.status)).toEqual(['error', 'error', 'success']);
+    expect(started[1] - started[0]).toBeGreaterThanOrEqual(25);
+    expect(toolMessage(agent)).toEqual({ status: 'success', result: 'ok' });
+  });
+
+  it('does not retry errors outside retryOn', async () => {
+    let attempts = 0;
+    const broken = function broken() { attempts++; throw new TypeError('bad input'); };
+    const agent = new Agent({
+      name: 'retry',
+      llm: new MockLLM([callTool('broken')]),
+      tools: [broken],
+      toolRetry: { retries: 2, backoff: 'none', retryOn: [FlakyError] },
+      log: false,
+    });
+
+    await agent.run('go');
+
+    expect(attempts).toBe(1);
+  });
+
+  it('lets tool retry fields override the agent default', async () => {
+    let attempts = 0;
+    const failing = withToolOptions(function failing() { attempts++; throw new Error('nope'); }, { retry: { retries: 0 } });
+    const agent = new Agent({
+      name: 'retry',
+      llm: new MockLLM([callTool('failing')]),
+      tools: [failing],
+      toolRetry: { retries: 3, backoff: 'none' },
+      log: false,
+    });
+
+    await agent.run('go');
+
+    expect(attempts).toBe(1);
+  });
+
+  it('stops waiting for a retry when the run is cancelled', async () => {
+    let attempts = 0;
+    const failing = function failing() { attempts++; throw new Error('nope'); };
+    const controller = new AbortController();
+    const agent = new Agent({
+      name: 'retry',
+      llm: new MockLLM([callTool('failing')]),
+      tools: [failing],
+      toolRetry: { retries: 2, backoff: 'fixed', delayMs: 5_000 },
+      log: false,
+    });
+
+    setTimeout(() => controller.abort(), 20);
+    const started = Date.now();
+    const result = await agent.run('go', { signal: controller.signal });
+
+    expect(result.status).toBe('cancelled');
+    expect(attempts).toBe(1);
+    expect(Date.now() - started).toBeLessThan(1_000);
+  });
+});
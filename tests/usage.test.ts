@@ -0,0 +1,134 @@
+/**
+ * Tests for token usage normalization and cost accounting
+ */
+
+import { Agent } from '../src/core/agent';
+import { OpenAILLM, AnthropicLLM, GeminiLLM } from '../src/llm';
+import { calculateCost } from '../src/llm/usage';
+import { LLM, LLMResponse, LLMStreamChunk, Message, FunctionSchema, TokenUsage } from '../src/types';
+
+class MockLLM implements LLM {
+  private callCount = 0;
+
+  constructor(public model: string, private responses: LLMResponse[]) {}
+
+  async complete(_messages: Message[], _tools?: FunctionSchema[]): Promise<LLMResponse> {
+    return this.responses[this.callCount++] || { content: 'Default response', toolCalls: [], rawResponse: {} };
+  }
+
+  async structuredComplete<T = any>(_messages: Message[], _schema: any): Promise<T> {
+    throw new Error('Not implemented in MockLLM');
+  }
+}
+
+function usage(input: number, output: number, cached = 0): TokenUsage {
+  return { input_tokens: input, output_tokens: output, cached_tokens: cached, reasoning_tokens: 0, total_tokens: input + output };
+}
+
+async function* fromArray<T>(items: T[]): AsyncIterable<T> {
+  for (const item of items) yield item;
+}
+
+describe('calculateCost', () => {
+  it('prices cached input separately and matches model prefixes', () => {
+    const prices = { 'gpt-4o': { input: 2, output: 10, cached_input: 1 } };
+
+    expect(calculateCost('gpt-4o-2024-08-06', usage(1_000_000, 100_000, 400_000), prices)).toBeCloseTo(0.6 * 2 + 0.4 * 1 + 0.1 * 10);
+    expect(calculateCost('co/gpt-4o', usage(1_000_000, 0), prices)).toBeCloseTo(2);
+    expect(calculateCost('unknown-model', usage(1_000, 1_000), prices)).toBe(0);
+  });
+});
+
+describe('provider usage normalization', () => {
+  it('OpenAILLM reads cached and reasoning token details', async () => {
+    const llm = new OpenAILLM('test-key', 'o4-mini');
+    (llm as any).client = {
+      chat: {
+        completions: {
+          create: async () => ({
+            choices: [{ message: { content: 'ok' } }],
+            usage: {
+              prompt_tokens: 100, completion_tokens: 50, total_tokens: 150,
+              prompt_tokens_details: { cached_tokens: 20 },
+              completion_tokens_details: { reasoning_tokens: 30 },
+            },
+          }),
+        },
+      },
+    };
+
+    const response = await llm.complete([{ role: 'user', content: 'hi' }]);
+
+    expect(response.usage).toEqual({ input_tokens: 100, output_tokens: 50, cached_tokens: 20, reasoning_tokens: 30, total_tokens: 150 });
+  });
+
+  it('AnthropicLLM folds cache tokens into input and reads streamed usage', async () => {
+    const llm = new AnthropicLLM('test-key');
+    (llm as any).client = {
+      messages: {
+        create: async () => fromArray([
+          { type: 'message_start', message: { usage: { input_tokens: 10, cache_read_input_tokens: 90, output_tokens: 1 } } },
+          { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+          { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hi' } },
+          { type: 'content_block_stop', index: 0 },
+          { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 25 } },
+        ]),
+      },
+    };
+
+    const chunks: LLMStreamChunk[] = [];
+    for await (const c of llm.stream([{ role: 'user', content: 'hi' }])) chunks.push(c);
+
+    const last = chunks[chunks.length - 1];
+    expect(last.type === 'response' && last.response.usage).toEqual({
+      input_tokens: 100, output_tokens: 25, cached_tokens: 90, reasoning_tokens: 0, total_tokens: 125,
+    });
+  });
+
+  it('GeminiLLM counts thoughts as reasoning output', async () => {
+    const llm = new GeminiLLM('test-key', 'gemini-2.5-flash');
+    (llm as any).client = {
+      generateContent: async () => ({
+        response: {
+          text: () => 'ok',
+          candidates: [{ content: { parts: [{ text: 'ok' }] } }],
+          usageMetadata: { promptTokenCount: 40, candidatesTokenCount: 10, thoughtsTokenCount: 5, totalTokenCount: 55 },
+        },
+      }),
+    };
+
+    const response = await llm.complete([{ role: 'user', content: 'hi' }]);
+
+    expect(response.usage).toEqual({ input_tokens: 40, output_tokens: 15, cached_tokens: 0, reasoning_tokens: 5, total_tokens: 55 });
+  });
+});
+
+describe('Agent usage accounting', () => {
+  it('aggregates usage per input and across the session with a custom price table', async () => {
+    const llm = new MockLLM('my-model', [
+      { content: null, toolCalls: [{ name: 'noop', arguments: {}, id: 'call_1' }], rawResponse: {}, usage: usage(1_000, 100) },
+      { content: 'first', toolCalls: [], rawResponse: {}, usage: usage(2_000, 200) },
+      { content: 'second', toolCalls: [], rawResponse: {}, usage: usage(500, 50) },
+    ]);
+    function noop(): string { return 'ok'; }
+    const agent = new Agent({ name: 'usage', llm, tools: [noop], prices: { 'my-model': { input: 1, output: 2 } }, log: false });
+
+    await agent.input('one');
+    expect(agent.getUsage().last_input).toMatchObject({ input_tokens: 3_000, output_tokens: 300, total_tokens: 3_300 });
+    expect(agent.getUsage().last_input.cost).toBeCloseTo((3_000 * 1 + 300 * 2) / 1_000_000);
+
+    await agent.input('two');
+    const { last_input, session } = agent.getUsage();
+    expect(last_input.total_tokens).toBe(550);
+    expect(session.total_tokens).toBe(3_850);
+    expect(agent.getSession().usage.total_tokens).toBe(3_850);
+  });
+
+  it('leaves totals at zero when the provider reports no usage', async () => {
+    const agent = new Agent({ name: 'usage', llm: new MockLLM('x', [{ content: 'hi', toolCalls: [], rawResponse: {} }]), log: false });
+
+    await agent.input('go');
+
+    expect(agent.getUsage().session).toEqual({ input_tokens: 0, output_tokens: 0, cached_tokens: 0, reasoning_tokens: 0, total_tokens: 0, cost: 0 });
+  });
+});